@@ -15,8 +15,13 @@ import Categories from "./pages/Categories";
 import Sizes from "./pages/Sizes";
 import Colors from "./pages/Colors";
 import Invoices from "./pages/Invoices";
+import Purchases from "./pages/Purchases";
+import Customers from "./pages/Customers";
+import Receivables from "./pages/Receivables";
+import POS from "./pages/POS";
 import Trending from "./pages/Trending";
 import Profits from "./pages/Profits";
+import StockAgeing from "./pages/StockAgeing";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
@@ -93,6 +98,44 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/pos"
+              element={
+                <ProtectedRoute permission="createInvoices">
+                  <POS />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/customers"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <Customers />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/receivables"
+              element={
+                <ProtectedRoute>
+                  <AppLayout>
+                    <Receivables />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/purchases"
+              element={
+                <ProtectedRoute permission="managePurchases">
+                  <AppLayout>
+                    <Purchases />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/trending"
               element={
@@ -106,17 +149,27 @@ const App = () => (
             <Route
               path="/profits"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute permission="viewProfits">
                   <AppLayout>
                     <Profits />
                   </AppLayout>
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/stock-ageing"
+              element={
+                <ProtectedRoute permission="viewCostPrices">
+                  <AppLayout>
+                    <StockAgeing />
+                  </AppLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/settings"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute permission="manageSettings">
                   <AppLayout>
                     <Settings />
                   </AppLayout>
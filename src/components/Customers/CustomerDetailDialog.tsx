@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { format } from "date-fns";
+import { variantLabel } from "@/lib/inventory";
+import { PaymentStatusBadge } from "@/components/Invoices/PaymentStatusBadge";
+
+interface CustomerDetailDialogProps {
+  customer: Tables<"customer_summaries"> | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CustomerDetailDialog({ customer, open, onOpenChange }: CustomerDetailDialogProps) {
+  const { data: invoices, isLoading } = useQuery({
+    queryKey: ["customer-invoices", customer?.id],
+    queryFn: async () => {
+      if (!customer?.id) return [];
+      const { data, error } = await supabase
+        .from("invoices")
+        .select("*, invoice_items(*)")
+        .eq("customer_id", customer.id)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!customer?.id,
+  });
+
+  if (!customer) return null;
+
+  const stats = [
+    { label: "Visits", value: customer.visits.toString() },
+    { label: "Total Spend", value: `₹${Number(customer.total_spend).toFixed(2)}` },
+    {
+      label: "Last Purchase",
+      value: customer.last_purchase_at ? format(new Date(customer.last_purchase_at), "PP") : "-",
+    },
+    { label: "Outstanding", value: `₹${Number(customer.outstanding_amount).toFixed(2)}` },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>
+            {customer.name}
+            {customer.phone && <span className="ml-2 text-sm font-normal text-muted-foreground">{customer.phone}</span>}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-4 gap-3">
+          {stats.map((stat) => (
+            <Card key={stat.label}>
+              <CardHeader className="pb-1">
+                <CardTitle className="text-xs font-medium text-muted-foreground">{stat.label}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-lg font-bold">{stat.value}</CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {customer.notes && <p className="text-sm text-muted-foreground">{customer.notes}</p>}
+
+        <ScrollArea className="max-h-[calc(90vh-280px)] pr-4">
+          {isLoading ? (
+            <div className="text-sm text-muted-foreground py-4">Loading purchases...</div>
+          ) : invoices?.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No purchases yet</div>
+          ) : (
+            <div className="space-y-3">
+              {invoices?.map((invoice) => (
+                <div key={invoice.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="font-medium">{invoice.invoice_number}</span>
+                      <span className="ml-2 text-sm text-muted-foreground">
+                        {format(new Date(invoice.created_at), "PP")}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <PaymentStatusBadge invoice={invoice} className="py-0.5" />
+                      <span className="font-semibold">₹{Number(invoice.grand_total).toFixed(2)}</span>
+                    </div>
+                  </div>
+                  <ul className="text-sm text-muted-foreground space-y-0.5">
+                    {invoice.invoice_items.map((item) => (
+                      <li key={item.id} className="flex justify-between">
+                        <span>
+                          {item.quantity} × {item.product_name}
+                          {(item.size_name || item.color_name) && ` (${variantLabel(item.size_name, item.color_name)})`}
+                          {item.quantity_returned > 0 && ` · ${item.quantity_returned} returned`}
+                        </span>
+                        <span>₹{Number(item.total_price).toFixed(2)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { normalizePhone } from "@/lib/customers";
+
+interface CustomerDialogProps {
+  customer: Tables<"customer_summaries"> | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = {
+  name: "",
+  phone: "",
+  email: "",
+  address: "",
+  notes: "",
+};
+
+export function CustomerDialog({ customer, open, onOpenChange }: CustomerDialogProps) {
+  const [form, setForm] = useState(emptyForm);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      customer
+        ? {
+            name: customer.name || "",
+            phone: customer.phone || "",
+            email: customer.email || "",
+            address: customer.address || "",
+            notes: customer.notes || "",
+          }
+        : emptyForm
+    );
+  }, [open, customer]);
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!form.name.trim()) throw new Error("Customer name is required");
+      if (form.phone && normalizePhone(form.phone).length < 10) {
+        throw new Error("Enter a 10 digit phone number");
+      }
+
+      const customerData = {
+        name: form.name.trim(),
+        phone: form.phone || null,
+        email: form.email || null,
+        address: form.address || null,
+        notes: form.notes || null,
+      };
+
+      if (customer) {
+        const { error } = await supabase
+          .from("customers")
+          .update({ ...customerData, updated_at: new Date().toISOString() })
+          .eq("id", customer.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("customers").insert(customerData);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success(customer ? "Customer updated" : "Customer added");
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      console.error("Save customer error:", error);
+      toast.error(
+        error.message.includes("customers_phone_key")
+          ? "Another customer already has this phone number"
+          : `Failed to save customer: ${error.message}`
+      );
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{customer ? "Edit Customer" : "Add Customer"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="customerFormName">Name *</Label>
+              <Input id="customerFormName" value={form.name} onChange={(e) => updateField("name", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="customerFormPhone">Phone</Label>
+              <Input id="customerFormPhone" value={form.phone} onChange={(e) => updateField("phone", e.target.value)} />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="customerFormEmail">Email</Label>
+              <Input
+                id="customerFormEmail"
+                type="email"
+                value={form.email}
+                onChange={(e) => updateField("email", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="customerFormAddress">Address</Label>
+            <Textarea id="customerFormAddress" value={form.address} onChange={(e) => updateField("address", e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="customerFormNotes">Notes</Label>
+            <Textarea
+              id="customerFormNotes"
+              value={form.notes}
+              onChange={(e) => updateField("notes", e.target.value)}
+              placeholder="e.g. Prefers slim fit, birthday in March"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {customer ? "Update" : "Add"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
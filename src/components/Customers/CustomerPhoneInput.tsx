@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Input } from "@/components/ui/input";
+import { format } from "date-fns";
+import { normalizePhone } from "@/lib/customers";
+
+interface CustomerPhoneInputProps {
+  id?: string;
+  value: string;
+  onChange: (phone: string) => void;
+  onSelectCustomer: (customer: Tables<"customer_summaries">) => void;
+}
+
+// Phone field that suggests existing customers as the number is typed
+export function CustomerPhoneInput({ id, value, onChange, onSelectCustomer }: CustomerPhoneInputProps) {
+  const [focused, setFocused] = useState(false);
+
+  const { data: customers } = useQuery({
+    queryKey: ["customers"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("customer_summaries").select("*").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const digits = normalizePhone(value);
+  const matches = digits.length >= 3
+    ? (customers || []).filter((customer) => customer.phone?.includes(digits)).slice(0, 5)
+    : [];
+  const exactMatch = matches.find((customer) => customer.phone === digits);
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={() => setFocused(true)}
+        // Delay so a click on a suggestion registers before the list closes
+        onBlur={() => setTimeout(() => setFocused(false), 150)}
+        placeholder="Optional"
+        autoComplete="off"
+      />
+      {focused && matches.length > 0 && !exactMatch && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover shadow-md">
+          {matches.map((customer) => (
+            <button
+              key={customer.id}
+              type="button"
+              className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-accent"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onSelectCustomer(customer);
+                setFocused(false);
+              }}
+            >
+              <span>
+                <span className="font-medium">{customer.name}</span>
+                <span className="text-muted-foreground"> · {customer.phone}</span>
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {customer.visits} visit{customer.visits !== 1 ? "s" : ""}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+      {exactMatch && (
+        <p className="mt-1 text-xs text-muted-foreground">
+          Returning customer · {exactMatch.visits} visit{exactMatch.visits !== 1 ? "s" : ""}
+          {exactMatch.last_purchase_at && `, last on ${format(new Date(exactMatch.last_purchase_at), "PP")}`}
+          {Number(exactMatch.outstanding_amount) > 0 && ` · ₹${Number(exactMatch.outstanding_amount).toFixed(2)} due`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -23,11 +23,12 @@ export const LowStockProducts = () => {
   const { data: lowStockProducts, isLoading } = useQuery({
     queryKey: ['low-stock-products', lowStockThreshold],
     queryFn: async () => {
+      // One row per size/color variant, so "M / Black" shows up even when the product total looks fine
       const { data, error } = await supabase
-        .from('products')
+        .from('product_stock_levels')
         .select('*')
-        .lte('quantity_in_stock', lowStockThreshold)
-        .order('quantity_in_stock', { ascending: true })
+        .lte('quantity', lowStockThreshold)
+        .order('quantity', { ascending: true })
         .limit(10);
 
       if (error) throw error;
@@ -84,16 +85,21 @@ export const LowStockProducts = () => {
               className="flex items-center justify-between p-3 border rounded-lg hover:bg-accent/50 transition-colors"
             >
               <div className="flex-1">
-                <p className="font-medium">{product.name}</p>
+                <p className="font-medium">{product.product_name}</p>
+                {(product.size_name || product.color_name) && (
+                  <p className="text-xs text-muted-foreground">
+                    {[product.size_name, product.color_name].filter(Boolean).join(' / ')}
+                  </p>
+                )}
                 {product.sku && (
                   <p className="text-xs text-muted-foreground">SKU: {product.sku}</p>
                 )}
               </div>
               <Badge
-                variant={product.quantity_in_stock === 0 ? "destructive" : "secondary"}
+                variant={product.quantity === 0 ? "destructive" : "secondary"}
                 className="ml-2"
               >
-                {product.quantity_in_stock} left
+                {product.quantity} left
               </Badge>
             </div>
           ))}
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DateRange,
+  SalesBreakdownGroup,
+  SalesBreakdownRow,
+  fetchSalesBreakdown,
+  marginPercent,
+  recommendedSizeRatio,
+  sellThroughRate,
+} from "@/lib/analytics";
+
+const groupLabels: Record<SalesBreakdownGroup, string> = {
+  category: "Category",
+  size: "Size",
+  color: "Color",
+  product_size: "Product × Size",
+};
+
+const noGroupLabels: Record<SalesBreakdownGroup, string> = {
+  category: "Uncategorised",
+  size: "No size",
+  color: "No color",
+  product_size: "No size",
+};
+
+const packSize = 12;
+
+const formatPercent = (value: number | null) => (value === null ? "-" : `${value.toFixed(1)}%`);
+
+// Smallest size first, with products that have no size last
+const bySize = (a: SalesBreakdownRow, b: SalesBreakdownRow) =>
+  (a.group === null ? 1 : 0) - (b.group === null ? 1 : 0) ||
+  (a.sizeSortOrder ?? Number.MAX_SAFE_INTEGER) - (b.sizeSortOrder ?? Number.MAX_SAFE_INTEGER) ||
+  (a.group || "").localeCompare(b.group || "");
+
+interface SalesBreakdownProps {
+  range: DateRange;
+  showMargin: boolean;
+}
+
+export function SalesBreakdown({ range, showMargin }: SalesBreakdownProps) {
+  const [group, setGroup] = useState<SalesBreakdownGroup>("category");
+
+  const { data: rows, isLoading } = useQuery({
+    queryKey: ["sales-breakdown", group, range.start, range.end],
+    queryFn: () => fetchSalesBreakdown(range.start, range.end, group),
+  });
+
+  const renderTable = () => {
+    if (!rows || rows.length === 0) {
+      return <div className="text-center py-8 text-muted-foreground">No sales or stock to break down</div>;
+    }
+
+    const sorted = group === "size" ? [...rows].sort(bySize) : rows;
+    const ratio = group === "size"
+      ? recommendedSizeRatio(
+          sorted.filter((row) => row.group !== null).map((row) => ({ size: row.group as string, units: row.units })),
+          packSize
+        )
+      : [];
+
+    return (
+      <div className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{groupLabels[group]}</TableHead>
+              <TableHead className="text-right">Units Sold</TableHead>
+              <TableHead className="text-right">Revenue</TableHead>
+              {showMargin && <TableHead className="text-right">Margin</TableHead>}
+              <TableHead className="text-right">In Stock</TableHead>
+              <TableHead className="text-right">Sell-through</TableHead>
+              {group === "size" && <TableHead className="text-right">Share of Units</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map((row) => (
+              <TableRow key={row.group ?? ""}>
+                <TableCell className="font-medium">{row.group ?? noGroupLabels[group]}</TableCell>
+                <TableCell className="text-right">{row.units}</TableCell>
+                <TableCell className="text-right">₹{row.revenue.toFixed(2)}</TableCell>
+                {showMargin && <TableCell className="text-right">{formatPercent(marginPercent(row))}</TableCell>}
+                <TableCell className="text-right">{row.stock}</TableCell>
+                <TableCell className="text-right">{formatPercent(sellThroughRate(row))}</TableCell>
+                {group === "size" && (
+                  <TableCell className="text-right">
+                    {formatPercent(ratio.find((r) => r.size === row.group)?.share ?? null)}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {ratio.length > 0 && (
+          <div className="rounded-md border p-3 text-sm">
+            <span className="font-medium">Recommended reorder ratio per {packSize} pieces: </span>
+            {ratio.map((r) => `${r.size} ${r.pieces}`).join(" · ")}
+            <p className="text-xs text-muted-foreground">
+              In proportion to the units each size sold in this period
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderHeatmap = () => {
+    if (!rows || rows.length === 0) {
+      return <div className="text-center py-8 text-muted-foreground">No sales in this period</div>;
+    }
+
+    const sizes = Array.from(
+      new Map([...rows].sort(bySize).map((row) => [row.group, row])).values()
+    ).map((row) => row.group);
+    const products = new Map<string, { name: string; cells: Map<string | null, SalesBreakdownRow>; units: number }>();
+    rows.forEach((row) => {
+      const key = row.productId || "";
+      const product = products.get(key) || { name: row.productName || "Deleted products", cells: new Map(), units: 0 };
+      product.cells.set(row.group, row);
+      product.units += row.units;
+      products.set(key, product);
+    });
+    const maxUnits = Math.max(...rows.map((row) => row.units), 1);
+
+    return (
+      <div className="space-y-2">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              {sizes.map((size) => (
+                <TableHead key={size ?? ""} className="text-center">
+                  {size ?? noGroupLabels.product_size}
+                </TableHead>
+              ))}
+              <TableHead className="text-right">Reorder per {packSize}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {Array.from(products.entries())
+              .sort(([, a], [, b]) => b.units - a.units)
+              .map(([key, product]) => {
+                const ratio = recommendedSizeRatio(
+                  sizes
+                    .filter((size) => size !== null && product.cells.has(size))
+                    .map((size) => ({ size: size as string, units: product.cells.get(size)?.units || 0 })),
+                  packSize
+                );
+                return (
+                  <TableRow key={key}>
+                    <TableCell className="font-medium">{product.name}</TableCell>
+                    {sizes.map((size) => {
+                      const cell = product.cells.get(size);
+                      if (!cell) return <TableCell key={size ?? ""} />;
+                      const intensity = Math.max(cell.units, 0) / maxUnits;
+                      return (
+                        <TableCell
+                          key={size ?? ""}
+                          className={intensity > 0.5 ? "text-center text-primary-foreground" : "text-center"}
+                          style={{ backgroundColor: `hsl(var(--primary) / ${intensity.toFixed(2)})` }}
+                          title={`${cell.units} sold, ${cell.stock} in stock, ${formatPercent(sellThroughRate(cell))} sell-through`}
+                        >
+                          {cell.units}
+                        </TableCell>
+                      );
+                    })}
+                    <TableCell className="text-right text-sm">
+                      {ratio.length > 0 ? ratio.map((r) => `${r.size} ${r.pieces}`).join(" · ") : "-"}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+          </TableBody>
+        </Table>
+        <p className="text-xs text-muted-foreground">
+          Units sold by size for the best selling products in this period; darker cells sold more. Hover a cell for its
+          stock and sell-through.
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sales Breakdown</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={group} onValueChange={(value) => setGroup(value as SalesBreakdownGroup)} className="space-y-4">
+          <TabsList>
+            {(Object.keys(groupLabels) as SalesBreakdownGroup[]).map((key) => (
+              <TabsTrigger key={key} value={key}>
+                {groupLabels[key]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {(Object.keys(groupLabels) as SalesBreakdownGroup[]).map((key) => (
+            <TabsContent key={key} value={key}>
+              {isLoading ? (
+                <div className="text-center py-8">Loading...</div>
+              ) : key === "product_size" ? (
+                renderHeatmap()
+              ) : (
+                renderTable()
+              )}
+            </TabsContent>
+          ))}
+        </Tabs>
+        <p className="mt-4 text-xs text-muted-foreground">
+          Sell-through is the units sold in the period out of those units plus the stock on hand today.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
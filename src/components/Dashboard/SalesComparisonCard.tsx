@@ -0,0 +1,106 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  DateRange,
+  SalesMetric,
+  SalesTotals,
+  comparisonPeriodLabels,
+  fetchSalesComparison,
+  formatSalesMetric,
+  percentChange,
+  salesMetricLabels,
+} from "@/lib/analytics";
+
+const metrics: SalesMetric[] = ["revenue", "profit", "units", "averageBasket", "invoiceCount"];
+
+interface ChangeIndicatorProps {
+  current: number;
+  previous: number;
+  className?: string;
+}
+
+export function ChangeIndicator({ current, previous, className }: ChangeIndicatorProps) {
+  const change = percentChange(current, previous);
+
+  if (change === null) {
+    return <span className={cn("text-xs text-muted-foreground", className)}>{current ? "New" : "-"}</span>;
+  }
+
+  const Icon = change >= 0 ? ArrowUp : ArrowDown;
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-0.5 text-xs font-medium",
+        change >= 0 ? "text-green-600" : "text-red-600",
+        className
+      )}
+    >
+      <Icon className="h-3 w-3" />
+      {Math.abs(change).toFixed(1)}%
+    </span>
+  );
+}
+
+interface SalesComparisonCardProps {
+  title: string;
+  range: DateRange;
+  showProfit: boolean;
+}
+
+// This period's figures beside the previous period's and the same period last year's
+export function SalesComparisonCard({ title, range, showProfit }: SalesComparisonCardProps) {
+  const { data: comparison, isLoading } = useQuery({
+    queryKey: ["sales-comparison", range.start, range.end],
+    queryFn: () => fetchSalesComparison(range),
+  });
+
+  const renderChange = (metric: SalesMetric, against: SalesTotals) => (
+    <>
+      <TableCell className="text-right">{formatSalesMetric(metric, against[metric])}</TableCell>
+      <TableCell className="text-right">
+        <ChangeIndicator current={comparison.current[metric]} previous={against[metric]} />
+      </TableCell>
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !comparison ? (
+          <div className="text-center text-muted-foreground py-4">Loading...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead className="text-right">This Period</TableHead>
+                <TableHead className="text-right">{comparisonPeriodLabels.previous}</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">{comparisonPeriodLabels.last_year}</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {metrics.filter((metric) => showProfit || metric !== "profit").map((metric) => (
+                <TableRow key={metric}>
+                  <TableCell className="font-medium">{salesMetricLabels[metric]}</TableCell>
+                  <TableCell className="text-right font-semibold">
+                    {formatSalesMetric(metric, comparison.current[metric])}
+                  </TableCell>
+                  {renderChange(metric, comparison.previous)}
+                  {renderChange(metric, comparison.lastYear)}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
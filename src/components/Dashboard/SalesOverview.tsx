@@ -1,96 +1,50 @@
 import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Calendar, DollarSign, TrendingUp } from "lucide-react";
-import { startOfDay, startOfMonth, startOfYear, endOfDay } from "date-fns";
+import { DollarSign, Receipt, ShoppingCart } from "lucide-react";
+import { DateRange, SalesMetric, comparisonPeriodLabels, fetchSalesComparison, formatSalesMetric } from "@/lib/analytics";
+import { ChangeIndicator } from "@/components/Dashboard/SalesComparisonCard";
 
 interface SalesOverviewProps {
-  selectedDate: Date;
+  range: DateRange;
 }
 
-export function SalesOverview({ selectedDate }: SalesOverviewProps) {
-  const { data: todaySales } = useQuery({
-    queryKey: ["sales-today", selectedDate],
-    queryFn: async () => {
-      const start = startOfDay(selectedDate);
-      const end = endOfDay(selectedDate);
+const cards: { metric: SalesMetric; title: string; icon: typeof DollarSign }[] = [
+  { metric: "revenue", title: "Sales", icon: DollarSign },
+  { metric: "invoiceCount", title: "Invoices", icon: Receipt },
+  { metric: "averageBasket", title: "Average Basket", icon: ShoppingCart },
+];
 
-      const { data, error } = await supabase
-        .from("sales_records")
-        .select("total_price")
-        .gte("sale_date", start.toISOString())
-        .lte("sale_date", end.toISOString());
-
-      if (error) throw error;
-      return data.reduce((sum, record) => sum + Number(record.total_price), 0);
-    },
-  });
-
-  const { data: monthSales } = useQuery({
-    queryKey: ["sales-month", selectedDate],
-    queryFn: async () => {
-      const start = startOfMonth(selectedDate);
-      const end = endOfDay(selectedDate);
-
-      const { data, error } = await supabase
-        .from("sales_records")
-        .select("total_price")
-        .gte("sale_date", start.toISOString())
-        .lte("sale_date", end.toISOString());
-
-      if (error) throw error;
-      return data.reduce((sum, record) => sum + Number(record.total_price), 0);
-    },
-  });
-
-  const { data: yearSales } = useQuery({
-    queryKey: ["sales-year", selectedDate],
-    queryFn: async () => {
-      const start = startOfYear(selectedDate);
-      const end = endOfDay(selectedDate);
-
-      const { data, error } = await supabase
-        .from("sales_records")
-        .select("total_price")
-        .gte("sale_date", start.toISOString())
-        .lte("sale_date", end.toISOString());
-
-      if (error) throw error;
-      return data.reduce((sum, record) => sum + Number(record.total_price), 0);
-    },
+export function SalesOverview({ range }: SalesOverviewProps) {
+  const { data: sales } = useQuery({
+    queryKey: ["sales-overview", range.start, range.end],
+    queryFn: () => fetchSalesComparison(range),
   });
 
   return (
     <div className="grid gap-4 md:grid-cols-3">
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Today's Sales</CardTitle>
-          <Calendar className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">₹{todaySales?.toFixed(2) || "0.00"}</div>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Month Sales</CardTitle>
-          <DollarSign className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">₹{monthSales?.toFixed(2) || "0.00"}</div>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Year Sales</CardTitle>
-          <TrendingUp className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">₹{yearSales?.toFixed(2) || "0.00"}</div>
-        </CardContent>
-      </Card>
+      {cards.map(({ metric, title, icon: Icon }) => (
+        <Card key={metric}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{title}</CardTitle>
+            <Icon className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatSalesMetric(metric, sales?.current[metric] || 0)}</div>
+            {sales && (
+              <div className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                <p>
+                  <ChangeIndicator current={sales.current[metric]} previous={sales.previous[metric]} /> vs{" "}
+                  {comparisonPeriodLabels.previous.toLowerCase()}
+                </p>
+                <p>
+                  <ChangeIndicator current={sales.current[metric]} previous={sales.lastYear[metric]} /> vs{" "}
+                  {comparisonPeriodLabels.last_year.toLowerCase()}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
     </div>
   );
 }
@@ -1,10 +1,10 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/integrations/supabase/client';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { BarChart3, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { fetchMonthlySales } from '@/lib/analytics';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 interface YearlySalesChartProps {
@@ -18,25 +18,8 @@ export const YearlySalesChart = ({ currentYear = new Date().getFullYear() }: Yea
   const { data: salesData, isLoading } = useQuery({
     queryKey: ['yearly-sales', year],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from('sales_records')
-        .select('total_price, sale_date')
-        .gte('sale_date', `${year}-01-01`)
-        .lt('sale_date', `${year + 1}-01-01`);
-
-      if (error) throw error;
-
-      const monthlyData = Array.from({ length: 12 }, (_, i) => ({
-        month: new Date(year, i).toLocaleString('default', { month: 'short' }),
-        sales: 0
-      }));
-
-      data?.forEach(record => {
-        const month = new Date(record.sale_date).getMonth();
-        monthlyData[month].sales += Number(record.total_price);
-      });
-
-      return monthlyData;
+      const [months, previousMonths] = await Promise.all([fetchMonthlySales(year), fetchMonthlySales(year - 1)]);
+      return months.map((month, i) => ({ ...month, previousRevenue: previousMonths[i].revenue }));
     },
     enabled: open
   });
@@ -95,10 +78,19 @@ export const YearlySalesChart = ({ currentYear = new Date().getFullYear() }: Yea
                   <Legend />
                   <Line
                     type="monotone"
-                    dataKey="sales"
+                    dataKey="revenue"
+                    stroke="#2563eb"
+                    strokeWidth={2}
+                    name={`Sales ${year} (₹)`}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="previousRevenue"
                     stroke="#2563eb"
+                    strokeOpacity={0.4}
+                    strokeDasharray="5 5"
                     strokeWidth={2}
-                    name="Sales (₹)"
+                    name={`Sales ${year - 1} (₹)`}
                   />
                 </LineChart>
               </ResponsiveContainer>
@@ -9,65 +9,44 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Plus, X, Minus, Maximize2 } from "lucide-react";
 import { toast } from "sonner";
-import { ProductSelectionDialog } from "./ProductSelectionDialog";
+import { InvoiceItemsEditor } from "./InvoiceItemsEditor";
+import { CustomerPhoneInput } from "@/components/Customers/CustomerPhoneInput";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { CalendarIcon } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
-
-interface InvoiceItem {
-  productId: string;
-  productName: string;
-  sizeId?: string;
-  sizeName?: string;
-  colorId?: string;
-  colorName?: string;
-  quantity: number;
-  unitPrice: number;
-  totalPrice: number;
-}
+import {
+  DiscountType,
+  InvoiceItem,
+  isInvoiceItemValid,
+  isVariantSelected,
+  toInvoiceItemPayload,
+} from "@/lib/invoice-items";
+import { PaymentMethod, paymentMethodLabels } from "@/lib/payments";
+import { calculateInvoiceTotals, isValidGstin, taxModeForStore } from "@/lib/tax";
+import { GstDetailsFields } from "./GstDetailsFields";
+import { storeInvoicePDF } from "@/lib/invoice-storage";
+import { InvoiceTaxLines } from "./InvoiceTaxLines";
 
 export function CreateInvoiceDialog() {
   const [open, setOpen] = useState(false);
   const [minimized, setMinimized] = useState(false);
-  const [productDialogOpen, setProductDialogOpen] = useState(false);
   const [customerName, setCustomerName] = useState("");
   const [customerPhone, setCustomerPhone] = useState("");
+  // The customer picked from the suggestions; typing another number links by phone instead
+  const [customerId, setCustomerId] = useState<string | null>(null);
   const [discountAmount, setDiscountAmount] = useState<number | "">("" as any);
-  const [discountType, setDiscountType] = useState<'fixed' | 'percentage'>('percentage');
+  const [discountType, setDiscountType] = useState<DiscountType>('percentage');
   const [items, setItems] = useState<InvoiceItem[]>([]);
-  const [paymentStatus, setPaymentStatus] = useState<'done' | 'pending'>('done');
+  const [paymentStatus, setPaymentStatus] = useState<'paid' | 'partial' | 'unpaid'>('paid');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [amountPaid, setAmountPaid] = useState<number | "">("");
   const [expectedPaymentDate, setExpectedPaymentDate] = useState<Date>();
+  const [customerGstin, setCustomerGstin] = useState("");
+  const [placeOfSupply, setPlaceOfSupply] = useState("");
   const queryClient = useQueryClient();
 
-  const { data: products } = useQuery({
-    queryKey: ["products"],
-    queryFn: async () => {
-      const { data, error } = await supabase.from("products").select("*");
-      if (error) throw error;
-      return data;
-    },
-  });
-
-  const { data: sizes } = useQuery({
-    queryKey: ["sizes"],
-    queryFn: async () => {
-      const { data, error } = await supabase.from("sizes").select("*").order("sort_order");
-      if (error) throw error;
-      return data;
-    },
-  });
-
-  const { data: colors } = useQuery({
-    queryKey: ["colors"],
-    queryFn: async () => {
-      const { data, error } = await supabase.from("colors").select("*").order("sort_order");
-      if (error) throw error;
-      return data;
-    },
-  });
-
   const { data: storeSettings } = useQuery({
     queryKey: ["store-settings"],
     queryFn: async () => {
@@ -102,10 +81,10 @@ export function CreateInvoiceDialog() {
     },
   });
 
-  const { data: productSizePrices } = useQuery({
-    queryKey: ["product-size-prices"],
+  const { data: productInventory } = useQuery({
+    queryKey: ["product-inventory"],
     queryFn: async () => {
-      const { data, error } = await supabase.from("product_size_prices").select("*");
+      const { data, error } = await supabase.from("product_inventory").select("*");
       if (error) throw error;
       return data;
     },
@@ -122,135 +101,75 @@ export function CreateInvoiceDialog() {
       }
 
       // Check if all items are valid
-      const invalidItems = items.filter(item => 
-        !item.productId || !item.productName || item.quantity <= 0 || item.unitPrice < 0
-      );
+      const invalidItems = items.filter((item) => !isInvoiceItemValid(item));
 
       if (invalidItems.length > 0) {
         throw new Error("All items must have a valid product, quantity greater than 0, and non-negative price");
       }
 
-      const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
-      const discountValue = discountType === 'percentage'
-        ? (subtotal * (Number(discountAmount) || 0)) / 100
-        : (Number(discountAmount) || 0);
-      const taxAmount = subtotal * ((storeSettings?.tax_percentage || 0) / 100);
-      const grandTotal = subtotal + taxAmount - discountValue;
+      const missingVariant = items.find((item) => !isVariantSelected(productInventory, item));
+      if (missingVariant) {
+        throw new Error(`Select an available size and color for "${missingVariant.productName}"`);
+      }
+
+      if (customerGstin && !isValidGstin(customerGstin)) {
+        throw new Error("Customer GSTIN is not valid");
+      }
 
-      const { data: invoice, error: invError } = await supabase
-        .from("invoices")
-        .insert({
+      const { subtotal, discountValue, taxAmount, grandTotal, lines } = calculateInvoiceTotals(
+        items,
+        discountAmount,
+        discountType,
+        taxMode
+      );
+
+      // The invoice, its items, stock changes and sales records are written in one
+      // transaction; an oversell or any other failure rolls the whole sale back.
+      const { data: invoice, error } = await supabase.rpc("create_invoice", {
+        p_invoice: {
           customer_name: customerName || null,
           customer_phone: customerPhone || null,
+          customer_id: customerId,
           subtotal,
           tax_amount: taxAmount,
-          tax_percentage: storeSettings?.tax_percentage || 0,
+          tax_percentage: taxMode.kind === "flat" ? taxMode.taxPercentage : 0,
           discount_amount: discountValue,
           discount_type: discountType,
           grand_total: grandTotal,
-          created_by: user.id,
           payment_status: paymentStatus,
-          expected_payment_date: paymentStatus === 'pending' && expectedPaymentDate ? format(expectedPaymentDate, 'yyyy-MM-dd') : null,
-          invoice_number: ""
-        })
-        .select()
-        .single();
-
-      if (invError) throw invError;
-
-      const invoiceItems = items.map((item) => ({
-        invoice_id: invoice.id,
-        product_id: item.productId,
-        product_name: item.productName,
-        size_name: item.sizeName || null,
-        color_name: item.colorName || null,
-        quantity: item.quantity,
-        unit_price: item.unitPrice,
-        total_price: item.totalPrice,
-      }));
-
-      const { error: itemsError } = await supabase.from("invoice_items").insert(invoiceItems);
-      if (itemsError) throw itemsError;
-
-      // Reduce stock for each product
-      for (const item of items) {
-        if (item.productId) {
-          // Get current product stock
-          const { data: product, error: productError } = await supabase
-            .from("products")
-            .select("quantity_in_stock")
-            .eq("id", item.productId)
-            .single();
-
-          if (productError) {
-            console.warn(`Failed to get product ${item.productId}:`, productError);
-            continue;
-          }
-
-          // Reduce stock
-          const newStock = Math.max(0, product.quantity_in_stock - item.quantity);
-          const { error: updateError } = await supabase
-            .from("products")
-            .update({ quantity_in_stock: newStock })
-            .eq("id", item.productId);
-
-          if (updateError) {
-            console.warn(`Failed to update stock for product ${item.productId}:`, updateError);
-          }
-        }
-      }
-
-      // Create sales records if payment status is 'done'
-      if (paymentStatus === 'done') {
-        const salesRecords = await Promise.all(
-          items.map(async (item) => {
-            const { data: product } = await supabase
-              .from("products")
-              .select("cost_inr")
-              .eq("id", item.productId)
-              .single();
-
-            const costPerUnit = product?.cost_inr || 0;
-            const profitPerUnit = item.unitPrice - costPerUnit;
-            const totalProfit = profitPerUnit * item.quantity;
-
-            return {
-              invoice_id: invoice.id,
-              invoice_number: invoice.invoice_number,
-              product_id: item.productId,
-              product_name: item.productName,
-              size_name: item.sizeName || null,
-              color_name: item.colorName || null,
-              quantity: item.quantity,
-              unit_price: item.unitPrice,
-              total_price: item.totalPrice,
-              cost_per_unit: costPerUnit,
-              profit_per_unit: profitPerUnit,
-              total_profit: totalProfit,
-              sale_date: invoice.created_at
-            };
-          })
-        );
-
-        const { error: salesError } = await supabase
-          .from("sales_records")
-          .insert(salesRecords);
-
-        if (salesError) {
-          console.error("Failed to create sales records:", salesError);
-        }
-      }
+          payment_method: paymentMethod,
+          amount_paid: paymentStatus === 'partial' ? Number(amountPaid) || 0 : null,
+          expected_payment_date: paymentStatus !== 'paid' && expectedPaymentDate ? format(expectedPaymentDate, 'yyyy-MM-dd') : null,
+          customer_gstin: taxMode.kind === "gst" ? customerGstin || null : null,
+          place_of_supply: taxMode.kind === "gst" ? taxMode.placeOfSupply : null,
+        },
+        p_items: items.map((item, index) => toInvoiceItemPayload(item, lines[index])),
+      });
 
+      if (error) throw error;
       return invoice;
     },
-    onSuccess: () => {
-      toast.success("Invoice created successfully");
+    onSuccess: (invoice) => {
+      toast.success(`Invoice ${invoice.invoice_number} created successfully`);
       queryClient.invalidateQueries({ queryKey: ["invoices"] });
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["low-stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
       queryClient.invalidateQueries({ queryKey: ["sales"] });
       queryClient.invalidateQueries({ queryKey: ["sales-records"] });
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      queryClient.invalidateQueries({ queryKey: ["receivables"] });
       setOpen(false);
       resetForm();
+
+      // Stored with the settings the invoice was saved with; if this fails, downloading or sharing it stores it
+      storeInvoicePDF(invoice.id)
+        .then(() => queryClient.invalidateQueries({ queryKey: ["invoices"] }))
+        .catch((error) => {
+          console.error("Invoice PDF upload error:", error);
+          toast.error(`Invoice ${invoice.invoice_number} was saved, but its PDF couldn't be stored. It is stored as issued when it's next downloaded or shared`);
+        });
     },
     onError: (error) => {
       console.error("Invoice creation error:", error);
@@ -273,97 +192,25 @@ export function CreateInvoiceDialog() {
   const resetForm = () => {
     setCustomerName("");
     setCustomerPhone("");
+    setCustomerId(null);
     setDiscountAmount("" as any);
     setDiscountType('percentage');
     setItems([]);
-    setPaymentStatus('done');
+    setPaymentStatus('paid');
+    setPaymentMethod('cash');
+    setAmountPaid("");
     setExpectedPaymentDate(undefined);
+    setCustomerGstin("");
+    setPlaceOfSupply("");
   };
 
-  const handleSelectProduct = (product: any) => {
-    setItems([{
-      productId: product.id,
-      productName: product.name,
-      sizeId: "",
-      sizeName: "",
-      colorId: "",
-      colorName: "",
-      quantity: 1,
-      unitPrice: Number(product.price_inr),
-      totalPrice: Number(product.price_inr),
-    }, ...items]);
-  };
-
-  const addItem = () => {
-    setItems([{
-      productId: "",
-      productName: "",
-      sizeId: "",
-      sizeName: "",
-      colorId: "",
-      colorName: "",
-      quantity: 1,
-      unitPrice: 0,
-      totalPrice: 0,
-    }, ...items]);
-  };
+  const taxMode = taxModeForStore(storeSettings, placeOfSupply || null);
+  const totals = calculateInvoiceTotals(items, discountAmount, discountType, taxMode);
+  const { subtotal, discountValue, grandTotal } = totals;
 
-  const removeItem = (index: number) => {
-    setItems(items.filter((_, i) => i !== index));
-  };
-
-  const updateItem = (index: number, field: keyof InvoiceItem, value: any) => {
-    const newItems = [...items];
-    newItems[index] = { ...newItems[index], [field]: value };
-
-    if (field === "productId") {
-      const product = products?.find((p) => p.id === value);
-      if (product) {
-        newItems[index].productName = product.name;
-        newItems[index].unitPrice = Number(product.price_inr);
-        newItems[index].totalPrice = Number(product.price_inr) * newItems[index].quantity;
-      }
-    }
-
-    if (field === "sizeId") {
-      const size = sizes?.find((s) => s.id === value);
-      newItems[index].sizeName = size?.name || "";
-
-      // Update price based on size if size-specific pricing exists
-      const sizePrice = productSizePrices?.find(
-        (sp) => sp.product_id === newItems[index].productId && sp.size_id === value
-      );
-      if (sizePrice) {
-        newItems[index].unitPrice = Number(sizePrice.price_inr);
-        newItems[index].totalPrice = Number(sizePrice.price_inr) * newItems[index].quantity;
-      }
-    }
-
-    if (field === "colorId") {
-      const color = colors?.find((c) => c.id === value);
-      newItems[index].colorName = color?.name || "";
-    }
-
-    if (field === "quantity" || field === "unitPrice") {
-      newItems[index].totalPrice = newItems[index].quantity * newItems[index].unitPrice;
-    }
-
-    setItems(newItems);
-  };
-
-  const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
-  const discountValue = discountType === 'percentage'
-    ? (subtotal * (Number(discountAmount) || 0)) / 100
-    : (Number(discountAmount) || 0);
-  const taxAmount = subtotal * ((storeSettings?.tax_percentage || 0) / 100);
-  const grandTotal = subtotal + taxAmount - discountValue;
-  
   // Check if all items are valid
-  const hasValidItems = items.length > 0 && items.every(item => 
-    item.productId && 
-    item.productName && 
-    item.quantity > 0 && 
-    item.unitPrice >= 0
+  const hasValidItems = items.length > 0 && items.every((item) =>
+    isInvoiceItemValid(item) && isVariantSelected(productInventory, item)
   );
 
   return (
@@ -406,29 +253,76 @@ export function CreateInvoiceDialog() {
               </div>
               <div>
                 <Label htmlFor="customerPhone">Customer Phone</Label>
-                <Input
+                <CustomerPhoneInput
                   id="customerPhone"
                   value={customerPhone}
-                  onChange={(e) => setCustomerPhone(e.target.value)}
-                  placeholder="Optional"
+                  onChange={(phone) => {
+                    setCustomerPhone(phone);
+                    setCustomerId(null);
+                  }}
+                  onSelectCustomer={(customer) => {
+                    setCustomerPhone(customer.phone || "");
+                    setCustomerId(customer.id);
+                    setCustomerName(customer.name || "");
+                  }}
                 />
               </div>
             </div>
 
+            {taxMode.kind === "gst" && (
+              <GstDetailsFields
+                idPrefix="create"
+                customerGstin={customerGstin}
+                onCustomerGstinChange={setCustomerGstin}
+                placeOfSupply={taxMode.placeOfSupply || ""}
+                onPlaceOfSupplyChange={setPlaceOfSupply}
+              />
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="paymentStatus">Payment Status</Label>
-                <Select value={paymentStatus} onValueChange={(v: 'done' | 'pending') => setPaymentStatus(v)}>
+                <Label htmlFor="paymentStatus">Payment</Label>
+                <Select value={paymentStatus} onValueChange={(v: 'paid' | 'partial' | 'unpaid') => setPaymentStatus(v)}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="done">Done</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
+                    <SelectItem value="paid">Paid in full</SelectItem>
+                    <SelectItem value="partial">Part payment</SelectItem>
+                    <SelectItem value="unpaid">Unpaid</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
-              {paymentStatus === 'pending' && (
+              {paymentStatus !== 'unpaid' && (
+                <div>
+                  <Label>Payment Method</Label>
+                  <Select value={paymentMethod} onValueChange={(v: PaymentMethod) => setPaymentMethod(v)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {paymentStatus === 'partial' && (
+                <div>
+                  <Label htmlFor="amountPaid">Amount Received Now</Label>
+                  <Input
+                    id="amountPaid"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={amountPaid}
+                    onChange={(e) => setAmountPaid(e.target.value === "" ? "" : Number(e.target.value))}
+                    placeholder="₹0"
+                  />
+                </div>
+              )}
+              {paymentStatus !== 'paid' && (
                 <div>
                   <Label>Expected Payment Date</Label>
                   <Popover>
@@ -457,148 +351,7 @@ export function CreateInvoiceDialog() {
               )}
             </div>
 
-            <div>
-              <div className="flex items-center justify-between mb-4">
-                <Label>Items</Label>
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setProductDialogOpen(true)}
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Item
-                </Button>
-              </div>
-
-              <div className="border rounded-lg">
-                <ScrollArea className="h-[300px]">
-                  <div className="space-y-4 p-4">
-                    {items.map((item, index) => (
-                  <div key={index} className="bg-muted/30 border rounded-lg p-4 space-y-3">
-                    <div className="flex justify-between items-start">
-                      <div className="grid grid-cols-2 gap-3 flex-1">
-                        <div>
-                          <Label>Product</Label>
-                          <Select
-                            value={item.productId}
-                            onValueChange={(value) => updateItem(index, "productId", value)}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select product" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {products?.map((product) => (
-                                <SelectItem key={product.id} value={product.id}>
-                                  {product.name}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                        </div>
-
-                        <div>
-                          <Label>Size</Label>
-                          <Select
-                            value={item.sizeId}
-                            onValueChange={(value) => updateItem(index, "sizeId", value)}
-                            disabled={!item.productId}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select size (optional)" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {sizes
-                                ?.filter((size) => {
-                                  const product = products?.find((p) => p.id === item.productId);
-                                  return product?.size_ids?.includes(size.id);
-                                })
-                                .map((size) => {
-                                  const sizePrice = productSizePrices?.find(
-                                    (sp) => sp.product_id === item.productId && sp.size_id === size.id
-                                  );
-                                  return (
-                                    <SelectItem key={size.id} value={size.id}>
-                                      {size.name}{sizePrice ? ` - ₹${sizePrice.price_inr}` : ''}
-                                    </SelectItem>
-                                  );
-                                })}
-                            </SelectContent>
-                          </Select>
-                        </div>
-
-                        <div>
-                          <Label>Color</Label>
-                          <Select
-                            value={item.colorId}
-                            onValueChange={(value) => updateItem(index, "colorId", value)}
-                            disabled={!item.productId}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select color (optional)" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {colors
-                                ?.filter((color) => {
-                                  const product = products?.find((p) => p.id === item.productId);
-                                  return product?.color_ids?.includes(color.id);
-                                })
-                                .map((color) => (
-                                  <SelectItem key={color.id} value={color.id}>
-                                    <div className="flex items-center gap-2">
-                                      <div
-                                        className="w-4 h-4 rounded border"
-                                        style={{ backgroundColor: color.hex_code || "#000000" }}
-                                      />
-                                      {color.name}
-                                    </div>
-                                  </SelectItem>
-                                ))}
-                            </SelectContent>
-                          </Select>
-                        </div>
-
-                        <div>
-                          <Label>Quantity</Label>
-                          <Input
-                            type="number"
-                            min="0"
-                            value={item.quantity}
-                            onChange={(e) => updateItem(index, "quantity", Math.max(0, Number(e.target.value)))}
-                          />
-                        </div>
-
-                        <div>
-                          <Label>Unit Price</Label>
-                          <Input
-                            type="number"
-                            step="0.01"
-                            min="0"
-                            value={item.unitPrice}
-                            onChange={(e) => updateItem(index, "unitPrice", Math.max(0, Number(e.target.value)))}
-                          />
-                        </div>
-                      </div>
-
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="icon"
-                        className="ml-2"
-                        onClick={() => removeItem(index)}
-                      >
-                        <X className="h-4 w-4" />
-                      </Button>
-                    </div>
-                    <div className="text-right text-sm text-muted-foreground">
-                      Total: ₹{item.totalPrice.toFixed(2)}
-                    </div>
-                  </div>
-                    ))}
-                  </div>
-                </ScrollArea>
-              </div>
-            </div>
+            <InvoiceItemsEditor items={items} onItemsChange={setItems} />
 
             <div className="space-y-2 border-t pt-4">
               <div className="flex justify-between">
@@ -608,7 +361,7 @@ export function CreateInvoiceDialog() {
               <div className="space-y-2">
                 <Label htmlFor="discount">Discount:</Label>
                 <div className="flex gap-2 items-center">
-                  <Select value={discountType} onValueChange={(v: 'fixed' | 'percentage') => setDiscountType(v)}>
+                  <Select value={discountType} onValueChange={(v: DiscountType) => setDiscountType(v)}>
                     <SelectTrigger className="w-32">
                       <SelectValue />
                     </SelectTrigger>
@@ -634,14 +387,17 @@ export function CreateInvoiceDialog() {
                   )}
                 </div>
               </div>
-              <div className="flex justify-between">
-                <span>Tax ({storeSettings?.tax_percentage}%):</span>
-                <span>₹{taxAmount.toFixed(2)}</span>
-              </div>
+              <InvoiceTaxLines totals={totals} mode={taxMode} />
               <div className="flex justify-between text-lg font-bold">
                 <span>Grand Total:</span>
                 <span>₹{grandTotal.toFixed(2)}</span>
               </div>
+              {paymentStatus !== 'paid' && (
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>Balance Due:</span>
+                  <span>₹{Math.max(grandTotal - (paymentStatus === 'partial' ? Number(amountPaid) || 0 : 0), 0).toFixed(2)}</span>
+                </div>
+              )}
             </div>
           </div>
         </ScrollArea>
@@ -658,12 +414,6 @@ export function CreateInvoiceDialog() {
           </Button>
         </div>
       </DialogContent>
-
-      <ProductSelectionDialog
-        open={productDialogOpen}
-        onOpenChange={setProductDialogOpen}
-        onSelectProduct={handleSelectProduct}
-      />
     </Dialog>
 
     {/* Minimized floating widget */}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -7,12 +7,24 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Calendar } from "@/components/ui/calendar";
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon, Check } from "lucide-react";
-import { format } from "date-fns";
-import { cn } from "@/lib/utils";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
+import { InvoiceItemsEditor } from "./InvoiceItemsEditor";
+import { InvoiceRevisionHistory } from "./InvoiceRevisionHistory";
+import { InvoicePayments } from "./InvoicePayments";
+import { CustomerPhoneInput } from "@/components/Customers/CustomerPhoneInput";
+import {
+  DiscountType,
+  InvoiceItem,
+  fromInvoiceItemRow,
+  isInvoiceItemValid,
+  isVariantSelected,
+  toInvoiceItemPayload,
+} from "@/lib/invoice-items";
+import { calculateInvoiceTotals, isValidGstin, taxModeForInvoice } from "@/lib/tax";
+import { GstDetailsFields } from "./GstDetailsFields";
+import { InvoiceTaxLines } from "./InvoiceTaxLines";
+import { storeInvoicePDF } from "@/lib/invoice-storage";
 
 interface EditInvoiceDialogProps {
   invoiceId: string | null;
@@ -21,8 +33,15 @@ interface EditInvoiceDialogProps {
 }
 
 export function EditInvoiceDialog({ invoiceId, open, onOpenChange }: EditInvoiceDialogProps) {
-  const [paymentStatus, setPaymentStatus] = useState<'done' | 'pending'>('pending');
-  const [expectedPaymentDate, setExpectedPaymentDate] = useState<Date | undefined>();
+  const [customerName, setCustomerName] = useState("");
+  const [customerPhone, setCustomerPhone] = useState("");
+  // The customer picked from the suggestions; typing another number links by phone instead
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [discountAmount, setDiscountAmount] = useState<number | "">("");
+  const [discountType, setDiscountType] = useState<DiscountType>('percentage');
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [customerGstin, setCustomerGstin] = useState("");
+  const [placeOfSupply, setPlaceOfSupply] = useState("");
   const queryClient = useQueryClient();
 
   const { data: invoice } = useQuery({
@@ -40,165 +59,291 @@ export function EditInvoiceDialog({ invoiceId, open, onOpenChange }: EditInvoice
     enabled: !!invoiceId && open,
   });
 
+  const { data: savedItems } = useQuery({
+    queryKey: ["invoice-items-edit", invoiceId],
+    queryFn: async () => {
+      if (!invoiceId) return [];
+      const { data, error } = await supabase
+        .from("invoice_items")
+        .select("*")
+        .eq("invoice_id", invoiceId)
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!invoiceId && open,
+  });
+
+  const { data: storeSettings } = useQuery({
+    queryKey: ["store-settings"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("store_settings").select("*").maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  const { data: productInventory } = useQuery({
+    queryKey: ["product-inventory"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("product_inventory").select("*");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const originalItems = useMemo(() => (savedItems || []).map(fromInvoiceItemRow), [savedItems]);
+
   useEffect(() => {
-    if (invoice) {
-      setPaymentStatus(invoice.payment_status || 'pending');
-      if (invoice.expected_payment_date) {
-        setExpectedPaymentDate(new Date(invoice.expected_payment_date));
-      } else {
-        setExpectedPaymentDate(undefined);
-      }
+    if (!invoice) return;
+    setCustomerName(invoice.customer_name || "");
+    setCustomerPhone(invoice.customer_phone || "");
+    setCustomerId(invoice.customer_id);
+    setCustomerGstin(invoice.customer_gstin || "");
+    setPlaceOfSupply(invoice.place_of_supply || "");
+
+    // Only the discount value is stored, so a percentage is worked back out from the subtotal
+    const discount = Number(invoice.discount_amount) || 0;
+    if (invoice.discount_type === 'fixed' || !Number(invoice.subtotal)) {
+      setDiscountType('fixed');
+      setDiscountAmount(discount || "");
+    } else {
+      setDiscountType('percentage');
+      setDiscountAmount(discount ? Math.round((discount / Number(invoice.subtotal)) * 10000) / 100 : "");
     }
   }, [invoice]);
 
-  const updatePaymentStatus = useMutation({
+  useEffect(() => {
+    setItems(originalItems);
+  }, [originalItems]);
+
+  const updateInvoice = useMutation({
     mutationFn: async () => {
-      if (!invoiceId) throw new Error("No invoice ID");
+      if (!invoiceId || !invoice) throw new Error("No invoice ID");
 
-      const { error } = await supabase
-        .from("invoices")
-        .update({
-          payment_status: paymentStatus,
-          expected_payment_date: paymentStatus === 'pending' && expectedPaymentDate
-            ? format(expectedPaymentDate, 'yyyy-MM-dd')
-            : null,
-        })
-        .eq("id", invoiceId);
+      if (items.length === 0) {
+        throw new Error("At least one item is required");
+      }
+
+      if (items.some((item) => !isInvoiceItemValid(item))) {
+        throw new Error("All items must have a valid product, quantity greater than 0, and non-negative price");
+      }
+
+      const missingVariant = items.find((item) => !isVariantSelected(productInventory, item));
+      if (missingVariant) {
+        throw new Error(`Select an available size and color for "${missingVariant.productName}"`);
+      }
+
+      if (customerGstin && !isValidGstin(customerGstin)) {
+        throw new Error("Customer GSTIN is not valid");
+      }
+
+      // The invoice keeps the kind of tax it was created with
+      const taxMode = taxModeForInvoice(invoice, storeSettings, placeOfSupply || null);
+      const { subtotal, discountValue, taxAmount, grandTotal, lines } = calculateInvoiceTotals(
+        items,
+        discountAmount,
+        discountType,
+        taxMode
+      );
+
+      // Stock, sales records and the revision history are updated in the same transaction
+      const { data, error } = await supabase.rpc("update_invoice", {
+        p_invoice_id: invoiceId,
+        p_invoice: {
+          customer_name: customerName || null,
+          customer_phone: customerPhone || null,
+          customer_id: customerId,
+          subtotal,
+          tax_amount: taxAmount,
+          discount_amount: discountValue,
+          discount_type: discountType,
+          grand_total: grandTotal,
+          customer_gstin: taxMode.kind === "gst" ? customerGstin || null : null,
+          place_of_supply: taxMode.kind === "gst" ? taxMode.placeOfSupply : null,
+        },
+        p_items: items.map((item, index) => toInvoiceItemPayload(item, lines[index])),
+      });
 
       if (error) throw error;
+      return data;
     },
-    onSuccess: () => {
-      toast.success("Payment status updated successfully");
+    onSuccess: (updated) => {
+      toast.success(`Invoice ${updated.invoice_number} updated`);
       queryClient.invalidateQueries({ queryKey: ["invoices"] });
       queryClient.invalidateQueries({ queryKey: ["invoice-edit", invoiceId] });
-      queryClient.invalidateQueries({ queryKey: ["sales-today"] });
-      queryClient.invalidateQueries({ queryKey: ["sales-month"] });
-      queryClient.invalidateQueries({ queryKey: ["sales-year"] });
+      queryClient.invalidateQueries({ queryKey: ["invoice-items-edit", invoiceId] });
+      queryClient.invalidateQueries({ queryKey: ["invoice-revisions", invoiceId] });
+      queryClient.invalidateQueries({ queryKey: ["invoice", invoiceId] });
+      queryClient.invalidateQueries({ queryKey: ["invoice-items", invoiceId] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["low-stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
       queryClient.invalidateQueries({ queryKey: ["sales"] });
       queryClient.invalidateQueries({ queryKey: ["sales-records"] });
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      queryClient.invalidateQueries({ queryKey: ["receivables"] });
       onOpenChange(false);
+
+      // The edited invoice is stored as a new version; links already shared keep the old one
+      storeInvoicePDF(updated.id)
+        .then(() => queryClient.invalidateQueries({ queryKey: ["invoices"] }))
+        .catch((error) => {
+          console.error("Invoice PDF upload error:", error);
+          toast.error(`Invoice ${updated.invoice_number} was saved, but its PDF couldn't be stored. It is stored as issued when it's next downloaded or shared`);
+        });
     },
     onError: (error) => {
-      console.error("Update error:", error);
-      toast.error("Failed to update payment status");
+      console.error("Invoice update error:", error);
+      toast.error(`Failed to update invoice: ${error.message}`);
     },
   });
 
   if (!invoice) return null;
 
+  const taxMode = taxModeForInvoice(invoice, storeSettings, placeOfSupply || null);
+  const totals = calculateInvoiceTotals(items, discountAmount, discountType, taxMode);
+  const { subtotal, discountValue, grandTotal } = totals;
+
+  // Credit notes refer to the lines of an invoice, so its items are locked once anything is returned
+  const hasReturns = !!savedItems?.some((item) => item.quantity_returned > 0);
+
+  const hasValidItems = items.length > 0 && items.every((item) =>
+    isInvoiceItemValid(item) && isVariantSelected(productInventory, item)
+  );
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-4xl max-h-[90vh]">
         <DialogHeader>
-          <DialogTitle>Update Payment Status - {invoice.invoice_number}</DialogTitle>
+          <DialogTitle>Edit Invoice - {invoice.invoice_number}</DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-4">
-          <div className="bg-muted p-4 rounded-lg">
-            <div className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Customer:</span>
-                <span className="font-medium">{invoice.customer_name || 'N/A'}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Total Amount:</span>
-                <span className="font-bold text-lg">₹{Number(invoice.grand_total).toFixed(2)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Current Status:</span>
-                <span className={cn(
-                  "font-medium capitalize px-2 py-0.5 rounded text-xs",
-                  invoice.payment_status === 'done'
-                    ? "bg-green-100 text-green-700"
-                    : "bg-yellow-100 text-yellow-700"
-                )}>
-                  {invoice.payment_status}
-                </span>
-              </div>
-            </div>
-          </div>
-
-          <div className="space-y-4">
-            <div>
-              <Label htmlFor="paymentStatus">Update Payment Status</Label>
-              <Select value={paymentStatus} onValueChange={(v: 'done' | 'pending') => setPaymentStatus(v)}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="done">
-                    <div className="flex items-center gap-2">
-                      <Check className="h-4 w-4 text-green-600" />
-                      <span>Paid (Done)</span>
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="pending">
-                    <div className="flex items-center gap-2">
-                      <span className="h-4 w-4 text-yellow-600">⏱</span>
-                      <span>Pending</span>
-                    </div>
-                  </SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+        <Tabs defaultValue="payment">
+          <TabsList>
+            <TabsTrigger value="payment">Payments</TabsTrigger>
+            <TabsTrigger value="items" disabled={hasReturns}>Items &amp; Customer</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
 
-            {paymentStatus === 'pending' && (
-              <div>
-                <Label>Expected Payment Date</Label>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button
-                      variant="outline"
-                      className={cn(
-                        "w-full justify-start text-left font-normal",
-                        !expectedPaymentDate && "text-muted-foreground"
-                      )}
-                    >
-                      <CalendarIcon className="mr-2 h-4 w-4" />
-                      {expectedPaymentDate ? format(expectedPaymentDate, "PPP") : "Pick a date"}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0">
-                    <Calendar
-                      mode="single"
-                      selected={expectedPaymentDate}
-                      onSelect={setExpectedPaymentDate}
-                      initialFocus
+          <TabsContent value="items">
+            <ScrollArea className="max-h-[calc(90vh-260px)] pr-4">
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="editCustomerName">Customer Name</Label>
+                    <Input
+                      id="editCustomerName"
+                      value={customerName}
+                      onChange={(e) => setCustomerName(e.target.value)}
+                      placeholder="Optional"
                     />
-                  </PopoverContent>
-                </Popover>
-              </div>
-            )}
+                  </div>
+                  <div>
+                    <Label htmlFor="editCustomerPhone">Customer Phone</Label>
+                    <CustomerPhoneInput
+                      id="editCustomerPhone"
+                      value={customerPhone}
+                      onChange={(phone) => {
+                        setCustomerPhone(phone);
+                        setCustomerId(null);
+                      }}
+                      onSelectCustomer={(customer) => {
+                        setCustomerPhone(customer.phone || "");
+                        setCustomerId(customer.id);
+                        setCustomerName(customer.name || "");
+                      }}
+                    />
+                  </div>
+                </div>
 
-            {paymentStatus === 'done' && invoice.payment_status === 'pending' && (
-              <div className="bg-green-50 border border-green-200 rounded-lg p-3">
-                <p className="text-sm text-green-700">
-                  ✓ This invoice will be added to your total sales after updating.
-                </p>
-              </div>
-            )}
+                {taxMode.kind === "gst" && (
+                  <GstDetailsFields
+                    idPrefix="edit"
+                    customerGstin={customerGstin}
+                    onCustomerGstinChange={setCustomerGstin}
+                    placeOfSupply={taxMode.placeOfSupply || ""}
+                    onPlaceOfSupplyChange={setPlaceOfSupply}
+                  />
+                )}
 
-            {paymentStatus === 'pending' && invoice.payment_status === 'done' && (
-              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
-                <p className="text-sm text-yellow-700">
-                  ⚠ This invoice will be removed from your total sales after updating.
-                </p>
+                <InvoiceItemsEditor items={items} onItemsChange={setItems} reservedItems={originalItems} />
+
+                <div className="space-y-2 border-t pt-4">
+                  <div className="flex justify-between">
+                    <span>Subtotal:</span>
+                    <span>₹{subtotal.toFixed(2)}</span>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="editDiscount">Discount:</Label>
+                    <div className="flex gap-2 items-center">
+                      <Select value={discountType} onValueChange={(v: DiscountType) => setDiscountType(v)}>
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="fixed">₹ Fixed</SelectItem>
+                          <SelectItem value="percentage">% Percent</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        id="editDiscount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={discountAmount}
+                        onChange={(e) => setDiscountAmount(Number(e.target.value))}
+                        className="w-32"
+                        placeholder={discountType === 'percentage' ? '0%' : '₹0'}
+                      />
+                      {discountType === 'percentage' && Number(discountAmount) > 0 && (
+                        <span className="text-sm text-muted-foreground">
+                          = ₹{discountValue.toFixed(2)}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <InvoiceTaxLines totals={totals} mode={taxMode} />
+                  <div className="flex justify-between text-lg font-bold">
+                    <span>Grand Total:</span>
+                    <span>₹{grandTotal.toFixed(2)}</span>
+                  </div>
+                  {grandTotal !== Number(invoice.grand_total) && (
+                    <p className="text-sm text-muted-foreground">
+                      Was ₹{Number(invoice.grand_total).toFixed(2)}. The invoice keeps its number and date.
+                    </p>
+                  )}
+                </div>
               </div>
-            )}
-          </div>
-
-          <div className="flex justify-end gap-2 pt-4">
-            <Button variant="outline" onClick={() => onOpenChange(false)}>
-              Cancel
-            </Button>
-            <Button
-              onClick={() => updatePaymentStatus.mutate()}
-              disabled={updatePaymentStatus.isPending}
-            >
-              {updatePaymentStatus.isPending ? "Updating..." : "Update Status"}
-            </Button>
-          </div>
-        </div>
+            </ScrollArea>
+
+            <div className="flex justify-end gap-2 mt-4">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => updateInvoice.mutate()}
+                disabled={!hasValidItems || updateInvoice.isPending}
+              >
+                {updateInvoice.isPending ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <ScrollArea className="max-h-[calc(90vh-200px)] pr-4">
+              <InvoiceRevisionHistory invoiceId={invoice.id} />
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="payment">
+            <ScrollArea className="max-h-[calc(90vh-200px)] pr-4">
+              <InvoicePayments invoice={invoice} />
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,63 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { gstStates, gstinStateCode, isValidGstin } from "@/lib/tax";
+
+interface GstDetailsFieldsProps {
+  idPrefix: string;
+  customerGstin: string;
+  onCustomerGstinChange: (gstin: string) => void;
+  placeOfSupply: string;
+  onPlaceOfSupplyChange: (stateCode: string) => void;
+}
+
+// Buyer GSTIN and place of supply on a GST invoice. A valid GSTIN sets the
+// place of supply to the buyer's state.
+export function GstDetailsFields({
+  idPrefix,
+  customerGstin,
+  onCustomerGstinChange,
+  placeOfSupply,
+  onPlaceOfSupplyChange,
+}: GstDetailsFieldsProps) {
+  const handleGstinChange = (value: string) => {
+    const gstin = value.toUpperCase().replace(/\s/g, "");
+    onCustomerGstinChange(gstin);
+
+    const stateCode = gstinStateCode(gstin);
+    if (stateCode) onPlaceOfSupplyChange(stateCode);
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor={`${idPrefix}CustomerGstin`}>Customer GSTIN</Label>
+        <Input
+          id={`${idPrefix}CustomerGstin`}
+          value={customerGstin}
+          onChange={(e) => handleGstinChange(e.target.value)}
+          placeholder="Optional, for B2B invoices"
+          maxLength={15}
+        />
+        {customerGstin && !isValidGstin(customerGstin) && (
+          <p className="mt-1 text-xs text-destructive">Enter a valid 15 character GSTIN</p>
+        )}
+      </div>
+      <div>
+        <Label>Place of Supply</Label>
+        <Select value={placeOfSupply} onValueChange={onPlaceOfSupplyChange}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select state" />
+          </SelectTrigger>
+          <SelectContent>
+            {gstStates.map((state) => (
+              <SelectItem key={state.code} value={state.code}>
+                {state.code} - {state.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
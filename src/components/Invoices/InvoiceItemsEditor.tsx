@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Plus, X } from "lucide-react";
+import { ProductSelectionDialog } from "./ProductSelectionDialog";
+import { cn } from "@/lib/utils";
+import { variantLabel } from "@/lib/inventory";
+import {
+  InvoiceItem,
+  findVariant,
+  hsnCodeFor,
+  invoiceItemVariantKey,
+  newInvoiceItem,
+  productHasVariants,
+} from "@/lib/invoice-items";
+import { productColumns } from "@/lib/products";
+
+interface InvoiceItemsEditorProps {
+  items: InvoiceItem[];
+  onItemsChange: (items: InvoiceItem[]) => void;
+  // Lines already saved on the invoice being edited; their stock has been taken
+  // already, so it counts as available to them again
+  reservedItems?: InvoiceItem[];
+}
+
+export function InvoiceItemsEditor({ items, onItemsChange, reservedItems = [] }: InvoiceItemsEditorProps) {
+  const [productDialogOpen, setProductDialogOpen] = useState(false);
+
+  const { data: products } = useQuery({
+    queryKey: ["products"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("products").select(productColumns);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: categories } = useQuery({
+    queryKey: ["categories"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("categories").select("*");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: sizes } = useQuery({
+    queryKey: ["sizes"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("sizes").select("*").order("sort_order");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: colors } = useQuery({
+    queryKey: ["colors"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("colors").select("*").order("sort_order");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: productSizePrices } = useQuery({
+    queryKey: ["product-size-prices"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("product_size_prices").select("*");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: productInventory } = useQuery({
+    queryKey: ["product-inventory"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("product_inventory").select("*");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const handleSelectProduct = (product: any) => {
+    onItemsChange([newInvoiceItem(product, categories, productSizePrices), ...items]);
+  };
+
+  const removeItem = (index: number) => {
+    onItemsChange(items.filter((_, i) => i !== index));
+  };
+
+  const updateItem = (index: number, field: keyof InvoiceItem, value: any) => {
+    const newItems = [...items];
+    newItems[index] = { ...newItems[index], [field]: value };
+
+    if (field === "productId") {
+      const product = products?.find((p) => p.id === value);
+      if (product) {
+        newItems[index].productName = product.name;
+        newItems[index].unitPrice = Number(product.price_inr);
+        newItems[index].totalPrice = Number(product.price_inr) * newItems[index].quantity;
+        newItems[index].hsnCode = hsnCodeFor(product, categories);
+      }
+    }
+
+    if (field === "sizeId") {
+      const size = sizes?.find((s) => s.id === value);
+      newItems[index].sizeName = size?.name || "";
+
+      // Update price based on size if size-specific pricing exists
+      const sizePrice = productSizePrices?.find(
+        (sp) => sp.product_id === newItems[index].productId && sp.size_id === value
+      );
+      if (sizePrice) {
+        newItems[index].unitPrice = Number(sizePrice.price_inr);
+        newItems[index].totalPrice = Number(sizePrice.price_inr) * newItems[index].quantity;
+      }
+    }
+
+    if (field === "colorId") {
+      const color = colors?.find((c) => c.id === value);
+      newItems[index].colorName = color?.name || "";
+    }
+
+    if (field === "quantity" || field === "unitPrice") {
+      newItems[index].totalPrice = newItems[index].quantity * newItems[index].unitPrice;
+    }
+
+    onItemsChange(newItems);
+  };
+
+  const reservedQuantity = (item: InvoiceItem) =>
+    reservedItems
+      .filter((reserved) => invoiceItemVariantKey(reserved) === invoiceItemVariantKey(item))
+      .reduce((sum, reserved) => sum + reserved.quantity, 0);
+
+  const renderVariantStock = (item: InvoiceItem) => {
+    if (!item.productId || !productHasVariants(productInventory, item.productId)) return <span />;
+
+    const variant = findVariant(productInventory, item);
+    if (!variant) {
+      return <span className="text-destructive">Select an available size and color</span>;
+    }
+
+    const available = variant.quantity + reservedQuantity(item);
+    return (
+      <span className={cn(available < item.quantity && "text-destructive")}>
+        {variantLabel(item.sizeName, item.colorName)}: {available} in stock
+      </span>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <Label>Items</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setProductDialogOpen(true)}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Item
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <ScrollArea className="h-[300px]">
+          <div className="space-y-4 p-4">
+            {items.map((item, index) => (
+              <div key={index} className="bg-muted/30 border rounded-lg p-4 space-y-3">
+                <div className="flex justify-between items-start">
+                  <div className="grid grid-cols-2 gap-3 flex-1">
+                    <div>
+                      <Label>Product</Label>
+                      <Select
+                        value={item.productId}
+                        onValueChange={(value) => updateItem(index, "productId", value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select product" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {products?.map((product) => (
+                            <SelectItem key={product.id} value={product.id}>
+                              {product.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label>Size</Label>
+                      <Select
+                        value={item.sizeId}
+                        onValueChange={(value) => updateItem(index, "sizeId", value)}
+                        disabled={!item.productId}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select size (optional)" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {sizes
+                            ?.filter((size) => {
+                              const product = products?.find((p) => p.id === item.productId);
+                              return product?.size_ids?.includes(size.id);
+                            })
+                            .map((size) => {
+                              const sizePrice = productSizePrices?.find(
+                                (sp) => sp.product_id === item.productId && sp.size_id === size.id
+                              );
+                              return (
+                                <SelectItem key={size.id} value={size.id}>
+                                  {size.name}{sizePrice ? ` - ₹${sizePrice.price_inr}` : ''}
+                                </SelectItem>
+                              );
+                            })}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label>Color</Label>
+                      <Select
+                        value={item.colorId}
+                        onValueChange={(value) => updateItem(index, "colorId", value)}
+                        disabled={!item.productId}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select color (optional)" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {colors
+                            ?.filter((color) => {
+                              const product = products?.find((p) => p.id === item.productId);
+                              return product?.color_ids?.includes(color.id);
+                            })
+                            .map((color) => (
+                              <SelectItem key={color.id} value={color.id}>
+                                <div className="flex items-center gap-2">
+                                  <div
+                                    className="w-4 h-4 rounded border"
+                                    style={{ backgroundColor: color.hex_code || "#000000" }}
+                                  />
+                                  {color.name}
+                                </div>
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label>Quantity</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={item.quantity}
+                        onChange={(e) => updateItem(index, "quantity", Math.max(0, Number(e.target.value)))}
+                      />
+                    </div>
+
+                    <div>
+                      <Label>Unit Price</Label>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={item.unitPrice}
+                        onChange={(e) => updateItem(index, "unitPrice", Math.max(0, Number(e.target.value)))}
+                      />
+                    </div>
+                  </div>
+
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="ml-2"
+                    onClick={() => removeItem(index)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  {renderVariantStock(item)}
+                  <span>Total: ₹{item.totalPrice.toFixed(2)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </div>
+
+      <ProductSelectionDialog
+        open={productDialogOpen}
+        onOpenChange={setProductDialogOpen}
+        onSelectProduct={handleSelectProduct}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CalendarIcon, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { PaymentStatusBadge } from "./PaymentStatusBadge";
+import { PaymentMethod, paymentMethodLabels } from "@/lib/payments";
+
+interface InvoicePaymentsProps {
+  invoice: Tables<"invoices">;
+}
+
+// Payments taken against an invoice, with a form to record the next instalment
+export function InvoicePayments({ invoice }: InvoicePaymentsProps) {
+  const [amount, setAmount] = useState<number | "">("");
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [paidOn, setPaidOn] = useState<Date>(new Date());
+  const [reference, setReference] = useState("");
+  const [expectedPaymentDate, setExpectedPaymentDate] = useState<Date | undefined>();
+  const queryClient = useQueryClient();
+
+  const { data: payments } = useQuery({
+    queryKey: ["payments", invoice.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("payments")
+        .select("*")
+        .eq("invoice_id", invoice.id)
+        .order("paid_on")
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: creditNotes } = useQuery({
+    queryKey: ["credit-notes", invoice.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("credit_notes")
+        .select("*")
+        .eq("invoice_id", invoice.id)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const credited = (creditNotes || []).reduce((sum, note) => sum + Number(note.total_amount), 0);
+  const balanceDue = Math.max(Number(invoice.grand_total) - Number(invoice.amount_paid) - credited, 0);
+
+  useEffect(() => {
+    setAmount(balanceDue > 0 ? Math.round(balanceDue * 100) / 100 : "");
+    setExpectedPaymentDate(invoice.expected_payment_date ? new Date(invoice.expected_payment_date) : undefined);
+  }, [balanceDue, invoice.expected_payment_date]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["invoice-edit", invoice.id] });
+    queryClient.invalidateQueries({ queryKey: ["payments", invoice.id] });
+    queryClient.invalidateQueries({ queryKey: ["receivables"] });
+    queryClient.invalidateQueries({ queryKey: ["customers"] });
+  };
+
+  const recordPayment = useMutation({
+    mutationFn: async () => {
+      if (!amount || amount <= 0) throw new Error("Enter the amount received");
+
+      const { error } = await supabase.rpc("record_payment", {
+        p_invoice_id: invoice.id,
+        p_payment: {
+          amount,
+          method,
+          paid_on: format(paidOn, "yyyy-MM-dd"),
+          reference: reference || null,
+        },
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Payment recorded");
+      setReference("");
+      invalidate();
+    },
+    onError: (error) => {
+      console.error("Record payment error:", error);
+      toast.error(`Failed to record payment: ${error.message}`);
+    },
+  });
+
+  const deletePayment = useMutation({
+    mutationFn: async (paymentId: string) => {
+      const { error } = await supabase.rpc("delete_payment", { p_payment_id: paymentId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Payment removed");
+      invalidate();
+    },
+    onError: (error) => {
+      console.error("Delete payment error:", error);
+      toast.error("Failed to remove payment");
+    },
+  });
+
+  const updateDueDate = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from("invoices")
+        .update({ expected_payment_date: expectedPaymentDate ? format(expectedPaymentDate, "yyyy-MM-dd") : null })
+        .eq("id", invoice.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Expected payment date updated");
+      invalidate();
+    },
+    onError: (error) => {
+      console.error("Update due date error:", error);
+      toast.error("Failed to update expected payment date");
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-muted p-4 rounded-lg space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Customer:</span>
+          <span className="font-medium">{invoice.customer_name || 'N/A'}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Total Amount:</span>
+          <span className="font-medium">₹{Number(invoice.grand_total).toFixed(2)}</span>
+        </div>
+        {credited > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Returned:</span>
+            <span>-₹{credited.toFixed(2)}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Paid:</span>
+          <span>₹{Number(invoice.amount_paid).toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-muted-foreground">Balance Due:</span>
+          <span className="flex items-center gap-2">
+            <PaymentStatusBadge invoice={invoice} />
+            <span className="font-bold text-lg">₹{balanceDue.toFixed(2)}</span>
+          </span>
+        </div>
+      </div>
+
+      {payments && payments.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead>Reference</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="w-12"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {payments.map((payment) => (
+              <TableRow key={payment.id}>
+                <TableCell>{format(new Date(payment.paid_on), "PP")}</TableCell>
+                <TableCell>{paymentMethodLabels[payment.method as PaymentMethod] || payment.method}</TableCell>
+                <TableCell className="text-muted-foreground">{payment.reference || "-"}</TableCell>
+                <TableCell className="text-right">₹{Number(payment.amount).toFixed(2)}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deletePayment.mutate(payment.id)}
+                    disabled={deletePayment.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {balanceDue > 0 && (
+        <div className="space-y-4 border-t pt-4">
+          <h3 className="font-medium">Record Payment</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="paymentAmount">Amount</Label>
+              <Input
+                id="paymentAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                max={balanceDue}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value === "" ? "" : Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(v: PaymentMethod) => setMethod(v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Date Received</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start text-left font-normal">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {format(paidOn, "PPP")}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={paidOn}
+                    onSelect={(date) => date && setPaidOn(date)}
+                    disabled={(date) => date > new Date()}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentReference">Reference</Label>
+              <Input
+                id="paymentReference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="UPI / transaction ID"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={() => recordPayment.mutate()} disabled={!amount || recordPayment.isPending}>
+              {recordPayment.isPending ? "Saving..." : "Record Payment"}
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Expected Payment Date</Label>
+            <div className="flex gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn(
+                      "flex-1 justify-start text-left font-normal",
+                      !expectedPaymentDate && "text-muted-foreground"
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {expectedPaymentDate ? format(expectedPaymentDate, "PPP") : "Pick a date"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={expectedPaymentDate}
+                    onSelect={setExpectedPaymentDate}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              <Button variant="outline" onClick={() => updateDueDate.mutate()} disabled={updateDueDate.isPending}>
+                Save Date
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
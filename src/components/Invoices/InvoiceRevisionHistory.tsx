@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format } from "date-fns";
+import { variantLabel } from "@/lib/inventory";
+
+interface InvoiceRevisionHistoryProps {
+  invoiceId: string;
+}
+
+export function InvoiceRevisionHistory({ invoiceId }: InvoiceRevisionHistoryProps) {
+  const { data: revisions, isLoading } = useQuery({
+    queryKey: ["invoice-revisions", invoiceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("invoice_revisions")
+        .select("*")
+        .eq("invoice_id", invoiceId)
+        .order("revision_number", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground py-4">Loading history...</div>;
+  }
+
+  if (!revisions || revisions.length === 0) {
+    return <div className="text-center py-8 text-muted-foreground">This invoice has not been edited</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {revisions.map((revision) => {
+        // Snapshots of the invoice as it was before this edit
+        const before = revision.invoice_data as unknown as Tables<"invoices">;
+        const items = (revision.items_data as unknown as Tables<"invoice_items">[]) || [];
+
+        return (
+          <div key={revision.id} className="border rounded-lg p-4 space-y-3">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">Edit #{revision.revision_number}</span>
+              <span className="text-muted-foreground">
+                {revision.created_at ? format(new Date(revision.created_at), "PPp") : ""}
+              </span>
+            </div>
+            {revision.change_summary && <p className="text-sm">{revision.change_summary}</p>}
+            <div className="text-xs text-muted-foreground">
+              Before: {before.customer_name || "No customer"} • ₹{Number(before.grand_total).toFixed(2)}
+              {Number(before.discount_amount) > 0 && ` • discount ₹${Number(before.discount_amount).toFixed(2)}`}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      {item.product_name}
+                      {(item.size_name || item.color_name) && (
+                        <span className="text-muted-foreground"> ({variantLabel(item.size_name, item.color_name)})</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className="text-right">₹{Number(item.unit_price).toFixed(2)}</TableCell>
+                    <TableCell className="text-right">₹{Number(item.total_price).toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import type { InvoiceTotals, TaxMode } from "@/lib/tax";
+
+interface InvoiceTaxLinesProps {
+  totals: InvoiceTotals;
+  mode: TaxMode;
+}
+
+// The tax rows of an invoice's totals: one flat rate, or the CGST/SGST or IGST split
+export function InvoiceTaxLines({ totals, mode }: InvoiceTaxLinesProps) {
+  if (mode.kind === "flat") {
+    return (
+      <div className="flex justify-between">
+        <span>Tax ({mode.taxPercentage || 0}%):</span>
+        <span>₹{totals.taxAmount.toFixed(2)}</span>
+      </div>
+    );
+  }
+
+  const rates = Array.from(new Set(totals.lines.map((line) => line.gstRate))).sort((a, b) => a - b);
+  const rateLabel = rates.length ? ` @ ${rates.join("/")}%` : "";
+
+  return (
+    <>
+      <div className="flex justify-between text-muted-foreground">
+        <span>Taxable Value:</span>
+        <span>₹{totals.taxableValue.toFixed(2)}</span>
+      </div>
+      {totals.isInterState ? (
+        <div className="flex justify-between">
+          <span>IGST{rateLabel}:</span>
+          <span>₹{totals.igst.toFixed(2)}</span>
+        </div>
+      ) : (
+        <>
+          <div className="flex justify-between">
+            <span>CGST:</span>
+            <span>₹{totals.cgst.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>SGST:</span>
+            <span>₹{totals.sgst.toFixed(2)}</span>
+          </div>
+        </>
+      )}
+      <p className="text-xs text-muted-foreground">
+        GST{rateLabel} by value per piece{totals.isInterState ? ", inter-state supply" : ""}
+      </p>
+    </>
+  );
+}
@@ -6,6 +6,11 @@ import { Separator } from "@/components/ui/separator";
 import { format } from "date-fns";
 import { useEffect, useState } from "react";
 import QRCode from "qrcode";
+import { gstStateLabel, summariseGstByRate } from "@/lib/tax";
+import { sendInvoiceOnWhatsApp } from "@/lib/whatsapp";
+import { Button } from "@/components/ui/button";
+import { MessageCircle } from "lucide-react";
+import { toast } from "sonner";
 
 interface InvoiceViewDialogProps {
   invoiceId: string | null;
@@ -64,13 +69,30 @@ export function InvoiceViewDialog({ invoiceId, open, onOpenChange }: InvoiceView
     }
   }, [storeSettings]);
 
+  const sendOnWhatsApp = async () => {
+    if (!invoice) return;
+    try {
+      await sendInvoiceOnWhatsApp(invoice, storeSettings);
+    } catch (error) {
+      console.error("WhatsApp share error:", error);
+      toast.error("Failed to prepare the WhatsApp message");
+    }
+  };
+
   if (!invoice) return null;
 
+  // Invoices issued with GST carry a place of supply
+  const isTaxInvoice = !!invoice.place_of_supply;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
-        <DialogHeader>
+        <DialogHeader className="flex-row items-center justify-between space-y-0 pr-8">
           <DialogTitle>Invoice Details</DialogTitle>
+          <Button variant="outline" size="sm" onClick={sendOnWhatsApp}>
+            <MessageCircle className="mr-2 h-4 w-4 text-green-600" />
+            Send on WhatsApp
+          </Button>
         </DialogHeader>
 
         <div className="space-y-6">
@@ -83,21 +105,28 @@ export function InvoiceViewDialog({ invoiceId, open, onOpenChange }: InvoiceView
               {storeSettings?.email && <p className="text-sm text-muted-foreground">Email: {storeSettings.email}</p>}
             </div>
             <div className="text-right">
-              <p className="text-lg font-bold">INVOICE</p>
+              <p className="text-lg font-bold">{isTaxInvoice ? "TAX INVOICE" : "INVOICE"}</p>
               <p className="text-sm">#{invoice.invoice_number}</p>
               <p className="text-sm text-muted-foreground">{format(new Date(invoice.created_at), "PPP")}</p>
+              {isTaxInvoice && invoice.store_gstin && (
+                <p className="text-sm text-muted-foreground">GSTIN: {invoice.store_gstin}</p>
+              )}
             </div>
           </div>
 
           <Separator />
 
           {/* Customer Info */}
-          {(invoice.customer_name || invoice.customer_phone) && (
+          {(invoice.customer_name || invoice.customer_phone || isTaxInvoice) && (
             <>
               <div>
                 <p className="font-semibold mb-1">Bill To:</p>
                 {invoice.customer_name && <p className="text-sm">{invoice.customer_name}</p>}
                 {invoice.customer_phone && <p className="text-sm text-muted-foreground">{invoice.customer_phone}</p>}
+                {invoice.customer_gstin && <p className="text-sm text-muted-foreground">GSTIN: {invoice.customer_gstin}</p>}
+                {isTaxInvoice && (
+                  <p className="text-sm text-muted-foreground">Place of supply: {gstStateLabel(invoice.place_of_supply)}</p>
+                )}
               </div>
               <Separator />
             </>
@@ -109,8 +138,10 @@ export function InvoiceViewDialog({ invoiceId, open, onOpenChange }: InvoiceView
               <TableHeader>
                 <TableRow>
                   <TableHead>Product</TableHead>
+                  {isTaxInvoice && <TableHead>HSN</TableHead>}
                   <TableHead>Size</TableHead>
                   <TableHead className="text-right">Qty</TableHead>
+                  {isTaxInvoice && <TableHead className="text-right">GST</TableHead>}
                   <TableHead className="text-right">Unit Price</TableHead>
                   <TableHead className="text-right">Total</TableHead>
                 </TableRow>
@@ -119,8 +150,10 @@ export function InvoiceViewDialog({ invoiceId, open, onOpenChange }: InvoiceView
                 {items?.map((item) => (
                   <TableRow key={item.id}>
                     <TableCell>{item.product_name}</TableCell>
+                    {isTaxInvoice && <TableCell>{item.hsn_code || "-"}</TableCell>}
                     <TableCell>{item.size_name || "-"}</TableCell>
                     <TableCell className="text-right">{item.quantity}</TableCell>
+                    {isTaxInvoice && <TableCell className="text-right">{item.gst_rate ?? "-"}%</TableCell>}
                     <TableCell className="text-right">₹{item.unit_price}</TableCell>
                     <TableCell className="text-right">₹{item.total_price}</TableCell>
                   </TableRow>
@@ -143,7 +176,34 @@ export function InvoiceViewDialog({ invoiceId, open, onOpenChange }: InvoiceView
                 <span>-₹{invoice.discount_amount}</span>
               </div>
             )}
-            {invoice.tax_amount > 0 && (
+            {isTaxInvoice && (
+              <>
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Taxable Value:</span>
+                  <span>₹{(invoice.subtotal - invoice.discount_amount).toFixed(2)}</span>
+                </div>
+                {summariseGstByRate(items || []).map((summary) =>
+                  summary.igst > 0 ? (
+                    <div key={summary.gstRate} className="flex justify-between">
+                      <span>IGST @ {summary.gstRate}%:</span>
+                      <span>₹{summary.igst.toFixed(2)}</span>
+                    </div>
+                  ) : (
+                    <div key={summary.gstRate} className="space-y-2">
+                      <div className="flex justify-between">
+                        <span>CGST @ {summary.gstRate / 2}%:</span>
+                        <span>₹{summary.cgst.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>SGST @ {summary.gstRate / 2}%:</span>
+                        <span>₹{summary.sgst.toFixed(2)}</span>
+                      </div>
+                    </div>
+                  )
+                )}
+              </>
+            )}
+            {!isTaxInvoice && invoice.tax_amount > 0 && (
               <div className="flex justify-between">
                 <span>Tax ({invoice.tax_percentage}%):</span>
                 <span>₹{invoice.tax_amount}</span>
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { Tables } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Check, MessageCircle } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { sendPaymentReminder, whatsappNumber } from "@/lib/whatsapp";
+
+interface PaymentRemindersDialogProps {
+  receivables: Tables<"receivables">[];
+  storeSettings: Tables<"store_settings"> | null | undefined;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Overdue invoices with a reminder each. Browsers open one WhatsApp tab per click, so the
+// reminders go out one at a time, in order with "Send Next" or by picking a row.
+export function PaymentRemindersDialog({ receivables, storeSettings, open, onOpenChange }: PaymentRemindersDialogProps) {
+  const [sent, setSent] = useState<string[]>([]);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open) setSent([]);
+  }, [open]);
+
+  const overdue = receivables.filter((r) => r.payment_status === "overdue" && r.invoice_id);
+  const reachable = overdue.filter((r) => whatsappNumber(r.customer_phone));
+  const next = reachable.find((r) => !sent.includes(r.invoice_id!));
+
+  const send = async (receivable: Tables<"receivables">) => {
+    setSendingId(receivable.invoice_id);
+    try {
+      await sendPaymentReminder(receivable, storeSettings);
+      setSent((prev) => [...prev, receivable.invoice_id!]);
+      queryClient.invalidateQueries({ queryKey: ["receivables"] });
+    } catch (error) {
+      console.error("Payment reminder error:", error);
+      toast.error(`Failed to send the reminder for ${receivable.invoice_number}`);
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Payment Reminders</DialogTitle>
+        </DialogHeader>
+
+        {overdue.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No invoices are past their expected payment date.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead className="text-right">Balance Due</TableHead>
+                  <TableHead>Last Reminder</TableHead>
+                  <TableHead className="w-28" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overdue.map((receivable) => {
+                  const isSent = sent.includes(receivable.invoice_id!);
+                  const hasNumber = !!whatsappNumber(receivable.customer_phone);
+                  return (
+                    <TableRow key={receivable.invoice_id}>
+                      <TableCell>
+                        <div className="font-medium">{receivable.customer_name || "Walk-in customer"}</div>
+                        <div className="text-xs text-muted-foreground">{receivable.customer_phone || "No phone number"}</div>
+                      </TableCell>
+                      <TableCell>
+                        {receivable.invoice_number}
+                        {receivable.expected_payment_date && (
+                          <div className="text-xs text-muted-foreground">
+                            Due {format(new Date(receivable.expected_payment_date), "PP")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">₹{Number(receivable.balance_due).toFixed(2)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {receivable.reminder_sent_at
+                          ? `${formatDistanceToNow(new Date(receivable.reminder_sent_at))} ago`
+                          : "Never"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isSent ? (
+                          <span className="inline-flex items-center text-sm text-green-600">
+                            <Check className="mr-1 h-4 w-4" />
+                            Sent
+                          </span>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!hasNumber || sendingId !== null}
+                            onClick={() => send(receivable)}
+                          >
+                            Send
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">
+            {sent.length} of {reachable.length} sent
+            {overdue.length > reachable.length && ` · ${overdue.length - reachable.length} without a phone number`}
+          </span>
+          <Button onClick={() => next && send(next)} disabled={!next || sendingId !== null}>
+            <MessageCircle className="mr-2 h-4 w-4" />
+            Send Next
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,20 @@
+import { cn } from "@/lib/utils";
+import { paymentStatusClassNames, paymentStatusLabels, paymentStatusOf } from "@/lib/payments";
+
+interface PaymentStatusBadgeProps {
+  invoice: {
+    payment_status: string | null;
+    expected_payment_date: string | null;
+  };
+  className?: string;
+}
+
+export function PaymentStatusBadge({ invoice, className }: PaymentStatusBadgeProps) {
+  const status = paymentStatusOf(invoice);
+
+  return (
+    <span className={cn("px-2 py-1 rounded-full text-xs font-medium", paymentStatusClassNames[status], className)}>
+      {paymentStatusLabels[status]}
+    </span>
+  );
+}
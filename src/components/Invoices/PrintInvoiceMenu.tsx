@@ -0,0 +1,54 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Printer } from "lucide-react";
+import { PrintFormat, ReceiptWidth, printFormatLabels } from "@/lib/receipt";
+import { PrinterConnection, isPrinterConnectionSupported, printerConnectionLabels } from "@/lib/escpos";
+
+interface PrintInvoiceMenuProps {
+  defaultFormat: PrintFormat;
+  receiptWidth: ReceiptWidth;
+  onDownload: (printFormat: PrintFormat) => void;
+  onPrintToDevice: (connection: PrinterConnection) => void;
+}
+
+// Picks the format for one print; the store's default is what the download button uses
+export function PrintInvoiceMenu({ defaultFormat, receiptWidth, onDownload, onPrintToDevice }: PrintInvoiceMenuProps) {
+  const connections = (Object.keys(printerConnectionLabels) as PrinterConnection[]).filter(isPrinterConnectionSupported);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" title="Print">
+          <Printer className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Download PDF</DropdownMenuLabel>
+        {(Object.keys(printFormatLabels) as PrintFormat[]).map((printFormat) => (
+          <DropdownMenuItem key={printFormat} onClick={() => onDownload(printFormat)}>
+            {printFormatLabels[printFormat]}
+            {printFormat === defaultFormat && <span className="ml-2 text-xs text-muted-foreground">(default)</span>}
+          </DropdownMenuItem>
+        ))}
+        {connections.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Receipt printer ({printFormatLabels[receiptWidth]})</DropdownMenuLabel>
+            {connections.map((connection) => (
+              <DropdownMenuItem key={connection} onClick={() => onPrintToDevice(connection)}>
+                Print over {printerConnectionLabels[connection]}
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
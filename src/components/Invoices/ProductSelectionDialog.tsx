@@ -12,6 +12,7 @@ import { Button } from "@/components/ui/button";
 import { Search, AlertCircle } from "lucide-react";
 import { toast } from "sonner";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { productColumns } from "@/lib/products";
 
 interface ProductSelectionDialogProps {
   open: boolean;
@@ -31,7 +32,7 @@ export function ProductSelectionDialog({
     queryFn: async () => {
       const { data, error } = await supabase
         .from("products")
-        .select("*")
+        .select(productColumns)
         .order("created_at", { ascending: false });
       if (error) throw error;
       return data;
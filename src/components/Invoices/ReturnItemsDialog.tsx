@@ -0,0 +1,397 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Download } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { InvoiceItemsEditor } from "./InvoiceItemsEditor";
+import { variantLabel } from "@/lib/inventory";
+import { buildCreditNotePDF } from "@/lib/invoice-pdf";
+import {
+  InvoiceItem,
+  isInvoiceItemValid,
+  isVariantSelected,
+  toInvoiceItemPayload,
+} from "@/lib/invoice-items";
+import { calculateInvoiceTotals, taxModeForStore } from "@/lib/tax";
+
+type ReturnCondition = "restock" | "damaged";
+
+const refundMethodLabels: Record<string, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  card: "Card",
+  store_credit: "Store credit",
+  exchange: "Exchange",
+};
+
+interface ReturnItemsDialogProps {
+  invoiceId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReturnItemsDialog({ invoiceId, open, onOpenChange }: ReturnItemsDialogProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [conditions, setConditions] = useState<Record<string, ReturnCondition>>({});
+  const [reason, setReason] = useState("");
+  const [refundMethod, setRefundMethod] = useState("cash");
+  const [isExchange, setIsExchange] = useState(false);
+  const [exchangeItems, setExchangeItems] = useState<InvoiceItem[]>([]);
+  const queryClient = useQueryClient();
+
+  const { data: invoice } = useQuery({
+    queryKey: ["invoice-edit", invoiceId],
+    queryFn: async () => {
+      if (!invoiceId) return null;
+      const { data, error } = await supabase
+        .from("invoices")
+        .select("*")
+        .eq("id", invoiceId)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!invoiceId && open,
+  });
+
+  const { data: items } = useQuery({
+    queryKey: ["invoice-items-edit", invoiceId],
+    queryFn: async () => {
+      if (!invoiceId) return [];
+      const { data, error } = await supabase
+        .from("invoice_items")
+        .select("*")
+        .eq("invoice_id", invoiceId)
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!invoiceId && open,
+  });
+
+  const { data: creditNotes } = useQuery({
+    queryKey: ["credit-notes", invoiceId],
+    queryFn: async () => {
+      if (!invoiceId) return [];
+      const { data, error } = await supabase
+        .from("credit_notes")
+        .select("*")
+        .eq("invoice_id", invoiceId)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!invoiceId && open,
+  });
+
+  const { data: storeSettings } = useQuery({
+    queryKey: ["store-settings"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("store_settings").select("*").maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: productInventory } = useQuery({
+    queryKey: ["product-inventory"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("product_inventory").select("*");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setQuantities({});
+    setConditions({});
+    setReason("");
+    setRefundMethod("cash");
+    setIsExchange(false);
+    setExchangeItems([]);
+  }, [open, invoiceId]);
+
+  const downloadCreditNote = async (creditNoteId: string) => {
+    try {
+      const { data: creditNote, error } = await supabase
+        .from("credit_notes")
+        .select("*, credit_note_items(*)")
+        .eq("id", creditNoteId)
+        .single();
+      if (error) throw error;
+
+      const pdf = await buildCreditNotePDF(creditNote, creditNote.credit_note_items, storeSettings);
+      pdf.save(`CreditNote-${creditNote.credit_note_number}.pdf`);
+    } catch (error) {
+      console.error("Credit note PDF error:", error);
+      toast.error("Failed to generate credit note PDF");
+    }
+  };
+
+  const returnLines = (items || [])
+    .filter((item) => (quantities[item.id] || 0) > 0)
+    .map((item) => ({ item, quantity: quantities[item.id] }));
+
+  // Estimate of the credit; the database applies the invoice's discount and tax the same way
+  const returnSubtotal = returnLines.reduce((sum, line) => sum + Number(line.item.unit_price) * line.quantity, 0);
+  const creditTotal = invoice && Number(invoice.subtotal) > 0
+    ? (returnSubtotal * Number(invoice.grand_total)) / Number(invoice.subtotal)
+    : returnSubtotal;
+
+  // The exchange is a new sale, taxed the way the store bills today, to the same buyer
+  const exchangeTaxMode = taxModeForStore(storeSettings, invoice?.place_of_supply || null);
+  const exchangeTotals = calculateInvoiceTotals(exchangeItems, "", "fixed", exchangeTaxMode);
+
+  const createCreditNote = useMutation({
+    mutationFn: async () => {
+      if (!invoiceId) throw new Error("No invoice ID");
+      if (returnLines.length === 0) throw new Error("Select at least one item to return");
+
+      if (isExchange) {
+        if (exchangeItems.length === 0) throw new Error("Add the items the customer is taking instead");
+        if (exchangeItems.some((item) => !isInvoiceItemValid(item) || !isVariantSelected(productInventory, item))) {
+          throw new Error("Select a product, an available size and color, and a quantity for every exchange item");
+        }
+      }
+
+      const { data, error } = await supabase.rpc("create_credit_note", {
+        p_invoice_id: invoiceId,
+        p_credit_note: {
+          reason: reason || null,
+          refund_method: isExchange ? "exchange" : refundMethod,
+        },
+        p_items: returnLines.map(({ item, quantity }) => ({
+          invoice_item_id: item.id,
+          quantity,
+          condition: conditions[item.id] || "restock",
+        })),
+        p_exchange_invoice: isExchange
+          ? {
+              subtotal: exchangeTotals.subtotal,
+              tax_amount: exchangeTotals.taxAmount,
+              tax_percentage: exchangeTaxMode.kind === "flat" ? exchangeTaxMode.taxPercentage : 0,
+              discount_amount: 0,
+              discount_type: "fixed",
+              grand_total: exchangeTotals.grandTotal,
+              payment_status: "paid",
+              customer_gstin: exchangeTaxMode.kind === "gst" ? invoice?.customer_gstin || null : null,
+              place_of_supply: exchangeTaxMode.kind === "gst" ? exchangeTaxMode.placeOfSupply : null,
+            }
+          : null,
+        p_exchange_items: isExchange
+          ? exchangeItems.map((item, index) => toInvoiceItemPayload(item, exchangeTotals.lines[index]))
+          : null,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: async (creditNote) => {
+      toast.success(`Credit note ${creditNote.credit_note_number} created`);
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["invoice-items-edit", invoiceId] });
+      queryClient.invalidateQueries({ queryKey: ["credit-notes", invoiceId] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["low-stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["sales"] });
+      queryClient.invalidateQueries({ queryKey: ["sales-records"] });
+      queryClient.invalidateQueries({ queryKey: ["receivables"] });
+      await downloadCreditNote(creditNote.id);
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      console.error("Credit note error:", error);
+      toast.error(`Failed to process return: ${error.message}`);
+    },
+  });
+
+  if (!invoice) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Return Items - {invoice.invoice_number}</DialogTitle>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[calc(90vh-160px)] pr-4">
+          <div className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Sold</TableHead>
+                  <TableHead className="text-right">Returned</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="w-24">Return</TableHead>
+                  <TableHead className="w-36">Condition</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items?.map((item) => {
+                  const returnable = item.quantity - item.quantity_returned;
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.product_name}</div>
+                        {(item.size_name || item.color_name) && (
+                          <div className="text-xs text-muted-foreground">{variantLabel(item.size_name, item.color_name)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">{item.quantity_returned}</TableCell>
+                      <TableCell className="text-right">₹{Number(item.unit_price).toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={returnable}
+                          value={quantities[item.id] ?? 0}
+                          disabled={returnable === 0}
+                          onChange={(e) =>
+                            setQuantities((prev) => ({
+                              ...prev,
+                              [item.id]: Math.min(returnable, Math.max(0, Number(e.target.value))),
+                            }))
+                          }
+                          className="h-8"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={conditions[item.id] || "restock"}
+                          onValueChange={(v: ReturnCondition) => setConditions((prev) => ({ ...prev, [item.id]: v }))}
+                          disabled={returnable === 0}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="restock">Restock</SelectItem>
+                            <SelectItem value="damaged">Damaged</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="returnReason">Reason</Label>
+                <Input
+                  id="returnReason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Wrong size, defective"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Refund Method</Label>
+                <Select value={isExchange ? "exchange" : refundMethod} onValueChange={setRefundMethod} disabled={isExchange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(refundMethodLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value} disabled={value === "exchange"}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="isExchange" checked={isExchange} onCheckedChange={setIsExchange} />
+              <Label htmlFor="isExchange">Exchange for other items</Label>
+            </div>
+
+            {isExchange && (
+              <InvoiceItemsEditor items={exchangeItems} onItemsChange={setExchangeItems} />
+            )}
+
+            <div className="space-y-2 border-t pt-4">
+              <div className="flex justify-between">
+                <span>Credit (incl. discount and tax):</span>
+                <span>₹{creditTotal.toFixed(2)}</span>
+              </div>
+              {isExchange && (
+                <>
+                  <div className="flex justify-between">
+                    <span>
+                      Exchange items ({exchangeTaxMode.kind === "flat" ? `${exchangeTaxMode.taxPercentage}% tax` : "incl. GST"}):
+                    </span>
+                    <span>₹{exchangeTotals.grandTotal.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-lg font-bold">
+                    <span>{exchangeTotals.grandTotal >= creditTotal ? "Customer pays:" : "Refund due:"}</span>
+                    <span>₹{Math.abs(exchangeTotals.grandTotal - creditTotal).toFixed(2)}</span>
+                  </div>
+                </>
+              )}
+              {!isExchange && (
+                <div className="flex justify-between text-lg font-bold">
+                  <span>Refund due:</span>
+                  <span>₹{creditTotal.toFixed(2)}</span>
+                </div>
+              )}
+            </div>
+
+            {creditNotes && creditNotes.length > 0 && (
+              <div className="space-y-2">
+                <Label>Previous Returns</Label>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableBody>
+                      {creditNotes.map((note) => (
+                        <TableRow key={note.id}>
+                          <TableCell className="font-medium">{note.credit_note_number}</TableCell>
+                          <TableCell>{note.created_at ? format(new Date(note.created_at), "PP") : "-"}</TableCell>
+                          <TableCell>{refundMethodLabels[note.refund_method] || note.refund_method}</TableCell>
+                          <TableCell className="text-right">₹{Number(note.total_amount).toFixed(2)}</TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="icon" onClick={() => downloadCreditNote(note.id)}>
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createCreditNote.mutate()}
+            disabled={returnLines.length === 0 || createCreditNote.isPending}
+          >
+            {createCreditNote.isPending ? "Processing..." : isExchange ? "Process Exchange" : "Process Return"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
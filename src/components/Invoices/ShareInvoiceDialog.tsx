@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Tables } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Link, Share2 } from "lucide-react";
+import { addSeconds, format } from "date-fns";
+import { toast } from "sonner";
+import { createInvoiceShareLink, shareLinkExpiries } from "@/lib/invoice-storage";
+
+interface ShareInvoiceDialogProps {
+  invoice: Tables<"invoices"> | null;
+  storeSettings: Tables<"store_settings"> | null | undefined;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ShareInvoiceDialog({ invoice, storeSettings, open, onOpenChange }: ShareInvoiceDialogProps) {
+  const [expiresIn, setExpiresIn] = useState("604800");
+  const [link, setLink] = useState<{ url: string; expiresAt: Date } | null>(null);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open) setLink(null);
+  }, [open, invoice?.id]);
+
+  const createLink = useMutation({
+    mutationFn: async () => {
+      if (!invoice) throw new Error("No invoice selected");
+      const url = await createInvoiceShareLink(invoice, Number(expiresIn));
+      return { url, expiresAt: addSeconds(new Date(), Number(expiresIn)) };
+    },
+    onSuccess: (created) => {
+      setLink(created);
+      // A PDF not stored yet is stored on the first share
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+    },
+    onError: (error) => {
+      console.error("Share link error:", error);
+      toast.error(`Failed to create link: ${error.message}`);
+    },
+  });
+
+  const copyLink = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      toast.success("Link copied");
+    } catch (error) {
+      console.error("Clipboard error:", error);
+      toast.error("Couldn't copy the link. Select it and copy it instead");
+    }
+  };
+
+  const sendLink = async () => {
+    if (!link || !invoice) return;
+    try {
+      await navigator.share({
+        title: `Invoice ${invoice.invoice_number}`,
+        text: `Invoice ${invoice.invoice_number} from ${storeSettings?.store_name || "our store"}`,
+        url: link.url,
+      });
+    } catch (error) {
+      // Closing the share sheet without picking an app rejects too
+      if (error instanceof Error && error.name !== "AbortError") {
+        console.error("Share error:", error);
+        toast.error("Couldn't share the link");
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share Invoice {invoice?.invoice_number}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Link expires after</Label>
+            <Select
+              value={expiresIn}
+              onValueChange={(value) => {
+                setExpiresIn(value);
+                setLink(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(shareLinkExpiries).map(([seconds, label]) => (
+                  <SelectItem key={seconds} value={seconds}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {link ? (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Input readOnly value={link.url} onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" title="Copy link" onClick={copyLink}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+                {typeof navigator.share === "function" && (
+                  <Button variant="outline" size="icon" title="Send" onClick={sendLink}>
+                    <Share2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Anyone with the link can open the invoice until {format(link.expiresAt, "PPp")}. It shows the
+                invoice as it was issued.
+              </p>
+            </div>
+          ) : (
+            <Button className="w-full" onClick={() => createLink.mutate()} disabled={!invoice || createLink.isPending}>
+              <Link className="mr-2 h-4 w-4" />
+              {createLink.isPending ? "Creating link..." : "Create Link"}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
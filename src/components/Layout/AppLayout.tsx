@@ -14,6 +14,11 @@ import {
   Moon,
   Sun,
   DollarSign,
+  Truck,
+  Users,
+  Wallet,
+  ScanBarcode,
+  Hourglass,
 } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { Button } from '@/components/ui/button';
@@ -31,23 +36,38 @@ import {
   useSidebar,
 } from '@/components/ui/sidebar';
 import { useAuth } from '@/hooks/use-auth';
+import { useDate } from '@/contexts/DateContext';
+import { Permission, roleLabels } from '@/lib/permissions';
 
-const navItems = [
-  { title: 'Dashboard', url: '/', icon: LayoutDashboard },
+// Pages with reportsPeriod read the report period from the query string, so it goes with them
+const navItems: {
+  title: string;
+  url: string;
+  icon: typeof LayoutDashboard;
+  permission?: Permission;
+  reportsPeriod?: boolean;
+}[] = [
+  { title: 'Dashboard', url: '/', icon: LayoutDashboard, reportsPeriod: true },
   { title: 'Products', url: '/products', icon: Package },
   { title: 'Categories', url: '/categories', icon: FolderOpen },
   { title: 'Sizes', url: '/sizes', icon: Ruler },
   { title: 'Colors', url: '/colors', icon: Palette },
-  { title: 'Invoices', url: '/invoices', icon: Receipt },
-  { title: 'Trending Products', url: '/trending', icon: TrendingUp },
-  { title: 'Profits', url: '/profits', icon: DollarSign },
-  { title: 'Settings', url: '/settings', icon: Settings },
+  { title: 'Invoices', url: '/invoices', icon: Receipt, reportsPeriod: true },
+  { title: 'Point of Sale', url: '/pos', icon: ScanBarcode, permission: 'createInvoices' },
+  { title: 'Customers', url: '/customers', icon: Users },
+  { title: 'Receivables', url: '/receivables', icon: Wallet },
+  { title: 'Purchases', url: '/purchases', icon: Truck, permission: 'managePurchases' },
+  { title: 'Trending Products', url: '/trending', icon: TrendingUp, reportsPeriod: true },
+  { title: 'Profits', url: '/profits', icon: DollarSign, permission: 'viewProfits', reportsPeriod: true },
+  { title: 'Stock Ageing', url: '/stock-ageing', icon: Hourglass, permission: 'viewCostPrices' },
+  { title: 'Settings', url: '/settings', icon: Settings, permission: 'manageSettings' },
 ];
 
 function AppSidebar() {
   const location = useLocation();
-  const { signOut } = useAuth();
+  const { signOut, role, permissions } = useAuth();
   const { open } = useSidebar();
+  const { periodSearch } = useDate();
 
   return (
     <Sidebar>
@@ -64,10 +84,10 @@ function AppSidebar() {
           </SidebarGroupLabel>
           <SidebarGroupContent className="mt-4">
             <SidebarMenu>
-              {navItems.map((item) => (
+              {navItems.filter((item) => !item.permission || permissions[item.permission]).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton asChild isActive={location.pathname === item.url}>
-                    <Link to={item.url}>
+                    <Link to={item.reportsPeriod ? `${item.url}${periodSearch}` : item.url}>
                       <item.icon className="h-4 w-4" />
                       <span>{item.title}</span>
                     </Link>
@@ -79,6 +99,9 @@ function AppSidebar() {
         </SidebarGroup>
         
         <div className="mt-auto p-4">
+          {open && role && (
+            <p className="mb-2 px-4 text-xs text-muted-foreground">Signed in as {roleLabels[role]}</p>
+          )}
           <Button
             variant="ghost"
             className="w-full justify-start"
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import type { DateRange as CalendarRange } from 'react-day-picker';
+import { endOfDay, startOfDay } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useDate } from '@/contexts/DateContext';
+import { DateRangePreset, NamedDateRangePreset, dateRangePresetLabels, formatDateRange } from '@/lib/date-ranges';
+
+interface DateRangePickerProps {
+  // Offer "All dates", for lists that show everything until a period is picked
+  allowAllDates?: boolean;
+}
+
+export function DateRangePicker({ allowAllDates = false }: DateRangePickerProps) {
+  const { period, periodChosen, setPreset, setCustomRange, clearPeriod } = useDate();
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const [selection, setSelection] = useState<CalendarRange | undefined>();
+
+  const showingAll = allowAllDates && !periodChosen;
+
+  const openCalendar = () => {
+    setSelection(showingAll ? undefined : { from: period.range.start, to: period.range.end });
+    setCalendarOpen(true);
+  };
+
+  const applySelection = () => {
+    if (!selection?.from) return;
+    setCustomRange({ start: startOfDay(selection.from), end: endOfDay(selection.to || selection.from) });
+    setCalendarOpen(false);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={showingAll ? 'all' : period.preset}
+        onValueChange={(value: DateRangePreset | 'all') => {
+          if (value === 'all') clearPeriod();
+          else if (value === 'custom') openCalendar();
+          else setPreset(value as NamedDateRangePreset);
+        }}
+      >
+        <SelectTrigger className="w-[180px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {allowAllDates && <SelectItem value="all">All dates</SelectItem>}
+          {(Object.keys(dateRangePresetLabels) as DateRangePreset[]).map((preset) => (
+            <SelectItem key={preset} value={preset}>
+              {dateRangePresetLabels[preset]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Popover open={calendarOpen} onOpenChange={(open) => (open ? openCalendar() : setCalendarOpen(false))}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className={cn('w-[260px] justify-start text-left font-normal', showingAll && 'text-muted-foreground')}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {showingAll ? <span>Pick dates</span> : formatDateRange(period.range)}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="range"
+            numberOfMonths={2}
+            defaultMonth={selection?.from}
+            selected={selection}
+            onSelect={setSelection}
+            initialFocus
+            className={cn('p-3 pointer-events-auto')}
+          />
+          <div className="flex justify-end gap-2 border-t p-3">
+            <Button variant="outline" size="sm" onClick={() => setCalendarOpen(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={applySelection} disabled={!selection?.from}>
+              Apply
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
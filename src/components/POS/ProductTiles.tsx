@@ -0,0 +1,86 @@
+import { useState } from "react";
+import type { Tables } from "@/integrations/supabase/types";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Package } from "lucide-react";
+import type { Product } from "@/lib/products";
+
+interface ProductTilesProps {
+  products: Product[];
+  categories: Tables<"categories">[];
+  onSelect: (product: Product) => void;
+}
+
+export function ProductTiles({ products, categories, onSelect }: ProductTilesProps) {
+  const [categoryId, setCategoryId] = useState<string>("all");
+
+  // Only categories that have something to sell get a tab
+  const tabs = categories.filter((c) => products.some((p) => p.category_id === c.id));
+  const visible = categoryId === "all" ? products : products.filter((p) => p.category_id === categoryId);
+
+  return (
+    <div className="flex h-full flex-col gap-3">
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant={categoryId === "all" ? "default" : "outline"}
+          onClick={() => setCategoryId("all")}
+        >
+          All
+        </Button>
+        {tabs.map((category) => (
+          <Button
+            key={category.id}
+            size="sm"
+            variant={categoryId === category.id ? "default" : "outline"}
+            onClick={() => setCategoryId(category.id)}
+          >
+            {category.name}
+          </Button>
+        ))}
+      </div>
+
+      <ScrollArea className="flex-1">
+        {visible.length === 0 ? (
+          <p className="py-12 text-center text-muted-foreground">No products found</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-3 pr-3 md:grid-cols-3 xl:grid-cols-4">
+            {visible.map((product) => {
+              const outOfStock = product.quantity_in_stock <= 0;
+              return (
+                <button
+                  key={product.id}
+                  type="button"
+                  disabled={outOfStock}
+                  onClick={() => onSelect(product)}
+                  className={cn(
+                    "flex flex-col overflow-hidden rounded-lg border bg-card text-left transition-colors hover:border-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                    outOfStock && "cursor-not-allowed opacity-50"
+                  )}
+                >
+                  <div className="flex aspect-square items-center justify-center bg-muted">
+                    {product.image_url ? (
+                      <img src={product.image_url} alt={product.name} className="h-full w-full object-cover" />
+                    ) : (
+                      <Package className="h-10 w-10 text-muted-foreground" />
+                    )}
+                  </div>
+                  <div className="space-y-1 p-2">
+                    <div className="line-clamp-2 text-sm font-medium">{product.name}</div>
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="font-semibold">₹{Number(product.price_inr).toFixed(2)}</span>
+                      <span className={cn("text-muted-foreground", outOfStock && "text-destructive")}>
+                        {outOfStock ? "Out of stock" : `${product.quantity_in_stock} left`}
+                      </span>
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
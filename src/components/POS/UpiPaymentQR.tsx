@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import type { Tables } from "@/integrations/supabase/types";
+import { upiQRCode } from "@/lib/upi";
+
+interface UpiPaymentQRProps {
+  storeSettings: Tables<"store_settings"> | null | undefined;
+  amount: number;
+  note: string;
+}
+
+// The customer scans this to pay the UPI part of the sale with the amount already filled in
+export function UpiPaymentQR({ storeSettings, amount, note }: UpiPaymentQRProps) {
+  const [image, setImage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    upiQRCode(storeSettings, amount, note)
+      .then((dataUrl) => {
+        if (!cancelled) setImage(dataUrl);
+      })
+      .catch((error) => console.error("UPI QR error:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [storeSettings, amount, note]);
+
+  if (!image) return null;
+
+  return (
+    <div className="flex items-center gap-4 rounded-md border p-3">
+      <img src={image} alt="UPI payment QR code" className="h-32 w-32" />
+      <div className="space-y-1 text-sm">
+        <div className="font-medium">Scan to pay with any UPI app</div>
+        <div className="text-2xl font-bold">₹{amount.toFixed(2)}</div>
+        <div className="text-muted-foreground">{storeSettings?.upi_vpa}</div>
+      </div>
+    </div>
+  );
+}
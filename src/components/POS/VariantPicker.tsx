@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import type { Tables } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { unitPriceFor } from "@/lib/invoice-items";
+import type { Product } from "@/lib/products";
+
+interface VariantPickerProps {
+  product: Product | null;
+  variants: Tables<"product_inventory">[];
+  sizes: Tables<"sizes">[];
+  colors: Tables<"colors">[];
+  productSizePrices: Tables<"product_size_prices">[] | undefined;
+  // Stock left for a variant after what is already in the cart
+  availableFor: (variant: Tables<"product_inventory">) => number;
+  onPick: (size: Tables<"sizes"> | null, color: Tables<"colors"> | null) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Size chips, then colour chips for that size; a line is added as soon as the variant is known
+export function VariantPicker({
+  product,
+  variants,
+  sizes,
+  colors,
+  productSizePrices,
+  availableFor,
+  onPick,
+  onOpenChange,
+}: VariantPickerProps) {
+  const [sizeId, setSizeId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSizeId(null);
+  }, [product]);
+
+  if (!product) return null;
+
+  const hasSizes = variants.some((v) => v.size_id);
+  const hasColors = variants.some((v) => v.color_id);
+  const stockOfSize = (id: string) =>
+    variants.filter((v) => v.size_id === id).reduce((sum, v) => sum + availableFor(v), 0);
+
+  const variantSizes = sizes.filter((s) => variants.some((v) => v.size_id === s.id));
+  const colorVariants = variants.filter((v) => !hasSizes || v.size_id === sizeId);
+
+  const pick = (variant: Tables<"product_inventory">) => {
+    onPick(
+      sizes.find((s) => s.id === variant.size_id) || null,
+      colors.find((c) => c.id === variant.color_id) || null
+    );
+  };
+
+  const handleSize = (id: string) => {
+    const variantsOfSize = variants.filter((v) => v.size_id === id);
+    if (!hasColors && variantsOfSize.length === 1) {
+      pick(variantsOfSize[0]);
+      return;
+    }
+    setSizeId(id);
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{product.name}</DialogTitle>
+        </DialogHeader>
+
+        {hasSizes && (
+          <div className="space-y-2">
+            <Label>Size</Label>
+            <div className="flex flex-wrap gap-2">
+              {variantSizes.map((size) => {
+                const stock = stockOfSize(size.id);
+                return (
+                  <Button
+                    key={size.id}
+                    variant={sizeId === size.id ? "default" : "outline"}
+                    className="h-14 min-w-16 flex-col gap-0"
+                    disabled={stock <= 0}
+                    onClick={() => handleSize(size.id)}
+                  >
+                    <span className="text-base font-semibold">{size.name}</span>
+                    <span className="text-xs opacity-80">
+                      ₹{unitPriceFor(product, size.id, productSizePrices)} · {stock} left
+                    </span>
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {hasColors && (!hasSizes || sizeId) && (
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <div className="flex flex-wrap gap-2">
+              {colorVariants.map((variant) => {
+                const color = colors.find((c) => c.id === variant.color_id);
+                const stock = availableFor(variant);
+                return (
+                  <Button
+                    key={variant.id}
+                    variant="outline"
+                    className={cn("h-12 gap-2", stock <= 0 && "opacity-50")}
+                    disabled={stock <= 0}
+                    onClick={() => pick(variant)}
+                  >
+                    <span
+                      className="h-5 w-5 rounded-full border"
+                      style={{ backgroundColor: color?.hex_code || "#000000" }}
+                    />
+                    {color?.name || "No color"}
+                    <span className="text-xs text-muted-foreground">{stock}</span>
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
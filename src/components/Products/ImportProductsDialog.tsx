@@ -0,0 +1,318 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+import {
+  Catalogue,
+  ColumnMapping,
+  ImportResult,
+  ProductImportField,
+  guessColumnMapping,
+  importFieldsFor,
+  planProductImport,
+  productImportFieldLabels,
+  runProductImport,
+} from "@/lib/product-import";
+
+interface ImportProductsDialogProps {
+  catalogue: Catalogue;
+  includeCost: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Nothing is saved until the preview looks right; products with errors are left out
+export function ImportProductsDialog({ catalogue, includeCost, open, onOpenChange }: ImportProductsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [createMissing, setCreateMissing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFileName("");
+      setRows([]);
+      setMapping({});
+      setResult(null);
+    }
+  }, [open]);
+
+  const headers = rows[0] || [];
+  const fields = importFieldsFor(includeCost);
+
+  // The dry run, redone whenever the columns or options change
+  const plan = useMemo(
+    () =>
+      rows.length > 1 && (mapping.name !== undefined || mapping.sku !== undefined)
+        ? planProductImport(rows.slice(1), mapping, catalogue, { createMissing, includeCost })
+        : null,
+    [rows, mapping, catalogue, createMissing, includeCost]
+  );
+
+  const openFile = async (file: File) => {
+    try {
+      const fileRows = await readSpreadsheet(file);
+      if (fileRows.length < 2) {
+        toast({ title: "The file has no rows below its header", variant: "destructive" });
+        return;
+      }
+      setFileName(file.name);
+      setRows(fileRows);
+      setMapping(guessColumnMapping(fileRows[0]));
+      setResult(null);
+    } catch (error) {
+      console.error("Spreadsheet read error:", error);
+      toast({ title: "Couldn't read the file. Use a CSV or .xlsx file", variant: "destructive" });
+    }
+  };
+
+  const setColumn = (field: ProductImportField, value: string) => {
+    setMapping((prev) => {
+      const { [field]: _, ...rest } = prev;
+      return value === "none" ? rest : { ...rest, [field]: Number(value) };
+    });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      if (!plan) throw new Error("Nothing to import");
+      setProgress(0);
+      return runProductImport(plan, catalogue, { includeCost, fileName }, setProgress);
+    },
+    onSuccess: (imported) => {
+      setResult(imported);
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product-costs"] });
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+      queryClient.invalidateQueries({ queryKey: ["sizes"] });
+      queryClient.invalidateQueries({ queryKey: ["colors"] });
+      queryClient.invalidateQueries({ queryKey: ["product-size-prices"] });
+      queryClient.invalidateQueries({ queryKey: ["product-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["low-stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      toast({
+        title: `Imported ${imported.imported} product${imported.imported === 1 ? "" : "s"}`,
+        ...(imported.failed.length > 0 && {
+          description: `${imported.failed.length} could not be saved`,
+          variant: "destructive" as const,
+        }),
+      });
+    },
+    onError: (error) => {
+      console.error("Product import error:", error);
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const newCount = plan?.products.filter((p) => !p.existing).length || 0;
+  const updateCount = (plan?.products.length || 0) - newCount;
+  const toCreate = plan
+    ? [
+        plan.newCategories.length > 0 && `categories ${plan.newCategories.join(", ")}`,
+        plan.newSizes.length > 0 && `sizes ${plan.newSizes.join(", ")}`,
+        plan.newColors.length > 0 && `colors ${plan.newColors.join(", ")}`,
+      ].filter(Boolean)
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !importMutation.isPending && onOpenChange(v)}>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[calc(90vh-160px)] pr-4">
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">CSV or Excel file</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                disabled={importMutation.isPending}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) openFile(file);
+                  e.target.value = "";
+                }}
+              />
+              <p className="text-sm text-muted-foreground">
+                One row per size and color of a product, in the same columns as an export. A product's details are
+                read from its first row. Rows are matched to existing products by SKU, or by name without one; blank
+                cells keep the product's current value, and the sizes, colors and stock in the file replace the
+                product's.
+              </p>
+            </div>
+
+            {rows.length > 0 && (
+              <>
+                <div className="space-y-2">
+                  <Label>Columns in {fileName}</Label>
+                  <div className="grid grid-cols-3 gap-3">
+                    {fields.map((field) => (
+                      <div key={field} className="space-y-1">
+                        <span className="text-sm">
+                          {productImportFieldLabels[field]}
+                          {field === "name" && " *"}
+                        </span>
+                        <Select
+                          value={mapping[field] === undefined ? "none" : String(mapping[field])}
+                          onValueChange={(value) => setColumn(field, value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Not in file</SelectItem>
+                            {headers.map((header, index) => (
+                              <SelectItem key={index} value={String(index)}>
+                                {header || `Column ${index + 1}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="create-missing"
+                    checked={createMissing}
+                    onCheckedChange={(checked) => setCreateMissing(checked === true)}
+                  />
+                  <label htmlFor="create-missing" className="text-sm">
+                    Add categories, sizes and colors that don't exist yet
+                  </label>
+                </div>
+
+                {!plan ? (
+                  <p className="text-sm text-destructive">Pick the column that holds the product name or SKU.</p>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="text-sm">
+                      <span className="font-medium">
+                        {newCount} new product{newCount === 1 ? "" : "s"}, {updateCount} to update
+                      </span>
+                      {plan.skippedProducts > 0 && (
+                        <span className="text-destructive">
+                          {" "}· {plan.skippedProducts} left out because of the errors below
+                        </span>
+                      )}
+                      {toCreate.length > 0 && (
+                        <p className="text-muted-foreground">Adds {toCreate.join("; ")}.</p>
+                      )}
+                    </div>
+
+                    {plan.errors.length > 0 && (
+                      <div className="rounded-md border border-destructive p-3">
+                        <ScrollArea className="max-h-40">
+                          <ul className="space-y-1 text-sm text-destructive">
+                            {plan.errors.map((error, index) => (
+                              <li key={index}>
+                                Row {error.row}: {error.message}
+                              </li>
+                            ))}
+                          </ul>
+                        </ScrollArea>
+                      </div>
+                    )}
+
+                    {plan.products.length > 0 && (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Product</TableHead>
+                            <TableHead>SKU</TableHead>
+                            <TableHead className="text-right">Price</TableHead>
+                            <TableHead className="text-right">Variants</TableHead>
+                            <TableHead className="text-right">Stock</TableHead>
+                            <TableHead />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {plan.products.map((product) => {
+                            const hasVariants = product.variants.some((v) => v.size || v.color);
+                            const stock = product.variants.every((v) => v.stock === null)
+                              ? null
+                              : product.variants.reduce((sum, v) => sum + (v.stock || 0), 0);
+                            return (
+                              <TableRow key={product.rows[0]}>
+                                <TableCell className="font-medium">{product.name}</TableCell>
+                                <TableCell>{product.sku || product.existing?.sku || "Generated"}</TableCell>
+                                <TableCell className="text-right">
+                                  ₹{(product.price ?? product.existing?.price_inr ?? 0).toFixed(2)}
+                                </TableCell>
+                                <TableCell className="text-right">{hasVariants ? product.variants.length : "-"}</TableCell>
+                                <TableCell className="text-right">{stock ?? "Unchanged"}</TableCell>
+                                <TableCell>
+                                  <Badge variant={product.existing ? "secondary" : "default"}>
+                                    {product.existing ? "Update" : "New"}
+                                  </Badge>
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+
+            {result && result.failed.length > 0 && (
+              <div className="rounded-md border border-destructive p-3 text-sm text-destructive">
+                <p className="font-medium">These products could not be saved:</p>
+                <ul className="mt-1 space-y-1">
+                  {result.failed.map((failure) => (
+                    <li key={failure.rows[0]}>
+                      {failure.name} (row {failure.rows[0]}): {failure.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="flex items-center justify-end gap-2">
+          {importMutation.isPending && plan && (
+            <span className="mr-auto text-sm text-muted-foreground">
+              Saved {progress} of {plan.products.length}...
+            </span>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={importMutation.isPending}>
+            {result ? "Close" : "Cancel"}
+          </Button>
+          {!result && (
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={!plan || plan.products.length === 0 || importMutation.isPending}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              {importMutation.isPending
+                ? "Importing..."
+                : `Import ${plan?.products.length || 0} Product${plan?.products.length === 1 ? "" : "s"}`}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { variantLabel } from "@/lib/inventory";
+import { unitPriceFor } from "@/lib/invoice-items";
+import { BarcodeFormat, barcodeFormatLabels } from "@/lib/barcode";
+import { LabelLayout, ProductLabel, buildLabelsPDF, labelLayoutLabels } from "@/lib/label-pdf";
+import type { Product } from "@/lib/products";
+
+interface PrintLabelsDialogProps {
+  products: Product[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface LabelRow extends ProductLabel {
+  key: string;
+  inStock: number;
+}
+
+export function PrintLabelsDialog({ products, open, onOpenChange }: PrintLabelsDialogProps) {
+  const { toast } = useToast();
+  const [layout, setLayout] = useState<LabelLayout>("thermal");
+  const [format, setFormat] = useState<BarcodeFormat>("code128");
+  const [copies, setCopies] = useState<Record<string, string>>({});
+  const productIds = products.map((p) => p.id);
+
+  const { data: variants, isLoading } = useQuery({
+    queryKey: ["label-variants", productIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("product_inventory")
+        .select("*, sizes(name, sort_order), colors(name, sort_order)")
+        .in("product_id", productIds);
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && productIds.length > 0,
+  });
+
+  const { data: productSizePrices } = useQuery({
+    queryKey: ["product-size-prices"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("product_size_prices").select("*");
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  // A label per variant, or per product when it has no sizes or colors
+  const rows: LabelRow[] = products.flatMap((product) => {
+    const productVariants = (variants || [])
+      .filter((v) => v.product_id === product.id)
+      .sort((a, b) =>
+        (a.sizes?.sort_order ?? 0) - (b.sizes?.sort_order ?? 0) ||
+        (a.colors?.sort_order ?? 0) - (b.colors?.sort_order ?? 0)
+      );
+
+    if (productVariants.length === 0) {
+      return [{
+        key: product.id,
+        name: product.name,
+        variant: "",
+        sku: product.sku,
+        barcode: product.barcode,
+        mrp: Number(product.price_inr),
+        inStock: product.quantity_in_stock,
+      }];
+    }
+
+    return productVariants.map((v) => ({
+      key: v.id,
+      name: product.name,
+      variant: variantLabel(v.sizes?.name, v.colors?.name),
+      sku: v.sku,
+      barcode: v.barcode,
+      mrp: unitPriceFor(product, v.size_id, productSizePrices),
+      inStock: v.quantity,
+    }));
+  });
+
+  useEffect(() => {
+    if (open) setCopies({});
+  }, [open]);
+
+  // Labels usually go on stock that has just come in, so one per piece on hand to start with
+  const copiesOf = (row: LabelRow) => {
+    const value = copies[row.key];
+    return value === undefined ? Math.max(row.inStock, 0) : Math.max(parseInt(value) || 0, 0);
+  };
+
+  const labels = rows.flatMap((row) => Array<ProductLabel>(copiesOf(row)).fill(row));
+
+  const createPDF = () => {
+    try {
+      return buildLabelsPDF(labels, layout, format);
+    } catch (error) {
+      console.error("Label PDF error:", error);
+      toast({
+        title: "Failed to create labels",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  const handlePrint = () => {
+    const pdf = createPDF();
+    if (!pdf) return;
+    pdf.autoPrint();
+    window.open(pdf.output("bloburl"), "_blank");
+  };
+
+  const handleDownload = () => {
+    const pdf = createPDF();
+    if (!pdf) return;
+    pdf.save(`Labels-${new Date().toISOString().slice(0, 10)}.pdf`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Print Labels</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Label size</Label>
+            <Select value={layout} onValueChange={(v: LabelLayout) => setLayout(v)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(labelLayoutLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Barcode</Label>
+            <Select value={format} onValueChange={(v: BarcodeFormat) => setFormat(v)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(barcodeFormatLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <ScrollArea className="max-h-[50vh]">
+          {isLoading ? (
+            <div>Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead className="text-right">MRP</TableHead>
+                  <TableHead className="text-right">In Stock</TableHead>
+                  <TableHead className="w-24 text-right">Labels</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.key}>
+                    <TableCell>
+                      <div className="font-medium">{row.name}</div>
+                      {row.variant && <div className="text-xs text-muted-foreground">{row.variant}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-mono text-xs">{row.sku || "-"}</div>
+                      {row.barcode && <div className="font-mono text-xs text-muted-foreground">{row.barcode}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">₹{row.mrp.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{row.inStock}</TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min="0"
+                        className="h-8 w-20 ml-auto"
+                        value={copies[row.key] ?? String(copiesOf(row))}
+                        onChange={(e) => setCopies((prev) => ({ ...prev, [row.key]: e.target.value }))}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </ScrollArea>
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">
+            {labels.length} label{labels.length !== 1 ? "s" : ""}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleDownload} disabled={labels.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Download PDF
+            </Button>
+            <Button onClick={handlePrint} disabled={labels.length === 0}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { cn } from "@/lib/utils";
+import { stockMovementLabels, variantLabel, type StockMovementType } from "@/lib/inventory";
+
+interface StockHistoryDialogProps {
+  product: { id: string; name: string; quantity_in_stock: number } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function StockHistoryDialog({ product, open, onOpenChange }: StockHistoryDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: movements, isLoading } = useQuery({
+    queryKey: ["stock-movements", product?.id],
+    queryFn: async () => {
+      if (!product) return [];
+      const { data, error } = await supabase
+        .from("stock_movements")
+        .select("*, sizes(name), colors(name)")
+        .eq("product_id", product.id)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!product,
+  });
+
+  const reconcile = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("reconcile_product_stock", { p_product_id: product!.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({ title: "Stock reconciled from history" });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["low-stock-products"] });
+    },
+    onError: (error) => {
+      console.error("Reconcile stock error:", error);
+      toast({ title: "Failed to reconcile stock", variant: "destructive" });
+    },
+  });
+
+  if (!product) return null;
+
+  const ledgerTotal = movements?.reduce((sum, m) => sum + m.quantity_change, 0) ?? 0;
+  const isOutOfSync = !!movements && ledgerTotal !== product.quantity_in_stock;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Stock History - {product.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between text-sm">
+          <span>
+            Current stock: <span className="font-medium">{product.quantity_in_stock}</span>
+          </span>
+          {isOutOfSync && (
+            <div className="flex items-center gap-2 text-orange-600">
+              <AlertTriangle className="h-4 w-4" />
+              <span>History adds up to {ledgerTotal}</span>
+              <Button size="sm" variant="outline" onClick={() => reconcile.mutate()} disabled={reconcile.isPending}>
+                Reconcile
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <ScrollArea className="max-h-[calc(90vh-160px)]">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : !movements || movements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No stock movements recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Variant</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Stock</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {movement.created_at ? format(new Date(movement.created_at), "dd MMM yyyy, HH:mm") : "-"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={movement.quantity_change < 0 ? "secondary" : "outline"}>
+                        {stockMovementLabels[movement.movement_type as StockMovementType] ?? movement.movement_type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{variantLabel(movement.sizes?.name, movement.colors?.name) || "-"}</TableCell>
+                    <TableCell
+                      className={cn(
+                        "text-right font-medium",
+                        movement.quantity_change < 0 ? "text-destructive" : "text-green-600"
+                      )}
+                    >
+                      {movement.quantity_change > 0 ? `+${movement.quantity_change}` : movement.quantity_change}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {movement.quantity_before} → {movement.quantity_after}
+                    </TableCell>
+                    <TableCell>{movement.invoice_number || "-"}</TableCell>
+                    <TableCell className="max-w-[200px] truncate">{movement.notes || "-"}</TableCell>
+                    <TableCell>
+                      {!movement.created_by ? "System" : movement.created_by === user?.id ? "You" : "Staff"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,101 @@
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { variantKey } from "@/lib/inventory";
+
+interface MatrixSize {
+  id: string;
+  name: string;
+}
+
+interface MatrixColor {
+  id: string;
+  name: string;
+  hex_code?: string | null;
+}
+
+interface StockMatrixEditorProps {
+  sizes: MatrixSize[];
+  colors: MatrixColor[];
+  values: Record<string, string>;
+  onChange: (key: string, value: string) => void;
+}
+
+export function StockMatrixEditor({ sizes, colors, values, onChange }: StockMatrixEditorProps) {
+  const rows: (MatrixSize | null)[] = sizes.length > 0 ? sizes : [null];
+  const columns: (MatrixColor | null)[] = colors.length > 0 ? colors : [null];
+
+  const cellValue = (size: MatrixSize | null, color: MatrixColor | null) =>
+    parseInt(values[variantKey(size?.id ?? null, color?.id ?? null)] || "0") || 0;
+
+  const rowTotal = (size: MatrixSize | null) =>
+    columns.reduce((sum, color) => sum + cellValue(size, color), 0);
+
+  const columnTotal = (color: MatrixColor | null) =>
+    rows.reduce((sum, size) => sum + cellValue(size, color), 0);
+
+  const total = rows.reduce((sum, size) => sum + rowTotal(size), 0);
+
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-24">{sizes.length > 0 ? "Size" : ""}</TableHead>
+            {columns.map((color) => (
+              <TableHead key={color?.id ?? "all"} className="text-center">
+                {color ? (
+                  <div className="flex items-center justify-center gap-1">
+                    <div
+                      className="w-3 h-3 rounded border"
+                      style={{ backgroundColor: color.hex_code || "#000000" }}
+                    />
+                    <span>{color.name}</span>
+                  </div>
+                ) : (
+                  "Stock"
+                )}
+              </TableHead>
+            ))}
+            {columns.length > 1 && <TableHead className="text-right">Total</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((size) => (
+            <TableRow key={size?.id ?? "all"}>
+              <TableCell className="font-medium">{size?.name ?? "-"}</TableCell>
+              {columns.map((color) => {
+                const key = variantKey(size?.id ?? null, color?.id ?? null);
+                return (
+                  <TableCell key={key} className="p-1">
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="0"
+                      value={values[key] ?? ""}
+                      onChange={(e) => onChange(key, e.target.value)}
+                      className="h-8 w-20 mx-auto text-center"
+                    />
+                  </TableCell>
+                );
+              })}
+              {columns.length > 1 && (
+                <TableCell className="text-right font-medium">{rowTotal(size)}</TableCell>
+              )}
+            </TableRow>
+          ))}
+          {rows.length > 1 && (
+            <TableRow>
+              <TableCell className="font-medium">Total</TableCell>
+              {columns.map((color) => (
+                <TableCell key={color?.id ?? "all"} className="text-center font-medium">
+                  {columnTotal(color)}
+                </TableCell>
+              ))}
+              {columns.length > 1 && <TableCell className="text-right font-bold">{total}</TableCell>}
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/integrations/supabase/client';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { fetchMonthlySales, fetchSalesTotals } from '@/lib/analytics';
+import { endOfYear, startOfYear } from 'date-fns';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 interface YearlyProfitChartProps {
@@ -19,33 +20,20 @@ export const YearlyProfitChart = ({ open, onOpenChange, currentYear = new Date()
   const { data: profitData, isLoading } = useQuery({
     queryKey: ['yearly-profit', year],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from('sales_records')
-        .select('total_profit, total_price, cost_per_unit, quantity, sale_date')
-        .gte('sale_date', `${year}-01-01`)
-        .lt('sale_date', `${year + 1}-01-01`);
+      const start = startOfYear(new Date(year, 0, 1));
+      const [months, previousMonths, totals] = await Promise.all([
+        fetchMonthlySales(year),
+        fetchMonthlySales(year - 1),
+        fetchSalesTotals(start, endOfYear(start))
+      ]);
 
-      if (error) throw error;
-
-      const monthlyData = Array.from({ length: 12 }, (_, i) => ({
-        month: new Date(year, i).toLocaleString('default', { month: 'short' }),
-        profit: 0,
-        revenue: 0,
-        cost: 0
+      const monthlyData = months.map((month, i) => ({
+        ...month,
+        previousProfit: previousMonths[i].profit,
+        previousRevenue: previousMonths[i].revenue
       }));
 
-      data?.forEach((record: any) => {
-        const month = new Date(record.sale_date).getMonth();
-        const cost = Number(record.cost_per_unit) * record.quantity;
-        const revenue = Number(record.total_price);
-        const profit = Number(record.total_profit);
-
-        monthlyData[month].profit += profit;
-        monthlyData[month].revenue += revenue;
-        monthlyData[month].cost += cost;
-      });
-
-      return monthlyData;
+      return { monthlyData, costingMethod: totals.costingMethod };
     },
     enabled: open
   });
@@ -80,6 +68,9 @@ export const YearlyProfitChart = ({ open, onOpenChange, currentYear = new Date()
         <Card>
           <CardHeader>
             <CardTitle>Monthly Profit Breakdown</CardTitle>
+            {profitData?.costingMethod && (
+              <p className="text-sm text-muted-foreground">Costed by {profitData.costingMethod}</p>
+            )}
           </CardHeader>
           <CardContent>
             {isLoading ? (
@@ -88,7 +79,7 @@ export const YearlyProfitChart = ({ open, onOpenChange, currentYear = new Date()
               </div>
             ) : (
               <ResponsiveContainer width="100%" height={400}>
-                <LineChart data={profitData}>
+                <LineChart data={profitData?.monthlyData}>
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="month" />
                   <YAxis />
@@ -117,6 +108,24 @@ export const YearlyProfitChart = ({ open, onOpenChange, currentYear = new Date()
                     strokeWidth={2}
                     name="Cost (₹)"
                   />
+                  <Line
+                    type="monotone"
+                    dataKey="previousProfit"
+                    stroke="#16a34a"
+                    strokeOpacity={0.4}
+                    strokeDasharray="5 5"
+                    strokeWidth={2}
+                    name={`Profit ${year - 1} (₹)`}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="previousRevenue"
+                    stroke="#2563eb"
+                    strokeOpacity={0.4}
+                    strokeDasharray="5 5"
+                    strokeWidth={2}
+                    name={`Revenue ${year - 1} (₹)`}
+                  />
                 </LineChart>
               </ResponsiveContainer>
             )}
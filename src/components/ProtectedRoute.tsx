@@ -1,13 +1,16 @@
 import { ReactNode } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/use-auth';
+import { Permission } from '@/lib/permissions';
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  // Leave out for pages every member of the team can open
+  permission?: Permission;
 }
 
-export function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { user, loading, isAdmin } = useAuth();
+export function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
+  const { user, loading, role, permissions } = useAuth();
 
   if (loading) {
     return (
@@ -24,18 +27,22 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     return <Navigate to="/auth" replace />;
   }
 
-  if (!isAdmin) {
+  if (!role) {
     return (
       <div className="flex min-h-screen items-center justify-center p-4">
         <div className="text-center max-w-md">
           <h2 className="text-2xl font-bold mb-2">Access Denied</h2>
           <p className="text-muted-foreground mb-4">
-            You don't have permission to access this area. Please contact an administrator.
+            Your account hasn't been added to the store yet. Please ask the store owner to add you.
           </p>
         </div>
       </div>
     );
   }
 
+  if (permission && !permissions[permission]) {
+    return <Navigate to="/" replace />;
+  }
+
   return <>{children}</>;
 }
@@ -0,0 +1,398 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { fetchProductCosts, productColumns } from "@/lib/products";
+
+interface PurchaseOrderItem {
+  productId: string;
+  productName: string;
+  sizeId: string;
+  sizeName: string;
+  colorId: string;
+  colorName: string;
+  quantity: number;
+  unitCost: number;
+}
+
+const emptyItem: PurchaseOrderItem = {
+  productId: "",
+  productName: "",
+  sizeId: "",
+  sizeName: "",
+  colorId: "",
+  colorName: "",
+  quantity: 1,
+  unitCost: 0,
+};
+
+export function CreatePurchaseOrderDialog() {
+  const [open, setOpen] = useState(false);
+  const [supplierId, setSupplierId] = useState("");
+  const [orderDate, setOrderDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [expectedDate, setExpectedDate] = useState("");
+  const [freightAmount, setFreightAmount] = useState(0);
+  const [otherCharges, setOtherCharges] = useState(0);
+  const [notes, setNotes] = useState("");
+  const [items, setItems] = useState<PurchaseOrderItem[]>([{ ...emptyItem }]);
+  const queryClient = useQueryClient();
+
+  const { data: suppliers } = useQuery({
+    queryKey: ["suppliers"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("suppliers").select("*").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: products } = useQuery({
+    queryKey: ["products"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("products").select(productColumns);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: productCosts } = useQuery({
+    queryKey: ["product-costs"],
+    queryFn: fetchProductCosts,
+  });
+
+  const { data: sizes } = useQuery({
+    queryKey: ["sizes"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("sizes").select("*").order("sort_order");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: colors } = useQuery({
+    queryKey: ["colors"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("colors").select("*").order("sort_order");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unitCost, 0);
+  const charges = (freightAmount || 0) + (otherCharges || 0);
+  const total = subtotal + charges;
+  // Same allocation as receive_purchase_order: charges spread in proportion to line cost
+  const landedCost = (unitCost: number) => (subtotal > 0 ? unitCost * (1 + charges / subtotal) : unitCost);
+
+  // Stock is received onto a variant, so products with sizes/colors need both picked
+  const isVariantSelected = (item: PurchaseOrderItem) => {
+    const product = products?.find((p) => p.id === item.productId);
+    return (!product?.size_ids?.length || !!item.sizeId) && (!product?.color_ids?.length || !!item.colorId);
+  };
+
+  const hasValidItems = items.length > 0 && items.every((item) =>
+    item.productId && item.quantity > 0 && item.unitCost >= 0 && isVariantSelected(item)
+  );
+
+  const createPurchaseOrder = useMutation({
+    mutationFn: async () => {
+      if (!supplierId) throw new Error("Select a supplier");
+      if (!hasValidItems) throw new Error("All items must have a product, size and color where offered, quantity greater than 0, and non-negative cost");
+
+      const { data, error } = await supabase.rpc("create_purchase_order", {
+        p_order: {
+          supplier_id: supplierId,
+          order_date: orderDate || null,
+          expected_date: expectedDate || null,
+          freight_amount: freightAmount || 0,
+          other_charges: otherCharges || 0,
+          notes: notes || null,
+        },
+        p_items: items.map((item) => ({
+          product_id: item.productId,
+          product_name: item.productName,
+          size_id: item.sizeId || null,
+          size_name: item.sizeName || null,
+          color_id: item.colorId || null,
+          color_name: item.colorName || null,
+          quantity_ordered: item.quantity,
+          unit_cost: item.unitCost,
+        })),
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (order) => {
+      toast.success(`Purchase order ${order.po_number} created`);
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      setOpen(false);
+      resetForm();
+    },
+    onError: (error) => {
+      console.error("Purchase order creation error:", error);
+      toast.error(`Failed to create purchase order: ${error.message}`);
+    },
+  });
+
+  const resetForm = () => {
+    setSupplierId("");
+    setOrderDate(format(new Date(), "yyyy-MM-dd"));
+    setExpectedDate("");
+    setFreightAmount(0);
+    setOtherCharges(0);
+    setNotes("");
+    setItems([{ ...emptyItem }]);
+  };
+
+  const updateItem = <K extends keyof PurchaseOrderItem>(index: number, field: K, value: PurchaseOrderItem[K]) => {
+    const newItems = [...items];
+    newItems[index] = { ...newItems[index], [field]: value };
+
+    if (field === "productId") {
+      const product = products?.find((p) => p.id === value);
+      newItems[index] = {
+        ...newItems[index],
+        productName: product?.name || "",
+        sizeId: "",
+        sizeName: "",
+        colorId: "",
+        colorName: "",
+        unitCost: Number(product && productCosts?.get(product.id)?.cost_inr) || 0,
+      };
+    }
+
+    if (field === "sizeId") {
+      newItems[index].sizeName = sizes?.find((s) => s.id === value)?.name || "";
+    }
+
+    if (field === "colorId") {
+      newItems[index].colorName = colors?.find((c) => c.id === value)?.name || "";
+    }
+
+    setItems(newItems);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { setOpen(isOpen); if (!isOpen) resetForm(); }}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="mr-2 h-4 w-4" />
+          New Purchase Order
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>New Purchase Order</DialogTitle>
+        </DialogHeader>
+        <ScrollArea className="max-h-[calc(90vh-160px)] pr-4">
+          <div className="space-y-6">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Supplier *</Label>
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers?.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="orderDate">Order Date</Label>
+                <Input id="orderDate" type="date" value={orderDate} onChange={(e) => setOrderDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expectedDate">Expected Date</Label>
+                <Input id="expectedDate" type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} />
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <Label>Items</Label>
+                <Button type="button" variant="outline" size="sm" onClick={() => setItems([...items, { ...emptyItem }])}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Item
+                </Button>
+              </div>
+              <div className="space-y-3">
+                {items.map((item, index) => {
+                  const product = products?.find((p) => p.id === item.productId);
+                  return (
+                    <div key={index} className="bg-muted/30 border rounded-lg p-4 space-y-3">
+                      <div className="flex justify-between items-start gap-2">
+                        <div className="grid grid-cols-5 gap-3 flex-1">
+                          <div className="col-span-2">
+                            <Label>Product</Label>
+                            <Select value={item.productId} onValueChange={(value) => updateItem(index, "productId", value)}>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select product" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {products?.map((p) => (
+                                  <SelectItem key={p.id} value={p.id}>
+                                    {p.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label>Size</Label>
+                            <Select
+                              value={item.sizeId}
+                              onValueChange={(value) => updateItem(index, "sizeId", value)}
+                              disabled={!product?.size_ids?.length}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="-" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {sizes
+                                  ?.filter((size) => product?.size_ids?.includes(size.id))
+                                  .map((size) => (
+                                    <SelectItem key={size.id} value={size.id}>
+                                      {size.name}
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label>Color</Label>
+                            <Select
+                              value={item.colorId}
+                              onValueChange={(value) => updateItem(index, "colorId", value)}
+                              disabled={!product?.color_ids?.length}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="-" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {colors
+                                  ?.filter((color) => product?.color_ids?.includes(color.id))
+                                  .map((color) => (
+                                    <SelectItem key={color.id} value={color.id}>
+                                      {color.name}
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <div>
+                              <Label>Qty</Label>
+                              <Input
+                                type="number"
+                                min="1"
+                                value={item.quantity}
+                                onChange={(e) => updateItem(index, "quantity", Math.max(0, Number(e.target.value)))}
+                              />
+                            </div>
+                            <div>
+                              <Label>Cost</Label>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                value={item.unitCost}
+                                onChange={(e) => updateItem(index, "unitCost", Math.max(0, Number(e.target.value)))}
+                              />
+                            </div>
+                          </div>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setItems(items.filter((_, i) => i !== index))}
+                          disabled={items.length === 1}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="flex justify-between text-sm text-muted-foreground">
+                        <span>Landed cost: ₹{landedCost(item.unitCost).toFixed(2)} / unit</span>
+                        <span>Line total: ₹{(item.quantity * item.unitCost).toFixed(2)}</span>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="freightAmount">Freight (₹)</Label>
+                <Input
+                  id="freightAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={freightAmount}
+                  onChange={(e) => setFreightAmount(Math.max(0, Number(e.target.value)))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="otherCharges">Other Charges (₹)</Label>
+                <Input
+                  id="otherCharges"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={otherCharges}
+                  onChange={(e) => setOtherCharges(Math.max(0, Number(e.target.value)))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="poNotes">Notes</Label>
+              <Textarea id="poNotes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <div className="flex justify-between">
+                <span>Subtotal:</span>
+                <span>₹{subtotal.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Freight & Charges:</span>
+                <span>₹{charges.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between text-lg font-bold">
+                <span>Total:</span>
+                <span>₹{total.toFixed(2)}</span>
+              </div>
+            </div>
+          </div>
+        </ScrollArea>
+        <div className="flex justify-end gap-2 mt-4">
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createPurchaseOrder.mutate()}
+            disabled={!supplierId || !hasValidItems || createPurchaseOrder.isPending}
+          >
+            {createPurchaseOrder.isPending ? "Creating..." : "Create Purchase Order"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
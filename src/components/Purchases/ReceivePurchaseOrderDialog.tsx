@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { variantLabel } from "@/lib/inventory";
+
+interface ReceivePurchaseOrderDialogProps {
+  purchaseOrderId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReceivePurchaseOrderDialog({ purchaseOrderId, open, onOpenChange }: ReceivePurchaseOrderDialogProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const queryClient = useQueryClient();
+
+  const { data: order } = useQuery({
+    queryKey: ["purchase-order", purchaseOrderId],
+    queryFn: async () => {
+      if (!purchaseOrderId) return null;
+      const { data, error } = await supabase
+        .from("purchase_orders")
+        .select("*, suppliers(name), purchase_order_items(*)")
+        .eq("id", purchaseOrderId)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!purchaseOrderId,
+  });
+
+  const items = order?.purchase_order_items || [];
+
+  // Default to receiving everything that is still outstanding
+  useEffect(() => {
+    if (!order) return;
+    const outstanding: Record<string, number> = {};
+    order.purchase_order_items.forEach((item) => {
+      outstanding[item.id] = item.quantity_ordered - item.quantity_received;
+    });
+    setQuantities(outstanding);
+  }, [order]);
+
+  const receive = useMutation({
+    mutationFn: async () => {
+      const receipts = Object.entries(quantities)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([itemId, quantity]) => ({ item_id: itemId, quantity }));
+
+      if (receipts.length === 0) throw new Error("Enter a quantity to receive");
+
+      const { data, error } = await supabase.rpc("receive_purchase_order", {
+        p_purchase_order_id: purchaseOrderId!,
+        p_items: receipts,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (updated) => {
+      toast.success(
+        updated.status === "received"
+          ? `${updated.po_number} fully received`
+          : `${updated.po_number} partially received`
+      );
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["purchase-order", purchaseOrderId] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product-costs"] });
+      queryClient.invalidateQueries({ queryKey: ["product-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["low-stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      console.error("Receive purchase order error:", error);
+      toast.error(`Failed to receive stock: ${error.message}`);
+    },
+  });
+
+  if (!order) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            Receive {order.po_number} - {order.suppliers?.name}
+          </DialogTitle>
+        </DialogHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead className="text-right">Ordered</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="text-right">Unit Cost</TableHead>
+              <TableHead className="w-28">Receive Now</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => {
+              const outstanding = item.quantity_ordered - item.quantity_received;
+              return (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="font-medium">{item.product_name}</div>
+                    {(item.size_name || item.color_name) && (
+                      <div className="text-xs text-muted-foreground">{variantLabel(item.size_name, item.color_name)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{item.quantity_ordered}</TableCell>
+                  <TableCell className="text-right">{item.quantity_received}</TableCell>
+                  <TableCell className="text-right">
+                    ₹{Number(item.unit_cost).toFixed(2)}
+                    {item.landed_unit_cost !== null && (
+                      <div className="text-xs text-muted-foreground">
+                        landed ₹{Number(item.landed_unit_cost).toFixed(2)}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={outstanding}
+                      value={quantities[item.id] ?? 0}
+                      disabled={outstanding === 0}
+                      onChange={(e) =>
+                        setQuantities((prev) => ({
+                          ...prev,
+                          [item.id]: Math.min(outstanding, Math.max(0, Number(e.target.value))),
+                        }))
+                      }
+                      className="h-8"
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => receive.mutate()} disabled={receive.isPending}>
+            {receive.isPending ? "Receiving..." : "Receive Stock"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+
+interface SupplierDialogProps {
+  supplier: Tables<"suppliers"> | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = {
+  name: "",
+  gstin: "",
+  contact_person: "",
+  phone: "",
+  email: "",
+  address: "",
+  payment_terms: "",
+  notes: "",
+};
+
+export function SupplierDialog({ supplier, open, onOpenChange }: SupplierDialogProps) {
+  const [form, setForm] = useState(emptyForm);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      supplier
+        ? {
+            name: supplier.name,
+            gstin: supplier.gstin || "",
+            contact_person: supplier.contact_person || "",
+            phone: supplier.phone || "",
+            email: supplier.email || "",
+            address: supplier.address || "",
+            payment_terms: supplier.payment_terms || "",
+            notes: supplier.notes || "",
+          }
+        : emptyForm
+    );
+  }, [open, supplier]);
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!form.name.trim()) throw new Error("Supplier name is required");
+
+      const supplierData = {
+        name: form.name.trim(),
+        gstin: form.gstin.trim().toUpperCase() || null,
+        contact_person: form.contact_person || null,
+        phone: form.phone || null,
+        email: form.email || null,
+        address: form.address || null,
+        payment_terms: form.payment_terms || null,
+        notes: form.notes || null,
+      };
+
+      if (supplier) {
+        const { error } = await supabase
+          .from("suppliers")
+          .update({ ...supplierData, updated_at: new Date().toISOString() })
+          .eq("id", supplier.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("suppliers").insert(supplierData);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success(supplier ? "Supplier updated" : "Supplier added");
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      console.error("Save supplier error:", error);
+      toast.error(`Failed to save supplier: ${error.message}`);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{supplier ? "Edit Supplier" : "Add Supplier"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplierName">Name *</Label>
+              <Input id="supplierName" value={form.name} onChange={(e) => updateField("name", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierGstin">GSTIN</Label>
+              <Input
+                id="supplierGstin"
+                value={form.gstin}
+                onChange={(e) => updateField("gstin", e.target.value)}
+                placeholder="e.g. 27ABCDE1234F1Z5"
+                maxLength={15}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierContact">Contact Person</Label>
+              <Input
+                id="supplierContact"
+                value={form.contact_person}
+                onChange={(e) => updateField("contact_person", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierPhone">Phone</Label>
+              <Input id="supplierPhone" value={form.phone} onChange={(e) => updateField("phone", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierEmail">Email</Label>
+              <Input
+                id="supplierEmail"
+                type="email"
+                value={form.email}
+                onChange={(e) => updateField("email", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierTerms">Payment Terms</Label>
+              <Input
+                id="supplierTerms"
+                value={form.payment_terms}
+                onChange={(e) => updateField("payment_terms", e.target.value)}
+                placeholder="e.g. Net 30, Advance"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplierAddress">Address</Label>
+            <Textarea id="supplierAddress" value={form.address} onChange={(e) => updateField("address", e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplierNotes">Notes</Label>
+            <Textarea id="supplierNotes" value={form.notes} onChange={(e) => updateField("notes", e.target.value)} />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {supplier ? "Update" : "Add"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
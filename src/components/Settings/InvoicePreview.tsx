@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from "react";
+import type { Tables } from "@/integrations/supabase/types";
+import { buildInvoicePDF } from "@/lib/invoice-pdf";
+
+interface InvoicePreviewProps {
+  storeSettings: Tables<"store_settings">;
+}
+
+// Made up lines, one with a long name to show how the templates wrap it
+const sampleLines = [
+  { name: "Cotton Crew Neck T-Shirt", size: "M", color: "Navy", quantity: 2, price: 599 },
+  { name: "Slim Fit Stretch Denim Jeans with Five Pockets and Contrast Stitching", size: "32", color: "Indigo", quantity: 1, price: 1899 },
+  { name: "Linen Blend Kurta", size: "L", color: "Off White", quantity: 1, price: 1299 },
+];
+
+const sampleInvoice = (storeSettings: Tables<"store_settings">) => {
+  const isTaxInvoice = storeSettings.gst_enabled && !!storeSettings.state_code;
+
+  const items: Tables<"invoice_items">[] = sampleLines.map((line, index) => {
+    const total = line.quantity * line.price;
+    const gstRate = isTaxInvoice
+      ? line.price > storeSettings.gst_slab_threshold
+        ? storeSettings.gst_rate_above_threshold
+        : storeSettings.gst_rate_below_threshold
+      : null;
+    const halfTax = gstRate ? (total * gstRate) / 200 : 0;
+    return {
+      id: `preview-${index}`,
+      invoice_id: "preview",
+      product_id: null,
+      product_name: line.name,
+      size_id: null,
+      size_name: line.size,
+      color_id: null,
+      color_name: line.color,
+      quantity: line.quantity,
+      quantity_returned: 0,
+      unit_price: line.price,
+      total_price: total,
+      cost_per_unit: null,
+      costing_method: null,
+      created_at: null,
+      hsn_code: isTaxInvoice ? "6109" : null,
+      gst_rate: gstRate,
+      taxable_value: isTaxInvoice ? total : null,
+      cgst_amount: halfTax,
+      sgst_amount: halfTax,
+      igst_amount: 0,
+    };
+  });
+
+  const subtotal = items.reduce((sum, item) => sum + item.total_price, 0);
+  const taxAmount = isTaxInvoice
+    ? items.reduce((sum, item) => sum + item.cgst_amount + item.sgst_amount, 0)
+    : (subtotal * (storeSettings.tax_percentage || 0)) / 100;
+
+  const invoice: Tables<"invoices"> = {
+    id: "preview",
+    invoice_number: "INV-0001",
+    created_at: new Date().toISOString(),
+    updated_at: null,
+    created_by: null,
+    customer_id: null,
+    customer_name: "Priya Sharma",
+    customer_phone: "98765 43210",
+    customer_gstin: null,
+    place_of_supply: isTaxInvoice ? storeSettings.state_code : null,
+    store_gstin: isTaxInvoice ? storeSettings.gstin : null,
+    subtotal,
+    discount_amount: 0,
+    discount_type: null,
+    tax_percentage: isTaxInvoice ? null : storeSettings.tax_percentage,
+    tax_amount: taxAmount,
+    cgst_amount: isTaxInvoice ? taxAmount / 2 : 0,
+    sgst_amount: isTaxInvoice ? taxAmount / 2 : 0,
+    igst_amount: 0,
+    grand_total: subtotal + taxAmount,
+    // Unpaid, so the UPI QR code shows when the store has a UPI ID
+    amount_paid: 0,
+    payment_status: "unpaid",
+    expected_payment_date: null,
+    pdf_url: null,
+    pdf_settings: null,
+    reminder_sent_at: null,
+  };
+
+  return { invoice, items };
+};
+
+// The A4 invoice as it prints with the settings being edited
+export function InvoicePreview({ storeSettings }: InvoicePreviewProps) {
+  const [url, setUrl] = useState("");
+  const urlRef = useRef("");
+
+  useEffect(() => {
+    let cancelled = false;
+    // Color pickers change on every drag, so render once they settle
+    const timer = setTimeout(async () => {
+      try {
+        const { invoice, items } = sampleInvoice(storeSettings);
+        const pdf = await buildInvoicePDF(invoice, items, storeSettings);
+        if (cancelled) return;
+        if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+        urlRef.current = pdf.output("bloburl").toString();
+        setUrl(urlRef.current);
+      } catch (error) {
+        console.error("Invoice preview error:", error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [storeSettings]);
+
+  useEffect(() => () => {
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+  }, []);
+
+  return url ? (
+    <iframe title="Invoice preview" src={`${url}#toolbar=0&view=FitH`} className="h-[560px] w-full rounded border" />
+  ) : (
+    <div className="flex h-[560px] items-center justify-center rounded border text-sm text-muted-foreground">
+      Loading preview...
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { AppRole, roleLabels } from "@/lib/permissions";
+import { TeamAction, TeamMember, manageTeam } from "@/lib/team";
+import { UserPlus } from "lucide-react";
+
+const roleDescriptions: Record<AppRole, string> = {
+  owner: "Everything, including the team",
+  admin: "Everything except the team",
+  staff: "Sales, customers and payments",
+};
+
+export function TeamMembers() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<AppRole>("staff");
+
+  const { data: members, isLoading, error } = useQuery({
+    queryKey: ["team-members"],
+    queryFn: async () => (await manageTeam<{ members: TeamMember[] }>({ action: "list" })).members,
+  });
+
+  const teamMutation = useMutation({
+    mutationFn: (action: Exclude<TeamAction, { action: "list" }>) => manageTeam(action),
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: ["team-members"] });
+      const messages = {
+        invite: `Invitation sent to ${inviteEmail.trim()}`,
+        set_role: "Role updated",
+        deactivate: "Account deactivated",
+        reactivate: "Account reactivated",
+      };
+      toast({ title: messages[action.action] });
+      if (action.action === "invite") {
+        setInviteEmail("");
+        setInviteRole("staff");
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Team update failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleInvite = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+    teamMutation.mutate({ action: "invite", email: inviteEmail.trim(), role: inviteRole });
+  };
+
+  return (
+    <div className="rounded-lg border bg-card p-6">
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold">Team</h3>
+        <p className="text-sm text-muted-foreground">Invite staff and choose what each person can do</p>
+      </div>
+
+      <form onSubmit={handleInvite} className="mb-6 flex items-end gap-2">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="inviteEmail">Invite by email</Label>
+          <Input
+            id="inviteEmail"
+            type="email"
+            value={inviteEmail}
+            onChange={(e) => setInviteEmail(e.target.value)}
+            placeholder="name@example.com"
+          />
+        </div>
+        <Select value={inviteRole} onValueChange={(v: AppRole) => setInviteRole(v)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(roleLabels) as AppRole[]).map((role) => (
+              <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={!inviteEmail.trim() || teamMutation.isPending}>
+          <UserPlus className="mr-2 h-4 w-4" />
+          Invite
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <div>Loading...</div>
+      ) : error ? (
+        <p className="text-sm text-destructive">Couldn't load the team: {(error as Error).message}</p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Last Sign-in</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members?.map((member) => {
+                const isSelf = member.user_id === user?.id;
+                return (
+                  <TableRow key={member.user_id} className={member.active ? undefined : "opacity-60"}>
+                    <TableCell className="font-medium">
+                      {member.email || "-"}
+                      {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                      {!member.active && <Badge variant="secondary" className="ml-2">Deactivated</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      {isSelf ? (
+                        roleLabels[member.role]
+                      ) : (
+                        <Select
+                          value={member.role}
+                          onValueChange={(role: AppRole) =>
+                            teamMutation.mutate({ action: "set_role", userId: member.user_id, role })
+                          }
+                          disabled={teamMutation.isPending}
+                        >
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(roleLabels) as AppRole[]).map((role) => (
+                              <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <div className="mt-1 text-xs text-muted-foreground">{roleDescriptions[member.role]}</div>
+                    </TableCell>
+                    <TableCell>
+                      {member.last_sign_in_at
+                        ? formatDistanceToNow(new Date(member.last_sign_in_at), { addSuffix: true })
+                        : member.invited_at ? "Invited, not signed in yet" : "Never"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!isSelf && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={teamMutation.isPending}
+                          onClick={() =>
+                            teamMutation.mutate({
+                              action: member.active ? "deactivate" : "reactivate",
+                              userId: member.user_id,
+                            })
+                          }
+                        >
+                          {member.active ? "Deactivate" : "Reactivate"}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,61 @@
-import { createContext, useContext, useState, ReactNode } from 'react';
+import { createContext, useContext, useMemo, ReactNode } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { DateRange } from '@/lib/analytics';
+import {
+  NamedDateRangePreset,
+  ReportPeriod,
+  defaultDateRangePreset,
+  presetRange,
+  readReportPeriod,
+  reportPeriodParams,
+} from '@/lib/date-ranges';
 
 interface DateContextType {
-  selectedDate: Date;
-  setSelectedDate: (date: Date) => void;
+  period: ReportPeriod;
+  range: DateRange;
+  // False until a period is picked; lists such as invoices are then left unfiltered
+  periodChosen: boolean;
+  // The query string that carries the period to another page
+  periodSearch: string;
+  setPreset: (preset: NamedDateRangePreset) => void;
+  setCustomRange: (range: DateRange) => void;
+  clearPeriod: () => void;
 }
 
 const DateContext = createContext<DateContextType | undefined>(undefined);
 
+// The period lives in the URL, so it is shared by every page that reads it and survives a reload
 export const DateProvider = ({ children }: { children: ReactNode }) => {
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const value = useMemo(() => {
+    const chosen = readReportPeriod(searchParams);
+    const period = chosen || {
+      preset: defaultDateRangePreset,
+      range: presetRange(defaultDateRangePreset),
+    };
+
+    const setPeriod = (next: ReportPeriod | null) =>
+      setSearchParams((prev) => {
+        const params = new URLSearchParams(prev);
+        ['range', 'from', 'to'].forEach((key) => params.delete(key));
+        if (next) Object.entries(reportPeriodParams(next)).forEach(([key, param]) => params.set(key, param));
+        return params;
+      });
+
+    return {
+      period,
+      range: period.range,
+      periodChosen: chosen !== null,
+      periodSearch: chosen ? `?${new URLSearchParams(reportPeriodParams(chosen))}` : '',
+      setPreset: (preset: NamedDateRangePreset) => setPeriod({ preset, range: presetRange(preset) }),
+      setCustomRange: (range: DateRange) => setPeriod({ preset: 'custom', range }),
+      clearPeriod: () => setPeriod(null),
+    };
+  }, [searchParams, setSearchParams]);
 
   return (
-    <DateContext.Provider value={{ selectedDate, setSelectedDate }}>
+    <DateContext.Provider value={value}>
       {children}
     </DateContext.Provider>
   );
@@ -2,13 +2,15 @@ import { createContext, useContext, useEffect, useState, ReactNode } from 'react
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useNavigate } from 'react-router-dom';
+import { AppRole, Permissions, permissionsFor, primaryRole } from '@/lib/permissions';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
   signOut: () => Promise<void>;
-  isAdmin: boolean;
+  role: AppRole | null;
+  permissions: Permissions;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -17,7 +19,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [role, setRole] = useState<AppRole | null>(null);
+  const [roleLoading, setRoleLoading] = useState(false);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -26,14 +29,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
-        
-        // Check admin role with setTimeout to avoid deadlock
+
+        // Load the role with setTimeout to avoid deadlock
         if (session?.user) {
+          setRoleLoading(true);
           setTimeout(() => {
-            checkAdminRole(session.user.id);
+            loadRole(session.user.id);
           }, 0);
         } else {
-          setIsAdmin(false);
+          setRole(null);
         }
       }
     );
@@ -42,10 +46,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      
+
       if (session?.user) {
+        setRoleLoading(true);
         setTimeout(() => {
-          checkAdminRole(session.user.id);
+          loadRole(session.user.id);
         }, 0);
       }
       setLoading(false);
@@ -54,42 +59,31 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
-  const checkAdminRole = async (userId: string) => {
+  const loadRole = async (userId: string) => {
     try {
-      // First check if user has existing roles
       const { data, error } = await supabase
         .from('user_roles')
         .select('role')
-        .eq('user_id', userId)
-        .in('role', ['admin', 'owner'])
-        .maybeSingle();
+        .eq('user_id', userId);
 
-      if (!error && data) {
-        setIsAdmin(true);
+      if (error) throw error;
+
+      const existingRole = primaryRole(data.map((row) => row.role));
+      if (existingRole) {
+        setRole(existingRole);
         return;
       }
 
-      // If no existing role, check if this is the first user and auto-assign owner role
-      const { data: allUsers, error: usersError } = await supabase
-        .from('user_roles')
-        .select('id', { count: 'exact' });
-
-      if (!usersError && allUsers && allUsers.length === 0) {
-        // This is the first user, make them owner
-        const { error: insertError } = await supabase
-          .from('user_roles')
-          .insert({ user_id: userId, role: 'owner' });
-
-        if (!insertError) {
-          setIsAdmin(true);
-          return;
-        }
-      }
+      // Nobody has a role yet, so this is the first user and they own the store
+      const { data: claimedRole, error: claimError } = await supabase.rpc('claim_first_owner');
+      if (claimError) throw claimError;
 
-      setIsAdmin(false);
+      setRole(claimedRole);
     } catch (error) {
-      console.error('Error checking admin role:', error);
-      setIsAdmin(false);
+      console.error('Error loading role:', error);
+      setRole(null);
+    } finally {
+      setRoleLoading(false);
     }
   };
 
@@ -97,12 +91,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await supabase.auth.signOut();
     setUser(null);
     setSession(null);
-    setIsAdmin(false);
+    setRole(null);
     navigate('/auth');
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, loading, signOut, isAdmin }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        loading: loading || roleLoading,
+        signOut,
+        role,
+        permissions: permissionsFor(role),
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
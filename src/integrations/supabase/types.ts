@@ -18,18 +18,21 @@ export type Database = {
         Row: {
           created_at: string | null
           description: string | null
+          hsn_code: string | null
           id: string
           name: string
         }
         Insert: {
           created_at?: string | null
           description?: string | null
+          hsn_code?: string | null
           id?: string
           name: string
         }
         Update: {
           created_at?: string | null
           description?: string | null
+          hsn_code?: string | null
           id?: string
           name?: string
         }
@@ -59,41 +62,327 @@ export type Database = {
         }
         Relationships: []
       }
+      cost_layers: {
+        Row: {
+          created_at: string | null
+          id: string
+          product_id: string
+          purchase_order_item_id: string | null
+          quantity_received: number
+          quantity_remaining: number
+          received_at: string | null
+          source: string
+          unit_cost: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          product_id: string
+          purchase_order_item_id?: string | null
+          quantity_received: number
+          quantity_remaining: number
+          received_at?: string | null
+          source: string
+          unit_cost?: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          product_id?: string
+          purchase_order_item_id?: string | null
+          quantity_received?: number
+          quantity_remaining?: number
+          received_at?: string | null
+          source?: string
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cost_layers_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cost_layers_purchase_order_item_id_fkey"
+            columns: ["purchase_order_item_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_note_items: {
+        Row: {
+          color_id: string | null
+          color_name: string | null
+          condition: string
+          cost_per_unit: number | null
+          created_at: string | null
+          credit_note_id: string
+          id: string
+          invoice_item_id: string | null
+          product_id: string | null
+          product_name: string
+          quantity: number
+          size_id: string | null
+          size_name: string | null
+          total_price: number
+          unit_price: number
+        }
+        Insert: {
+          color_id?: string | null
+          color_name?: string | null
+          condition?: string
+          cost_per_unit?: number | null
+          created_at?: string | null
+          credit_note_id: string
+          id?: string
+          invoice_item_id?: string | null
+          product_id?: string | null
+          product_name: string
+          quantity: number
+          size_id?: string | null
+          size_name?: string | null
+          total_price: number
+          unit_price: number
+        }
+        Update: {
+          color_id?: string | null
+          color_name?: string | null
+          condition?: string
+          cost_per_unit?: number | null
+          created_at?: string | null
+          credit_note_id?: string
+          id?: string
+          invoice_item_id?: string | null
+          product_id?: string | null
+          product_name?: string
+          quantity?: number
+          size_id?: string | null
+          size_name?: string | null
+          total_price?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_note_items_color_id_fkey"
+            columns: ["color_id"]
+            isOneToOne: false
+            referencedRelation: "colors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_invoice_item_id_fkey"
+            columns: ["invoice_item_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_size_id_fkey"
+            columns: ["size_id"]
+            isOneToOne: false
+            referencedRelation: "sizes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_notes: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          credit_note_number: string
+          customer_name: string | null
+          customer_phone: string | null
+          exchange_invoice_id: string | null
+          id: string
+          invoice_id: string | null
+          invoice_number: string
+          reason: string | null
+          refund_method: string
+          subtotal: number
+          tax_amount: number | null
+          total_amount: number
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          credit_note_number: string
+          customer_name?: string | null
+          customer_phone?: string | null
+          exchange_invoice_id?: string | null
+          id?: string
+          invoice_id?: string | null
+          invoice_number: string
+          reason?: string | null
+          refund_method?: string
+          subtotal?: number
+          tax_amount?: number | null
+          total_amount?: number
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          credit_note_number?: string
+          customer_name?: string | null
+          customer_phone?: string | null
+          exchange_invoice_id?: string | null
+          id?: string
+          invoice_id?: string | null
+          invoice_number?: string
+          reason?: string | null
+          refund_method?: string
+          subtotal?: number
+          tax_amount?: number | null
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_exchange_invoice_id_fkey"
+            columns: ["exchange_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          address: string | null
+          created_at: string | null
+          created_by: string | null
+          email: string | null
+          id: string
+          name: string
+          notes: string | null
+          phone: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          email?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          email?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       invoice_items: {
         Row: {
+          cgst_amount: number
+          color_id: string | null
+          color_name: string | null
+          cost_per_unit: number | null
+          costing_method: string | null
           created_at: string | null
+          gst_rate: number | null
+          hsn_code: string | null
           id: string
+          igst_amount: number
           invoice_id: string
           product_id: string | null
           product_name: string
           quantity: number
+          quantity_returned: number
+          sgst_amount: number
+          size_id: string | null
           size_name: string | null
+          taxable_value: number | null
           total_price: number
           unit_price: number
         }
         Insert: {
+          cgst_amount?: number
+          color_id?: string | null
+          color_name?: string | null
+          cost_per_unit?: number | null
+          costing_method?: string | null
           created_at?: string | null
+          gst_rate?: number | null
+          hsn_code?: string | null
           id?: string
+          igst_amount?: number
           invoice_id: string
           product_id?: string | null
           product_name: string
           quantity: number
+          quantity_returned?: number
+          sgst_amount?: number
+          size_id?: string | null
           size_name?: string | null
+          taxable_value?: number | null
           total_price: number
           unit_price: number
         }
         Update: {
+          cgst_amount?: number
+          color_id?: string | null
+          color_name?: string | null
+          cost_per_unit?: number | null
+          costing_method?: string | null
           created_at?: string | null
+          gst_rate?: number | null
+          hsn_code?: string | null
           id?: string
+          igst_amount?: number
           invoice_id?: string
           product_id?: string | null
           product_name?: string
           quantity?: number
+          quantity_returned?: number
+          sgst_amount?: number
+          size_id?: string | null
           size_name?: string | null
+          taxable_value?: number | null
           total_price?: number
           unit_price?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "invoice_items_color_id_fkey"
+            columns: ["color_id"]
+            isOneToOne: false
+            referencedRelation: "colors"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "invoice_items_invoice_id_fkey"
             columns: ["invoice_id"]
@@ -108,82 +397,224 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "invoice_items_size_id_fkey"
+            columns: ["size_id"]
+            isOneToOne: false
+            referencedRelation: "sizes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_revisions: {
+        Row: {
+          change_summary: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          invoice_data: Json
+          invoice_id: string
+          items_data: Json
+          revision_number: number
+        }
+        Insert: {
+          change_summary?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          invoice_data: Json
+          invoice_id: string
+          items_data?: Json
+          revision_number: number
+        }
+        Update: {
+          change_summary?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          invoice_data?: Json
+          invoice_id?: string
+          items_data?: Json
+          revision_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_revisions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
         ]
       }
       invoices: {
         Row: {
+          amount_paid: number
+          cgst_amount: number
           created_at: string | null
           created_by: string | null
+          customer_gstin: string | null
+          customer_id: string | null
           customer_name: string | null
           customer_phone: string | null
           discount_amount: number | null
           discount_type: string | null
+          expected_payment_date: string | null
           grand_total: number
           id: string
+          igst_amount: number
           invoice_number: string
+          payment_status: string | null
+          pdf_settings: Json | null
           pdf_url: string | null
+          place_of_supply: string | null
+          reminder_sent_at: string | null
+          sgst_amount: number
+          store_gstin: string | null
           subtotal: number
           tax_amount: number | null
           tax_percentage: number | null
+          updated_at: string | null
         }
         Insert: {
+          amount_paid?: number
+          cgst_amount?: number
           created_at?: string | null
           created_by?: string | null
+          customer_gstin?: string | null
+          customer_id?: string | null
           customer_name?: string | null
           customer_phone?: string | null
           discount_amount?: number | null
           discount_type?: string | null
+          expected_payment_date?: string | null
           grand_total: number
           id?: string
+          igst_amount?: number
           invoice_number: string
+          payment_status?: string | null
+          pdf_settings?: Json | null
           pdf_url?: string | null
+          place_of_supply?: string | null
+          reminder_sent_at?: string | null
+          sgst_amount?: number
+          store_gstin?: string | null
           subtotal: number
           tax_amount?: number | null
           tax_percentage?: number | null
+          updated_at?: string | null
         }
         Update: {
+          amount_paid?: number
+          cgst_amount?: number
           created_at?: string | null
           created_by?: string | null
+          customer_gstin?: string | null
+          customer_id?: string | null
           customer_name?: string | null
           customer_phone?: string | null
           discount_amount?: number | null
           discount_type?: string | null
+          expected_payment_date?: string | null
           grand_total?: number
           id?: string
+          igst_amount?: number
           invoice_number?: string
+          payment_status?: string | null
+          pdf_settings?: Json | null
           pdf_url?: string | null
+          place_of_supply?: string | null
+          reminder_sent_at?: string | null
+          sgst_amount?: number
+          store_gstin?: string | null
           subtotal?: number
           tax_amount?: number | null
           tax_percentage?: number | null
+          updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "invoices_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          invoice_id: string
+          method: string
+          paid_on: string
+          reference: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          invoice_id: string
+          method?: string
+          paid_on?: string
+          reference?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          invoice_id?: string
+          method?: string
+          paid_on?: string
+          reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       product_inventory: {
         Row: {
+          barcode: string | null
           color_id: string | null
           created_at: string | null
           id: string
           product_id: string
           quantity: number
           size_id: string | null
+          sku: string | null
           updated_at: string | null
         }
         Insert: {
+          barcode?: string | null
           color_id?: string | null
           created_at?: string | null
           id?: string
           product_id: string
           quantity?: number
           size_id?: string | null
+          sku?: string | null
           updated_at?: string | null
         }
         Update: {
+          barcode?: string | null
           color_id?: string | null
           created_at?: string | null
           id?: string
           product_id?: string
           quantity?: number
           size_id?: string | null
+          sku?: string | null
           updated_at?: string | null
         }
         Relationships: [
@@ -254,11 +685,14 @@ export type Database = {
       }
       products: {
         Row: {
+          average_cost: number | null
+          barcode: string | null
           category_id: string | null
           color_ids: string[] | null
           cost_inr: number | null
           created_at: string | null
           description: string | null
+          hsn_code: string | null
           id: string
           image_url: string | null
           name: string
@@ -270,11 +704,14 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          average_cost?: number | null
+          barcode?: string | null
           category_id?: string | null
           color_ids?: string[] | null
           cost_inr?: number | null
           created_at?: string | null
           description?: string | null
+          hsn_code?: string | null
           id?: string
           image_url?: string | null
           name: string
@@ -286,11 +723,14 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          average_cost?: number | null
+          barcode?: string | null
           category_id?: string | null
           color_ids?: string[] | null
           cost_inr?: number | null
           created_at?: string | null
           description?: string | null
+          hsn_code?: string | null
           id?: string
           image_url?: string | null
           name?: string
@@ -311,6 +751,224 @@ export type Database = {
           },
         ]
       }
+      purchase_order_items: {
+        Row: {
+          color_id: string | null
+          color_name: string | null
+          created_at: string | null
+          id: string
+          landed_unit_cost: number | null
+          product_id: string | null
+          product_name: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received: number
+          size_id: string | null
+          size_name: string | null
+          unit_cost: number
+        }
+        Insert: {
+          color_id?: string | null
+          color_name?: string | null
+          created_at?: string | null
+          id?: string
+          landed_unit_cost?: number | null
+          product_id?: string | null
+          product_name: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received?: number
+          size_id?: string | null
+          size_name?: string | null
+          unit_cost: number
+        }
+        Update: {
+          color_id?: string | null
+          color_name?: string | null
+          created_at?: string | null
+          id?: string
+          landed_unit_cost?: number | null
+          product_id?: string | null
+          product_name?: string
+          purchase_order_id?: string
+          quantity_ordered?: number
+          quantity_received?: number
+          size_id?: string | null
+          size_name?: string | null
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_color_id_fkey"
+            columns: ["color_id"]
+            isOneToOne: false
+            referencedRelation: "colors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_size_id_fkey"
+            columns: ["size_id"]
+            isOneToOne: false
+            referencedRelation: "sizes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          expected_date: string | null
+          freight_amount: number
+          id: string
+          notes: string | null
+          order_date: string
+          other_charges: number
+          po_number: string
+          status: string
+          subtotal: number
+          supplier_id: string
+          total_amount: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          expected_date?: string | null
+          freight_amount?: number
+          id?: string
+          notes?: string | null
+          order_date?: string
+          other_charges?: number
+          po_number: string
+          status?: string
+          subtotal?: number
+          supplier_id: string
+          total_amount?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          expected_date?: string | null
+          freight_amount?: number
+          id?: string
+          notes?: string | null
+          order_date?: string
+          other_charges?: number
+          po_number?: string
+          status?: string
+          subtotal?: number
+          supplier_id?: string
+          total_amount?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_records: {
+        Row: {
+          color_name: string | null
+          cost_per_unit: number | null
+          costing_method: string | null
+          created_at: string | null
+          credit_note_id: string | null
+          id: string
+          invoice_id: string | null
+          invoice_number: string
+          product_id: string | null
+          product_name: string
+          profit_per_unit: number | null
+          quantity: number
+          sale_date: string
+          size_name: string | null
+          total_price: number
+          total_profit: number | null
+          unit_price: number
+        }
+        Insert: {
+          color_name?: string | null
+          cost_per_unit?: number | null
+          costing_method?: string | null
+          created_at?: string | null
+          credit_note_id?: string | null
+          id?: string
+          invoice_id?: string | null
+          invoice_number: string
+          product_id?: string | null
+          product_name: string
+          profit_per_unit?: number | null
+          quantity: number
+          sale_date: string
+          size_name?: string | null
+          total_price: number
+          total_profit?: number | null
+          unit_price: number
+        }
+        Update: {
+          color_name?: string | null
+          cost_per_unit?: number | null
+          costing_method?: string | null
+          created_at?: string | null
+          credit_note_id?: string | null
+          id?: string
+          invoice_id?: string | null
+          invoice_number?: string
+          product_id?: string | null
+          product_name?: string
+          profit_per_unit?: number | null
+          quantity?: number
+          sale_date?: string
+          size_name?: string | null
+          total_price?: number
+          total_profit?: number | null
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_records_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_records_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_records_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sizes: {
         Row: {
           created_at: string | null
@@ -332,42 +990,242 @@ export type Database = {
         }
         Relationships: []
       }
+      stock_movements: {
+        Row: {
+          color_id: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          invoice_id: string | null
+          invoice_number: string | null
+          movement_type: string
+          notes: string | null
+          product_id: string
+          quantity_after: number
+          quantity_before: number
+          quantity_change: number
+          size_id: string | null
+          unit_cost: number | null
+        }
+        Insert: {
+          color_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          invoice_id?: string | null
+          invoice_number?: string | null
+          movement_type: string
+          notes?: string | null
+          product_id: string
+          quantity_after: number
+          quantity_before: number
+          quantity_change: number
+          size_id?: string | null
+          unit_cost?: number | null
+        }
+        Update: {
+          color_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          invoice_id?: string | null
+          invoice_number?: string | null
+          movement_type?: string
+          notes?: string | null
+          product_id?: string
+          quantity_after?: number
+          quantity_before?: number
+          quantity_change?: number
+          size_id?: string | null
+          unit_cost?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_color_id_fkey"
+            columns: ["color_id"]
+            isOneToOne: false
+            referencedRelation: "colors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_size_id_fkey"
+            columns: ["size_id"]
+            isOneToOne: false
+            referencedRelation: "sizes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       store_settings: {
         Row: {
           address: string | null
+          costing_method: string
           created_at: string | null
           currency_symbol: string | null
           email: string | null
+          gst_enabled: boolean
+          gst_rate_above_threshold: number
+          gst_rate_below_threshold: number
+          gst_slab_threshold: number
+          gstin: string | null
           id: string
+          instagram_page: string | null
+          instagram_page_id: string | null
+          instagram_qr_url: string | null
+          instagram_tagline: string | null
+          invoice_font_family: string | null
+          invoice_primary_color: string | null
+          invoice_secondary_color: string | null
+          invoice_template: string
           logo_url: string | null
+          low_stock_threshold: number | null
           phone: string | null
+          print_format: string
+          receipt_footer: string | null
+          state_code: string | null
           store_name: string
           tax_percentage: number | null
           updated_at: string | null
+          upi_payee_name: string | null
+          upi_vpa: string | null
+          whatsapp_channel: string | null
+          whatsapp_channel_name: string | null
+          whatsapp_invoice_message: string | null
+          whatsapp_qr_url: string | null
+          whatsapp_reminder_message: string | null
+          whatsapp_tagline: string | null
         }
         Insert: {
           address?: string | null
+          costing_method?: string
           created_at?: string | null
           currency_symbol?: string | null
           email?: string | null
+          gst_enabled?: boolean
+          gst_rate_above_threshold?: number
+          gst_rate_below_threshold?: number
+          gst_slab_threshold?: number
+          gstin?: string | null
           id?: string
+          instagram_page?: string | null
+          instagram_page_id?: string | null
+          instagram_qr_url?: string | null
+          instagram_tagline?: string | null
+          invoice_font_family?: string | null
+          invoice_primary_color?: string | null
+          invoice_secondary_color?: string | null
+          invoice_template?: string
           logo_url?: string | null
+          low_stock_threshold?: number | null
           phone?: string | null
+          print_format?: string
+          receipt_footer?: string | null
+          state_code?: string | null
           store_name?: string
           tax_percentage?: number | null
           updated_at?: string | null
+          upi_payee_name?: string | null
+          upi_vpa?: string | null
+          whatsapp_channel?: string | null
+          whatsapp_channel_name?: string | null
+          whatsapp_invoice_message?: string | null
+          whatsapp_qr_url?: string | null
+          whatsapp_reminder_message?: string | null
+          whatsapp_tagline?: string | null
         }
         Update: {
           address?: string | null
+          costing_method?: string
           created_at?: string | null
           currency_symbol?: string | null
           email?: string | null
+          gst_enabled?: boolean
+          gst_rate_above_threshold?: number
+          gst_rate_below_threshold?: number
+          gst_slab_threshold?: number
+          gstin?: string | null
           id?: string
+          instagram_page?: string | null
+          instagram_page_id?: string | null
+          instagram_qr_url?: string | null
+          instagram_tagline?: string | null
+          invoice_font_family?: string | null
+          invoice_primary_color?: string | null
+          invoice_secondary_color?: string | null
+          invoice_template?: string
           logo_url?: string | null
+          low_stock_threshold?: number | null
           phone?: string | null
+          print_format?: string
+          receipt_footer?: string | null
+          state_code?: string | null
           store_name?: string
           tax_percentage?: number | null
           updated_at?: string | null
+          upi_payee_name?: string | null
+          upi_vpa?: string | null
+          whatsapp_channel?: string | null
+          whatsapp_channel_name?: string | null
+          whatsapp_invoice_message?: string | null
+          whatsapp_qr_url?: string | null
+          whatsapp_reminder_message?: string | null
+          whatsapp_tagline?: string | null
+        }
+        Relationships: []
+      }
+      suppliers: {
+        Row: {
+          address: string | null
+          contact_person: string | null
+          created_at: string | null
+          email: string | null
+          gstin: string | null
+          id: string
+          name: string
+          notes: string | null
+          payment_terms: string | null
+          phone: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          contact_person?: string | null
+          created_at?: string | null
+          email?: string | null
+          gstin?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          payment_terms?: string | null
+          phone?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          contact_person?: string | null
+          created_at?: string | null
+          email?: string | null
+          gstin?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          payment_terms?: string | null
+          phone?: string | null
+          updated_at?: string | null
         }
         Relationships: []
       }
@@ -430,7 +1288,55 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      customer_summaries: {
+        Row: {
+          address: string | null
+          created_at: string | null
+          email: string | null
+          id: string | null
+          last_purchase_at: string | null
+          name: string | null
+          notes: string | null
+          outstanding_amount: number | null
+          phone: string | null
+          total_spend: number | null
+          visits: number | null
+        }
+        Relationships: []
+      }
+      product_stock_levels: {
+        Row: {
+          color_id: string | null
+          color_name: string | null
+          id: string | null
+          product_id: string | null
+          product_name: string | null
+          quantity: number | null
+          size_id: string | null
+          size_name: string | null
+          sku: string | null
+        }
+        Relationships: []
+      }
+      receivables: {
+        Row: {
+          amount_paid: number | null
+          balance_due: number | null
+          created_at: string | null
+          credited_amount: number | null
+          customer_id: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          days_outstanding: number | null
+          expected_payment_date: string | null
+          grand_total: number | null
+          invoice_id: string | null
+          invoice_number: string | null
+          payment_status: string | null
+          reminder_sent_at: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       airtable_fdw_handler: {
@@ -484,6 +1390,14 @@ export type Database = {
         Args: { catalog: unknown; options: string[] }
         Returns: undefined
       }
+      cancel_invoice: {
+        Args: { p_invoice_id: string }
+        Returns: undefined
+      }
+      claim_first_owner: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
       click_house_fdw_handler: {
         Args: Record<PropertyKey, never>
         Returns: unknown
@@ -518,6 +1432,89 @@ export type Database = {
         Args: { catalog: unknown; options: string[] }
         Returns: undefined
       }
+      create_credit_note: {
+        Args: {
+          p_credit_note: Json
+          p_exchange_invoice?: Json
+          p_exchange_items?: Json
+          p_invoice_id: string
+          p_items: Json
+        }
+        Returns: {
+          created_at: string | null
+          created_by: string | null
+          credit_note_number: string
+          customer_name: string | null
+          customer_phone: string | null
+          exchange_invoice_id: string | null
+          id: string
+          invoice_id: string | null
+          invoice_number: string
+          reason: string | null
+          refund_method: string
+          subtotal: number
+          tax_amount: number | null
+          total_amount: number
+        }
+      }
+      create_invoice: {
+        Args: { p_invoice: Json; p_items: Json }
+        Returns: {
+          amount_paid: number
+          cgst_amount: number
+          created_at: string | null
+          created_by: string | null
+          customer_gstin: string | null
+          customer_id: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          discount_amount: number | null
+          discount_type: string | null
+          expected_payment_date: string | null
+          grand_total: number
+          id: string
+          igst_amount: number
+          invoice_number: string
+          payment_status: string | null
+          pdf_settings: Json | null
+          pdf_url: string | null
+          place_of_supply: string | null
+          reminder_sent_at: string | null
+          sgst_amount: number
+          store_gstin: string | null
+          subtotal: number
+          tax_amount: number | null
+          tax_percentage: number | null
+          updated_at: string | null
+        }
+      }
+      create_purchase_order: {
+        Args: { p_items: Json; p_order: Json }
+        Returns: {
+          created_at: string | null
+          created_by: string | null
+          expected_date: string | null
+          freight_amount: number
+          id: string
+          notes: string | null
+          order_date: string
+          other_charges: number
+          po_number: string
+          status: string
+          subtotal: number
+          supplier_id: string
+          total_amount: number
+          updated_at: string | null
+        }
+      }
+      current_costing_method: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      delete_payment: {
+        Args: { p_payment_id: string }
+        Returns: undefined
+      }
       duckdb_fdw_handler: {
         Args: Record<PropertyKey, never>
         Returns: unknown
@@ -597,6 +1594,34 @@ export type Database = {
         Args: { catalog: unknown; options: string[] }
         Returns: undefined
       }
+      import_product: {
+        Args: {
+          p_notes?: string
+          p_product: Json
+          p_product_id?: string
+          p_size_prices?: Json
+          p_stock?: Json
+        }
+        Returns: {
+          average_cost: number | null
+          barcode: string | null
+          category_id: string | null
+          color_ids: string[] | null
+          cost_inr: number | null
+          created_at: string | null
+          description: string | null
+          hsn_code: string | null
+          id: string
+          image_url: string | null
+          name: string
+          price_inr: number
+          quantity_in_stock: number
+          secondary_image_url: string | null
+          size_ids: string[] | null
+          sku: string | null
+          updated_at: string | null
+        }
+      }
       is_admin_or_owner: {
         Args: { _user_id: string }
         Returns: boolean
@@ -635,6 +1660,103 @@ export type Database = {
         Args: { catalog: unknown; options: string[] }
         Returns: undefined
       }
+      next_store_barcode: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      normalize_phone: {
+        Args: { p_phone: string }
+        Returns: string
+      }
+      product_costs: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          average_cost: number
+          cost_inr: number
+          product_id: string
+        }[]
+      }
+      receive_purchase_order: {
+        Args: { p_items: Json; p_purchase_order_id: string }
+        Returns: {
+          created_at: string | null
+          created_by: string | null
+          expected_date: string | null
+          freight_amount: number
+          id: string
+          notes: string | null
+          order_date: string
+          other_charges: number
+          po_number: string
+          status: string
+          subtotal: number
+          supplier_id: string
+          total_amount: number
+          updated_at: string | null
+        }
+      }
+      reconcile_product_stock: {
+        Args: { p_product_id: string }
+        Returns: {
+          average_cost: number | null
+          category_id: string | null
+          color_ids: string[] | null
+          cost_inr: number | null
+          created_at: string | null
+          description: string | null
+          id: string
+          image_url: string | null
+          name: string
+          price_inr: number
+          quantity_in_stock: number
+          secondary_image_url: string | null
+          size_ids: string[] | null
+          sku: string | null
+          updated_at: string | null
+        }
+      }
+      record_payment: {
+        Args: { p_invoice_id: string; p_payment: Json }
+        Returns: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          invoice_id: string
+          method: string
+          paid_on: string
+          reference: string | null
+        }
+      }
+      record_stock_movement: {
+        Args: {
+          p_apply_cost?: boolean
+          p_color_id: string
+          p_invoice_id?: string
+          p_movement_type: string
+          p_notes?: string
+          p_product_id: string
+          p_quantity_change: number
+          p_size_id: string
+          p_unit_cost?: number
+        }
+        Returns: {
+          color_id: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          invoice_id: string | null
+          invoice_number: string | null
+          movement_type: string
+          notes: string | null
+          product_id: string
+          quantity_after: number
+          quantity_before: number
+          quantity_change: number
+          size_id: string | null
+          unit_cost: number | null
+        }
+      }
       redis_fdw_handler: {
         Args: Record<PropertyKey, never>
         Returns: unknown
@@ -652,6 +1774,10 @@ export type Database = {
         Args: { catalog: unknown; options: string[] }
         Returns: undefined
       }
+      refresh_invoice_payment_status: {
+        Args: { p_invoice_id: string }
+        Returns: undefined
+      }
       s3_fdw_handler: {
         Args: Record<PropertyKey, never>
         Returns: unknown
@@ -669,6 +1795,123 @@ export type Database = {
         Args: { catalog: unknown; options: string[] }
         Returns: undefined
       }
+      sales_breakdown: {
+        Args: {
+          p_end: string
+          p_group: string
+          p_products?: number
+          p_start: string
+        }
+        Returns: {
+          cost: number
+          group_name: string
+          product_id: string
+          product_name: string
+          profit: number
+          revenue: number
+          size_sort_order: number
+          stock: number
+          units: number
+        }[]
+      }
+      sales_by_category: {
+        Args: { p_end: string; p_start: string }
+        Returns: {
+          category_id: string
+          category_name: string
+          cost: number
+          profit: number
+          revenue: number
+          units: number
+        }[]
+      }
+      sales_by_period: {
+        Args: {
+          p_end: string
+          p_interval?: string
+          p_start: string
+          p_timezone?: string
+        }
+        Returns: {
+          cost: number
+          invoice_count: number
+          period: string
+          profit: number
+          revenue: number
+          units: number
+        }[]
+      }
+      sales_by_product: {
+        Args: { p_end: string; p_start: string }
+        Returns: {
+          cost: number
+          product_id: string
+          product_name: string
+          profit: number
+          revenue: number
+          units: number
+        }[]
+      }
+      sales_totals: {
+        Args: { p_end: string; p_start: string }
+        Returns: {
+          cost: number
+          costing_methods: string[]
+          invoice_count: number
+          profit: number
+          revenue: number
+          units: number
+        }[]
+      }
+      set_product_stock: {
+        Args: {
+          p_expected_quantity?: number
+          p_movement_type?: string
+          p_notes?: string
+          p_product_id: string
+          p_quantity?: number
+          p_variants?: Json
+        }
+        Returns: {
+          average_cost: number | null
+          category_id: string | null
+          color_ids: string[] | null
+          cost_inr: number | null
+          created_at: string | null
+          description: string | null
+          id: string
+          image_url: string | null
+          name: string
+          price_inr: number
+          quantity_in_stock: number
+          secondary_image_url: string | null
+          size_ids: string[] | null
+          sku: string | null
+          updated_at: string | null
+        }
+      }
+      sku_code: {
+        Args: { p_length: number; p_text: string }
+        Returns: string
+      }
+      stock_ageing: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          category_name: string
+          created_at: string
+          last_received_at: string
+          last_sold_at: string
+          oldest_stock_at: string
+          price: number
+          product_id: string
+          product_name: string
+          sku: string
+          stock: number
+          stock_value: number
+          unit_cost: number
+          units_sold_90_days: number
+        }[]
+      }
       stripe_fdw_handler: {
         Args: Record<PropertyKey, never>
         Returns: unknown
@@ -686,6 +1929,41 @@ export type Database = {
         Args: { catalog: unknown; options: string[] }
         Returns: undefined
       }
+      update_invoice: {
+        Args: {
+          p_invoice: Json
+          p_invoice_id: string
+          p_items: Json
+        }
+        Returns: {
+          amount_paid: number
+          cgst_amount: number
+          created_at: string | null
+          created_by: string | null
+          customer_gstin: string | null
+          customer_id: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          discount_amount: number | null
+          discount_type: string | null
+          expected_payment_date: string | null
+          grand_total: number
+          id: string
+          igst_amount: number
+          invoice_number: string
+          payment_status: string | null
+          pdf_settings: Json | null
+          pdf_url: string | null
+          place_of_supply: string | null
+          reminder_sent_at: string | null
+          sgst_amount: number
+          store_gstin: string | null
+          subtotal: number
+          tax_amount: number | null
+          tax_percentage: number | null
+          updated_at: string | null
+        }
+      }
       wasm_fdw_handler: {
         Args: Record<PropertyKey, never>
         Returns: unknown
@@ -0,0 +1,295 @@
+import {
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarYears,
+  endOfDay,
+  endOfMonth,
+  endOfYear,
+  isSameDay,
+  parseISO,
+  startOfMonth,
+  startOfYear,
+  subDays,
+  subMonths,
+  subYears,
+} from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { describeCostingMethods } from "@/lib/costing";
+
+// Sales reports are added up by the database functions in the sales analytics migration, so a
+// report covers every sale in its period however many there are. Returns are negative sales,
+// so all figures are net of them. Periods run from the start time to the end time inclusive,
+// like endOfDay() bounds.
+
+export type SalesInterval = "day" | "week" | "month";
+
+export interface SalesFigures {
+  revenue: number;
+  cost: number;
+  profit: number;
+  units: number;
+}
+
+export interface SalesTotals extends SalesFigures {
+  invoiceCount: number;
+  // Revenue per invoice
+  averageBasket: number;
+  costingMethod: string | null;
+}
+
+export interface PeriodSales extends SalesFigures {
+  period: Date;
+  invoiceCount: number;
+}
+
+export interface ProductSales extends SalesFigures {
+  // Null for products that have since been deleted
+  productId: string | null;
+  productName: string;
+}
+
+export interface CategorySales extends SalesFigures {
+  // Null for uncategorised and deleted products
+  categoryId: string | null;
+  categoryName: string | null;
+}
+
+const figures = (row: { revenue: number; cost: number; profit: number; units: number }): SalesFigures => ({
+  revenue: Number(row.revenue),
+  cost: Number(row.cost),
+  profit: Number(row.profit),
+  units: Number(row.units),
+});
+
+// Days and months are counted in the browser's time zone, the same one the start and end are picked in
+const timeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const fetchSalesTotals = async (start: Date, end: Date): Promise<SalesTotals> => {
+  const { data, error } = await supabase.rpc("sales_totals", {
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+  });
+  if (error) throw error;
+
+  const row = data[0];
+  const totals = figures(row);
+  const invoiceCount = Number(row.invoice_count);
+  return {
+    ...totals,
+    invoiceCount,
+    averageBasket: invoiceCount ? totals.revenue / invoiceCount : 0,
+    costingMethod: describeCostingMethods(row.costing_methods || []),
+  };
+};
+
+// Only periods with sales are returned
+export const fetchSalesByPeriod = async (start: Date, end: Date, interval: SalesInterval): Promise<PeriodSales[]> => {
+  const { data, error } = await supabase.rpc("sales_by_period", {
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+    p_interval: interval,
+    p_timezone: timeZone(),
+  });
+  if (error) throw error;
+
+  return data.map((row) => ({
+    ...figures(row),
+    period: parseISO(row.period),
+    invoiceCount: Number(row.invoice_count),
+  }));
+};
+
+// All twelve months of the year, with zeros for months without sales
+export const fetchMonthlySales = async (year: number) => {
+  const start = startOfYear(new Date(year, 0, 1));
+  const periods = await fetchSalesByPeriod(start, endOfYear(start), "month");
+
+  return Array.from({ length: 12 }, (_, i) => {
+    const sales = periods.find((p) => p.period.getMonth() === i);
+    return {
+      month: new Date(year, i).toLocaleString("default", { month: "short" }),
+      revenue: sales?.revenue || 0,
+      cost: sales?.cost || 0,
+      profit: sales?.profit || 0,
+      units: sales?.units || 0,
+      invoiceCount: sales?.invoiceCount || 0,
+    };
+  });
+};
+
+// Highest revenue first
+export const fetchSalesByProduct = async (start: Date, end: Date): Promise<ProductSales[]> => {
+  const { data, error } = await supabase.rpc("sales_by_product", {
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+  });
+  if (error) throw error;
+
+  return data.map((row) => ({
+    ...figures(row),
+    productId: row.product_id,
+    productName: row.product_name,
+  }));
+};
+
+// Highest revenue first
+export const fetchSalesByCategory = async (start: Date, end: Date): Promise<CategorySales[]> => {
+  const { data, error } = await supabase.rpc("sales_by_category", {
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+  });
+  if (error) throw error;
+
+  return data.map((row) => ({
+    ...figures(row),
+    categoryId: row.category_id,
+    categoryName: row.category_name,
+  }));
+};
+
+export type ComparisonPeriod = "previous" | "last_year";
+
+export const comparisonPeriodLabels: Record<ComparisonPeriod, string> = {
+  previous: "Previous period",
+  last_year: "Same period last year",
+};
+
+export type SalesMetric = "revenue" | "profit" | "units" | "averageBasket" | "invoiceCount";
+
+export const salesMetricLabels: Record<SalesMetric, string> = {
+  revenue: "Revenue",
+  profit: "Profit",
+  units: "Units sold",
+  averageBasket: "Average basket",
+  invoiceCount: "Invoices",
+};
+
+export const formatSalesMetric = (metric: SalesMetric, value: number) =>
+  metric === "units" || metric === "invoiceCount" ? String(value) : `₹${value.toFixed(2)}`;
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+// The period a report is compared with. Before a range of days comes the same number of days;
+// before a range from the 1st of a month, the same days of the months before it; and before a
+// range from 1 January that runs past January, the same part of last year.
+export const comparisonRange = ({ start, end }: DateRange, against: ComparisonPeriod): DateRange => {
+  if (against === "last_year") {
+    return { start: subYears(start, 1), end: subYears(end, 1) };
+  }
+
+  const monthEnd = isSameDay(end, endOfMonth(end));
+  const months = differenceInCalendarMonths(end, start) + 1;
+  if (isSameDay(start, startOfYear(start)) && months > 1) {
+    const years = differenceInCalendarYears(end, start) + 1;
+    const shiftedEnd = subYears(end, years);
+    return { start: subYears(start, years), end: monthEnd ? endOfMonth(shiftedEnd) : shiftedEnd };
+  }
+  if (isSameDay(start, startOfMonth(start)) && !isSameDay(start, end)) {
+    const shiftedEnd = subMonths(end, months);
+    return { start: subMonths(start, months), end: monthEnd ? endOfMonth(shiftedEnd) : shiftedEnd };
+  }
+
+  const days = differenceInCalendarDays(end, start) + 1;
+  return { start: subDays(start, days), end: endOfDay(subDays(end, days)) };
+};
+
+// Null when there is nothing to compare with
+export const percentChange = (current: number, previous: number) =>
+  previous ? ((current - previous) / Math.abs(previous)) * 100 : null;
+
+export interface SalesComparison {
+  current: SalesTotals;
+  previous: SalesTotals;
+  lastYear: SalesTotals;
+}
+
+export const fetchSalesComparison = async (range: DateRange): Promise<SalesComparison> => {
+  const previous = comparisonRange(range, "previous");
+  const lastYear = comparisonRange(range, "last_year");
+  const [currentTotals, previousTotals, lastYearTotals] = await Promise.all([
+    fetchSalesTotals(range.start, range.end),
+    fetchSalesTotals(previous.start, previous.end),
+    fetchSalesTotals(lastYear.start, lastYear.end),
+  ]);
+  return { current: currentTotals, previous: previousTotals, lastYear: lastYearTotals };
+};
+
+export type SalesBreakdownGroup = "category" | "size" | "color" | "product_size";
+
+export interface SalesBreakdownRow extends SalesFigures {
+  // Only set for product_size, where null is sales of deleted products
+  productId: string | null;
+  productName: string | null;
+  // The category, size or color; null for products without one
+  group: string | null;
+  sizeSortOrder: number | null;
+  // Stock on hand now, not at the end of the period
+  stock: number;
+}
+
+// Highest revenue first. Groups with stock and no sales in the period are included.
+export const fetchSalesBreakdown = async (
+  start: Date,
+  end: Date,
+  group: SalesBreakdownGroup
+): Promise<SalesBreakdownRow[]> => {
+  const { data, error } = await supabase.rpc("sales_breakdown", {
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+    p_group: group,
+  });
+  if (error) throw error;
+
+  return data.map((row) => ({
+    ...figures(row),
+    productId: row.product_id,
+    productName: row.product_name,
+    group: row.group_name,
+    sizeSortOrder: row.size_sort_order,
+    stock: Number(row.stock),
+  }));
+};
+
+// Profit as a percentage of revenue; null without revenue
+export const marginPercent = ({ profit, revenue }: SalesFigures) => (revenue ? (profit / revenue) * 100 : null);
+
+// The share of the stock that was available in the period that sold: units sold against units
+// sold plus what is left. Null when there was neither.
+export const sellThroughRate = ({ units, stock }: { units: number; stock: number }) => {
+  const sold = Math.max(units, 0);
+  return sold + stock > 0 ? (sold / (sold + stock)) * 100 : null;
+};
+
+export interface SizeRatio {
+  size: string;
+  share: number;
+  pieces: number;
+}
+
+// How many of each size to order in a pack of packSize, in proportion to the units each size
+// sold. Pieces are rounded so they add up to the pack, the spare ones going to the sizes that
+// lost the most in rounding.
+export const recommendedSizeRatio = (sales: { size: string; units: number }[], packSize = 12): SizeRatio[] => {
+  const sold = sales.map((s) => ({ size: s.size, units: Math.max(s.units, 0) }));
+  const total = sold.reduce((sum, s) => sum + s.units, 0);
+  if (!total) return [];
+
+  const ratio = sold.map((s) => {
+    const exact = (s.units / total) * packSize;
+    return { size: s.size, share: (s.units / total) * 100, pieces: Math.floor(exact), remainder: exact % 1 };
+  });
+  let spare = packSize - ratio.reduce((sum, s) => sum + s.pieces, 0);
+  [...ratio]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach((s) => {
+      if (spare > 0) {
+        s.pieces += 1;
+        spare -= 1;
+      }
+    });
+
+  return ratio.map(({ size, share, pieces }) => ({ size, share, pieces }));
+};
@@ -0,0 +1,80 @@
+// Barcode encoders for product labels. Each returns the bar pattern as one entry per module
+// (the narrowest bar width), true for a bar and false for a space, without quiet zones.
+
+export type BarcodeFormat = "code128" | "ean13";
+
+export const barcodeFormatLabels: Record<BarcodeFormat, string> = {
+  code128: "Code 128 (SKU)",
+  ean13: "EAN-13",
+};
+
+// Bar and space widths of the 107 Code 128 symbols; 103-105 are the start codes, 106 is stop
+const code128Patterns = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+
+const code128StartB = 104;
+const code128Stop = 106;
+
+const widthsToModules = (widths: string) =>
+  widths.split("").flatMap((width, index) => Array<boolean>(Number(width)).fill(index % 2 === 0));
+
+// Code set B covers the printable ASCII characters, which is everything a SKU is made of
+export const encodeCode128 = (text: string) => {
+  const values = text.split("").map((char) => {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 126) throw new Error(`"${char}" can't be printed in a Code 128 barcode`);
+    return code - 32;
+  });
+  if (values.length === 0) throw new Error("Nothing to encode");
+
+  const checksum = values.reduce((sum, value, index) => sum + value * (index + 1), code128StartB) % 103;
+
+  return [code128StartB, ...values, checksum, code128Stop].flatMap((value) => widthsToModules(code128Patterns[value]));
+};
+
+const ean13LeftOdd = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+// The first digit isn't drawn; it picks which of the left-hand digits use the even set
+const ean13Parity = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+const invert = (bits: string) => bits.replace(/[01]/g, (bit) => (bit === "0" ? "1" : "0"));
+
+export const ean13CheckDigit = (first12: string) => {
+  const sum = first12
+    .split("")
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidEan13 = (code: string | null | undefined): code is string =>
+  !!code && /^\d{13}$/.test(code) && ean13CheckDigit(code.slice(0, 12)) === Number(code[12]);
+
+export const encodeEan13 = (code: string) => {
+  if (!isValidEan13(code)) throw new Error(`${code} is not a valid EAN-13 number`);
+
+  const digits = code.split("").map(Number);
+  const parity = ean13Parity[digits[0]];
+  const left = digits.slice(1, 7).map((digit, index) => {
+    const odd = ean13LeftOdd[digit];
+    return parity[index] === "L" ? odd : invert(odd).split("").reverse().join("");
+  });
+  const right = digits.slice(7).map((digit) => invert(ean13LeftOdd[digit]));
+
+  return ["101", ...left, "01010", ...right, "101"]
+    .join("")
+    .split("")
+    .map((bit) => bit === "1");
+};
+
+export const encodeBarcode = (value: string, format: BarcodeFormat) =>
+  format === "ean13" ? encodeEan13(value) : encodeCode128(value);
@@ -0,0 +1,24 @@
+// How the cost of goods sold is worked out (store_settings.costing_method).
+// The method is recorded on every sale, so profit reports can say which one
+// their figures were costed with even after the setting is changed.
+
+export type CostingMethod = "weighted_average" | "fifo";
+
+export const costingMethodLabels: Record<CostingMethod, string> = {
+  weighted_average: "Weighted average",
+  fifo: "FIFO",
+};
+
+export const costingMethodDescriptions: Record<CostingMethod, string> = {
+  weighted_average: "Each sale is costed at the average landed cost of the stock on hand",
+  fifo: "Each sale is costed at the landed cost of the oldest stock received",
+};
+
+// Sales made before costing methods existed have no method; they used the
+// product's cost price at the time of sale
+export const describeCostingMethods = (methods: (string | null)[]) => {
+  const labels = Array.from(new Set(methods)).map((method) =>
+    method ? costingMethodLabels[method as CostingMethod] ?? method : "Cost price at sale"
+  );
+  return labels.length ? labels.join(" + ") : null;
+};
@@ -0,0 +1,6 @@
+// Customers are matched on the last 10 digits of their phone number, the same
+// way normalize_phone() stores them in the database.
+export const normalizePhone = (phone: string | null | undefined) => {
+  const digits = (phone || "").replace(/\D/g, "");
+  return digits.slice(-10);
+};
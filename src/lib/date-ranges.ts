@@ -0,0 +1,131 @@
+import {
+  addMonths,
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  endOfYear,
+  format,
+  isValid,
+  parse,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+  subDays,
+  subMonths,
+  subQuarters,
+  subYears,
+} from "date-fns";
+import type { DateRange } from "@/lib/analytics";
+
+// The period reports cover, kept in the page's query string (?range=last_7_days, or
+// ?from=2025-04-01&to=2025-06-30 for a custom range) so a report can be bookmarked or shared.
+
+export type DateRangePreset =
+  | "today"
+  | "yesterday"
+  | "last_7_days"
+  | "last_30_days"
+  | "this_month"
+  | "last_month"
+  | "this_quarter"
+  | "last_quarter"
+  | "this_financial_year"
+  | "last_financial_year"
+  | "this_year"
+  | "custom";
+
+// Every preset but a custom range, which has no dates of its own
+export type NamedDateRangePreset = Exclude<DateRangePreset, "custom">;
+
+export const dateRangePresetLabels: Record<DateRangePreset, string> = {
+  today: "Today",
+  yesterday: "Yesterday",
+  last_7_days: "Last 7 days",
+  last_30_days: "Last 30 days",
+  this_month: "This month",
+  last_month: "Last month",
+  this_quarter: "This quarter",
+  last_quarter: "Last quarter",
+  this_financial_year: "This financial year",
+  last_financial_year: "Last financial year",
+  this_year: "This year",
+  custom: "Custom range",
+};
+
+export const defaultDateRangePreset: NamedDateRangePreset = "this_month";
+
+// Financial years run from April to March
+const startOfFinancialYear = (date: Date) => addMonths(startOfYear(subMonths(date, 3)), 3);
+
+export const presetRange = (preset: NamedDateRangePreset, today = new Date()): DateRange => {
+  switch (preset) {
+    case "today":
+      return { start: startOfDay(today), end: endOfDay(today) };
+    case "yesterday":
+      return { start: startOfDay(subDays(today, 1)), end: endOfDay(subDays(today, 1)) };
+    case "last_7_days":
+      return { start: startOfDay(subDays(today, 6)), end: endOfDay(today) };
+    case "last_30_days":
+      return { start: startOfDay(subDays(today, 29)), end: endOfDay(today) };
+    case "this_month":
+      return { start: startOfMonth(today), end: endOfMonth(today) };
+    case "last_month":
+      return { start: startOfMonth(subMonths(today, 1)), end: endOfMonth(subMonths(today, 1)) };
+    case "this_quarter":
+      return { start: startOfQuarter(today), end: endOfQuarter(today) };
+    case "last_quarter":
+      return { start: startOfQuarter(subQuarters(today, 1)), end: endOfQuarter(subQuarters(today, 1)) };
+    case "this_financial_year": {
+      const start = startOfFinancialYear(today);
+      return { start, end: endOfMonth(addMonths(start, 11)) };
+    }
+    case "last_financial_year": {
+      const start = subYears(startOfFinancialYear(today), 1);
+      return { start, end: endOfMonth(addMonths(start, 11)) };
+    }
+    case "this_year":
+      return { start: startOfYear(today), end: endOfYear(today) };
+  }
+};
+
+const queryDateFormat = "yyyy-MM-dd";
+
+const parseQueryDate = (value: string | null) => {
+  const date = value ? parse(value, queryDateFormat, new Date()) : null;
+  return date && isValid(date) ? date : null;
+};
+
+export interface ReportPeriod {
+  preset: DateRangePreset;
+  range: DateRange;
+}
+
+// Null when the query string has no period, or one that can't be read
+export const readReportPeriod = (params: URLSearchParams): ReportPeriod | null => {
+  const preset = params.get("range");
+  if (preset && preset !== "custom" && Object.keys(dateRangePresetLabels).includes(preset)) {
+    return { preset: preset as NamedDateRangePreset, range: presetRange(preset as NamedDateRangePreset) };
+  }
+
+  const from = parseQueryDate(params.get("from"));
+  const to = parseQueryDate(params.get("to"));
+  if (from && to && from <= to) {
+    return { preset: "custom", range: { start: startOfDay(from), end: endOfDay(to) } };
+  }
+  return null;
+};
+
+// The query string parameters for a period; presets are stored by name so they move with the calendar
+export const reportPeriodParams = ({ preset, range }: ReportPeriod): Record<string, string> =>
+  preset === "custom"
+    ? { from: format(range.start, queryDateFormat), to: format(range.end, queryDateFormat) }
+    : { range: preset };
+
+export const formatDateRange = ({ start, end }: DateRange) =>
+  format(start, queryDateFormat) === format(end, queryDateFormat)
+    ? format(start, "PPP")
+    : `${format(start, "PP")} - ${format(end, "PP")}`;
+
+export const describeReportPeriod = ({ preset, range }: ReportPeriod) =>
+  preset === "custom" ? formatDateRange(range) : dateRangePresetLabels[preset];
@@ -0,0 +1,192 @@
+import { loadImage } from "@/lib/invoice-pdf";
+import type { Tables } from "@/integrations/supabase/types";
+import { ReceiptBlock, ReceiptWidth, buildReceiptBlocks, receiptPaper } from "@/lib/receipt";
+
+// Raw ESC/POS output for receipt printers plugged into this computer, sent over WebUSB or
+// Web Serial (Chrome and Edge). Printing this way skips the browser's print dialog.
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const alignments = { left: 0, center: 1, right: 2 } as const;
+
+// Printers use a single-byte code page, so the text is kept to plain ASCII
+const toAscii = (text: string) =>
+  text
+    .replace(/₹/g, "Rs.")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, "?");
+
+// Image as a black and white raster (GS v 0), at most half the paper wide
+const rasterImage = async (url: string, maxDots: number) => {
+  const img = await loadImage(url);
+  if (!img.naturalWidth) return [];
+
+  const width = Math.min(Math.floor(maxDots / 16) * 8, Math.ceil(img.naturalWidth / 8) * 8);
+  const height = Math.round((img.naturalHeight / img.naturalWidth) * width);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) return [];
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(img, 0, 0, width, height);
+  const pixels = context.getImageData(0, 0, width, height).data;
+
+  const bytesPerRow = width / 8;
+  const raster = new Array<number>(bytesPerRow * height).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const luminance = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+      if (luminance < 128) raster[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+  }
+
+  return [GS, 0x76, 0x30, 0, bytesPerRow & 0xff, bytesPerRow >> 8, height & 0xff, height >> 8, ...raster];
+};
+
+export const encodeReceipt = async (blocks: ReceiptBlock[], width: ReceiptWidth) => {
+  const { columns, dots } = receiptPaper[width];
+  const bytes: number[] = [ESC, 0x40];
+  const text = (value: string) => bytes.push(...Array.from(toAscii(value), (char) => char.charCodeAt(0)), LF);
+
+  for (const block of blocks) {
+    if (block.kind === "rule") {
+      bytes.push(ESC, 0x61, alignments.left);
+      text("-".repeat(columns));
+    } else if (block.kind === "image") {
+      bytes.push(ESC, 0x61, alignments.center);
+      try {
+        bytes.push(...(await rasterImage(block.url, dots)));
+      } catch (error) {
+        console.error("Receipt image load failed:", error);
+      }
+      text(block.caption);
+    } else {
+      bytes.push(ESC, 0x61, alignments[block.align || "left"]);
+      bytes.push(ESC, 0x45, block.bold ? 1 : 0);
+      bytes.push(GS, 0x21, block.large ? 0x11 : 0x00);
+      text(block.text);
+      bytes.push(ESC, 0x45, 0, GS, 0x21, 0x00);
+    }
+  }
+
+  // Feed past the cutter, then a partial cut
+  bytes.push(ESC, 0x64, 4, GS, 0x56, 0x42, 0);
+  return new Uint8Array(bytes);
+};
+
+export type PrinterConnection = "usb" | "serial";
+
+export const printerConnectionLabels: Record<PrinterConnection, string> = {
+  usb: "USB",
+  serial: "Serial / Bluetooth",
+};
+
+// Only the parts of the WebUSB and Web Serial APIs used here
+interface UsbEndpoint {
+  endpointNumber: number;
+  direction: "in" | "out";
+  type: "bulk" | "interrupt" | "isochronous";
+}
+
+interface UsbDevice {
+  opened: boolean;
+  configuration: { interfaces: { interfaceNumber: number; alternate: { endpoints: UsbEndpoint[] } }[] } | null;
+  open(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>;
+  close(): Promise<void>;
+}
+
+interface SerialPort {
+  writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface DeviceNavigator {
+  usb?: {
+    getDevices(): Promise<UsbDevice[]>;
+    requestDevice(options: { filters: object[] }): Promise<UsbDevice>;
+  };
+  serial?: {
+    getPorts(): Promise<SerialPort[]>;
+    requestPort(): Promise<SerialPort>;
+  };
+}
+
+const devices = () => navigator as unknown as DeviceNavigator;
+
+export const isPrinterConnectionSupported = (connection: PrinterConnection) => !!devices()[connection];
+
+// A printer picked once is used again without asking; the browser remembers the permission
+const sendOverUsb = async (data: Uint8Array) => {
+  const usb = devices().usb!;
+  const [known] = await usb.getDevices();
+  const device = known ?? (await usb.requestDevice({ filters: [] }));
+
+  if (!device.opened) await device.open();
+  if (!device.configuration) await device.selectConfiguration(1);
+
+  const printerInterface = device.configuration?.interfaces.find((i) =>
+    i.alternate.endpoints.some((e) => e.direction === "out" && e.type === "bulk")
+  );
+  const endpoint = printerInterface?.alternate.endpoints.find((e) => e.direction === "out" && e.type === "bulk");
+  if (!printerInterface || !endpoint) throw new Error("This USB device doesn't look like a receipt printer");
+
+  await device.claimInterface(printerInterface.interfaceNumber);
+  try {
+    await device.transferOut(endpoint.endpointNumber, data);
+  } finally {
+    await device.close();
+  }
+};
+
+const sendOverSerial = async (data: Uint8Array) => {
+  const serial = devices().serial!;
+  const [known] = await serial.getPorts();
+  const port = known ?? (await serial.requestPort());
+
+  await port.open({ baudRate: 9600 });
+  try {
+    const writer = port.writable!.getWriter();
+    await writer.write(data);
+    writer.releaseLock();
+  } finally {
+    await port.close();
+  }
+};
+
+// The printer belongs to the computer at the counter, so its connection is kept in the browser
+const printerConnectionKey = "receipt-printer-connection";
+
+export const rememberedPrinterConnection = (): PrinterConnection | null => {
+  const value = localStorage.getItem(printerConnectionKey);
+  return value === "usb" || value === "serial" ? value : null;
+};
+
+const rememberPrinterConnection = (connection: PrinterConnection) =>
+  localStorage.setItem(printerConnectionKey, connection);
+
+export const sendToPrinter = async (data: Uint8Array, connection: PrinterConnection) => {
+  if (!isPrinterConnectionSupported(connection)) {
+    throw new Error(`This browser can't print over ${printerConnectionLabels[connection]}. Use Chrome or Edge`);
+  }
+  await (connection === "usb" ? sendOverUsb(data) : sendOverSerial(data));
+  rememberPrinterConnection(connection);
+};
+
+export const printReceiptToDevice = async (
+  invoice: Tables<"invoices">,
+  items: Tables<"invoice_items">[],
+  storeSettings: Tables<"store_settings"> | null | undefined,
+  width: ReceiptWidth,
+  connection: PrinterConnection
+) => sendToPrinter(await encodeReceipt(await buildReceiptBlocks(invoice, items, storeSettings, width), width), connection);
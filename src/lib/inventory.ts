@@ -0,0 +1,36 @@
+// Stock for a product is either a single number or a set of size/color variants
+// (rows of product_inventory). Products with only sizes or only colors use a null
+// id for the missing axis.
+
+export const variantKey = (sizeId: string | null, colorId: string | null) =>
+  `${sizeId ?? ""}:${colorId ?? ""}`;
+
+export const parseVariantKey = (key: string) => {
+  const [sizeId, colorId] = key.split(":");
+  return { size_id: sizeId || null, color_id: colorId || null };
+};
+
+export const variantLabel = (sizeName?: string | null, colorName?: string | null) =>
+  [sizeName, colorName].filter(Boolean).join(" / ");
+
+export type StockMovementType =
+  | "opening"
+  | "sale"
+  | "return"
+  | "restock"
+  | "adjustment"
+  | "damage"
+  | "transfer";
+
+export const stockMovementLabels: Record<StockMovementType, string> = {
+  opening: "Opening balance",
+  sale: "Sale",
+  return: "Return",
+  restock: "Restock",
+  adjustment: "Adjustment",
+  damage: "Damage",
+  transfer: "Transfer",
+};
+
+// Reasons that can be picked when stock is changed by hand on the product form
+export const manualStockMovementTypes: StockMovementType[] = ["restock", "adjustment", "damage", "transfer"];
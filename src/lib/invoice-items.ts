@@ -0,0 +1,113 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { variantKey } from "@/lib/inventory";
+import type { InvoiceTaxLine } from "@/lib/tax";
+import type { Product } from "@/lib/products";
+
+// A line on an invoice while it is being created or edited. Ids are "" until picked.
+export interface InvoiceItem {
+  productId: string;
+  productName: string;
+  sizeId?: string;
+  sizeName?: string;
+  colorId?: string;
+  colorName?: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  hsnCode?: string;
+}
+
+export type DiscountType = "fixed" | "percentage";
+
+export const fromInvoiceItemRow = (row: Tables<"invoice_items">): InvoiceItem => ({
+  productId: row.product_id || "",
+  productName: row.product_name,
+  sizeId: row.size_id || "",
+  sizeName: row.size_name || "",
+  colorId: row.color_id || "",
+  colorName: row.color_name || "",
+  quantity: row.quantity,
+  unitPrice: Number(row.unit_price),
+  totalPrice: Number(row.total_price),
+  hsnCode: row.hsn_code || "",
+});
+
+// The tax line comes from calculateInvoiceTotals() for GST invoices
+export const toInvoiceItemPayload = (item: InvoiceItem, taxLine?: InvoiceTaxLine) => ({
+  product_id: item.productId,
+  product_name: item.productName,
+  size_id: item.sizeId || null,
+  size_name: item.sizeName || null,
+  color_id: item.colorId || null,
+  color_name: item.colorName || null,
+  quantity: item.quantity,
+  unit_price: item.unitPrice,
+  hsn_code: item.hsnCode || null,
+  gst_rate: taxLine?.gstRate ?? null,
+  taxable_value: taxLine?.taxableValue ?? null,
+  cgst_amount: taxLine?.cgst ?? 0,
+  sgst_amount: taxLine?.sgst ?? 0,
+  igst_amount: taxLine?.igst ?? 0,
+});
+
+// Sizes can carry their own price; otherwise the product's price applies
+export const unitPriceFor = (
+  product: Pick<Tables<"products">, "id" | "price_inr">,
+  sizeId: string | null | undefined,
+  productSizePrices: Tables<"product_size_prices">[] | undefined
+) => {
+  const sizePrice = sizeId
+    ? productSizePrices?.find((sp) => sp.product_id === product.id && sp.size_id === sizeId)
+    : undefined;
+  return Number(sizePrice?.price_inr ?? product.price_inr);
+};
+
+// A product's own HSN code wins over its category's
+export const hsnCodeFor = (
+  product: Pick<Tables<"products">, "hsn_code" | "category_id">,
+  categories: Pick<Tables<"categories">, "id" | "hsn_code">[] | undefined
+) => product.hsn_code || categories?.find((c) => c.id === product.category_id)?.hsn_code || "";
+
+// One unit of a product, priced for the size picked (if any)
+export const newInvoiceItem = (
+  product: Product,
+  categories: Pick<Tables<"categories">, "id" | "hsn_code">[] | undefined,
+  productSizePrices: Tables<"product_size_prices">[] | undefined,
+  size?: Pick<Tables<"sizes">, "id" | "name"> | null,
+  color?: Pick<Tables<"colors">, "id" | "name"> | null
+): InvoiceItem => {
+  const unitPrice = unitPriceFor(product, size?.id, productSizePrices);
+  return {
+    productId: product.id,
+    productName: product.name,
+    sizeId: size?.id || "",
+    sizeName: size?.name || "",
+    colorId: color?.id || "",
+    colorName: color?.name || "",
+    quantity: 1,
+    unitPrice,
+    totalPrice: unitPrice,
+    hsnCode: hsnCodeFor(product, categories),
+  };
+};
+
+export const invoiceItemVariantKey = (item: InvoiceItem) =>
+  `${item.productId}|${variantKey(item.sizeId || null, item.colorId || null)}`;
+
+// Products with size/color variants are sold from the exact variant chosen on the line
+export const productHasVariants = (productInventory: Tables<"product_inventory">[] | undefined, productId: string) =>
+  !!productInventory?.some((v) => v.product_id === productId);
+
+export const findVariant = (productInventory: Tables<"product_inventory">[] | undefined, item: InvoiceItem) =>
+  productInventory?.find(
+    (v) =>
+      v.product_id === item.productId &&
+      v.size_id === (item.sizeId || null) &&
+      v.color_id === (item.colorId || null)
+  );
+
+export const isVariantSelected = (productInventory: Tables<"product_inventory">[] | undefined, item: InvoiceItem) =>
+  !productHasVariants(productInventory, item.productId) || !!findVariant(productInventory, item);
+
+export const isInvoiceItemValid = (item: InvoiceItem) =>
+  !!item.productId && !!item.productName && item.quantity > 0 && item.unitPrice >= 0;
@@ -0,0 +1,520 @@
+import jsPDF from "jspdf";
+import { format } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { gstStateLabel, summariseGstByRate } from "@/lib/tax";
+import { InvoiceBranding, invoiceBrandingFor, invoiceTemplates, textColorOn, tint } from "@/lib/invoice-templates";
+import { invoiceUpiQRCode } from "@/lib/upi";
+
+type StoreSettings = Tables<"store_settings"> | null | undefined;
+
+interface PdfLineItem {
+  product_name: string;
+  size_name: string | null;
+  color_name: string | null;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  hsn_code?: string | null;
+  gst_rate?: number | null;
+}
+
+// What an invoice or credit note puts on the page; the store's template decides how it looks
+interface PdfDocument {
+  title: string;
+  documentLines: string[];
+  customerLabel: string;
+  customerLines: string[];
+  items: PdfLineItem[];
+  showGstColumns: boolean;
+  totals: [string, string][];
+  grandTotal: [string, string];
+  notes: string[];
+  // Printed beside the totals with a line or two on how to pay
+  paymentQR?: { image: string; lines: string[] };
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align: "left" | "right";
+  value: (item: PdfLineItem) => string;
+}
+
+// Sizes in mm
+const margin = 15;
+const cellPadding = 2;
+// Room kept at the bottom of every page for the page number
+const footerHeight = 15;
+const paymentQRSize = 30;
+const bodyColor = "#222222";
+
+// Height of a line of text at a font size in points
+const lineHeight = (fontSize: number) => fontSize * 0.42;
+
+const money = (value: number | null | undefined) => Number(value || 0).toFixed(2);
+
+export const loadImage = async (url: string) => {
+  const img = new Image();
+  img.src = url;
+  await new Promise((resolve) => {
+    img.onload = resolve;
+    img.onerror = resolve;
+  });
+  return img;
+};
+
+const drawLines = (
+  pdf: jsPDF,
+  lines: string[],
+  x: number,
+  y: number,
+  spacing: number,
+  align: "left" | "center" | "right" = "left"
+) => lines.forEach((line, index) => pdf.text(line, x, y + index * spacing, { align }));
+
+// Pages after the first say which document they belong to; returns where the content starts
+const startContinuationPage = (pdf: jsPDF, branding: InvoiceBranding, doc: PdfDocument) => {
+  pdf.addPage();
+  pdf.setFont(undefined, "normal");
+  pdf.setFontSize(9);
+  pdf.setTextColor(branding.secondaryColor);
+  pdf.text(`${doc.title} ${doc.documentLines[0]} (continued)`, margin, 15);
+  pdf.setTextColor(bodyColor);
+  return 22;
+};
+
+// Logo, store name and contact details, with the document title and number on the right.
+// Returns the y position below the header.
+const drawStoreHeader = async (
+  pdf: jsPDF,
+  storeSettings: StoreSettings,
+  branding: InvoiceBranding,
+  doc: PdfDocument
+) => {
+  const { header } = invoiceTemplates[branding.template];
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const logo = storeSettings?.logo_url ? await loadImage(storeSettings.logo_url) : null;
+  const logoSize = header === "centered" ? 30 : header === "banner" ? 26 : 20;
+  const nameSize = header === "centered" ? 24 : header === "banner" ? 22 : 20;
+
+  // The store's name and details fill the space between the logo and the document title
+  const centered = header === "centered";
+  const textX = centered ? pageWidth / 2 : logo ? margin + logoSize + 5 : margin;
+  const textWidth = centered ? pageWidth - 2 * (margin + 45) : pageWidth - textX - margin - 60;
+
+  pdf.setFont(undefined, "bold");
+  pdf.setFontSize(nameSize);
+  const nameLines: string[] = pdf.splitTextToSize(storeSettings?.store_name || "Store", textWidth);
+  pdf.setFont(undefined, "normal");
+  pdf.setFontSize(9);
+  const contactInfo = [storeSettings?.phone, storeSettings?.email].filter(Boolean).join(" | ");
+  const detailLines: string[] = [storeSettings?.address, contactInfo]
+    .filter(Boolean)
+    .flatMap((line) => pdf.splitTextToSize(line, textWidth));
+
+  const detailsY = 20 + (nameLines.length - 1) * lineHeight(nameSize) + 7;
+  const bottom = Math.max(
+    detailsY + (detailLines.length - 1) * 5,
+    22 + (doc.documentLines.length - 1) * 6,
+    logo ? 10 + logoSize : 0
+  ) + 6;
+
+  const onBanner = header === "banner";
+  if (onBanner) {
+    pdf.setFillColor(branding.primaryColor);
+    pdf.rect(0, 0, pageWidth, bottom, "F");
+  }
+  const strongColor = onBanner ? textColorOn(branding.primaryColor) : branding.primaryColor;
+  const mutedColor = onBanner ? strongColor : branding.secondaryColor;
+
+  if (logo) {
+    try {
+      pdf.addImage(logo, 'PNG', margin, onBanner ? (bottom - logoSize) / 2 : 10, logoSize, logoSize);
+    } catch (error) {
+      console.error('Failed to load logo:', error);
+    }
+  }
+
+  pdf.setTextColor(strongColor);
+  pdf.setFont(undefined, 'bold');
+  pdf.setFontSize(nameSize);
+  drawLines(pdf, nameLines, textX, 20, lineHeight(nameSize), centered ? "center" : "left");
+  pdf.setFontSize(14);
+  pdf.text(doc.title, pageWidth - margin, 15, { align: "right" });
+
+  pdf.setTextColor(mutedColor);
+  pdf.setFont(undefined, 'normal');
+  pdf.setFontSize(9);
+  drawLines(pdf, detailLines, textX, detailsY, 5, centered ? "center" : "left");
+  drawLines(pdf, doc.documentLines, pageWidth - margin, 22, 6, "right");
+
+  if (header === "left") {
+    pdf.setDrawColor(branding.secondaryColor);
+    pdf.setLineWidth(0.3);
+    pdf.line(margin, bottom, pageWidth - margin, bottom);
+  }
+
+  pdf.setTextColor(bodyColor);
+  return bottom + 8;
+};
+
+const optionalColumn = (include: boolean, column: TableColumn) => (include ? [column] : []);
+
+// The short columns have fixed widths and the product name gets the rest of the row.
+// Tax invoices add HSN and GST rate columns.
+const tableColumns = (tableWidth: number, showGstColumns: boolean) => {
+  const columns: TableColumn[] = [
+    { header: "Product", width: 0, align: "left", value: (item) => item.product_name },
+    ...optionalColumn(showGstColumns, { header: "HSN", width: 18, align: "left", value: (item) => item.hsn_code || "-" }),
+    { header: "Size", width: showGstColumns ? 18 : 22, align: "left", value: (item) => item.size_name || "-" },
+    { header: "Color", width: showGstColumns ? 20 : 26, align: "left", value: (item) => item.color_name || "-" },
+    { header: "Qty", width: 14, align: "right", value: (item) => item.quantity.toString() },
+    ...optionalColumn(showGstColumns, {
+      header: "GST%",
+      width: 14,
+      align: "right",
+      value: (item) => (item.gst_rate !== null && item.gst_rate !== undefined ? `${item.gst_rate}` : "-"),
+    }),
+    { header: "Price", width: showGstColumns ? 22 : 24, align: "right", value: (item) => money(item.unit_price) },
+    { header: "Total", width: showGstColumns ? 24 : 26, align: "right", value: (item) => money(item.total_price) },
+  ];
+  columns[0].width = tableWidth - columns.reduce((sum, column) => sum + column.width, 0);
+
+  // Where each column's text starts, or ends for right aligned columns
+  let left = margin;
+  return columns.map((column) => {
+    const textX = column.align === "right" ? left + column.width - cellPadding : left + cellPadding;
+    left += column.width;
+    return { ...column, textX };
+  });
+};
+
+// Customer block followed by the items table, which carries on over as many pages as it needs
+// with its header repeated. Cells wrap rather than running into the next column.
+// Returns the y position below the last row.
+const drawCustomerAndItems = (pdf: jsPDF, branding: InvoiceBranding, doc: PdfDocument, top: number) => {
+  const style = invoiceTemplates[branding.template];
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageBottom = pdf.internal.pageSize.getHeight() - footerHeight;
+  const tableWidth = pageWidth - margin * 2;
+  const columns = tableColumns(tableWidth, doc.showGstColumns);
+
+  let yPos = top;
+  if (doc.customerLines.length > 0) {
+    pdf.setFont(undefined, "bold");
+    pdf.setFontSize(11);
+    pdf.setTextColor(branding.primaryColor);
+    pdf.text(doc.customerLabel, margin, yPos);
+    pdf.setFont(undefined, "normal");
+    pdf.setFontSize(10);
+    pdf.setTextColor(bodyColor);
+    const customerLines: string[] = doc.customerLines.flatMap((line) => pdf.splitTextToSize(line, tableWidth / 2));
+    drawLines(pdf, customerLines, margin, yPos + 6, 5);
+    yPos += 6 + customerLines.length * 5 + 4;
+  }
+
+  const drawTableHeader = (y: number) => {
+    const headerHeight = 8;
+    if (style.tableHeader !== "ruled") {
+      pdf.setFillColor(style.tableHeader === "filled" ? branding.primaryColor : tint(branding.secondaryColor, 0.85));
+      pdf.rect(margin, y, tableWidth, headerHeight, "F");
+    }
+    pdf.setTextColor(
+      style.tableHeader === "filled"
+        ? textColorOn(branding.primaryColor)
+        : style.tableHeader === "ruled" ? branding.secondaryColor : bodyColor
+    );
+    pdf.setFont(undefined, "bold");
+    pdf.setFontSize(9);
+    columns.forEach((column) => pdf.text(column.header, column.textX, y + 5.5, { align: column.align }));
+    if (style.tableHeader === "ruled") {
+      pdf.setDrawColor(branding.secondaryColor);
+      pdf.setLineWidth(0.3);
+      pdf.line(margin, y + headerHeight, pageWidth - margin, y + headerHeight);
+    }
+    pdf.setFont(undefined, "normal");
+    pdf.setTextColor(bodyColor);
+    return y + headerHeight;
+  };
+
+  yPos = drawTableHeader(yPos);
+
+  const rowLine = lineHeight(9);
+  doc.items.forEach((item, index) => {
+    const cells = columns.map(
+      (column) => pdf.splitTextToSize(column.value(item), column.width - cellPadding * 2) as string[]
+    );
+    const rowHeight = Math.max(...cells.map((lines) => lines.length)) * rowLine + 3;
+
+    if (yPos + rowHeight > pageBottom) {
+      yPos = drawTableHeader(startContinuationPage(pdf, branding, doc));
+      pdf.setFontSize(9);
+    }
+
+    if (style.stripedRows && index % 2 === 1) {
+      pdf.setFillColor(tint(branding.primaryColor, 0.92));
+      pdf.rect(margin, yPos, tableWidth, rowHeight, "F");
+    }
+    cells.forEach((lines, i) => drawLines(pdf, lines, columns[i].textX, yPos + 4.2, rowLine, columns[i].align));
+    yPos += rowHeight;
+  });
+
+  pdf.setDrawColor(tint(branding.secondaryColor, 0.5));
+  pdf.setLineWidth(0.2);
+  pdf.line(margin, yPos, pageWidth - margin, yPos);
+
+  return yPos;
+};
+
+// Totals on the right below the table with the payment QR code on the left, then any notes. The
+// block moves to a new page as a whole when it doesn't fit under the last row. Returns the y
+// position below it.
+const drawTotals = (pdf: jsPDF, branding: InvoiceBranding, doc: PdfDocument, top: number) => {
+  const { grandTotal } = invoiceTemplates[branding.template];
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageBottom = pdf.internal.pageSize.getHeight() - footerHeight;
+  const labelX = pageWidth - margin - 65;
+  const valueX = pageWidth - margin - cellPadding;
+
+  pdf.setFont(undefined, "normal");
+  pdf.setFontSize(9);
+  const notes: string[] = doc.notes.flatMap((note) => pdf.splitTextToSize(note, pageWidth - margin * 2));
+  const qrBottom = doc.paymentQR ? 4 + paymentQRSize : 0;
+  const height =
+    Math.max(8 + doc.totals.length * 6 + 4, qrBottom + 2) + (notes.length > 0 ? 8 + notes.length * 4.5 : 0);
+
+  let yPos = top + height > pageBottom ? startContinuationPage(pdf, branding, doc) : top;
+  const blockTop = yPos;
+
+  if (doc.paymentQR) {
+    const textX = margin + paymentQRSize + 4;
+    const lines: string[] = doc.paymentQR.lines.flatMap((line) =>
+      pdf.splitTextToSize(line, labelX - cellPadding - textX - 4)
+    );
+    pdf.addImage(doc.paymentQR.image, "PNG", margin, blockTop + 4, paymentQRSize, paymentQRSize);
+    pdf.setFont(undefined, "bold");
+    pdf.text(lines[0], textX, blockTop + 9);
+    pdf.setFont(undefined, "normal");
+    drawLines(pdf, lines.slice(1), textX, blockTop + 14, 4.5);
+  }
+
+  yPos += 8;
+  pdf.setFontSize(10);
+  doc.totals.forEach(([label, value]) => {
+    pdf.text(label, labelX, yPos);
+    pdf.text(value, valueX, yPos, { align: "right" });
+    yPos += 6;
+  });
+
+  yPos += 2;
+  if (grandTotal === "filled") {
+    pdf.setFillColor(branding.primaryColor);
+    pdf.rect(labelX - cellPadding, yPos - 6, pageWidth - margin - labelX + cellPadding, 9, "F");
+  } else if (grandTotal === "ruled") {
+    pdf.setDrawColor(branding.primaryColor);
+    pdf.setLineWidth(0.3);
+    pdf.line(labelX, yPos - 5, pageWidth - margin, yPos - 5);
+  }
+  pdf.setTextColor(grandTotal === "filled" ? textColorOn(branding.primaryColor) : branding.primaryColor);
+  pdf.setFontSize(12);
+  pdf.setFont(undefined, "bold");
+  pdf.text(doc.grandTotal[0], labelX, yPos);
+  pdf.text(doc.grandTotal[1], valueX, yPos, { align: "right" });
+  pdf.setTextColor(bodyColor);
+  yPos = Math.max(yPos, blockTop + qrBottom - 2);
+
+  if (notes.length > 0) {
+    yPos += 10;
+    pdf.setFontSize(9);
+    pdf.setFont(undefined, "normal");
+    drawLines(pdf, notes, margin, yPos, 4.5);
+    yPos += (notes.length - 1) * 4.5;
+  }
+
+  return yPos + 4;
+};
+
+// QR codes at the bottom of the last page, on a page of their own when the totals reach down there
+const drawSocialQRCodes = async (
+  pdf: jsPDF,
+  storeSettings: StoreSettings,
+  branding: InvoiceBranding,
+  doc: PdfDocument,
+  top: number
+) => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const currentPageHeight = pdf.internal.pageSize.getHeight();
+  const qrBottomY = currentPageHeight - 50;
+
+  if (storeSettings?.whatsapp_qr_url || storeSettings?.instagram_qr_url) {
+    const hasWhatsapp = !!storeSettings?.whatsapp_qr_url;
+    const hasInstagram = !!storeSettings?.instagram_qr_url;
+
+    if (top > qrBottomY - 8) startContinuationPage(pdf, branding, doc);
+
+    // Calculate positions for proper spacing
+    const whatsappX = 20;
+    const instagramX = pageWidth - 55;
+
+    if (hasWhatsapp) {
+      try {
+        // Add a light background for WhatsApp QR
+        pdf.setFillColor(tint(branding.secondaryColor, 0.9));
+        pdf.rect(whatsappX - 5, qrBottomY - 5, 40, 45, 'F');
+
+        const img = await loadImage(storeSettings.whatsapp_qr_url);
+        pdf.addImage(img, 'PNG', whatsappX, qrBottomY, 30, 30);
+        pdf.setFontSize(8);
+        pdf.setFont(undefined, 'bold');
+        pdf.text(storeSettings.whatsapp_tagline || 'Join our WhatsApp', whatsappX + 15, qrBottomY + 35, { align: 'center' });
+      } catch (err) {
+        console.error('WhatsApp QR load failed:', err);
+      }
+    }
+
+    if (hasInstagram) {
+      try {
+        // Add a light background for Instagram QR (right-aligned)
+        pdf.setFillColor(tint(branding.secondaryColor, 0.9));
+        pdf.rect(instagramX - 5, qrBottomY - 5, 40, 45, 'F');
+
+        const img = await loadImage(storeSettings.instagram_qr_url);
+        pdf.addImage(img, 'PNG', instagramX, qrBottomY, 30, 30);
+        pdf.setFontSize(8);
+        pdf.setFont(undefined, 'bold');
+        pdf.text(storeSettings.instagram_tagline || 'Follow us on Instagram', instagramX + 15, qrBottomY + 35, { align: 'center' });
+      } catch (err) {
+        console.error('Instagram QR load failed:', err);
+      }
+    }
+  }
+};
+
+const drawPageNumbers = (pdf: jsPDF, branding: InvoiceBranding) => {
+  const pageCount = pdf.getNumberOfPages();
+  if (pageCount < 2) return;
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  pdf.setFont(undefined, "normal");
+  pdf.setFontSize(8);
+  pdf.setTextColor(branding.secondaryColor);
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.text(`Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - 6, { align: "center" });
+  }
+};
+
+// Lays out a document with the store's template, colors and font
+const renderDocument = async (doc: PdfDocument, storeSettings: StoreSettings) => {
+  const branding = invoiceBrandingFor(storeSettings);
+  const pdf = new jsPDF();
+  pdf.setFont(branding.font, "normal");
+  pdf.setTextColor(bodyColor);
+
+  const top = await drawStoreHeader(pdf, storeSettings, branding, doc);
+  const tableBottom = drawCustomerAndItems(pdf, branding, doc, top);
+  const totalsBottom = drawTotals(pdf, branding, doc, tableBottom);
+  await drawSocialQRCodes(pdf, storeSettings, branding, doc, totalsBottom);
+  drawPageNumbers(pdf, branding);
+
+  return pdf;
+};
+
+export const buildInvoicePDF = async (
+  invoice: Tables<"invoices">,
+  items: Tables<"invoice_items">[],
+  storeSettings: StoreSettings
+) => {
+  // Invoices issued with GST carry a place of supply
+  const isTaxInvoice = !!invoice.place_of_supply;
+
+  const customerLines = invoice.customer_name
+    ? [invoice.customer_name, invoice.customer_phone].filter(Boolean)
+    : [];
+  if (isTaxInvoice) {
+    if (invoice.customer_gstin) customerLines.push(`GSTIN: ${invoice.customer_gstin}`);
+    customerLines.push(`Place of supply: ${gstStateLabel(invoice.place_of_supply)}`);
+  }
+
+  const totals: [string, string][] = [["Subtotal:", money(invoice.subtotal)]];
+  if (invoice.discount_amount > 0) totals.push(["Discount:", `-${money(invoice.discount_amount)}`]);
+  if (isTaxInvoice) {
+    totals.push(["Taxable Value:", money(invoice.subtotal - invoice.discount_amount)]);
+    summariseGstByRate(items).forEach((summary) => {
+      if (summary.igst > 0) {
+        totals.push([`IGST @ ${summary.gstRate}%:`, money(summary.igst)]);
+      } else {
+        totals.push([`CGST @ ${summary.gstRate / 2}%:`, money(summary.cgst)]);
+        totals.push([`SGST @ ${summary.gstRate / 2}%:`, money(summary.sgst)]);
+      }
+    });
+  } else if (invoice.tax_amount > 0) {
+    totals.push([`Tax (${invoice.tax_percentage}%):`, money(invoice.tax_amount)]);
+  }
+
+  const upi = await invoiceUpiQRCode(invoice, storeSettings);
+
+  return renderDocument(
+    {
+      title: isTaxInvoice ? "TAX INVOICE" : "INVOICE",
+      documentLines: [
+        `#${invoice.invoice_number}`,
+        `Date: ${format(new Date(invoice.created_at), "PP")}`,
+        ...(isTaxInvoice && invoice.store_gstin ? [`GSTIN: ${invoice.store_gstin}`] : []),
+      ],
+      customerLabel: "Bill To:",
+      customerLines,
+      items,
+      showGstColumns: isTaxInvoice,
+      totals,
+      grandTotal: ["Grand Total:", money(invoice.grand_total)],
+      notes: [],
+      paymentQR: upi
+        ? {
+            image: upi.image,
+            lines: [
+              "Scan to pay with any UPI app",
+              invoice.amount_paid > 0 ? `Balance due: ${money(upi.amount)}` : `Amount: ${money(upi.amount)}`,
+              `UPI ID: ${storeSettings?.upi_vpa}`,
+            ],
+          }
+        : undefined,
+    },
+    storeSettings
+  );
+};
+
+export const buildCreditNotePDF = async (
+  creditNote: Tables<"credit_notes">,
+  items: Tables<"credit_note_items">[],
+  storeSettings: StoreSettings
+) => {
+  const totals: [string, string][] = [["Subtotal:", money(creditNote.subtotal)]];
+
+  // Discount given on the invoice is taken back in proportion to what was returned
+  const adjustment = Number(creditNote.total_amount) - Number(creditNote.subtotal) - Number(creditNote.tax_amount);
+  if (Math.abs(adjustment) >= 0.01) totals.push(["Discount:", adjustment.toFixed(2)]);
+  if (creditNote.tax_amount > 0) totals.push(["Tax:", money(creditNote.tax_amount)]);
+
+  return renderDocument(
+    {
+      title: "CREDIT NOTE",
+      documentLines: [
+        `#${creditNote.credit_note_number}`,
+        `Date: ${format(new Date(creditNote.created_at), "PP")}`,
+        `Against invoice #${creditNote.invoice_number}`,
+      ],
+      customerLabel: "Credit To:",
+      customerLines: creditNote.customer_name
+        ? [creditNote.customer_name, creditNote.customer_phone].filter(Boolean)
+        : [],
+      items,
+      showGstColumns: false,
+      totals,
+      grandTotal: ["Total Credit:", money(creditNote.total_amount)],
+      notes: creditNote.reason ? [`Reason: ${creditNote.reason}`] : [],
+    },
+    storeSettings
+  );
+};
@@ -0,0 +1,89 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { buildInvoicePDF } from "@/lib/invoice-pdf";
+
+// A4 invoices are kept as they were first rendered in the private invoices bucket;
+// invoices.pdf_url holds the file's path there
+const bucket = "invoices";
+
+// Seconds a shared link stays valid
+export const shareLinkExpiries: Record<string, string> = {
+  "86400": "1 day",
+  "604800": "7 days",
+  "2592000": "30 days",
+};
+
+export const fetchInvoiceWithItems = async (invoiceId: string) => {
+  const { data: invoice, error: invError } = await supabase
+    .from("invoices")
+    .select("*")
+    .eq("id", invoiceId)
+    .single();
+
+  if (invError) throw invError;
+
+  const { data: items, error: itemsError } = await supabase
+    .from("invoice_items")
+    .select("*")
+    .eq("invoice_id", invoiceId);
+
+  if (itemsError) throw itemsError;
+
+  return { invoice, items };
+};
+
+// Renders the invoice with the store settings it was saved with and stores it as a new file, so
+// links shared for an earlier version keep showing that version. Called when an invoice is saved
+// or edited; returns the stored path.
+export const storeInvoicePDF = async (invoiceId: string) => {
+  const { invoice, items } = await fetchInvoiceWithItems(invoiceId);
+  const pdf = await buildInvoicePDF(invoice, items, invoice.pdf_settings as unknown as Tables<"store_settings"> | null);
+  const path = `${invoice.id}/${invoice.invoice_number}-${Date.now()}.pdf`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(bucket)
+    .upload(path, pdf.output("blob"), { contentType: "application/pdf" });
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase.from("invoices").update({ pdf_url: path }).eq("id", invoice.id);
+  if (error) throw error;
+
+  return path;
+};
+
+// A PDF that failed to upload when the invoice was saved, or was never stored, is stored the
+// first time it's needed
+const storedPDFPath = async (invoice: Tables<"invoices">) => invoice.pdf_url || storeInvoicePDF(invoice.id);
+
+export const downloadInvoicePDF = async (invoice: Tables<"invoices">) => {
+  const path = await storedPDFPath(invoice);
+  const { data, error } = await supabase.storage.from(bucket).download(path);
+  if (error) throw error;
+
+  const url = URL.createObjectURL(data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `Invoice-${invoice.invoice_number}.pdf`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// A link anyone can open without signing in, until it expires
+export const createInvoiceShareLink = async (invoice: Tables<"invoices">, expiresIn: number) => {
+  const path = await storedPDFPath(invoice);
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, expiresIn);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+// Every stored version goes with the invoice
+export const removeInvoicePDFs = async (invoiceId: string) => {
+  const { data: files, error } = await supabase.storage.from(bucket).list(invoiceId);
+  if (error) throw error;
+  if (files.length === 0) return;
+
+  const { error: removeError } = await supabase.storage
+    .from(bucket)
+    .remove(files.map((file) => `${invoiceId}/${file.name}`));
+  if (removeError) throw removeError;
+};
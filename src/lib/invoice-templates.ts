@@ -0,0 +1,70 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+// store_settings.invoice_template picks the layout of A4 invoices and credit notes
+export type InvoiceTemplate = "classic" | "modern" | "minimal";
+
+export const invoiceTemplateLabels: Record<InvoiceTemplate, string> = {
+  classic: "Classic",
+  modern: "Modern",
+  minimal: "Minimal",
+};
+
+// The fonts built into every PDF viewer, so nothing has to be embedded
+export type InvoiceFont = "helvetica" | "times" | "courier";
+
+export const invoiceFontLabels: Record<InvoiceFont, string> = {
+  helvetica: "Helvetica",
+  times: "Times",
+  courier: "Courier",
+};
+
+// How each template draws the parts of the page the renderer lays out
+export interface InvoiceTemplateStyle {
+  // Store name centred between the logo and the title, on a band of the primary color, or left aligned
+  header: "centered" | "banner" | "left";
+  // Table header on a tint of the secondary color, filled with the primary color, or underlined
+  tableHeader: "tinted" | "filled" | "ruled";
+  stripedRows: boolean;
+  grandTotal: "bold" | "filled" | "ruled";
+}
+
+export const invoiceTemplates: Record<InvoiceTemplate, InvoiceTemplateStyle> = {
+  classic: { header: "centered", tableHeader: "tinted", stripedRows: false, grandTotal: "bold" },
+  modern: { header: "banner", tableHeader: "filled", stripedRows: true, grandTotal: "filled" },
+  minimal: { header: "left", tableHeader: "ruled", stripedRows: false, grandTotal: "ruled" },
+};
+
+export interface InvoiceBranding {
+  template: InvoiceTemplate;
+  font: InvoiceFont;
+  primaryColor: string;
+  secondaryColor: string;
+}
+
+const isHexColor = (value: string | null | undefined): value is string => /^#[0-9a-f]{6}$/i.test(value || "");
+
+// The store's settings, falling back to the column defaults for anything missing or unusable
+export const invoiceBrandingFor = (storeSettings: Tables<"store_settings"> | null | undefined): InvoiceBranding => {
+  const template = storeSettings?.invoice_template;
+  const font = storeSettings?.invoice_font_family;
+  return {
+    template: template && template in invoiceTemplates ? (template as InvoiceTemplate) : "classic",
+    font: font && font in invoiceFontLabels ? (font as InvoiceFont) : "helvetica",
+    primaryColor: isHexColor(storeSettings?.invoice_primary_color) ? storeSettings.invoice_primary_color : "#000000",
+    secondaryColor: isHexColor(storeSettings?.invoice_secondary_color) ? storeSettings.invoice_secondary_color : "#666666",
+  };
+};
+
+const channels = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+
+// Mixes a color with white: 0 keeps the color, 1 is white
+export const tint = (hex: string, amount: number) =>
+  `#${channels(hex)
+    .map((value) => Math.round(value + (255 - value) * amount).toString(16).padStart(2, "0"))
+    .join("")}`;
+
+// Black or white, whichever reads better on the color
+export const textColorOn = (hex: string) => {
+  const [r, g, b] = channels(hex);
+  return 0.299 * r + 0.587 * g + 0.114 * b > 160 ? "#000000" : "#ffffff";
+};
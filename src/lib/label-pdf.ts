@@ -0,0 +1,110 @@
+import jsPDF from "jspdf";
+import { BarcodeFormat, encodeBarcode, isValidEan13 } from "@/lib/barcode";
+
+export interface ProductLabel {
+  name: string;
+  variant: string;
+  sku: string | null;
+  barcode: string | null;
+  mrp: number;
+}
+
+export type LabelLayout = "a4" | "thermal";
+
+// Sizes in mm. The A4 sheet is the common 3 x 8 sheet of 70 x 37 mm labels.
+const labelLayouts: Record<LabelLayout, { width: number; height: number; columns: number; rows: number }> = {
+  a4: { width: 70, height: 37, columns: 3, rows: 8 },
+  thermal: { width: 50, height: 25, columns: 1, rows: 1 },
+};
+
+export const labelLayoutLabels: Record<LabelLayout, string> = {
+  a4: "A4 sheet (3 x 8, 70 x 37 mm)",
+  thermal: "Thermal roll (50 x 25 mm)",
+};
+
+// Code 128 carries the SKU; EAN-13 the numeric barcode, falling back to the SKU without one
+export const labelBarcodeValue = (label: ProductLabel, format: BarcodeFormat) =>
+  format === "ean13" && isValidEan13(label.barcode) ? label.barcode : label.sku;
+
+const drawBarcode = (
+  pdf: jsPDF,
+  value: string,
+  format: BarcodeFormat,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  const modules = encodeBarcode(value, format);
+  // Scanners need a quiet zone of about ten modules on each side
+  const moduleWidth = width / (modules.length + 20);
+  let barX = x + moduleWidth * 10;
+
+  modules.forEach((isBar) => {
+    if (isBar) pdf.rect(barX, y, moduleWidth, height, "F");
+    barX += moduleWidth;
+  });
+};
+
+const drawLabel = (
+  pdf: jsPDF,
+  label: ProductLabel,
+  format: BarcodeFormat,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  const padding = 2;
+  const innerWidth = width - padding * 2;
+  const scale = Math.min(width / 50, height / 25);
+
+  pdf.setFontSize(7 * scale);
+  pdf.setFont(undefined, "bold");
+  pdf.text(pdf.splitTextToSize(label.name, innerWidth)[0], x + padding, y + padding + 2.5 * scale);
+
+  pdf.setFontSize(6.5 * scale);
+  pdf.setFont(undefined, "normal");
+  if (label.variant) pdf.text(label.variant, x + padding, y + padding + 5.5 * scale);
+  pdf.setFont(undefined, "bold");
+  pdf.text(`MRP Rs. ${label.mrp.toFixed(2)}`, x + width - padding, y + padding + 5.5 * scale, { align: "right" });
+
+  const value = labelBarcodeValue(label, format);
+  if (!value) return;
+
+  const barcodeTop = y + padding + 7 * scale;
+  const textHeight = 3 * scale;
+  const barcodeHeight = height - (barcodeTop - y) - padding - textHeight;
+  const barcodeFormat = format === "ean13" && value === label.barcode ? "ean13" : "code128";
+  drawBarcode(pdf, value, barcodeFormat, x + padding, barcodeTop, innerWidth, barcodeHeight);
+
+  pdf.setFontSize(6 * scale);
+  pdf.setFont(undefined, "normal");
+  pdf.text(value, x + width / 2, y + height - padding, { align: "center" });
+};
+
+// One page per label on a thermal roll; a grid of labels per page on A4
+export const buildLabelsPDF = (labels: ProductLabel[], layout: LabelLayout, format: BarcodeFormat) => {
+  const { width, height, columns, rows } = labelLayouts[layout];
+  const pdf =
+    layout === "thermal"
+      ? new jsPDF({ unit: "mm", format: [width, height], orientation: "landscape" })
+      : new jsPDF({ unit: "mm", format: "a4" });
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const marginX = (pageWidth - width * columns) / 2;
+  const marginY = (pageHeight - height * rows) / 2;
+  const perPage = columns * rows;
+
+  labels.forEach((label, index) => {
+    const slot = index % perPage;
+    if (index > 0 && slot === 0) pdf.addPage();
+
+    const x = marginX + (slot % columns) * width;
+    const y = marginY + Math.floor(slot / columns) * height;
+    drawLabel(pdf, label, format, x, y, width, height);
+  });
+
+  return pdf;
+};
@@ -0,0 +1,94 @@
+import { format } from "date-fns";
+
+// Invoices are paid in one go or in instalments (the payments table).
+// payment_status is kept in sync by the database; "overdue" is not stored,
+// it is an unpaid or part-paid invoice past its expected payment date.
+
+export type PaymentMethod = "cash" | "upi" | "card" | "bank";
+
+export type PaymentStatus = "paid" | "partial" | "unpaid" | "overdue";
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  card: "Card",
+  bank: "Bank transfer",
+};
+
+export const paymentStatusLabels: Record<PaymentStatus, string> = {
+  paid: "Paid",
+  partial: "Part paid",
+  unpaid: "Unpaid",
+  overdue: "Overdue",
+};
+
+export const paymentStatusClassNames: Record<PaymentStatus, string> = {
+  paid: "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300",
+  partial: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300",
+  unpaid: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300",
+  overdue: "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300",
+};
+
+export const paymentStatusOf = (invoice: {
+  payment_status: string | null;
+  expected_payment_date: string | null;
+}): PaymentStatus => {
+  const status = (invoice.payment_status || "paid") as PaymentStatus;
+  if (status === "paid") return status;
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  if (invoice.expected_payment_date && invoice.expected_payment_date < today) return "overdue";
+  return status;
+};
+
+// Aging buckets for the receivables report, by days since the invoice date
+export const agingBuckets = [
+  { key: "current", label: "0-30 days", maxDays: 30 },
+  { key: "days31to60", label: "31-60 days", maxDays: 60 },
+  { key: "over60", label: "60+ days", maxDays: Infinity },
+] as const;
+
+export type AgingBucket = (typeof agingBuckets)[number]["key"];
+
+export const agingBucketOf = (daysOutstanding: number): AgingBucket =>
+  agingBuckets.find((bucket) => daysOutstanding <= bucket.maxDays)!.key;
+
+// Money handed over at the counter; a sale can be split across several methods
+export interface Tender {
+  method: PaymentMethod;
+  amount: number | "";
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// UPI, card and bank amounts are taken as entered. Cash covers whatever they leave and
+// anything above that is change, so only the cash actually kept is recorded as paid.
+export const settleTenders = (total: number, tenders: Tender[]) => {
+  const amountOf = (method: (m: PaymentMethod) => boolean) =>
+    tenders.filter((t) => method(t.method)).reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
+
+  const nonCash = roundMoney(amountOf((m) => m !== "cash"));
+  const cashTendered = roundMoney(amountOf((m) => m === "cash"));
+  const cashKept = roundMoney(Math.min(cashTendered, Math.max(total - nonCash, 0)));
+  const paid = roundMoney(nonCash + cashKept);
+
+  // One payment per method, in the order they were first entered
+  const payments = tenders
+    .map((t) => t.method)
+    .filter((method, index, methods) => methods.indexOf(method) === index)
+    .map((method) => ({
+      method,
+      amount: method === "cash" ? cashKept : roundMoney(amountOf((m) => m === method)),
+    }))
+    .filter((payment) => payment.amount > 0);
+
+  return {
+    payments,
+    paid,
+    cashTendered,
+    change: roundMoney(cashTendered - cashKept),
+    balanceDue: roundMoney(Math.max(total - paid, 0)),
+    // Card and UPI can't be given back as change
+    overpaid: nonCash > roundMoney(total),
+  };
+};
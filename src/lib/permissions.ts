@@ -0,0 +1,65 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+export type Permission =
+  | "createInvoices"
+  | "deleteInvoices"
+  | "manageProducts"
+  | "viewCostPrices"
+  | "viewProfits"
+  | "managePurchases"
+  | "manageSettings"
+  | "manageTeam";
+
+export type Permissions = Record<Permission, boolean>;
+
+// Owners and admins run the store; staff sell. The database enforces the same split, including
+// keeping cost prices, sales records and profit from staff.
+const rolePermissions: Record<AppRole, Permission[]> = {
+  owner: [
+    "createInvoices",
+    "deleteInvoices",
+    "manageProducts",
+    "viewCostPrices",
+    "viewProfits",
+    "managePurchases",
+    "manageSettings",
+    "manageTeam",
+  ],
+  admin: [
+    "createInvoices",
+    "deleteInvoices",
+    "manageProducts",
+    "viewCostPrices",
+    "viewProfits",
+    "managePurchases",
+    "manageSettings",
+  ],
+  staff: ["createInvoices"],
+};
+
+export const roleLabels: Record<AppRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  staff: "Staff",
+};
+
+// A user with several roles acts with the broadest one
+const rolePriority: AppRole[] = ["owner", "admin", "staff"];
+
+export const primaryRole = (roles: AppRole[]) => rolePriority.find((role) => roles.includes(role)) ?? null;
+
+export const permissionsFor = (role: AppRole | null): Permissions => {
+  const granted = role ? rolePermissions[role] : [];
+  return {
+    createInvoices: granted.includes("createInvoices"),
+    deleteInvoices: granted.includes("deleteInvoices"),
+    manageProducts: granted.includes("manageProducts"),
+    viewCostPrices: granted.includes("viewCostPrices"),
+    viewProfits: granted.includes("viewProfits"),
+    managePurchases: granted.includes("managePurchases"),
+    manageSettings: granted.includes("manageSettings"),
+    manageTeam: granted.includes("manageTeam"),
+  };
+};
@@ -0,0 +1,481 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { variantKey, variantLabel } from "@/lib/inventory";
+import type { Product } from "@/lib/products";
+
+// A catalogue file has one row per size/color variant of a product, or a single row for a
+// product without variants. The product's own details are read from its first row; rows are
+// grouped into products by SKU, or by name when there is no SKU. Exports use the same columns,
+// so a catalogue can be exported, edited in a spreadsheet and imported again.
+
+export type ProductImportField =
+  | "name"
+  | "sku"
+  | "description"
+  | "category"
+  | "hsn_code"
+  | "price"
+  | "cost"
+  | "size"
+  | "size_price"
+  | "color"
+  | "stock"
+  | "image_url";
+
+export const productImportFieldLabels: Record<ProductImportField, string> = {
+  name: "Name",
+  sku: "SKU",
+  description: "Description",
+  category: "Category",
+  hsn_code: "HSN Code",
+  price: "Price",
+  cost: "Cost",
+  size: "Size",
+  size_price: "Size Price",
+  color: "Color",
+  stock: "Stock",
+  image_url: "Image URL",
+};
+
+// Other headers a column is recognised by when a file is opened
+const fieldAliases: Record<ProductImportField, string[]> = {
+  name: ["product", "product name", "item", "item name"],
+  sku: ["product code", "style code"],
+  description: ["details"],
+  category: ["category name"],
+  hsn_code: ["hsn", "hsn sac"],
+  price: ["mrp", "selling price", "price inr"],
+  cost: ["cost price", "purchase price", "cost inr"],
+  size: ["size name"],
+  size_price: ["price for size", "size mrp"],
+  color: ["colour", "color name", "colour name"],
+  stock: ["quantity", "qty", "quantity in stock"],
+  image_url: ["image", "image link"],
+};
+
+// Columns of the file by the field they hold; fields left out are not in the file
+export type ColumnMapping = Partial<Record<ProductImportField, number>>;
+
+// Everything an import is checked against
+export interface Catalogue {
+  products: Product[];
+  categories: Tables<"categories">[];
+  sizes: Tables<"sizes">[];
+  colors: Tables<"colors">[];
+  productSizePrices: Tables<"product_size_prices">[];
+  productInventory: Tables<"product_inventory">[];
+}
+
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+// Blank cells are undefined, and leave an existing product's value as it is
+export interface PlannedProduct {
+  rows: number[];
+  existing: Product | null;
+  name: string;
+  sku?: string;
+  description?: string;
+  category?: string;
+  hsnCode?: string;
+  price?: number;
+  cost?: number;
+  imageUrl?: string;
+  // A null stock keeps the variant's current stock
+  variants: { size: string | null; color: string | null; stock: number | null }[];
+  sizePrices: Record<string, number>;
+}
+
+export interface ImportPlan {
+  products: PlannedProduct[];
+  errors: ImportRowError[];
+  // Products left out because one of their rows has an error
+  skippedProducts: number;
+  newCategories: string[];
+  newSizes: string[];
+  newColors: string[];
+  // Without size, color and stock columns existing products keep their variants and stock
+  replacesVariants: boolean;
+  replacesSizePrices: boolean;
+}
+
+export interface ImportOptions {
+  createMissing: boolean;
+  includeCost: boolean;
+}
+
+export const importFieldsFor = (includeCost: boolean) =>
+  (Object.keys(productImportFieldLabels) as ProductImportField[]).filter((field) => includeCost || field !== "cost");
+
+const normalise = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const sameName = (a: string | null | undefined, b: string | null | undefined) =>
+  (a || "").trim().toLowerCase() === (b || "").trim().toLowerCase();
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalised = headers.map(normalise);
+  (Object.keys(productImportFieldLabels) as ProductImportField[]).forEach((field) => {
+    const names = [productImportFieldLabels[field], field, ...fieldAliases[field]].map(normalise);
+    const index = normalised.findIndex(
+      (header, i) => names.includes(header) && !Object.values(mapping).includes(i)
+    );
+    if (index >= 0) mapping[field] = index;
+  });
+  return mapping;
+};
+
+// Amounts may be written with ₹ and thousands separators; NaN when the cell isn't a number
+const parseNumber = (text: string) => (text === "" ? undefined : Number(text.replace(/[₹,\s]/g, "")));
+
+// Checks every row against the catalogue without saving anything
+export const planProductImport = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  catalogue: Catalogue,
+  { createMissing, includeCost }: ImportOptions
+): ImportPlan => {
+  const errors: ImportRowError[] = [];
+  const newNames = { category: [] as string[], size: [] as string[], color: [] as string[] };
+  const groups = new Map<string, { rowNumber: number; cells: Record<ProductImportField, string> }[]>();
+
+  // Names are matched without regard to case; unknown ones are created or are an error
+  const lookUp = (kind: "category" | "size" | "color", name: string, rowNumber: number) => {
+    if (!name) return;
+    const known = { category: catalogue.categories, size: catalogue.sizes, color: catalogue.colors }[kind];
+    if (known.some((item) => sameName(item.name, name)) || newNames[kind].some((item) => sameName(item, name))) return;
+    if (createMissing) newNames[kind].push(name);
+    else errors.push({ row: rowNumber, message: `Unknown ${kind} "${name}"` });
+  };
+
+  rows.forEach((row, index) => {
+    // The header is row 1
+    const rowNumber = index + 2;
+    const cells = Object.fromEntries(
+      (Object.keys(productImportFieldLabels) as ProductImportField[]).map((field) => {
+        const column = mapping[field];
+        const value = column === undefined || (field === "cost" && !includeCost) ? "" : (row[column] || "").trim();
+        return [field, value];
+      })
+    ) as Record<ProductImportField, string>;
+
+    if (!cells.name && !cells.sku) {
+      errors.push({ row: rowNumber, message: "Name is missing" });
+      return;
+    }
+
+    (["price", "cost", "size_price"] as const).forEach((field) => {
+      const value = parseNumber(cells[field]);
+      if (value !== undefined && (Number.isNaN(value) || value < 0)) {
+        errors.push({ row: rowNumber, message: `${productImportFieldLabels[field]} "${cells[field]}" is not an amount` });
+      }
+    });
+    const stock = parseNumber(cells.stock);
+    if (stock !== undefined && (!Number.isInteger(stock) || stock < 0)) {
+      errors.push({ row: rowNumber, message: `Stock "${cells.stock}" is not a whole number` });
+    }
+    if (cells.size_price && !cells.size) {
+      errors.push({ row: rowNumber, message: "Size Price needs a size" });
+    }
+
+    lookUp("category", cells.category, rowNumber);
+    lookUp("size", cells.size, rowNumber);
+    lookUp("color", cells.color, rowNumber);
+
+    const key = cells.sku ? `sku:${cells.sku.toLowerCase()}` : `name:${cells.name.toLowerCase()}`;
+    groups.set(key, [...(groups.get(key) || []), { rowNumber, cells }]);
+  });
+
+  const products: PlannedProduct[] = [];
+  const matched = new Map<string, number>();
+  let skippedProducts = 0;
+
+  groups.forEach((group) => {
+    const [first] = group;
+    const rowNumbers = group.map((row) => row.rowNumber);
+    const groupErrors: ImportRowError[] = [];
+    const fail = (row: number, message: string) => groupErrors.push({ row, message });
+
+    let existing: Product | null = null;
+    if (first.cells.sku) {
+      existing = catalogue.products.find((product) => sameName(product.sku, first.cells.sku)) || null;
+    } else {
+      const named = catalogue.products.filter((product) => sameName(product.name, first.cells.name));
+      if (named.length > 1) fail(first.rowNumber, `More than one product is named "${first.cells.name}"; add its SKU`);
+      existing = named.length === 1 ? named[0] : null;
+    }
+    if (existing) {
+      const earlierRow = matched.get(existing.id);
+      if (earlierRow) fail(first.rowNumber, `Same product as row ${earlierRow}`);
+      else matched.set(existing.id, first.rowNumber);
+    }
+
+    if (!existing && !first.cells.name) fail(first.rowNumber, "Name is missing");
+    if (!existing && !first.cells.price) fail(first.rowNumber, "Price is missing");
+
+    // Every row of a product with sizes needs a size, and the same for colors
+    const hasSizes = group.some((row) => row.cells.size);
+    const hasColors = group.some((row) => row.cells.color);
+    const seen = new Set<string>();
+    const sizePrices: Record<string, number> = {};
+    group.forEach(({ rowNumber, cells }) => {
+      if (hasSizes && !cells.size) fail(rowNumber, "Size is missing; other rows of this product have one");
+      if (hasColors && !cells.color) fail(rowNumber, "Color is missing; other rows of this product have one");
+
+      const key = variantKey(cells.size.toLowerCase() || null, cells.color.toLowerCase() || null);
+      if (seen.has(key)) {
+        fail(
+          rowNumber,
+          cells.size || cells.color
+            ? `${variantLabel(cells.size, cells.color)} appears twice for this product`
+            : "The product appears twice"
+        );
+      }
+      seen.add(key);
+
+      const sizePrice = parseNumber(cells.size_price);
+      if (sizePrice !== undefined && cells.size) {
+        const sizeKey = Object.keys(sizePrices).find((size) => sameName(size, cells.size));
+        if (sizeKey && sizePrices[sizeKey] !== sizePrice) fail(rowNumber, `Size ${cells.size} has two different prices`);
+        else sizePrices[sizeKey || cells.size] = sizePrice;
+      }
+    });
+
+    const hasRowErrors = errors.some((error) => rowNumbers.includes(error.row));
+    errors.push(...groupErrors);
+    if (hasRowErrors || groupErrors.length > 0) {
+      skippedProducts++;
+      return;
+    }
+
+    const text = (value: string) => value || undefined;
+    products.push({
+      rows: rowNumbers,
+      existing,
+      name: first.cells.name || existing?.name || "",
+      sku: text(first.cells.sku),
+      description: text(first.cells.description),
+      category: text(first.cells.category),
+      hsnCode: text(first.cells.hsn_code),
+      price: parseNumber(first.cells.price),
+      cost: parseNumber(first.cells.cost),
+      imageUrl: text(first.cells.image_url),
+      variants: group.map(({ cells }) => ({
+        size: cells.size || null,
+        color: cells.color || null,
+        stock: parseNumber(cells.stock) ?? null,
+      })),
+      sizePrices,
+    });
+  });
+
+  errors.sort((a, b) => a.row - b.row);
+
+  return {
+    products,
+    errors,
+    skippedProducts,
+    newCategories: newNames.category,
+    newSizes: newNames.size,
+    newColors: newNames.color,
+    replacesVariants: mapping.size !== undefined || mapping.color !== undefined || mapping.stock !== undefined,
+    replacesSizePrices: mapping.size_price !== undefined,
+  };
+};
+
+// Ids by lower case name
+const idsByName = (items: { id: string; name: string }[]) =>
+  new Map(items.map((item) => [item.name.trim().toLowerCase(), item.id]));
+
+const nextSortOrder = (items: { sort_order: number | null }[]) =>
+  items.reduce((max, item) => Math.max(max, item.sort_order || 0), 0) + 1;
+
+export interface ImportResult {
+  imported: number;
+  failed: { name: string; rows: number[]; message: string }[];
+}
+
+// Saves a checked plan. Missing categories, sizes and colors are added first; each product is
+// then saved on its own, in one transaction, so one that fails is left as it was and doesn't stop the rest.
+export const runProductImport = async (
+  plan: ImportPlan,
+  catalogue: Catalogue,
+  { includeCost, fileName }: { includeCost: boolean; fileName: string },
+  onProgress?: (done: number) => void
+): Promise<ImportResult> => {
+  const categoryIds = idsByName(catalogue.categories);
+  const sizeIds = idsByName(catalogue.sizes);
+  const colorIds = idsByName(catalogue.colors);
+
+  if (plan.newCategories.length > 0) {
+    const { data, error } = await supabase
+      .from("categories")
+      .insert(plan.newCategories.map((name) => ({ name })))
+      .select();
+    if (error) throw error;
+    data.forEach((category) => categoryIds.set(category.name.trim().toLowerCase(), category.id));
+  }
+
+  if (plan.newSizes.length > 0) {
+    const sortOrder = nextSortOrder(catalogue.sizes);
+    const { data, error } = await supabase
+      .from("sizes")
+      .insert(plan.newSizes.map((name, index) => ({ name, sort_order: sortOrder + index })))
+      .select();
+    if (error) throw error;
+    data.forEach((size) => sizeIds.set(size.name.trim().toLowerCase(), size.id));
+  }
+
+  if (plan.newColors.length > 0) {
+    const sortOrder = nextSortOrder(catalogue.colors);
+    const { data, error } = await supabase
+      .from("colors")
+      .insert(plan.newColors.map((name, index) => ({ name, sort_order: sortOrder + index })))
+      .select();
+    if (error) throw error;
+    data.forEach((color) => colorIds.set(color.name.trim().toLowerCase(), color.id));
+  }
+
+  const idOf = (ids: Map<string, string>, name: string | null) => (name ? ids.get(name.toLowerCase()) || null : null);
+  const result: ImportResult = { imported: 0, failed: [] };
+
+  for (const product of plan.products) {
+    try {
+      const { existing } = product;
+      const variants = product.variants.map((variant) => ({
+        size_id: idOf(sizeIds, variant.size),
+        color_id: idOf(colorIds, variant.color),
+        stock: variant.stock,
+      }));
+      const productSizeIds = Array.from(new Set(variants.map((v) => v.size_id).filter(Boolean))) as string[];
+      const productColorIds = Array.from(new Set(variants.map((v) => v.color_id).filter(Boolean))) as string[];
+      const replacesVariants = !existing || plan.replacesVariants;
+
+      const productData: TablesUpdate<"products"> = {
+        name: product.name,
+        ...(product.sku !== undefined && { sku: product.sku }),
+        ...(product.description !== undefined && { description: product.description }),
+        ...(product.category !== undefined && { category_id: idOf(categoryIds, product.category) }),
+        ...(product.hsnCode !== undefined && { hsn_code: product.hsnCode }),
+        ...(product.price !== undefined && { price_inr: product.price }),
+        ...(includeCost && product.cost !== undefined && { cost_inr: product.cost }),
+        ...(product.imageUrl !== undefined && { image_url: product.imageUrl }),
+        ...(replacesVariants && {
+          size_ids: productSizeIds.length > 0 ? productSizeIds : null,
+          color_ids: productColorIds.length > 0 ? productColorIds : null,
+        }),
+      };
+
+      const sizePrices = plan.replacesSizePrices
+        ? Object.entries(product.sizePrices).map(([size, price]) => ({ size_id: idOf(sizeIds, size)!, price_inr: price }))
+        : undefined;
+
+      // Stock goes through the ledger like a change made on the product form
+      let stock:
+        | { quantity: number; variants: { size_id: string | null; color_id: string | null; quantity: number }[]; expected_quantity?: number }
+        | undefined;
+      if (replacesVariants) {
+        const existingVariants = existing
+          ? catalogue.productInventory.filter((row) => row.product_id === existing.id)
+          : [];
+        const currentStock = (sizeId: string | null, colorId: string | null) =>
+          existingVariants.find((row) => row.size_id === sizeId && row.color_id === colorId)?.quantity ?? 0;
+        const tracksVariants = productSizeIds.length > 0 || productColorIds.length > 0;
+        const variantStock = tracksVariants
+          ? variants.map((v) => ({
+              size_id: v.size_id,
+              color_id: v.color_id,
+              quantity: v.stock ?? currentStock(v.size_id, v.color_id),
+            }))
+          : [];
+        const sameVariants =
+          existingVariants.length === variantStock.length &&
+          variantStock.every((v) => existingVariants.some((row) => row.size_id === v.size_id && row.color_id === v.color_id));
+
+        // With no stock in the file, stock not yet split by variant stays on the product, as on the product form
+        const keepsStock = existing && variants.every((v) => v.stock === null) && (existingVariants.length === 0 || sameVariants);
+        if (!keepsStock) {
+          stock = {
+            quantity: tracksVariants
+              ? variantStock.reduce((sum, v) => sum + v.quantity, 0)
+              : variants[0].stock ?? existing?.quantity_in_stock ?? 0,
+            variants: variantStock,
+            // Stock the file doesn't give is kept at what was loaded, so a sale since then fails the product
+            ...(existing && { expected_quantity: existing.quantity_in_stock }),
+          };
+        }
+      }
+
+      const { error } = await supabase.rpc("import_product", {
+        p_product: productData,
+        p_product_id: existing?.id,
+        p_size_prices: sizePrices,
+        p_stock: stock,
+        p_notes: `Imported from ${fileName}`,
+      });
+      if (error) throw error;
+
+      result.imported++;
+    } catch (error) {
+      console.error("Product import error:", error);
+      result.failed.push({
+        name: product.name,
+        rows: product.rows,
+        message: error instanceof Error ? error.message : "Could not be saved",
+      });
+    }
+    onProgress?.(result.imported + result.failed.length);
+  }
+
+  return result;
+};
+
+// The whole catalogue in the import format, with a header row
+export const catalogueRows = (catalogue: Catalogue, includeCost: boolean) => {
+  const fields = importFieldsFor(includeCost);
+  const nameOf = (items: { id: string; name: string }[], id: string | null) =>
+    items.find((item) => item.id === id)?.name || "";
+  const sortOrderOf = (items: { id: string; sort_order: number | null }[], id: string | null) =>
+    items.find((item) => item.id === id)?.sort_order ?? 0;
+
+  const rows: (string | number)[][] = [fields.map((field) => productImportFieldLabels[field])];
+
+  [...catalogue.products]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach((product) => {
+      const variants = catalogue.productInventory
+        .filter((row) => row.product_id === product.id)
+        .sort(
+          (a, b) =>
+            sortOrderOf(catalogue.sizes, a.size_id) - sortOrderOf(catalogue.sizes, b.size_id) ||
+            sortOrderOf(catalogue.colors, a.color_id) - sortOrderOf(catalogue.colors, b.color_id)
+        );
+      const lines = variants.length > 0
+        ? variants
+        : [{ size_id: null, color_id: null, quantity: product.quantity_in_stock }];
+
+      lines.forEach((line) => {
+        const values: Record<ProductImportField, string | number> = {
+          name: product.name,
+          sku: product.sku || "",
+          description: product.description || "",
+          category: nameOf(catalogue.categories, product.category_id),
+          hsn_code: product.hsn_code || "",
+          price: product.price_inr,
+          cost: product.cost_inr ?? "",
+          size: nameOf(catalogue.sizes, line.size_id),
+          size_price:
+            catalogue.productSizePrices.find((p) => p.product_id === product.id && p.size_id === line.size_id)
+              ?.price_inr ?? "",
+          color: nameOf(catalogue.colors, line.color_id),
+          stock: line.quantity,
+          image_url: product.image_url || "",
+        };
+        rows.push(fields.map((field) => values[field]));
+      });
+    });
+
+  return rows;
+};
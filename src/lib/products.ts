@@ -0,0 +1,22 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Cost prices can't be read from the products table, so selecting "*" fails: products are
+// selected with these columns, and owners and admins get the costs from product_costs().
+
+export const productColumns =
+  "id, name, sku, barcode, description, category_id, hsn_code, price_inr, quantity_in_stock, image_url, secondary_image_url, size_ids, color_ids, created_at, updated_at";
+
+export type ProductCost = Pick<Tables<"products">, "cost_inr" | "average_cost">;
+
+// Costs are only filled in for owners and admins
+export type Product = Omit<Tables<"products">, keyof ProductCost> & Partial<ProductCost>;
+
+export const fetchProductCosts = async () => {
+  const { data, error } = await supabase.rpc("product_costs");
+  if (error) throw error;
+
+  return new Map<string, ProductCost>(
+    data.map((row) => [row.product_id, { cost_inr: row.cost_inr, average_cost: row.average_cost }])
+  );
+};
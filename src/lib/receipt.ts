@@ -0,0 +1,211 @@
+import jsPDF from "jspdf";
+import { format } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { buildInvoicePDF, loadImage } from "@/lib/invoice-pdf";
+import { gstStateLabel, summariseGstByRate } from "@/lib/tax";
+import { variantLabel } from "@/lib/inventory";
+import { invoiceUpiQRCode } from "@/lib/upi";
+
+type StoreSettings = Tables<"store_settings"> | null | undefined;
+
+// How an invoice is printed (store_settings.print_format holds the store's default)
+export type PrintFormat = "a4" | "thermal_58" | "thermal_80";
+export type ReceiptWidth = Exclude<PrintFormat, "a4">;
+
+export const printFormatLabels: Record<PrintFormat, string> = {
+  a4: "A4 invoice",
+  thermal_58: "58 mm receipt",
+  thermal_80: "80 mm receipt",
+};
+
+export const isReceiptFormat = (printFormat: string | null | undefined): printFormat is ReceiptWidth =>
+  printFormat === "thermal_58" || printFormat === "thermal_80";
+
+// Paper and printable width in mm, characters per line in the printer's standard font and
+// dots per line for images
+export const receiptPaper: Record<ReceiptWidth, { paperWidth: number; printWidth: number; columns: number; dots: number }> = {
+  thermal_58: { paperWidth: 58, printWidth: 48, columns: 32, dots: 384 },
+  thermal_80: { paperWidth: 80, printWidth: 72, columns: 48, dots: 576 },
+};
+
+// Receipt printers print at the store's default width, or 80 mm when invoices default to A4
+export const receiptWidthFor = (storeSettings: StoreSettings): ReceiptWidth =>
+  isReceiptFormat(storeSettings?.print_format) ? storeSettings.print_format : "thermal_80";
+
+// A receipt is a list of monospaced lines, so the PDF and the ESC/POS output lay out the same.
+// Large text is printed at double width and height.
+export type ReceiptBlock =
+  | { kind: "text"; text: string; align?: "left" | "center" | "right"; bold?: boolean; large?: boolean }
+  | { kind: "rule" }
+  | { kind: "image"; url: string; caption: string };
+
+const money = (value: number | null | undefined) => Number(value || 0).toFixed(2);
+
+// Word-wraps to the line width, breaking words that are longer than a line
+const wrap = (text: string, width: number) => {
+  const lines: string[] = [];
+  let line = "";
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    while (word.length > width) {
+      if (line) lines.push(line);
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+      line = "";
+    }
+    if (!line) line = word;
+    else if (line.length + 1 + word.length <= width) line += ` ${word}`;
+    else {
+      lines.push(line);
+      line = word;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Text on the left and an amount on the right of one line
+const spread = (left: string, right: string, width: number) =>
+  left.slice(0, Math.max(width - right.length - 1, 0)).padEnd(width - right.length) + right;
+
+export const buildReceiptBlocks = async (
+  invoice: Tables<"invoices">,
+  items: Tables<"invoice_items">[],
+  storeSettings: StoreSettings,
+  width: ReceiptWidth
+): Promise<ReceiptBlock[]> => {
+  const { columns } = receiptPaper[width];
+  const isTaxInvoice = !!invoice.place_of_supply;
+  const blocks: ReceiptBlock[] = [];
+  const centered = (text: string | null | undefined, bold = false) =>
+    wrap(text || "", columns).forEach((line) => blocks.push({ kind: "text", text: line, align: "center", bold }));
+  const row = (label: string, amount: string, bold = false) =>
+    blocks.push({ kind: "text", text: spread(label, amount, columns), bold });
+
+  wrap(storeSettings?.store_name || "Store", Math.floor(columns / 2)).forEach((line) =>
+    blocks.push({ kind: "text", text: line, align: "center", bold: true, large: true })
+  );
+  centered(storeSettings?.address);
+  centered([storeSettings?.phone, storeSettings?.email].filter(Boolean).join(" | "));
+  if (isTaxInvoice && invoice.store_gstin) centered(`GSTIN: ${invoice.store_gstin}`);
+
+  blocks.push({ kind: "rule" });
+  centered(isTaxInvoice ? "TAX INVOICE" : "INVOICE", true);
+  row(`#${invoice.invoice_number}`, format(new Date(invoice.created_at), "dd/MM/yy HH:mm"));
+  if (invoice.customer_name || invoice.customer_phone) {
+    wrap([invoice.customer_name, invoice.customer_phone].filter(Boolean).join(" "), columns).forEach((line) =>
+      blocks.push({ kind: "text", text: line })
+    );
+  }
+  if (isTaxInvoice) {
+    if (invoice.customer_gstin) blocks.push({ kind: "text", text: `GSTIN: ${invoice.customer_gstin}` });
+    wrap(`Place of supply: ${gstStateLabel(invoice.place_of_supply)}`, columns).forEach((line) =>
+      blocks.push({ kind: "text", text: line })
+    );
+  }
+
+  blocks.push({ kind: "rule" });
+  items.forEach((item) => {
+    const variant = variantLabel(item.size_name, item.color_name);
+    wrap(variant ? `${item.product_name} (${variant})` : item.product_name, columns).forEach((line) =>
+      blocks.push({ kind: "text", text: line })
+    );
+    const tax = isTaxInvoice
+      ? [item.hsn_code && `HSN ${item.hsn_code}`, item.gst_rate !== null && `${item.gst_rate}%`].filter(Boolean).join(" ")
+      : "";
+    row(`  ${item.quantity} x ${money(item.unit_price)}${tax ? ` ${tax}` : ""}`, money(item.total_price));
+  });
+
+  blocks.push({ kind: "rule" });
+  row("Subtotal", money(invoice.subtotal));
+  if (invoice.discount_amount > 0) row("Discount", `-${money(invoice.discount_amount)}`);
+  if (isTaxInvoice) {
+    row("Taxable value", money(invoice.subtotal - invoice.discount_amount));
+    summariseGstByRate(items).forEach((summary) => {
+      if (summary.igst > 0) {
+        row(`IGST @ ${summary.gstRate}%`, money(summary.igst));
+      } else {
+        row(`CGST @ ${summary.gstRate / 2}%`, money(summary.cgst));
+        row(`SGST @ ${summary.gstRate / 2}%`, money(summary.sgst));
+      }
+    });
+  } else if (invoice.tax_amount > 0) {
+    row(`Tax (${invoice.tax_percentage}%)`, money(invoice.tax_amount));
+  }
+  blocks.push({ kind: "text", text: spread("TOTAL", money(invoice.grand_total), Math.floor(columns / 2)), bold: true, large: true });
+
+  if (invoice.payment_status && invoice.payment_status !== "paid") {
+    row("Paid", money(invoice.amount_paid));
+    row("Balance due", money(invoice.grand_total - invoice.amount_paid), true);
+  }
+
+  const upi = await invoiceUpiQRCode(invoice, storeSettings);
+  if (upi) {
+    blocks.push({ kind: "rule" });
+    blocks.push({ kind: "image", url: upi.image, caption: `Scan to pay ${money(upi.amount)} by UPI` });
+  }
+
+  const qrCodes = [
+    storeSettings?.whatsapp_qr_url && { url: storeSettings.whatsapp_qr_url, caption: storeSettings.whatsapp_tagline || "Join our WhatsApp" },
+    storeSettings?.instagram_qr_url && { url: storeSettings.instagram_qr_url, caption: storeSettings.instagram_tagline || "Follow us on Instagram" },
+  ].filter(Boolean) as { url: string; caption: string }[];
+  if (qrCodes.length || storeSettings?.receipt_footer) blocks.push({ kind: "rule" });
+  qrCodes.forEach((qr) => blocks.push({ kind: "image", ...qr }));
+  storeSettings?.receipt_footer?.split("\n").forEach((line) => centered(line));
+
+  return blocks;
+};
+
+// Courier at the size that fits the printer's characters per line
+export const buildReceiptPDF = async (blocks: ReceiptBlock[], width: ReceiptWidth) => {
+  const { paperWidth, printWidth, columns } = receiptPaper[width];
+  const margin = (paperWidth - printWidth) / 2;
+  const fontSize = printWidth / columns / 0.6 / (25.4 / 72);
+  const lineHeight = fontSize * (25.4 / 72) * 1.25;
+  const imageSize = Math.min(printWidth / 2, 30);
+
+  const blockHeight = (block: ReceiptBlock) =>
+    block.kind === "image" ? imageSize + lineHeight * 1.5 : block.kind === "text" && block.large ? lineHeight * 2 : lineHeight;
+  const pageHeight = Math.max(blocks.reduce((sum, block) => sum + blockHeight(block), margin * 2), paperWidth + 1);
+
+  const pdf = new jsPDF({ unit: "mm", format: [paperWidth, pageHeight] });
+  let top = margin;
+
+  for (const block of blocks) {
+    const height = blockHeight(block);
+
+    if (block.kind === "rule") {
+      pdf.setLineDashPattern([0.8, 0.6], 0);
+      pdf.line(margin, top + height / 2, paperWidth - margin, top + height / 2);
+    } else if (block.kind === "image") {
+      try {
+        const img = await loadImage(block.url);
+        pdf.addImage(img, "PNG", (paperWidth - imageSize) / 2, top + lineHeight / 4, imageSize, imageSize);
+      } catch (error) {
+        console.error("Receipt image load failed:", error);
+      }
+      pdf.setFont("courier", "normal");
+      pdf.setFontSize(fontSize);
+      pdf.text(block.caption, paperWidth / 2, top + imageSize + lineHeight, { align: "center" });
+    } else {
+      pdf.setFont("courier", block.bold ? "bold" : "normal");
+      pdf.setFontSize(block.large ? fontSize * 2 : fontSize);
+      const x = block.align === "center" ? paperWidth / 2 : block.align === "right" ? paperWidth - margin : margin;
+      pdf.text(block.text, x, top + height * 0.75, { align: block.align || "left" });
+    }
+
+    top += height;
+  }
+
+  return pdf;
+};
+
+// The invoice as a PDF in the format picked for this print, or the store's default
+export const buildInvoiceDocument = async (
+  invoice: Tables<"invoices">,
+  items: Tables<"invoice_items">[],
+  storeSettings: StoreSettings,
+  printFormat: PrintFormat = (storeSettings?.print_format as PrintFormat) || "a4"
+) =>
+  isReceiptFormat(printFormat)
+    ? buildReceiptPDF(await buildReceiptBlocks(invoice, items, storeSettings, printFormat), printFormat)
+    : buildInvoicePDF(invoice, items, storeSettings);
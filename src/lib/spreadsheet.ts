@@ -0,0 +1,75 @@
+import Papa from "papaparse";
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+export const spreadsheetFormatLabels: Record<SpreadsheetFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (.xlsx)",
+};
+
+const cellText = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === "object") {
+    // Excel cells can hold formulas, links and rich text rather than plain values
+    const cell = value as { result?: unknown; text?: unknown; richText?: { text: string }[] };
+    if ("result" in cell) return cellText(cell.result);
+    if (cell.richText) return cell.richText.map((part) => part.text).join("");
+    if ("text" in cell) return cellText(cell.text);
+    return "";
+  }
+  return String(value).trim();
+};
+
+// The file's rows as text, header row first. Excel files are read from their first sheet;
+// exceljs is large, so it is only loaded when one is opened.
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  let rows: string[][];
+
+  if (/\.xlsx$/i.test(file.name)) {
+    const { Workbook } = await import("exceljs");
+    const workbook = new Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+    const sheet = workbook.worksheets[0];
+    if (!sheet) throw new Error("The workbook has no sheets");
+
+    rows = [];
+    sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+      const values = Array.isArray(row.values) ? row.values.slice(1) : [];
+      rows[rowNumber - 1] = values.map(cellText);
+    });
+    rows = Array.from(rows, (row) => row || []);
+  } else {
+    const parsed = Papa.parse<string[]>(await file.text(), { skipEmptyLines: "greedy" });
+    if (parsed.errors.length > 0 && parsed.data.length === 0) throw new Error(parsed.errors[0].message);
+    rows = parsed.data.map((row) => row.map(cellText));
+  }
+
+  return rows.filter((row) => row.some((cell) => cell !== ""));
+};
+
+export const downloadSpreadsheet = async (rows: (string | number)[][], fileName: string, format: SpreadsheetFormat) => {
+  let blob: Blob;
+
+  if (format === "xlsx") {
+    const { Workbook } = await import("exceljs");
+    const workbook = new Workbook();
+    const sheet = workbook.addWorksheet("Sheet1");
+    sheet.addRows(rows);
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: "frozen", ySplit: 1 }];
+    blob = new Blob([await workbook.xlsx.writeBuffer()], {
+      type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    });
+  } else {
+    // The byte order mark makes Excel read the file as UTF-8, so ₹ and non-English names survive
+    blob = new Blob(["\uFEFF", Papa.unparse(rows)], { type: "text/csv;charset=utf-8" });
+  }
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileName}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,128 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+// How long stock has sat without selling. A product that has sold is aged from its last sale;
+// one that never has, from when its oldest stock on hand came in, or failing that from when it
+// was added.
+
+export type AgeingBucket = "under_60" | "60_89" | "90_179" | "180_plus";
+
+export const ageingBucketLabels: Record<AgeingBucket, string> = {
+  under_60: "Under 60 days",
+  "60_89": "60-89 days",
+  "90_179": "90-179 days",
+  "180_plus": "180+ days",
+};
+
+// The longer stock sits, the deeper the suggested markdown
+export const ageingBucketMarkdowns: Record<AgeingBucket, number> = {
+  under_60: 0,
+  "60_89": 10,
+  "90_179": 25,
+  "180_plus": 40,
+};
+
+const bucketFor = (days: number): AgeingBucket =>
+  days >= 180 ? "180_plus" : days >= 90 ? "90_179" : days >= 60 ? "60_89" : "under_60";
+
+export interface AgedProduct {
+  productId: string;
+  name: string;
+  sku: string | null;
+  category: string | null;
+  stock: number;
+  price: number;
+  unitCost: number;
+  stockValue: number;
+  lastReceivedAt: Date | null;
+  lastSoldAt: Date | null;
+  idleSince: Date;
+  daysIdle: number;
+  unitsSold90Days: number;
+  bucket: AgeingBucket;
+  markdownPercent: number;
+  // The price after the markdown, never below cost
+  markdownPrice: number;
+  markdownAtCost: boolean;
+}
+
+const dateOrNull = (value: string | null) => (value ? parseISO(value) : null);
+
+// Longest idle first
+export const fetchStockAgeing = async (today = new Date()): Promise<AgedProduct[]> => {
+  const { data, error } = await supabase.rpc("stock_ageing");
+  if (error) throw error;
+
+  return data.map((row) => {
+    const lastSoldAt = dateOrNull(row.last_sold_at);
+    const idleSince = lastSoldAt || dateOrNull(row.oldest_stock_at) || dateOrNull(row.created_at) || today;
+    const daysIdle = Math.max(differenceInCalendarDays(today, idleSince), 0);
+    const bucket = bucketFor(daysIdle);
+    const price = Number(row.price);
+    const unitCost = Number(row.unit_cost);
+    const markdownPercent = ageingBucketMarkdowns[bucket];
+    const discounted = Math.round(price * (1 - markdownPercent / 100) * 100) / 100;
+
+    return {
+      productId: row.product_id,
+      name: row.product_name,
+      sku: row.sku,
+      category: row.category_name,
+      stock: Number(row.stock),
+      price,
+      unitCost,
+      stockValue: Number(row.stock_value),
+      lastReceivedAt: dateOrNull(row.last_received_at),
+      lastSoldAt,
+      idleSince,
+      daysIdle,
+      unitsSold90Days: Number(row.units_sold_90_days),
+      bucket,
+      markdownPercent,
+      markdownPrice: markdownPercent ? Math.max(discounted, unitCost) : price,
+      markdownAtCost: markdownPercent > 0 && discounted < unitCost,
+    };
+  });
+};
+
+const exportDate = (date: Date | null) => (date ? format(date, "yyyy-MM-dd") : "");
+
+export const stockAgeingRows = (products: AgedProduct[]) => {
+  const rows: (string | number)[][] = [
+    [
+      "Product",
+      "SKU",
+      "Category",
+      "Stock",
+      "Stock Value at Cost",
+      "Last Sold",
+      "Last Received",
+      "Days Since Last Sale",
+      "Ageing",
+      "Units Sold (90 days)",
+      "Price",
+      "Suggested Markdown %",
+      "Suggested Price",
+    ],
+  ];
+
+  products.forEach((product) => {
+    rows.push([
+      product.name,
+      product.sku || "",
+      product.category || "",
+      product.stock,
+      product.stockValue,
+      exportDate(product.lastSoldAt),
+      exportDate(product.lastReceivedAt),
+      product.daysIdle,
+      ageingBucketLabels[product.bucket],
+      product.unitsSold90Days,
+      product.price,
+      product.markdownPercent,
+      product.markdownPrice,
+    ]);
+  });
+
+  return rows;
+};
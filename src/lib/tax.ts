@@ -0,0 +1,233 @@
+import type { Tables } from "@/integrations/supabase/types";
+import type { DiscountType, InvoiceItem } from "@/lib/invoice-items";
+
+// Invoice tax, shared by the create and edit dialogs and the invoice PDF.
+//
+// Stores that bill with GST (store_settings.gst_enabled) tax every line at the
+// garment slab for its value per piece after discount, and split the tax into
+// CGST + SGST within the store's state or IGST for other states. Other stores
+// keep one flat tax_percentage on the subtotal, as invoices always had.
+
+export type TaxSettings = Pick<
+  Tables<"store_settings">,
+  | "gst_enabled"
+  | "state_code"
+  | "tax_percentage"
+  | "gst_slab_threshold"
+  | "gst_rate_below_threshold"
+  | "gst_rate_above_threshold"
+>;
+
+export type TaxMode =
+  | { kind: "flat"; taxPercentage: number }
+  | {
+      kind: "gst";
+      storeStateCode: string | null;
+      placeOfSupply: string | null;
+      slabThreshold: number;
+      rateBelowThreshold: number;
+      rateAboveThreshold: number;
+    };
+
+export interface InvoiceTaxLine {
+  hsnCode: string | null;
+  gstRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  discountValue: number;
+  taxableValue: number;
+  taxAmount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  grandTotal: number;
+  isInterState: boolean;
+  // One per item, in the same order; empty for flat-rate invoices
+  lines: InvoiceTaxLine[];
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export const gstTaxMode = (settings: TaxSettings | null | undefined, placeOfSupply: string | null): TaxMode => ({
+  kind: "gst",
+  storeStateCode: settings?.state_code || null,
+  placeOfSupply: placeOfSupply || settings?.state_code || null,
+  slabThreshold: Number(settings?.gst_slab_threshold ?? 1000),
+  rateBelowThreshold: Number(settings?.gst_rate_below_threshold ?? 5),
+  rateAboveThreshold: Number(settings?.gst_rate_above_threshold ?? 12),
+});
+
+// New invoices follow the store's current setting
+export const taxModeForStore = (settings: TaxSettings | null | undefined, placeOfSupply: string | null = null): TaxMode =>
+  settings?.gst_enabled
+    ? gstTaxMode(settings, placeOfSupply)
+    : { kind: "flat", taxPercentage: Number(settings?.tax_percentage) || 0 };
+
+// Saved invoices keep the kind of tax they were issued with
+export const taxModeForInvoice = (
+  invoice: Pick<Tables<"invoices">, "place_of_supply" | "tax_percentage">,
+  settings: TaxSettings | null | undefined,
+  placeOfSupply: string | null = invoice.place_of_supply
+): TaxMode =>
+  invoice.place_of_supply
+    ? gstTaxMode(settings, placeOfSupply)
+    : { kind: "flat", taxPercentage: Number(invoice.tax_percentage) || 0 };
+
+export const gstSlabRate = (valuePerPiece: number, mode: Extract<TaxMode, { kind: "gst" }>) =>
+  valuePerPiece <= mode.slabThreshold ? mode.rateBelowThreshold : mode.rateAboveThreshold;
+
+export const calculateInvoiceTotals = (
+  items: InvoiceItem[],
+  discountAmount: number | "",
+  discountType: DiscountType,
+  mode: TaxMode
+): InvoiceTotals => {
+  const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+  const discountValue = discountType === "percentage"
+    ? (subtotal * (Number(discountAmount) || 0)) / 100
+    : (Number(discountAmount) || 0);
+
+  if (mode.kind === "flat") {
+    const taxAmount = subtotal * (mode.taxPercentage / 100);
+    return {
+      subtotal,
+      discountValue,
+      taxableValue: subtotal,
+      taxAmount,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+      grandTotal: subtotal + taxAmount - discountValue,
+      isInterState: false,
+      lines: [],
+    };
+  }
+
+  // The invoice discount reduces the taxable value of every line in proportion
+  const keptShare = subtotal > 0 ? Math.max(subtotal - discountValue, 0) / subtotal : 0;
+  const isInterState = !!mode.placeOfSupply && !!mode.storeStateCode && mode.placeOfSupply !== mode.storeStateCode;
+
+  const lines = items.map((item): InvoiceTaxLine => {
+    const taxableValue = roundMoney(item.totalPrice * keptShare);
+    const gstRate = gstSlabRate(item.quantity > 0 ? taxableValue / item.quantity : 0, mode);
+    const tax = (taxableValue * gstRate) / 100;
+    const halfTax = roundMoney(tax / 2);
+
+    return {
+      hsnCode: item.hsnCode || null,
+      gstRate,
+      taxableValue,
+      cgst: isInterState ? 0 : halfTax,
+      sgst: isInterState ? 0 : halfTax,
+      igst: isInterState ? roundMoney(tax) : 0,
+    };
+  });
+
+  const sum = (field: keyof Omit<InvoiceTaxLine, "hsnCode">) =>
+    roundMoney(lines.reduce((total, line) => total + line[field], 0));
+  const taxableValue = sum("taxableValue");
+  const cgst = sum("cgst");
+  const sgst = sum("sgst");
+  const igst = sum("igst");
+  const taxAmount = roundMoney(cgst + sgst + igst);
+
+  return {
+    subtotal,
+    discountValue: roundMoney(subtotal - taxableValue),
+    taxableValue,
+    taxAmount,
+    cgst,
+    sgst,
+    igst,
+    grandTotal: roundMoney(taxableValue + taxAmount),
+    isInterState,
+    lines,
+  };
+};
+
+export interface GstRateSummary {
+  gstRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// Tax per GST rate, as printed under the totals of a tax invoice
+export const summariseGstByRate = (
+  lines: Pick<Tables<"invoice_items">, "gst_rate" | "taxable_value" | "cgst_amount" | "sgst_amount" | "igst_amount">[]
+): GstRateSummary[] => {
+  const byRate = new Map<number, GstRateSummary>();
+
+  lines.forEach((line) => {
+    if (line.gst_rate === null) return;
+    const gstRate = Number(line.gst_rate);
+    const summary = byRate.get(gstRate) || { gstRate, taxableValue: 0, cgst: 0, sgst: 0, igst: 0 };
+    summary.taxableValue = roundMoney(summary.taxableValue + Number(line.taxable_value));
+    summary.cgst = roundMoney(summary.cgst + Number(line.cgst_amount));
+    summary.sgst = roundMoney(summary.sgst + Number(line.sgst_amount));
+    summary.igst = roundMoney(summary.igst + Number(line.igst_amount));
+    byRate.set(gstRate, summary);
+  });
+
+  return Array.from(byRate.values()).sort((a, b) => a.gstRate - b.gstRate);
+};
+
+// 15 characters: state code, PAN, entity number, "Z" and a check character
+const gstinPattern = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const isValidGstin = (gstin: string) => gstinPattern.test(gstin.trim().toUpperCase());
+
+export const gstinStateCode = (gstin: string | null | undefined) =>
+  gstin && isValidGstin(gstin) ? gstin.trim().slice(0, 2) : null;
+
+// GST state and union territory codes, used for the place of supply
+export const gstStates = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+];
+
+export const gstStateLabel = (code: string | null | undefined) => {
+  const state = gstStates.find((s) => s.code === code);
+  return state ? `${state.code} - ${state.name}` : code || "";
+};
@@ -0,0 +1,36 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { AppRole } from "@/lib/permissions";
+
+export interface TeamMember {
+  user_id: string;
+  email: string | null;
+  role: AppRole;
+  added_at: string;
+  last_sign_in_at: string | null;
+  invited_at: string | null;
+  active: boolean;
+}
+
+export type TeamAction =
+  | { action: "list" }
+  | { action: "invite"; email: string; role: AppRole }
+  | { action: "set_role"; userId: string; role: AppRole }
+  | { action: "deactivate"; userId: string }
+  | { action: "reactivate"; userId: string };
+
+// Team changes need the service role, so they go through the manage-team edge function
+export const manageTeam = async <T>(body: TeamAction): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke("manage-team", { body });
+
+  if (error) {
+    // The function explains refusals in the response body
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      if (details?.error) throw new Error(details.error);
+    }
+    throw error;
+  }
+
+  return data as T;
+};
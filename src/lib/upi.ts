@@ -0,0 +1,38 @@
+import QRCode from "qrcode";
+import type { Tables } from "@/integrations/supabase/types";
+
+type StoreSettings = Tables<"store_settings"> | null | undefined;
+
+// A UPI ID is a handle and the payment provider's name for it, e.g. mystore@okicici
+export const isValidUpiId = (vpa: string) => /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{1,64}$/.test(vpa);
+
+// Any UPI app opens a upi://pay link with the payee, amount and note filled in. Apps differ in
+// how they decode the link, so spaces are sent as %20 rather than + and the UPI ID is left as it is.
+export const upiPaymentLink = (storeSettings: StoreSettings, amount: number, note: string) => {
+  const vpa = storeSettings?.upi_vpa?.trim();
+  if (!vpa) return null;
+
+  const params: [string, string][] = [
+    ["pn", storeSettings.upi_payee_name || storeSettings.store_name || ""],
+    ["am", amount.toFixed(2)],
+    ["cu", "INR"],
+    ["tn", note],
+  ];
+  return `upi://pay?pa=${vpa}${params
+    .filter(([, value]) => value)
+    .map(([key, value]) => `&${key}=${encodeURIComponent(value)}`)
+    .join("")}`;
+};
+
+// The link as a PNG data URL, or null when the store has no UPI ID or nothing is left to pay
+export const upiQRCode = async (storeSettings: StoreSettings, amount: number, note: string) => {
+  const link = amount > 0 ? upiPaymentLink(storeSettings, amount, note) : null;
+  return link ? QRCode.toDataURL(link, { margin: 1, width: 320 }) : null;
+};
+
+// Invoices ask for what is still owed on them, so a paid invoice carries no QR code
+export const invoiceUpiQRCode = async (invoice: Tables<"invoices">, storeSettings: StoreSettings) => {
+  const amount = Math.round((invoice.grand_total - invoice.amount_paid) * 100) / 100;
+  const image = await upiQRCode(storeSettings, amount, `Invoice ${invoice.invoice_number}`);
+  return image ? { image, amount } : null;
+};
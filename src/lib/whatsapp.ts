@@ -0,0 +1,113 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { createInvoiceShareLink } from "@/lib/invoice-storage";
+
+type StoreSettings = Tables<"store_settings"> | null | undefined;
+
+// Placeholders a message template can use, filled in for each invoice
+export type MessagePlaceholder = "customer" | "store" | "invoice_number" | "total" | "balance" | "due_date" | "link";
+
+export const messagePlaceholderLabels: Record<MessagePlaceholder, string> = {
+  customer: "Customer name",
+  store: "Store name",
+  invoice_number: "Invoice number",
+  total: "Invoice total",
+  balance: "Balance due",
+  due_date: "Expected payment date",
+  link: "Link to the invoice PDF",
+};
+
+// Used while store_settings has no message of its own
+export const defaultInvoiceMessage =
+  "Hi {customer}, thank you for shopping at {store}! Here is your invoice {invoice_number} for ₹{total}: {link}";
+export const defaultReminderMessage =
+  "Hi {customer}, this is a reminder from {store} that ₹{balance} on invoice {invoice_number} was due on {due_date}. You can see the invoice here: {link}";
+
+// Links sent on WhatsApp are read later than ones copied at the counter, so they last longer
+const linkExpiry = 30 * 24 * 60 * 60;
+
+// Placeholders without a value are left out; unknown ones are kept so a typo is easy to spot
+export const fillMessage = (template: string, values: Partial<Record<MessagePlaceholder, string>>) =>
+  template
+    .replace(/\{(\w+)\}/g, (match, key: string) =>
+      key in messagePlaceholderLabels ? values[key as MessagePlaceholder] || "" : match
+    )
+    .replace(/ {2,}/g, " ")
+    .replace(/ ,/g, ",")
+    .trim();
+
+// wa.me wants the number with its country code and no symbols. Ten digit numbers are Indian
+// mobile numbers, sometimes written with a leading 0.
+export const whatsappNumber = (phone: string | null | undefined) => {
+  const digits = (phone || "").replace(/\D/g, "");
+  if (digits.length === 11 && digits.startsWith("0")) return `91${digits.slice(1)}`;
+  if (digits.length === 10) return `91${digits}`;
+  return digits.length > 10 ? digits : null;
+};
+
+// Without a number WhatsApp asks who to send the message to
+export const whatsappLink = (phone: string | null | undefined, message: string) =>
+  `https://wa.me/${whatsappNumber(phone) || ""}?text=${encodeURIComponent(message)}`;
+
+// The tab is opened before the message is ready: browsers block tabs opened after waiting on the network
+const openWhatsApp = async (phone: string | null | undefined, buildMessage: () => Promise<string>) => {
+  const tab = window.open("", "_blank");
+  try {
+    const url = whatsappLink(phone, await buildMessage());
+    if (tab) tab.location.href = url;
+    else window.open(url, "_blank");
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+};
+
+const money = (value: number | null | undefined) => Number(value || 0).toFixed(2);
+
+export const sendInvoiceOnWhatsApp = (invoice: Tables<"invoices">, storeSettings: StoreSettings) =>
+  openWhatsApp(invoice.customer_phone, async () => {
+    const template = storeSettings?.whatsapp_invoice_message || defaultInvoiceMessage;
+    const link = template.includes("{link}") ? await createInvoiceShareLink(invoice, linkExpiry) : "";
+    return fillMessage(template, {
+      customer: invoice.customer_name || "",
+      store: storeSettings?.store_name || "",
+      invoice_number: invoice.invoice_number,
+      total: money(invoice.grand_total),
+      balance: money(invoice.grand_total - invoice.amount_paid),
+      due_date: invoice.expected_payment_date ? format(new Date(invoice.expected_payment_date), "PP") : "",
+      link,
+    });
+  });
+
+// Sends a reminder for an unpaid invoice and notes when it went out
+export const sendPaymentReminder = async (receivable: Tables<"receivables">, storeSettings: StoreSettings) => {
+  await openWhatsApp(receivable.customer_phone, async () => {
+    const template = storeSettings?.whatsapp_reminder_message || defaultReminderMessage;
+    let link = "";
+    if (template.includes("{link}")) {
+      const { data: invoice, error } = await supabase
+        .from("invoices")
+        .select("*")
+        .eq("id", receivable.invoice_id)
+        .single();
+      if (error) throw error;
+      link = await createInvoiceShareLink(invoice, linkExpiry);
+    }
+    return fillMessage(template, {
+      customer: receivable.customer_name || "",
+      store: storeSettings?.store_name || "",
+      invoice_number: receivable.invoice_number || "",
+      total: money(receivable.grand_total),
+      balance: money(receivable.balance_due),
+      due_date: receivable.expected_payment_date ? format(new Date(receivable.expected_payment_date), "PP") : "",
+      link,
+    });
+  });
+
+  const { error } = await supabase
+    .from("invoices")
+    .update({ reminder_sent_at: new Date().toISOString() })
+    .eq("id", receivable.invoice_id);
+  if (error) throw error;
+};
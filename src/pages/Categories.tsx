@@ -9,11 +9,13 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Plus, Pencil, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Categories() {
   const [open, setOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const { toast } = useToast();
+  const { permissions } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: categories, isLoading } = useQuery({
@@ -32,6 +34,7 @@ export default function Categories() {
     const categoryData = {
       name: formData.get("name") as string,
       description: (formData.get("description") as string) || null,
+      hsn_code: ((formData.get("hsn_code") as string) || "").trim() || null,
     };
 
     try {
@@ -68,9 +71,11 @@ export default function Categories() {
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold">Categories</h1>
         <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) setEditingId(null); }}>
-          <DialogTrigger asChild>
-            <Button><Plus className="mr-2 h-4 w-4" />Add Category</Button>
-          </DialogTrigger>
+          {permissions.manageProducts && (
+            <DialogTrigger asChild>
+              <Button><Plus className="mr-2 h-4 w-4" />Add Category</Button>
+            </DialogTrigger>
+          )}
           <DialogContent>
             <DialogHeader>
               <DialogTitle>{editingId ? "Edit Category" : "Add New Category"}</DialogTitle>
@@ -80,6 +85,10 @@ export default function Categories() {
                 <Label htmlFor="name">Category Name *</Label>
                 <Input id="name" name="name" defaultValue={editingId ? categories?.find(c => c.id === editingId)?.name : ""} required />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="hsn_code">HSN Code</Label>
+                <Input id="hsn_code" name="hsn_code" defaultValue={editingId ? categories?.find(c => c.id === editingId)?.hsn_code || "" : ""} placeholder="Printed on GST invoices, e.g. 6109" />
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="description">Description</Label>
                 <Textarea id="description" name="description" defaultValue={editingId ? categories?.find(c => c.id === editingId)?.description || "" : ""} />
@@ -101,6 +110,7 @@ export default function Categories() {
             <TableHeader>
               <TableRow>
                 <TableHead>Name</TableHead>
+                <TableHead>HSN Code</TableHead>
                 <TableHead>Description</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
@@ -109,14 +119,19 @@ export default function Categories() {
               {categories?.map((category) => (
                 <TableRow key={category.id}>
                   <TableCell className="font-medium">{category.name}</TableCell>
+                  <TableCell>{category.hsn_code || "-"}</TableCell>
                   <TableCell>{category.description || "-"}</TableCell>
                   <TableCell className="text-right space-x-2">
-                    <Button variant="ghost" size="icon" onClick={() => { setEditingId(category.id); setOpen(true); }}>
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                    <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(category.id)}>
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    {permissions.manageProducts && (
+                      <>
+                        <Button variant="ghost" size="icon" onClick={() => { setEditingId(category.id); setOpen(true); }}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(category.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
                   </TableCell>
                 </TableRow>
               ))}
@@ -8,6 +8,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Pencil, Trash2, Plus } from "lucide-react";
 import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Colors() {
   const [open, setOpen] = useState(false);
@@ -15,6 +16,7 @@ export default function Colors() {
   const [colorName, setColorName] = useState("");
   const [hexCode, setHexCode] = useState("#000000");
   const [sortOrder, setSortOrder] = useState(0);
+  const { permissions } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: colors, isLoading } = useQuery({
@@ -91,12 +93,14 @@ export default function Colors() {
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold">Colors</h1>
         <Dialog open={open} onOpenChange={setOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => resetForm()}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Color
-            </Button>
-          </DialogTrigger>
+          {permissions.manageProducts && (
+            <DialogTrigger asChild>
+              <Button onClick={() => resetForm()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Color
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent>
             <DialogHeader>
               <DialogTitle>{editingId ? "Edit Color" : "Add New Color"}</DialogTitle>
@@ -178,16 +182,20 @@ export default function Colors() {
                   <TableCell className="font-mono text-sm">{color.hex_code}</TableCell>
                   <TableCell>{color.sort_order}</TableCell>
                   <TableCell className="text-right space-x-2">
-                    <Button variant="ghost" size="icon" onClick={() => editColor(color)}>
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => deleteMutation.mutate(color.id)}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
+                    {permissions.manageProducts && (
+                      <>
+                        <Button variant="ghost" size="icon" onClick={() => editColor(color)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteMutation.mutate(color.id)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </>
+                    )}
                   </TableCell>
                 </TableRow>
               ))}
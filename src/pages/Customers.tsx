@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Eye, Pencil, Plus, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { CustomerDialog } from "@/components/Customers/CustomerDialog";
+import { CustomerDetailDialog } from "@/components/Customers/CustomerDetailDialog";
+
+export default function Customers() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Tables<"customer_summaries"> | null>(null);
+  const [viewingCustomer, setViewingCustomer] = useState<Tables<"customer_summaries"> | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data: customers, isLoading } = useQuery({
+    queryKey: ["customers"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("customer_summaries").select("*").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const deleteCustomer = useMutation({
+    mutationFn: async (id: string) => {
+      // Invoices keep their customer name and phone; only the link is cleared
+      const { error } = await supabase.from("customers").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Customer deleted");
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+    },
+    onError: (error) => {
+      console.error("Delete customer error:", error);
+      toast.error("Failed to delete customer");
+    },
+  });
+
+  const openDialog = (customer: Tables<"customer_summaries"> | null) => {
+    setEditingCustomer(customer);
+    setDialogOpen(true);
+  };
+
+  const query = searchQuery.toLowerCase();
+  const filteredCustomers = customers?.filter(
+    (customer) =>
+      !searchQuery ||
+      customer.name?.toLowerCase().includes(query) ||
+      customer.phone?.includes(searchQuery.replace(/\D/g, "") || searchQuery)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Customers</h1>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by name or phone..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9 w-[250px]"
+            />
+          </div>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Customer
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div>Loading...</div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead className="text-right">Visits</TableHead>
+                <TableHead className="text-right">Total Spend</TableHead>
+                <TableHead>Last Purchase</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredCustomers?.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    {searchQuery ? "No customers match your search" : "No customers yet"}
+                  </TableCell>
+                </TableRow>
+              )}
+              {filteredCustomers?.map((customer) => (
+                <TableRow key={customer.id}>
+                  <TableCell className="font-medium">{customer.name}</TableCell>
+                  <TableCell>{customer.phone || "-"}</TableCell>
+                  <TableCell className="text-right">{customer.visits}</TableCell>
+                  <TableCell className="text-right">₹{Number(customer.total_spend).toFixed(2)}</TableCell>
+                  <TableCell>
+                    {customer.last_purchase_at ? format(new Date(customer.last_purchase_at), "PP") : "-"}
+                  </TableCell>
+                  <TableCell className={`text-right ${Number(customer.outstanding_amount) > 0 ? "text-yellow-700 font-medium" : ""}`}>
+                    ₹{Number(customer.outstanding_amount).toFixed(2)}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="ghost" size="icon" onClick={() => setViewingCustomer(customer)}>
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => openDialog(customer)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => deleteCustomer.mutate(customer.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <CustomerDialog customer={editingCustomer} open={dialogOpen} onOpenChange={setDialogOpen} />
+      <CustomerDetailDialog
+        customer={viewingCustomer}
+        open={!!viewingCustomer}
+        onOpenChange={(isOpen) => { if (!isOpen) setViewingCustomer(null); }}
+      />
+    </div>
+  );
+}
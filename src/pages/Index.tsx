@@ -1,18 +1,12 @@
 import { useDate } from '@/contexts/DateContext';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
-import { Calendar } from '@/components/ui/calendar';
-import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { CalendarIcon } from 'lucide-react';
-import { format } from 'date-fns';
-import { cn } from '@/lib/utils';
 import { SalesOverview } from '@/components/Dashboard/SalesOverview';
 import { ProductSales } from '@/components/Dashboard/ProductSales';
 import { LowStockProducts } from '@/components/Dashboard/LowStockProducts';
 import { YearlySalesChart } from '@/components/Dashboard/YearlySalesChart';
+import { DateRangePicker } from '@/components/Layout/DateRangePicker';
 
 const Index = () => {
-  const { selectedDate, setSelectedDate } = useDate();
+  const { range } = useDate();
 
   return (
     <div className="space-y-6">
@@ -24,36 +18,14 @@ const Index = () => {
 
         <div className="flex items-center gap-2">
           <YearlySalesChart />
-          <Popover>
-          <PopoverTrigger asChild>
-            <Button
-              variant="outline"
-              className={cn(
-                "w-[240px] justify-start text-left font-normal",
-                !selectedDate && "text-muted-foreground"
-              )}
-            >
-              <CalendarIcon className="mr-2 h-4 w-4" />
-              {selectedDate ? format(selectedDate, "PPP") : <span>Pick a date</span>}
-            </Button>
-          </PopoverTrigger>
-          <PopoverContent className="w-auto p-0" align="end">
-            <Calendar
-              mode="single"
-              selected={selectedDate}
-              onSelect={(date) => date && setSelectedDate(date)}
-              initialFocus
-              className={cn("p-3 pointer-events-auto")}
-            />
-          </PopoverContent>
-        </Popover>
+          <DateRangePicker />
         </div>
       </div>
 
-      <SalesOverview selectedDate={selectedDate} />
+      <SalesOverview range={range} />
 
       <div className="grid gap-6 md:grid-cols-2">
-        <ProductSales selectedDate={selectedDate} />
+        <ProductSales range={range} />
         <LowStockProducts />
       </div>
     </div>
@@ -1,19 +1,31 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Eye, Download, Trash2, XCircle, Search, CalendarIcon, Filter, Edit } from "lucide-react";
+import { Eye, Download, Trash2, XCircle, Search, Filter, Edit, Undo2, Share2, MessageCircle } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { cn } from "@/lib/utils";
+import { PrintFormat, buildInvoiceDocument, isReceiptFormat, receiptWidthFor } from "@/lib/receipt";
+import { PrinterConnection, printReceiptToDevice } from "@/lib/escpos";
+import { downloadInvoicePDF, fetchInvoiceWithItems, removeInvoicePDFs } from "@/lib/invoice-storage";
+import { sendInvoiceOnWhatsApp } from "@/lib/whatsapp";
 import { format } from "date-fns";
-import jsPDF from "jspdf";
 import { toast } from "sonner";
 import { CreateInvoiceDialog } from "@/components/Invoices/CreateInvoiceDialog";
 import { InvoiceViewDialog } from "@/components/Invoices/InvoiceViewDialog";
 import { EditInvoiceDialog } from "@/components/Invoices/EditInvoiceDialog";
+import { ReturnItemsDialog } from "@/components/Invoices/ReturnItemsDialog";
+import { ShareInvoiceDialog } from "@/components/Invoices/ShareInvoiceDialog";
+import { PaymentStatusBadge } from "@/components/Invoices/PaymentStatusBadge";
+import { PrintInvoiceMenu } from "@/components/Invoices/PrintInvoiceMenu";
+import { PaymentStatus, paymentStatusLabels, paymentStatusOf } from "@/lib/payments";
+import { useAuth } from "@/hooks/use-auth";
+import { useDate } from "@/contexts/DateContext";
+import { DateRangePicker } from "@/components/Layout/DateRangePicker";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -30,18 +42,26 @@ export default function Invoices() {
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
   const [editInvoiceId, setEditInvoiceId] = useState<string | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [returnInvoiceId, setReturnInvoiceId] = useState<string | null>(null);
+  const [shareInvoice, setShareInvoice] = useState<Tables<"invoices"> | null>(null);
   const [deleteInvoiceId, setDeleteInvoiceId] = useState<string | null>(null);
   const [cancelSaleId, setCancelSaleId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
-  const [filterDate, setFilterDate] = useState<Date | undefined>();
-  const [paymentStatusFilter, setPaymentStatusFilter] = useState<'all' | 'done' | 'pending'>('all');
+  const [paymentStatusFilter, setPaymentStatusFilter] = useState<'all' | PaymentStatus>('all');
   const [expectedDateFilter, setExpectedDateFilter] = useState<Date | undefined>();
+  const { permissions } = useAuth();
   const queryClient = useQueryClient();
+  const { range, periodChosen } = useDate();
 
+  // Every invoice until a period is picked in the date range picker
   const { data: invoices, isLoading } = useQuery({
-    queryKey: ["invoices"],
+    queryKey: ["invoices", periodChosen ? range.start : null, periodChosen ? range.end : null],
     queryFn: async () => {
-      const { data, error } = await supabase.from("invoices").select("*").order("created_at", { ascending: false });
+      let query = supabase.from("invoices").select("*");
+      if (periodChosen) {
+        query = query.gte("created_at", range.start.toISOString()).lte("created_at", range.end.toISOString());
+      }
+      const { data, error } = await query.order("created_at", { ascending: false });
       if (error) throw error;
       return data;
     },
@@ -76,205 +96,17 @@ export default function Invoices() {
     },
   });
 
-  const downloadPDF = async (invoiceId: string) => {
+  // A4 invoices come from the copy stored when the invoice was saved; receipts are rendered now
+  const downloadPDF = async (invoiceId: string, printFormat?: PrintFormat) => {
     try {
-      const { data: invoice, error: invError } = await supabase
-        .from("invoices")
-        .select("*")
-        .eq("id", invoiceId)
-        .single();
-
-      if (invError) throw invError;
-
-      const { data: items, error: itemsError } = await supabase
-        .from("invoice_items")
-        .select("*")
-        .eq("invoice_id", invoiceId);
-
-      if (itemsError) throw itemsError;
-
-      const pdf = new jsPDF();
-      const pageWidth = pdf.internal.pageSize.getWidth();
-      
-      // Store Logo (left side)
-      if (storeSettings?.logo_url) {
-        try {
-          const img = new Image();
-          img.src = storeSettings.logo_url;
-          await new Promise((resolve) => {
-            img.onload = resolve;
-            img.onerror = resolve;
-          });
-          pdf.addImage(img, 'PNG', 15, 10, 30, 30);
-        } catch (error) {
-          console.error('Failed to load logo:', error);
-        }
-      }
-      
-      // Store Name (centered at top)
-      pdf.setFontSize(24);
-      pdf.setFont(undefined, 'bold');
-      pdf.text(storeSettings?.store_name || "Store", pageWidth / 2, 20, { align: "center" });
-      
-      // Store details (centered below name)
-      pdf.setFontSize(9);
-      pdf.setFont(undefined, 'normal');
-      let detailsY = 27;
-      if (storeSettings?.address) {
-        pdf.text(storeSettings.address, pageWidth / 2, detailsY, { align: "center" });
-        detailsY += 5;
-      }
-      if (storeSettings?.phone || storeSettings?.email) {
-        const contactInfo = [storeSettings?.phone, storeSettings?.email].filter(Boolean).join(" | ");
-        pdf.text(contactInfo, pageWidth / 2, detailsY, { align: "center" });
-      }
-
-      // Invoice details (right side)
-      pdf.setFontSize(14);
-      pdf.setFont(undefined, 'bold');
-      pdf.text("INVOICE", pageWidth - 15, 15, { align: "right" });
-      pdf.setFontSize(9);
-      pdf.setFont(undefined, 'normal');
-      pdf.text(`#${invoice.invoice_number}`, pageWidth - 15, 22, { align: "right" });
-      pdf.text(`Date: ${format(new Date(invoice.created_at), "PP")}`, pageWidth - 15, 28, { align: "right" });
-
-      // Customer info
-      let yPos = 50;
-      if (invoice.customer_name) {
-        pdf.setFontSize(12);
-        pdf.text("Bill To:", 15, yPos);
-        pdf.setFontSize(10);
-        pdf.text(invoice.customer_name, 15, yPos + 6);
-        if (invoice.customer_phone) pdf.text(invoice.customer_phone, 15, yPos + 12);
-        yPos += 25;
+      const { invoice, items } = await fetchInvoiceWithItems(invoiceId);
+      if (isReceiptFormat(printFormat ?? storeSettings?.print_format)) {
+        const pdf = await buildInvoiceDocument(invoice, items, storeSettings, printFormat);
+        pdf.save(`Receipt-${invoice.invoice_number}.pdf`);
       } else {
-        yPos += 10;
-      }
-
-      // Items table header
-      const drawTableHeader = (y: number) => {
-        pdf.setFillColor(240, 240, 240);
-        pdf.rect(15, y, pageWidth - 30, 8, "F");
-        pdf.setFontSize(10);
-        pdf.text("Product", 20, y + 5);
-        pdf.text("Size", 85, y + 5);
-        pdf.text("Color", 110, y + 5);
-        pdf.text("Qty", 135, y + 5);
-        pdf.text("Price", 155, y + 5);
-        pdf.text("Total", pageWidth - 25, y + 5, { align: "right" });
-      };
-
-      drawTableHeader(yPos);
-
-      // Items with page overflow handling
-      yPos += 12;
-      pdf.setFontSize(9);
-      const pageHeight = pdf.internal.pageSize.getHeight();
-      const bottomMargin = 70;
-
-      items?.forEach((item) => {
-        // Check if we need a new page
-        if (yPos > pageHeight - bottomMargin) {
-          pdf.addPage();
-          yPos = 20;
-          drawTableHeader(yPos);
-          yPos += 12;
-        }
-
-        pdf.text(item.product_name, 20, yPos);
-        pdf.text(item.size_name || "-", 85, yPos);
-        pdf.text(item.color_name || "-", 110, yPos);
-        pdf.text(item.quantity.toString(), 135, yPos);
-        pdf.text(item.unit_price.toString(), 155, yPos);
-        pdf.text(item.total_price.toString(), pageWidth - 25, yPos, { align: "right" });
-        yPos += 6;
-      });
-
-      // Totals - ensure they fit on current page
-      if (yPos > pageHeight - bottomMargin) {
-        pdf.addPage();
-        yPos = 20;
-      }
-
-      yPos += 10;
-      pdf.setFontSize(10);
-      pdf.text("Subtotal:", pageWidth - 70, yPos);
-      pdf.text(invoice.subtotal.toString(), pageWidth - 25, yPos, { align: "right" });
-
-      if (invoice.discount_amount > 0) {
-        yPos += 6;
-        pdf.text("Discount:", pageWidth - 70, yPos);
-        pdf.text(`-${invoice.discount_amount}`, pageWidth - 25, yPos, { align: "right" });
-      }
-
-      if (invoice.tax_amount > 0) {
-        yPos += 6;
-        pdf.text(`Tax (${invoice.tax_percentage}%):`, pageWidth - 70, yPos);
-        pdf.text(invoice.tax_amount.toString(), pageWidth - 25, yPos, { align: "right" });
+        await downloadInvoicePDF(invoice);
+        if (!invoice.pdf_url) queryClient.invalidateQueries({ queryKey: ["invoices"] });
       }
-
-      yPos += 8;
-      pdf.setFontSize(12);
-      pdf.setFont(undefined, "bold");
-      pdf.text("Grand Total:", pageWidth - 70, yPos);
-      pdf.text(invoice.grand_total.toString(), pageWidth - 25, yPos, { align: "right" });
-
-      // Add QR codes at the bottom of the last page
-      const currentPageHeight = pdf.internal.pageSize.getHeight();
-      const qrBottomY = currentPageHeight - 50;
-
-      if (storeSettings?.whatsapp_qr_url || storeSettings?.instagram_qr_url) {
-        const hasWhatsapp = !!storeSettings?.whatsapp_qr_url;
-        const hasInstagram = !!storeSettings?.instagram_qr_url;
-
-        // Calculate positions for proper spacing
-        let whatsappX = 20;
-        let instagramX = pageWidth - 55;
-
-        if (hasWhatsapp) {
-          try {
-            // Add light gray background for WhatsApp QR
-            pdf.setFillColor(240, 240, 240);
-            pdf.rect(whatsappX - 5, qrBottomY - 5, 40, 45, 'F');
-
-            const img = new Image();
-            img.src = storeSettings.whatsapp_qr_url;
-            await new Promise((resolve) => {
-              img.onload = resolve;
-              img.onerror = resolve;
-            });
-            pdf.addImage(img, 'PNG', whatsappX, qrBottomY, 30, 30);
-            pdf.setFontSize(8);
-            pdf.setFont(undefined, 'bold');
-            pdf.text(storeSettings.whatsapp_tagline || 'Join our WhatsApp', whatsappX + 15, qrBottomY + 35, { align: 'center' });
-          } catch (err) {
-            console.error('WhatsApp QR load failed:', err);
-          }
-        }
-
-        if (hasInstagram) {
-          try {
-            // Add light gray background for Instagram QR (right-aligned)
-            pdf.setFillColor(240, 240, 240);
-            pdf.rect(instagramX - 5, qrBottomY - 5, 40, 45, 'F');
-
-            const img = new Image();
-            img.src = storeSettings.instagram_qr_url;
-            await new Promise((resolve) => {
-              img.onload = resolve;
-              img.onerror = resolve;
-            });
-            pdf.addImage(img, 'PNG', instagramX, qrBottomY, 30, 30);
-            pdf.setFontSize(8);
-            pdf.setFont(undefined, 'bold');
-            pdf.text(storeSettings.instagram_tagline || 'Follow us on Instagram', instagramX + 15, qrBottomY + 35, { align: 'center' });
-          } catch (err) {
-            console.error('Instagram QR load failed:', err);
-          }
-        }
-      }
-
-      pdf.save(`Invoice-${invoice.invoice_number}.pdf`);
       toast.success("PDF downloaded successfully");
     } catch (error) {
       console.error("PDF generation error:", error);
@@ -282,6 +114,27 @@ export default function Invoices() {
     }
   };
 
+  const printToDevice = async (invoiceId: string, connection: PrinterConnection) => {
+    try {
+      const { invoice, items } = await fetchInvoiceWithItems(invoiceId);
+      await printReceiptToDevice(invoice, items, storeSettings, receiptWidthFor(storeSettings), connection);
+      toast.success("Receipt sent to the printer");
+    } catch (error) {
+      console.error("Receipt print error:", error);
+      toast.error(`Failed to print receipt: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  };
+
+  const sendOnWhatsApp = async (invoice: Tables<"invoices">) => {
+    try {
+      await sendInvoiceOnWhatsApp(invoice, storeSettings);
+      if (!invoice.pdf_url) queryClient.invalidateQueries({ queryKey: ["invoices"] });
+    } catch (error) {
+      console.error("WhatsApp share error:", error);
+      toast.error("Failed to prepare the WhatsApp message");
+    }
+  };
+
   const handleViewInvoice = (invoiceId: string) => {
     setViewInvoiceId(invoiceId);
     setViewDialogOpen(true);
@@ -312,9 +165,11 @@ export default function Invoices() {
         .eq("id", invoiceId);
 
       if (error) throw error;
+      return invoiceId;
     },
-    onSuccess: () => {
+    onSuccess: (invoiceId) => {
       toast.success("Invoice deleted successfully");
+      removeInvoicePDFs(invoiceId).catch((error) => console.error("Invoice PDF removal error:", error));
       queryClient.invalidateQueries({ queryKey: ["invoices"] });
       setDeleteInvoiceId(null);
     },
@@ -326,70 +181,25 @@ export default function Invoices() {
 
   const cancelSale = useMutation({
     mutationFn: async (invoiceId: string) => {
-      // Get invoice items to restore stock
-      const { data: items, error: itemsError } = await supabase
-        .from("invoice_items")
-        .select("*")
-        .eq("invoice_id", invoiceId);
-
-      if (itemsError) throw itemsError;
-
-      // Restore stock for each item
-      for (const item of items || []) {
-        if (item.product_id) {
-          // Get current product stock
-          const { data: product } = await supabase
-            .from("products")
-            .select("quantity_in_stock")
-            .eq("id", item.product_id)
-            .single();
-
-          if (product) {
-            // Restore stock
-            await supabase
-              .from("products")
-              .update({
-                quantity_in_stock: product.quantity_in_stock + item.quantity
-              })
-              .eq("id", item.product_id);
-          }
-        }
-      }
-
-      // Delete sales records (for analytics)
-      const { error: salesError } = await supabase
-        .from("sales_records")
-        .delete()
-        .eq("invoice_id", invoiceId);
-
-      if (salesError) throw salesError;
-
-      // Delete invoice items
-      const { error: deleteItemsError } = await supabase
-        .from("invoice_items")
-        .delete()
-        .eq("invoice_id", invoiceId);
-
-      if (deleteItemsError) throw deleteItemsError;
-
-      // Delete invoice
-      const { error } = await supabase
-        .from("invoices")
-        .delete()
-        .eq("id", invoiceId);
-
+      // Stock is restored and the invoice, items and sales records are removed atomically
+      const { error } = await supabase.rpc("cancel_invoice", { p_invoice_id: invoiceId });
       if (error) throw error;
+      return invoiceId;
     },
-    onSuccess: () => {
+    onSuccess: (invoiceId) => {
       toast.success("Sale cancelled and stock restored");
+      removeInvoicePDFs(invoiceId).catch((error) => console.error("Invoice PDF removal error:", error));
       queryClient.invalidateQueries({ queryKey: ["invoices"] });
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["low-stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
       queryClient.invalidateQueries({ queryKey: ["sales"] });
       setCancelSaleId(null);
     },
     onError: (error) => {
       console.error("Cancel sale error:", error);
-      toast.error("Failed to cancel sale");
+      toast.error(`Failed to cancel sale: ${error.message}`);
     },
   });
 
@@ -405,6 +215,17 @@ export default function Invoices() {
         open={editDialogOpen}
         onOpenChange={setEditDialogOpen}
       />
+      <ReturnItemsDialog
+        invoiceId={returnInvoiceId}
+        open={!!returnInvoiceId}
+        onOpenChange={(isOpen) => { if (!isOpen) setReturnInvoiceId(null); }}
+      />
+      <ShareInvoiceDialog
+        invoice={shareInvoice}
+        storeSettings={storeSettings}
+        open={!!shareInvoice}
+        onOpenChange={(isOpen) => { if (!isOpen) setShareInvoice(null); }}
+      />
 
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold">Invoices</h1>
@@ -418,37 +239,7 @@ export default function Invoices() {
               className="pl-9 w-[250px]"
             />
           </div>
-          <Popover>
-            <PopoverTrigger asChild>
-              <Button
-                variant="outline"
-                className={cn(
-                  "w-[200px] justify-start text-left font-normal",
-                  !filterDate && "text-muted-foreground"
-                )}
-              >
-                <CalendarIcon className="mr-2 h-4 w-4" />
-                {filterDate ? format(filterDate, "PP") : <span>Filter by date</span>}
-              </Button>
-            </PopoverTrigger>
-            <PopoverContent className="w-auto p-0" align="end">
-              <Calendar
-                mode="single"
-                selected={filterDate}
-                onSelect={setFilterDate}
-                initialFocus
-              />
-            </PopoverContent>
-          </Popover>
-          {filterDate && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setFilterDate(undefined)}
-            >
-              Clear
-            </Button>
-          )}
+          <DateRangePicker allowAllDates />
           <Popover>
             <PopoverTrigger asChild>
               <Button
@@ -466,34 +257,27 @@ export default function Invoices() {
               <div className="space-y-4">
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Status</label>
-                  <div className="flex gap-2">
+                  <div className="flex flex-wrap gap-2">
                     <Button
                       variant={paymentStatusFilter === 'all' ? 'default' : 'outline'}
                       size="sm"
                       onClick={() => setPaymentStatusFilter('all')}
-                      className="flex-1"
                     >
                       All
                     </Button>
-                    <Button
-                      variant={paymentStatusFilter === 'done' ? 'default' : 'outline'}
-                      size="sm"
-                      onClick={() => setPaymentStatusFilter('done')}
-                      className="flex-1"
-                    >
-                      Done
-                    </Button>
-                    <Button
-                      variant={paymentStatusFilter === 'pending' ? 'default' : 'outline'}
-                      size="sm"
-                      onClick={() => setPaymentStatusFilter('pending')}
-                      className="flex-1"
-                    >
-                      Pending
-                    </Button>
+                    {(Object.keys(paymentStatusLabels) as PaymentStatus[]).map((status) => (
+                      <Button
+                        key={status}
+                        variant={paymentStatusFilter === status ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setPaymentStatusFilter(status)}
+                      >
+                        {paymentStatusLabels[status]}
+                      </Button>
+                    ))}
                   </div>
                 </div>
-                {paymentStatusFilter === 'pending' && (
+                {paymentStatusFilter !== 'all' && paymentStatusFilter !== 'paid' && (
                   <div className="space-y-2">
                     <label className="text-sm font-medium">Expected Payment Date</label>
                     <Calendar
@@ -552,27 +336,31 @@ export default function Invoices() {
               {invoices?.filter((inv) => {
                 const query = searchQuery.toLowerCase();
                 const customerMatch = !searchQuery || inv.customer_name?.toLowerCase().includes(query);
-                const dateMatch = !filterDate || format(new Date(inv.created_at), "PP") === format(filterDate, "PP");
-                const paymentMatch = paymentStatusFilter === 'all' || (inv.payment_status || 'done') === paymentStatusFilter;
+                const paymentMatch = paymentStatusFilter === 'all' || paymentStatusOf(inv) === paymentStatusFilter;
                 const expectedDateMatch = !expectedDateFilter ||
                   (inv.expected_payment_date && format(new Date(inv.expected_payment_date), "PP") === format(expectedDateFilter, "PP"));
-                return customerMatch && dateMatch && paymentMatch && expectedDateMatch;
+                return customerMatch && paymentMatch && expectedDateMatch;
               }).map((inv) => (
                 <TableRow key={inv.id}>
-                  <TableCell className="font-medium">{inv.invoice_number}</TableCell>
+                  <TableCell className="font-medium">
+                    {inv.invoice_number}
+                    {inv.updated_at && (
+                      <div className="text-xs font-normal text-muted-foreground">
+                        Edited {format(new Date(inv.updated_at), "PP")}
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>{inv.customer_name || "-"}</TableCell>
                   <TableCell>{format(new Date(inv.created_at), "PP")}</TableCell>
                   <TableCell>₹{inv.grand_total}</TableCell>
                   <TableCell>
-                    <span className={cn(
-                      "px-2 py-1 rounded-full text-xs font-medium",
-                      (inv.payment_status || 'done') === 'done'
-                        ? "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300"
-                        : "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300"
-                    )}>
-                      {(inv.payment_status || 'done') === 'done' ? 'Done' : 'Pending'}
-                    </span>
-                    {inv.payment_status === 'pending' && inv.expected_payment_date && (
+                    <PaymentStatusBadge invoice={inv} />
+                    {inv.payment_status === 'partial' && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        ₹{Number(inv.amount_paid).toFixed(2)} paid
+                      </div>
+                    )}
+                    {inv.payment_status !== 'paid' && inv.expected_payment_date && (
                       <div className="text-xs text-muted-foreground mt-1">
                         Due: {format(new Date(inv.expected_payment_date), "PP")}
                       </div>
@@ -585,15 +373,34 @@ export default function Invoices() {
                     <Button variant="ghost" size="icon" onClick={() => downloadPDF(inv.id)}>
                       <Download className="h-4 w-4" />
                     </Button>
+                    <PrintInvoiceMenu
+                      defaultFormat={(storeSettings?.print_format as PrintFormat) || "a4"}
+                      receiptWidth={receiptWidthFor(storeSettings)}
+                      onDownload={(printFormat) => downloadPDF(inv.id, printFormat)}
+                      onPrintToDevice={(connection) => printToDevice(inv.id, connection)}
+                    />
+                    <Button variant="ghost" size="icon" title="Share link" onClick={() => setShareInvoice(inv)}>
+                      <Share2 className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Send on WhatsApp" onClick={() => sendOnWhatsApp(inv)}>
+                      <MessageCircle className="h-4 w-4 text-green-600" />
+                    </Button>
                     <Button variant="ghost" size="icon" onClick={() => { setEditInvoiceId(inv.id); setEditDialogOpen(true); }}>
                       <Edit className="h-4 w-4 text-blue-500" />
                     </Button>
-                    <Button variant="ghost" size="icon" onClick={() => setDeleteInvoiceId(inv.id)}>
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
-                    <Button variant="ghost" size="icon" onClick={() => setCancelSaleId(inv.id)}>
-                      <XCircle className="h-4 w-4 text-orange-500" />
+                    <Button variant="ghost" size="icon" title="Return items" onClick={() => setReturnInvoiceId(inv.id)}>
+                      <Undo2 className="h-4 w-4" />
                     </Button>
+                    {permissions.deleteInvoices && (
+                      <>
+                        <Button variant="ghost" size="icon" onClick={() => setDeleteInvoiceId(inv.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setCancelSaleId(inv.id)}>
+                          <XCircle className="h-4 w-4 text-orange-500" />
+                        </Button>
+                      </>
+                    )}
                   </TableCell>
                 </TableRow>
               ))}
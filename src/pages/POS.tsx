@@ -0,0 +1,553 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Minus, Plus, Printer, ScanBarcode, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { ProductTiles } from "@/components/POS/ProductTiles";
+import { VariantPicker } from "@/components/POS/VariantPicker";
+import { UpiPaymentQR } from "@/components/POS/UpiPaymentQR";
+import { CustomerPhoneInput } from "@/components/Customers/CustomerPhoneInput";
+import { InvoiceTaxLines } from "@/components/Invoices/InvoiceTaxLines";
+import { buildInvoiceDocument, isReceiptFormat } from "@/lib/receipt";
+import { printReceiptToDevice, rememberedPrinterConnection } from "@/lib/escpos";
+import { storeInvoicePDF } from "@/lib/invoice-storage";
+import { variantKey, variantLabel } from "@/lib/inventory";
+import {
+  InvoiceItem,
+  invoiceItemVariantKey,
+  newInvoiceItem,
+  productHasVariants,
+  toInvoiceItemPayload,
+} from "@/lib/invoice-items";
+import { PaymentMethod, Tender, paymentMethodLabels, settleTenders } from "@/lib/payments";
+import { calculateInvoiceTotals, taxModeForStore } from "@/lib/tax";
+import { Product, productColumns } from "@/lib/products";
+
+const POS = () => {
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [search, setSearch] = useState("");
+  const [customerName, setCustomerName] = useState("");
+  const [customerPhone, setCustomerPhone] = useState("");
+  // The customer picked from the suggestions; typing another number links by phone instead
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [tenders, setTenders] = useState<Tender[]>([{ method: "cash", amount: "" }]);
+  const [pickerProduct, setPickerProduct] = useState<Product | null>(null);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+
+  const { data: products } = useQuery({
+    queryKey: ["products"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("products").select(productColumns);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: categories } = useQuery({
+    queryKey: ["categories"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("categories").select("*");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: sizes } = useQuery({
+    queryKey: ["sizes"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("sizes").select("*").order("sort_order");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: colors } = useQuery({
+    queryKey: ["colors"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("colors").select("*").order("sort_order");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: productSizePrices } = useQuery({
+    queryKey: ["product-size-prices"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("product_size_prices").select("*");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: productInventory } = useQuery({
+    queryKey: ["product-inventory"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("product_inventory").select("*");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: storeSettings } = useQuery({
+    queryKey: ["store-settings"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("store_settings").select("*").maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const taxMode = taxModeForStore(storeSettings);
+  const totals = calculateInvoiceTotals(items, "", "fixed", taxMode);
+  const { subtotal, grandTotal } = totals;
+
+  // A single tender left blank is taken as the exact amount, so a plain sale needs no typing
+  const effectiveTenders: Tender[] =
+    tenders.length === 1 && tenders[0].amount === "" ? [{ ...tenders[0], amount: grandTotal }] : tenders;
+  const settlement = settleTenders(grandTotal, effectiveTenders);
+  const upiAmount = Number(effectiveTenders.find((t) => t.method === "upi")?.amount || 0);
+
+  const inCart = (productId: string, key?: string) =>
+    items
+      .filter((item) => item.productId === productId && (key === undefined || invoiceItemVariantKey(item) === key))
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+  const availableForVariant = (variant: Tables<"product_inventory">) =>
+    variant.quantity - inCart(variant.product_id, `${variant.product_id}|${variantKey(variant.size_id, variant.color_id)}`);
+
+  const availableFor = (item: InvoiceItem) => {
+    const product = products?.find((p) => p.id === item.productId);
+    if (!product) return 0;
+    if (!productHasVariants(productInventory, product.id)) return product.quantity_in_stock - inCart(product.id);
+    const variant = productInventory?.find(
+      (v) => v.product_id === item.productId && v.size_id === (item.sizeId || null) && v.color_id === (item.colorId || null)
+    );
+    return variant ? availableForVariant(variant) : 0;
+  };
+
+  const focusScan = () => setTimeout(() => scanInputRef.current?.focus(), 0);
+
+  const addLine = (
+    product: Product,
+    size: Tables<"sizes"> | null = null,
+    color: Tables<"colors"> | null = null
+  ) => {
+    const line = newInvoiceItem(product, categories, productSizePrices, size, color);
+    const existing = items.find((item) => invoiceItemVariantKey(item) === invoiceItemVariantKey(line));
+
+    if (availableFor(existing || line) <= 0) {
+      toast.error(`No more stock of ${product.name}${size || color ? ` (${variantLabel(size?.name, color?.name)})` : ""}`);
+      return;
+    }
+
+    setItems(
+      existing
+        ? items.map((item) =>
+            item === existing
+              ? { ...item, quantity: item.quantity + 1, totalPrice: (item.quantity + 1) * item.unitPrice }
+              : item
+          )
+        : [...items, line]
+    );
+  };
+
+  const selectProduct = (product: Product) => {
+    setSearch("");
+    if (productHasVariants(productInventory, product.id)) {
+      setPickerProduct(product);
+      return;
+    }
+    addLine(product);
+    focusScan();
+  };
+
+  const allProducts = (products || []).slice().sort((a, b) => a.name.localeCompare(b.name));
+  const term = search.trim().toLowerCase();
+  const matchingProducts = term
+    ? allProducts.filter((p) => p.name.toLowerCase().includes(term) || p.sku?.toLowerCase().includes(term))
+    : allProducts;
+
+  // Scanners type the code and press Enter. A variant's SKU or barcode adds that exact
+  // variant; a product's SKU or barcode adds the product; otherwise a search that narrows
+  // the tiles to one product adds that product.
+  const handleScan = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!term) return;
+
+    const variant = productInventory?.find((v) => v.sku?.toLowerCase() === term || v.barcode === term);
+    const variantProduct = variant && allProducts.find((p) => p.id === variant.product_id);
+    if (variant && variantProduct) {
+      setSearch("");
+      addLine(
+        variantProduct,
+        sizes?.find((s) => s.id === variant.size_id) || null,
+        colors?.find((c) => c.id === variant.color_id) || null
+      );
+      focusScan();
+      return;
+    }
+
+    const product =
+      allProducts.find((p) => p.sku?.toLowerCase() === term || p.barcode === term) ||
+      (matchingProducts.length === 1 ? matchingProducts[0] : undefined);
+
+    if (!product) {
+      toast.error(matchingProducts.length ? "Several products match, tap the one you want" : `No product matches "${search.trim()}"`);
+      return;
+    }
+    selectProduct(product);
+  };
+
+  const changeQuantity = (index: number, delta: number) => {
+    const item = items[index];
+    if (delta > 0 && availableFor(item) <= 0) {
+      toast.error(`No more stock of ${item.productName}`);
+      return;
+    }
+    const quantity = item.quantity + delta;
+    setItems(
+      quantity <= 0
+        ? items.filter((_, i) => i !== index)
+        : items.map((line, i) => (i === index ? { ...line, quantity, totalPrice: quantity * line.unitPrice } : line))
+    );
+  };
+
+  const updateTender = (index: number, tender: Partial<Tender>) => {
+    setTenders(tenders.map((t, i) => (i === index ? { ...t, ...tender } : t)));
+  };
+
+  const addTender = () => {
+    const used = tenders.map((t) => t.method);
+    const method = (Object.keys(paymentMethodLabels) as PaymentMethod[]).find((m) => !used.includes(m)) || "cash";
+    setTenders([...tenders, { method, amount: "" }]);
+  };
+
+  const resetSale = () => {
+    setItems([]);
+    setSearch("");
+    setCustomerName("");
+    setCustomerPhone("");
+    setCustomerId(null);
+    setTenders([{ method: "cash", amount: "" }]);
+    focusScan();
+  };
+
+  const printInvoice = async (invoice: Tables<"invoices">) => {
+    const { data: invoiceItems, error } = await supabase
+      .from("invoice_items")
+      .select("*")
+      .eq("invoice_id", invoice.id);
+    if (error) throw error;
+
+    // Receipts go straight to a printer that has been used from this browser before, and
+    // through the print dialog if it can't be reached
+    const connection = rememberedPrinterConnection();
+    if (connection && isReceiptFormat(storeSettings?.print_format)) {
+      try {
+        await printReceiptToDevice(invoice, invoiceItems, storeSettings, storeSettings.print_format, connection);
+        return;
+      } catch (error) {
+        console.error("Receipt printer error:", error);
+      }
+    }
+
+    const pdf = await buildInvoiceDocument(invoice, invoiceItems, storeSettings);
+    pdf.autoPrint();
+    window.open(pdf.output("bloburl"), "_blank");
+  };
+
+  const completeSale = useMutation({
+    mutationFn: async () => {
+      if (items.length === 0) throw new Error("Add at least one item");
+      if (settlement.overpaid) throw new Error("UPI, card and bank amounts are more than the total");
+      if (settlement.balanceDue > 0) throw new Error(`₹${settlement.balanceDue.toFixed(2)} is still to be paid`);
+
+      const { data: invoice, error } = await supabase.rpc("create_invoice", {
+        p_invoice: {
+          customer_name: customerName || null,
+          customer_phone: customerPhone || null,
+          customer_id: customerId,
+          subtotal,
+          tax_amount: totals.taxAmount,
+          tax_percentage: taxMode.kind === "flat" ? taxMode.taxPercentage : 0,
+          discount_amount: 0,
+          discount_type: "fixed",
+          grand_total: grandTotal,
+          payment_method: settlement.payments[0]?.method || "cash",
+          payments: settlement.payments,
+          place_of_supply: taxMode.kind === "gst" ? taxMode.placeOfSupply : null,
+        },
+        p_items: items.map((item, index) => toInvoiceItemPayload(item, totals.lines[index])),
+      });
+
+      if (error) throw error;
+      return { invoice, change: settlement.change };
+    },
+    onSuccess: async ({ invoice, change }) => {
+      toast.success(
+        change > 0
+          ? `Invoice ${invoice.invoice_number} saved. Give ₹${change.toFixed(2)} change`
+          : `Invoice ${invoice.invoice_number} saved`
+      );
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["low-stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["sales"] });
+      queryClient.invalidateQueries({ queryKey: ["sales-records"] });
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      queryClient.invalidateQueries({ queryKey: ["receivables"] });
+      resetSale();
+
+      // The sale is already saved, so a printing problem only needs a reprint from Invoices
+      try {
+        await printInvoice(invoice);
+      } catch (error) {
+        console.error("Receipt print error:", error);
+        toast.error("Couldn't print the invoice. Reprint it from the Invoices page");
+      }
+
+      storeInvoicePDF(invoice.id)
+        .then(() => queryClient.invalidateQueries({ queryKey: ["invoices"] }))
+        .catch((error) => {
+          console.error("Invoice PDF upload error:", error);
+          toast.error(`Invoice ${invoice.invoice_number} was saved, but its PDF couldn't be stored. It is stored as issued when it's next downloaded or shared`);
+        });
+    },
+    onError: (error: Error) => {
+      console.error("POS sale error:", error);
+      toast.error(`Failed to complete sale: ${error.message}`);
+    },
+  });
+
+  const canComplete =
+    items.length > 0 && settlement.balanceDue === 0 && !settlement.overpaid && !completeSale.isPending;
+
+  // F2 jumps back to the scan field and F9 completes the sale, from anywhere on the screen
+  const shortcutsRef = useRef<(e: KeyboardEvent) => void>();
+  shortcutsRef.current = (e: KeyboardEvent) => {
+    if (e.key === "F2") {
+      e.preventDefault();
+      scanInputRef.current?.focus();
+    } else if (e.key === "F9") {
+      e.preventDefault();
+      if (canComplete) completeSale.mutate();
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcutsRef.current?.(e);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  return (
+    <div className="flex h-screen flex-col bg-background">
+      <header className="flex items-center justify-between border-b px-4 py-2">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/invoices">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Exit
+            </Link>
+          </Button>
+          <h1 className="text-lg font-semibold">{storeSettings?.store_name || "Point of Sale"}</h1>
+        </div>
+        <p className="text-sm text-muted-foreground">F2 scan · F9 complete &amp; print</p>
+      </header>
+
+      <div className="grid flex-1 grid-cols-1 overflow-hidden lg:grid-cols-[1fr_26rem]">
+        <div className="flex min-h-0 flex-col gap-4 p-4">
+          <form onSubmit={handleScan} className="relative">
+            <ScanBarcode className="absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              ref={scanInputRef}
+              autoFocus
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Scan a barcode or type a SKU or product name"
+              className="h-12 pl-10 text-lg"
+              autoComplete="off"
+            />
+          </form>
+          <div className="min-h-0 flex-1">
+            <ProductTiles products={matchingProducts} categories={categories || []} onSelect={selectProduct} />
+          </div>
+        </div>
+
+        <div className="flex min-h-0 flex-col border-l">
+          <ScrollArea className="flex-1 p-4">
+            {items.length === 0 ? (
+              <p className="py-12 text-center text-muted-foreground">Scan or tap a product to start a sale</p>
+            ) : (
+              <div className="space-y-2">
+                {items.map((item, index) => (
+                  <div key={invoiceItemVariantKey(item)} className="flex items-center gap-2 rounded-md border p-2">
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate font-medium">{item.productName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {[variantLabel(item.sizeName, item.colorName), `₹${item.unitPrice.toFixed(2)}`]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    </div>
+                    <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => changeQuantity(index, -1)}>
+                      <Minus className="h-4 w-4" />
+                    </Button>
+                    <span className="w-6 text-center">{item.quantity}</span>
+                    <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => changeQuantity(index, 1)}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                    <span className="w-20 text-right font-medium">₹{item.totalPrice.toFixed(2)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setItems(items.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+
+          <div className="space-y-4 border-t p-4">
+            <div className="grid grid-cols-2 gap-2">
+              <Input value={customerName} onChange={(e) => setCustomerName(e.target.value)} placeholder="Customer name" />
+              <CustomerPhoneInput
+                value={customerPhone}
+                onChange={(phone) => {
+                  setCustomerPhone(phone);
+                  setCustomerId(null);
+                }}
+                onSelectCustomer={(customer) => {
+                  setCustomerPhone(customer.phone || "");
+                  setCustomerId(customer.id);
+                  setCustomerName(customer.name || "");
+                }}
+              />
+            </div>
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Subtotal:</span>
+                <span>₹{subtotal.toFixed(2)}</span>
+              </div>
+              <InvoiceTaxLines totals={totals} mode={taxMode} />
+              <div className="flex justify-between text-2xl font-bold">
+                <span>Total:</span>
+                <span>₹{grandTotal.toFixed(2)}</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Payment</Label>
+                {tenders.length < Object.keys(paymentMethodLabels).length && (
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={addTender}>
+                    Split payment
+                  </Button>
+                )}
+              </div>
+              {tenders.map((tender, index) => (
+                <div key={index} className="flex gap-2">
+                  <Select
+                    value={tender.method}
+                    onValueChange={(method: PaymentMethod) => updateTender(index, { method })}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={tender.amount}
+                    onChange={(e) => updateTender(index, { amount: e.target.value === "" ? "" : Number(e.target.value) })}
+                    placeholder={tenders.length === 1 ? `Exact ₹${grandTotal.toFixed(2)}` : "₹0"}
+                  />
+                  {index > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setTenders(tenders.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {settlement.change > 0 && (
+                <div className="flex justify-between text-lg font-semibold text-green-600">
+                  <span>Change:</span>
+                  <span>₹{settlement.change.toFixed(2)}</span>
+                </div>
+              )}
+              {settlement.balanceDue > 0 && items.length > 0 && (
+                <div className="flex justify-between text-sm text-destructive">
+                  <span>Still to pay:</span>
+                  <span>₹{settlement.balanceDue.toFixed(2)}</span>
+                </div>
+              )}
+              {settlement.overpaid && (
+                <p className="text-sm text-destructive">UPI, card and bank can't be more than the total</p>
+              )}
+              {/* The invoice number is only given when the sale is saved, so the note names the store */}
+              {items.length > 0 && !settlement.overpaid && (
+                <UpiPaymentQR
+                  storeSettings={storeSettings}
+                  amount={upiAmount}
+                  note={`Purchase at ${storeSettings?.store_name || "store"}`}
+                />
+              )}
+            </div>
+
+            <Button className="h-14 w-full text-lg" disabled={!canComplete} onClick={() => completeSale.mutate()}>
+              <Printer className="mr-2 h-5 w-5" />
+              {completeSale.isPending ? "Saving..." : "Complete & Print (F9)"}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <VariantPicker
+        product={pickerProduct}
+        variants={productInventory?.filter((v) => v.product_id === pickerProduct?.id) || []}
+        sizes={sizes || []}
+        colors={colors || []}
+        productSizePrices={productSizePrices}
+        availableFor={availableForVariant}
+        onPick={(size, color) => {
+          if (pickerProduct) addLine(pickerProduct, size, color);
+          setPickerProduct(null);
+          focusScan();
+        }}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPickerProduct(null);
+            focusScan();
+          }
+        }}
+      />
+    </div>
+  );
+};
+
+export default POS;
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -11,9 +11,27 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Plus, Pencil, Trash2, Search, X } from "lucide-react";
+import { Plus, Pencil, Trash2, Search, X, History, Tag, Upload, Download } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { StockMatrixEditor } from "@/components/Products/StockMatrixEditor";
+import { StockHistoryDialog } from "@/components/Products/StockHistoryDialog";
+import { PrintLabelsDialog } from "@/components/Products/PrintLabelsDialog";
+import { ImportProductsDialog } from "@/components/Products/ImportProductsDialog";
+import {
+  variantKey,
+  parseVariantKey,
+  variantLabel,
+  stockMovementLabels,
+  manualStockMovementTypes,
+  type StockMovementType,
+} from "@/lib/inventory";
+import { Catalogue, catalogueRows } from "@/lib/product-import";
+import { fetchProductCosts, productColumns } from "@/lib/products";
+import { SpreadsheetFormat, downloadSpreadsheet, spreadsheetFormatLabels } from "@/lib/spreadsheet";
+import { format } from "date-fns";
 
 export default function Products() {
   const [open, setOpen] = useState(false);
@@ -29,18 +47,33 @@ export default function Products() {
   const [isUploadingPrimary, setIsUploadingPrimary] = useState(false);
   const [isUploadingSecondary, setIsUploadingSecondary] = useState(false);
   const [sizePrices, setSizePrices] = useState<Record<string, string>>({});
+  const [variantStock, setVariantStock] = useState<Record<string, string>>({});
+  // Stock as it was when the product was opened for editing
+  const [loadedStock, setLoadedStock] = useState<{ quantity: number; variants: Record<string, string> } | null>(null);
+  const [stockReason, setStockReason] = useState<StockMovementType>("restock");
+  const [historyProductId, setHistoryProductId] = useState<string | null>(null);
+  const [selectedProductIds, setSelectedProductIds] = useState<string[]>([]);
+  const [labelsOpen, setLabelsOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const { toast } = useToast();
+  const { permissions } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: products, isLoading } = useQuery({
     queryKey: ["products"],
     queryFn: async () => {
-      const { data, error } = await supabase.from("products").select("*").order("created_at", { ascending: false });
+      const { data, error } = await supabase.from("products").select(productColumns).order("created_at", { ascending: false });
       if (error) throw error;
       return data;
     },
   });
 
+  const { data: productCosts } = useQuery({
+    queryKey: ["product-costs"],
+    queryFn: fetchProductCosts,
+    enabled: permissions.viewCostPrices,
+  });
+
   const { data: categories } = useQuery({
     queryKey: ["categories"],
     queryFn: async () => {
@@ -79,6 +112,17 @@ export default function Products() {
     },
   });
 
+  const { data: productInventory } = useQuery({
+    queryKey: ["product-inventory"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("product_inventory")
+        .select("*, sizes(name, sort_order), colors(name, sort_order)");
+      if (error) throw error;
+      return data;
+    },
+  });
+
   const { data: editingProductSizePrices } = useQuery({
     queryKey: ["editing-product-size-prices", editingId],
     queryFn: async () => {
@@ -93,6 +137,31 @@ export default function Products() {
     enabled: !!editingId,
   });
 
+  const catalogue: Catalogue = useMemo(
+    () => ({
+      products: (products || []).map((product) => ({ ...product, ...productCosts?.get(product.id) })),
+      categories: categories || [],
+      sizes: sizes || [],
+      colors: colors || [],
+      productSizePrices: productSizePrices || [],
+      productInventory: productInventory || [],
+    }),
+    [products, productCosts, categories, sizes, colors, productSizePrices, productInventory]
+  );
+
+  const exportCatalogue = async (spreadsheetFormat: SpreadsheetFormat) => {
+    try {
+      await downloadSpreadsheet(
+        catalogueRows(catalogue, permissions.viewCostPrices),
+        `Products-${format(new Date(), "yyyy-MM-dd")}`,
+        spreadsheetFormat
+      );
+    } catch (error) {
+      console.error("Product export error:", error);
+      toast({ title: "Failed to export products", variant: "destructive" });
+    }
+  };
+
   const uploadImage = async (file: File): Promise<string> => {
     const fileExt = file.name.split('.').pop();
     const fileName = `${Math.random()}.${fileExt}`;
@@ -138,13 +207,47 @@ export default function Products() {
       setIsUploadingSecondary(false);
     }
     
+    // Stock is tracked per variant whenever the product has sizes or colors
+    const sizeAxis: (string | null)[] = selectedSizes.length > 0 ? selectedSizes : [null];
+    const colorAxis: (string | null)[] = selectedColors.length > 0 ? selectedColors : [null];
+    const tracksVariants = selectedSizes.length > 0 || selectedColors.length > 0;
+    const variants = tracksVariants
+      ? sizeAxis.flatMap((sizeId) =>
+          colorAxis.map((colorId) => ({
+            size_id: sizeId,
+            color_id: colorId,
+            quantity: parseInt(variantStock[variantKey(sizeId, colorId)] || "0") || 0,
+          }))
+        )
+      : [];
+    const quantityInStock = tracksVariants
+      ? variants.reduce((sum, v) => sum + v.quantity, 0)
+      : parseInt(formData.get("quantity_in_stock") as string);
+
+    // Only stock the user actually changed is saved, so a sale made while the form was open isn't undone
+    const stockChanged = () => {
+      if (!loadedStock) return true;
+      const loadedKeys = Object.keys(loadedStock.variants);
+      if (!tracksVariants) return loadedKeys.length > 0 || quantityInStock !== loadedStock.quantity;
+      // Stock not yet split by variant stays on the product until some of it is entered
+      if (loadedKeys.length === 0) return Object.values(variantStock).some((value) => value !== "");
+      return (
+        variants.length !== loadedKeys.length ||
+        variants.some((v) => {
+          const loaded = loadedStock.variants[variantKey(v.size_id, v.color_id)];
+          return loaded === undefined || parseInt(loaded) !== v.quantity;
+        })
+      );
+    };
+
     const productData = {
       name: formData.get("name") as string,
       description: (formData.get("description") as string) || null,
       sku: (formData.get("sku") as string) || null,
+      hsn_code: ((formData.get("hsn_code") as string) || "").trim() || null,
       price_inr: parseFloat(formData.get("price_inr") as string),
-      cost_inr: parseFloat(formData.get("cost_inr") as string) || null,
-      quantity_in_stock: parseInt(formData.get("quantity_in_stock") as string),
+      // Without the cost field on the form the saved cost is left as it is
+      ...(permissions.viewCostPrices && { cost_inr: parseFloat(formData.get("cost_inr") as string) || null }),
       category_id: (formData.get("category_id") as string) || null,
       size_ids: selectedSizes.length > 0 ? selectedSizes : null,
       color_ids: selectedColors.length > 0 ? selectedColors : null,
@@ -162,7 +265,7 @@ export default function Products() {
         const { data: newProduct, error } = await supabase
           .from("products")
           .insert(productData)
-          .select()
+          .select("id")
           .single();
         if (error) throw error;
         productId = newProduct.id;
@@ -194,13 +297,34 @@ export default function Products() {
         }
       }
 
+      // Stock only changes through the ledger, so every change is recorded with its reason
+      if (productId && stockChanged()) {
+        const { error: stockError } = await supabase.rpc("set_product_stock", {
+          p_product_id: productId,
+          p_quantity: quantityInStock,
+          p_variants: variants,
+          p_movement_type: editingId ? stockReason : "opening",
+          p_notes: editingId ? (formData.get("stock_notes") as string) || null : null,
+          p_expected_quantity: loadedStock?.quantity,
+        });
+        if (stockError) throw stockError;
+      }
+
       toast({ title: editingId ? "Product updated successfully" : "Product created successfully" });
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product-costs"] });
       queryClient.invalidateQueries({ queryKey: ["product-size-prices"] });
+      queryClient.invalidateQueries({ queryKey: ["product-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["low-stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
       resetForm();
     } catch (error) {
       console.error("Save product error:", error);
-      toast({ title: "Failed to save product", variant: "destructive" });
+      toast({
+        title: "Failed to save product",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
     }
   };
 
@@ -214,6 +338,9 @@ export default function Products() {
     setPrimaryImageFile(null);
     setSecondaryImageFile(null);
     setSizePrices({});
+    setVariantStock({});
+    setLoadedStock(null);
+    setStockReason("restock");
   };
 
   const deleteMutation = useMutation({
@@ -246,6 +373,19 @@ export default function Products() {
     });
     setSizePrices(priceMap);
 
+    // Load per-variant stock
+    const { data: inventory } = await supabase
+      .from("product_inventory")
+      .select("*")
+      .eq("product_id", product.id);
+
+    const stockMap: Record<string, string> = {};
+    inventory?.forEach((row) => {
+      stockMap[variantKey(row.size_id, row.color_id)] = row.quantity.toString();
+    });
+    setVariantStock(stockMap);
+    setLoadedStock({ quantity: product.quantity_in_stock, variants: stockMap });
+
     setOpen(true);
   };
 
@@ -273,6 +413,21 @@ export default function Products() {
     );
   };
 
+  const updateVariantStock = (key: string, value: string) => {
+    setVariantStock(prev => ({ ...prev, [key]: value }));
+  };
+
+  const editingProduct = editingId ? products?.find(p => p.id === editingId) : undefined;
+  const hasVariants = selectedSizes.length > 0 || selectedColors.length > 0;
+  const matrixSizes = sizes?.filter(s => selectedSizes.includes(s.id)) || [];
+  const matrixColors = colors?.filter(c => selectedColors.includes(c.id)) || [];
+  const variantTotal = Object.entries(variantStock).reduce((sum, [key, value]) => {
+    const { size_id, color_id } = parseVariantKey(key);
+    const inMatrix = (size_id ? selectedSizes.includes(size_id) : selectedSizes.length === 0) &&
+      (color_id ? selectedColors.includes(color_id) : selectedColors.length === 0);
+    return inMatrix ? sum + (parseInt(value) || 0) : sum;
+  }, 0);
+
   // Filter products based on search
   const filteredProducts = products?.filter(product => {
     const matchesSearch = product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -282,6 +437,20 @@ export default function Products() {
     return matchesSearch && matchesCategory;
   });
 
+  const allFilteredSelected = !!filteredProducts?.length &&
+    filteredProducts.every(product => selectedProductIds.includes(product.id));
+
+  const toggleSelectAll = (checked: boolean) => {
+    const ids = filteredProducts?.map(product => product.id) || [];
+    setSelectedProductIds(prev =>
+      checked ? Array.from(new Set([...prev, ...ids])) : prev.filter(id => !ids.includes(id))
+    );
+  };
+
+  const toggleSelectProduct = (productId: string, checked: boolean) => {
+    setSelectedProductIds(prev => checked ? [...prev, productId] : prev.filter(id => id !== productId));
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between gap-4">
@@ -308,10 +477,39 @@ export default function Products() {
             </SelectContent>
           </Select>
         </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" disabled={!products?.length}>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {(Object.keys(spreadsheetFormatLabels) as SpreadsheetFormat[]).map((spreadsheetFormat) => (
+              <DropdownMenuItem key={spreadsheetFormat} onClick={() => exportCatalogue(spreadsheetFormat)}>
+                {spreadsheetFormatLabels[spreadsheetFormat]}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {permissions.manageProducts && (
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+        )}
+        {selectedProductIds.length > 0 && (
+          <Button variant="outline" onClick={() => setLabelsOpen(true)}>
+            <Tag className="mr-2 h-4 w-4" />
+            Print Labels ({selectedProductIds.length})
+          </Button>
+        )}
         <Dialog open={open} onOpenChange={(v) => { if (!v) resetForm(); else setOpen(v); }}>
-          <DialogTrigger asChild>
-            <Button><Plus className="mr-2 h-4 w-4" />Add Product</Button>
-          </DialogTrigger>
+          {permissions.manageProducts && (
+            <DialogTrigger asChild>
+              <Button><Plus className="mr-2 h-4 w-4" />Add Product</Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="max-w-3xl max-h-[90vh]">
             <DialogHeader>
               <DialogTitle>{editingId ? "Edit Product" : "Add New Product"}</DialogTitle>
@@ -325,9 +523,13 @@ export default function Products() {
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="sku">SKU</Label>
-                    <Input id="sku" name="sku" defaultValue={editingId ? products?.find(p => p.id === editingId)?.sku || "" : ""} />
+                    <Input id="sku" name="sku" defaultValue={editingId ? products?.find(p => p.id === editingId)?.sku || "" : ""} placeholder="Generated if left blank" />
                   </div>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="hsn_code">HSN Code</Label>
+                  <Input id="hsn_code" name="hsn_code" defaultValue={editingId ? products?.find(p => p.id === editingId)?.hsn_code || "" : ""} placeholder="Leave blank to use the category's HSN code" />
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="description">Description</Label>
                   <Textarea id="description" name="description" defaultValue={editingId ? products?.find(p => p.id === editingId)?.description || "" : ""} />
@@ -408,15 +610,42 @@ export default function Products() {
                     <Label htmlFor="price_inr">Price (₹) *</Label>
                     <Input id="price_inr" name="price_inr" type="number" step="0.01" min="0" defaultValue={editingId ? products?.find(p => p.id === editingId)?.price_inr : ""} required />
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="cost_inr">Cost (₹)</Label>
-                    <Input id="cost_inr" name="cost_inr" type="number" step="0.01" min="0" defaultValue={editingId ? products?.find(p => p.id === editingId)?.cost_inr || "" : ""} />
-                  </div>
+                  {permissions.viewCostPrices && (
+                    <div className="space-y-2">
+                      <Label htmlFor="cost_inr">Cost (₹)</Label>
+                      <Input id="cost_inr" name="cost_inr" type="number" step="0.01" min="0" defaultValue={editingId ? productCosts?.get(editingId)?.cost_inr || "" : ""} />
+                    </div>
+                  )}
                   <div className="space-y-2">
                     <Label htmlFor="quantity_in_stock">Stock *</Label>
-                    <Input id="quantity_in_stock" name="quantity_in_stock" type="number" min="0" defaultValue={editingId ? products?.find(p => p.id === editingId)?.quantity_in_stock : ""} required />
+                    {hasVariants ? (
+                      <Input id="quantity_in_stock" value={variantTotal} disabled />
+                    ) : (
+                      <Input id="quantity_in_stock" name="quantity_in_stock" type="number" min="0" defaultValue={editingProduct?.quantity_in_stock ?? ""} required />
+                    )}
                   </div>
                 </div>
+                {editingId && (
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label>Reason for Stock Change</Label>
+                      <Select value={stockReason} onValueChange={(v: StockMovementType) => setStockReason(v)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {manualStockMovementTypes.map((type) => (
+                            <SelectItem key={type} value={type}>{stockMovementLabels[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2 col-span-2">
+                      <Label htmlFor="stock_notes">Stock Notes</Label>
+                      <Input id="stock_notes" name="stock_notes" placeholder="Optional, e.g. supplier or damage details" />
+                    </div>
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="category_id">Category</Label>
                   <Select name="category_id" defaultValue={editingId ? products?.find(p => p.id === editingId)?.category_id || "" : ""}>
@@ -480,6 +709,22 @@ export default function Products() {
                     ))}
                   </div>
                 </div>
+                {hasVariants && (
+                  <div className="space-y-2">
+                    <Label>Stock by Size & Color</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Total stock is the sum of all variants
+                      {loadedStock && Object.keys(loadedStock.variants).length === 0 && loadedStock.quantity > 0 &&
+                        ` (currently ${loadedStock.quantity} in stock, not yet split by variant; leave every cell blank to keep it as it is)`}
+                    </p>
+                    <StockMatrixEditor
+                      sizes={matrixSizes}
+                      colors={matrixColors}
+                      values={variantStock}
+                      onChange={updateVariantStock}
+                    />
+                  </div>
+                )}
                 <div className="flex justify-end gap-2 pt-4">
                   <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>
                   <Button type="submit" disabled={isUploadingPrimary || isUploadingSecondary}>
@@ -499,6 +744,13 @@ export default function Products() {
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allFilteredSelected}
+                    onCheckedChange={(checked) => toggleSelectAll(checked === true)}
+                    aria-label="Select all products"
+                  />
+                </TableHead>
                 <TableHead>Image</TableHead>
                 <TableHead>Name</TableHead>
                 <TableHead>SKU</TableHead>
@@ -515,8 +767,21 @@ export default function Products() {
                 const category = categories?.find((c) => c.id === product.category_id);
                 const productSizes = sizes?.filter(s => product.size_ids?.includes(s.id));
                 const productColors = colors?.filter(c => product.color_ids?.includes(c.id));
+                const productVariants = productInventory
+                  ?.filter(v => v.product_id === product.id)
+                  .sort((a, b) =>
+                    (a.sizes?.sort_order ?? 0) - (b.sizes?.sort_order ?? 0) ||
+                    (a.colors?.sort_order ?? 0) - (b.colors?.sort_order ?? 0)
+                  );
                 return (
                   <TableRow key={product.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedProductIds.includes(product.id)}
+                        onCheckedChange={(checked) => toggleSelectProduct(product.id, checked === true)}
+                        aria-label={`Select ${product.name}`}
+                      />
+                    </TableCell>
                     <TableCell>
                       {product.image_url ? (
                         <img src={product.image_url} alt={product.name} className="w-12 h-12 object-cover rounded" />
@@ -591,14 +856,41 @@ export default function Products() {
                       ) : "-"}
                     </TableCell>
                     <TableCell>₹{product.price_inr}</TableCell>
-                    <TableCell>{product.quantity_in_stock}</TableCell>
+                    <TableCell>
+                      {productVariants && productVariants.length > 0 ? (
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Button variant="outline" size="sm" className="h-8">
+                              {product.quantity_in_stock}
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-3">
+                            <div className="space-y-1">
+                              {productVariants.map(v => (
+                                <div key={v.id} className="flex items-center justify-between gap-4">
+                                  <span className="text-sm">{variantLabel(v.sizes?.name, v.colors?.name)}</span>
+                                  <Badge variant={v.quantity === 0 ? "destructive" : "secondary"}>{v.quantity}</Badge>
+                                </div>
+                              ))}
+                            </div>
+                          </PopoverContent>
+                        </Popover>
+                      ) : product.quantity_in_stock}
+                    </TableCell>
                     <TableCell className="text-right space-x-2">
-                      <Button variant="ghost" size="icon" onClick={() => editProduct(product)}>
-                        <Pencil className="h-4 w-4" />
-                      </Button>
-                      <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(product.id)}>
-                        <Trash2 className="h-4 w-4" />
+                      <Button variant="ghost" size="icon" onClick={() => setHistoryProductId(product.id)} title="Stock history">
+                        <History className="h-4 w-4" />
                       </Button>
+                      {permissions.manageProducts && (
+                        <>
+                          <Button variant="ghost" size="icon" onClick={() => editProduct(product)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(product.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
                     </TableCell>
                   </TableRow>
                 );
@@ -607,6 +899,25 @@ export default function Products() {
           </Table>
         </div>
       )}
+
+      <StockHistoryDialog
+        product={products?.find(p => p.id === historyProductId) ?? null}
+        open={!!historyProductId}
+        onOpenChange={(v) => { if (!v) setHistoryProductId(null); }}
+      />
+
+      <PrintLabelsDialog
+        products={products?.filter(p => selectedProductIds.includes(p.id)) || []}
+        open={labelsOpen}
+        onOpenChange={setLabelsOpen}
+      />
+
+      <ImportProductsDialog
+        catalogue={catalogue}
+        includeCost={permissions.viewCostPrices}
+        open={importOpen}
+        onOpenChange={setImportOpen}
+      />
     </div>
   );
 }
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Pencil, Trash2, Plus, PackageCheck, Ban } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { SupplierDialog } from "@/components/Purchases/SupplierDialog";
+import { CreatePurchaseOrderDialog } from "@/components/Purchases/CreatePurchaseOrderDialog";
+import { ReceivePurchaseOrderDialog } from "@/components/Purchases/ReceivePurchaseOrderDialog";
+
+const statusLabels: Record<string, string> = {
+  ordered: "Ordered",
+  partially_received: "Partially Received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+const statusVariant = (status: string) => {
+  if (status === "received") return "default" as const;
+  if (status === "cancelled") return "destructive" as const;
+  if (status === "partially_received") return "secondary" as const;
+  return "outline" as const;
+};
+
+export default function Purchases() {
+  const [supplierDialogOpen, setSupplierDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Tables<"suppliers"> | null>(null);
+  const [receivingOrderId, setReceivingOrderId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data: purchaseOrders, isLoading: ordersLoading } = useQuery({
+    queryKey: ["purchase-orders"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("purchase_orders")
+        .select("*, suppliers(name), purchase_order_items(quantity_ordered, quantity_received)")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: suppliers, isLoading: suppliersLoading } = useQuery({
+    queryKey: ["suppliers"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("suppliers").select("*").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const cancelOrder = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase
+        .from("purchase_orders")
+        .update({ status: "cancelled", updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .eq("status", "ordered")
+        .select("id");
+      if (error) throw error;
+      // Nothing matches once stock has been received against the order, or without permission to cancel it
+      if (data.length === 0) throw new Error("this order can no longer be cancelled");
+    },
+    onSuccess: () => {
+      toast.success("Purchase order cancelled");
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+    },
+    onError: (error) => {
+      console.error("Cancel purchase order error:", error);
+      toast.error(`Failed to cancel purchase order: ${error.message}`);
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+    },
+  });
+
+  const deleteSupplier = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("suppliers").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Supplier deleted");
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+    },
+    onError: (error) => {
+      console.error("Delete supplier error:", error);
+      toast.error("Failed to delete supplier. Suppliers with purchase orders cannot be deleted.");
+    },
+  });
+
+  const openSupplierDialog = (supplier: Tables<"suppliers"> | null) => {
+    setEditingSupplier(supplier);
+    setSupplierDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Purchases</h1>
+
+      <Tabs defaultValue="orders">
+        <TabsList>
+          <TabsTrigger value="orders">Purchase Orders</TabsTrigger>
+          <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders" className="space-y-4">
+          <div className="flex justify-end">
+            <CreatePurchaseOrderDialog />
+          </div>
+          {ordersLoading ? (
+            <div>Loading...</div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>PO Number</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Order Date</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {purchaseOrders?.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground">
+                        No purchase orders yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {purchaseOrders?.map((order) => {
+                    const ordered = order.purchase_order_items.reduce((sum, item) => sum + item.quantity_ordered, 0);
+                    const received = order.purchase_order_items.reduce((sum, item) => sum + item.quantity_received, 0);
+                    const canReceive = order.status === "ordered" || order.status === "partially_received";
+                    return (
+                      <TableRow key={order.id}>
+                        <TableCell className="font-medium">{order.po_number}</TableCell>
+                        <TableCell>{order.suppliers?.name || "-"}</TableCell>
+                        <TableCell>{format(new Date(order.order_date), "dd MMM yyyy")}</TableCell>
+                        <TableCell>
+                          {order.expected_date ? format(new Date(order.expected_date), "dd MMM yyyy") : "-"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariant(order.status)}>{statusLabels[order.status] || order.status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {received} / {ordered}
+                        </TableCell>
+                        <TableCell className="text-right">₹{Number(order.total_amount).toFixed(2)}</TableCell>
+                        <TableCell className="text-right space-x-2">
+                          {canReceive && (
+                            <Button variant="outline" size="sm" onClick={() => setReceivingOrderId(order.id)}>
+                              <PackageCheck className="mr-2 h-4 w-4" />
+                              Receive
+                            </Button>
+                          )}
+                          {order.status === "ordered" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Cancel purchase order"
+                              onClick={() => cancelOrder.mutate(order.id)}
+                            >
+                              <Ban className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="suppliers" className="space-y-4">
+          <div className="flex justify-end">
+            <Button onClick={() => openSupplierDialog(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Supplier
+            </Button>
+          </div>
+          {suppliersLoading ? (
+            <div>Loading...</div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>GSTIN</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Payment Terms</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suppliers?.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No suppliers yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {suppliers?.map((supplier) => (
+                    <TableRow key={supplier.id}>
+                      <TableCell className="font-medium">{supplier.name}</TableCell>
+                      <TableCell className="font-mono text-sm">{supplier.gstin || "-"}</TableCell>
+                      <TableCell>{supplier.contact_person || "-"}</TableCell>
+                      <TableCell>{supplier.phone || "-"}</TableCell>
+                      <TableCell>{supplier.payment_terms || "-"}</TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button variant="ghost" size="icon" onClick={() => openSupplierDialog(supplier)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => deleteSupplier.mutate(supplier.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <SupplierDialog supplier={editingSupplier} open={supplierDialogOpen} onOpenChange={setSupplierDialogOpen} />
+      <ReceivePurchaseOrderDialog
+        purchaseOrderId={receivingOrderId}
+        open={!!receivingOrderId}
+        onOpenChange={(v) => { if (!v) setReceivingOrderId(null); }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, IndianRupee, MessageCircle, Wallet } from "lucide-react";
+import { format } from "date-fns";
+import { EditInvoiceDialog } from "@/components/Invoices/EditInvoiceDialog";
+import { PaymentStatusBadge } from "@/components/Invoices/PaymentStatusBadge";
+import { PaymentRemindersDialog } from "@/components/Invoices/PaymentRemindersDialog";
+import { AgingBucket, agingBucketOf, agingBuckets } from "@/lib/payments";
+
+interface CustomerReceivables {
+  key: string;
+  name: string;
+  phone: string | null;
+  invoices: Tables<"receivables">[];
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  overdue: number;
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ current: 0, days31to60: 0, over60: 0 });
+
+export default function Receivables() {
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [paymentInvoiceId, setPaymentInvoiceId] = useState<string | null>(null);
+  const [remindersOpen, setRemindersOpen] = useState(false);
+
+  const { data: receivables, isLoading } = useQuery({
+    queryKey: ["receivables"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("receivables")
+        .select("*")
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: storeSettings } = useQuery({
+    queryKey: ["store-settings"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("store_settings").select("*").maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const overdueCount = (receivables || []).filter((invoice) => invoice.payment_status === "overdue").length;
+
+  // Group by customer; invoices without a linked customer are grouped by name
+  const customers = Object.values(
+    (receivables || []).reduce<Record<string, CustomerReceivables>>((groups, invoice) => {
+      const key = invoice.customer_id || invoice.customer_name || "walk-in";
+      const group = groups[key] || (groups[key] = {
+        key,
+        name: invoice.customer_name || "Walk-in customer",
+        phone: invoice.customer_phone,
+        invoices: [],
+        buckets: emptyBuckets(),
+        total: 0,
+        overdue: 0,
+      });
+      const balance = Number(invoice.balance_due);
+
+      group.invoices.push(invoice);
+      group.buckets[agingBucketOf(invoice.days_outstanding)] += balance;
+      group.total += balance;
+      if (invoice.payment_status === "overdue") group.overdue += balance;
+      return groups;
+    }, {})
+  ).sort((a, b) => b.total - a.total);
+
+  const totals = customers.reduce(
+    (sum, customer) => {
+      agingBuckets.forEach(({ key }) => {
+        sum.buckets[key] += customer.buckets[key];
+      });
+      sum.total += customer.total;
+      sum.overdue += customer.overdue;
+      return sum;
+    },
+    { buckets: emptyBuckets(), total: 0, overdue: 0 }
+  );
+
+  const renderCard = (title: string, amount: number, description: string) => (
+    <Card key={title}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <IndianRupee className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">₹{amount.toFixed(2)}</div>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Receivables</h1>
+        <Button variant="outline" onClick={() => setRemindersOpen(true)} disabled={overdueCount === 0}>
+          <MessageCircle className="mr-2 h-4 w-4" />
+          Send Reminders ({overdueCount})
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-5">
+        {renderCard("Total Due", totals.total, `${receivables?.length || 0} open invoices`)}
+        {renderCard("Overdue", totals.overdue, "Past the expected payment date")}
+        {agingBuckets.map((bucket) =>
+          renderCard(bucket.label, totals.buckets[bucket.key], "Since the invoice date")
+        )}
+      </div>
+
+      {isLoading ? (
+        <div>Loading...</div>
+      ) : customers.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <Wallet className="mx-auto mb-2 h-8 w-8" />
+          Nothing outstanding. Every invoice has been paid.
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Customer</TableHead>
+                <TableHead className="text-right">Invoices</TableHead>
+                {agingBuckets.map((bucket) => (
+                  <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                ))}
+                <TableHead className="text-right">Total Due</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {customers.map((customer) => (
+                <Fragment key={customer.key}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpandedKey(expandedKey === customer.key ? null : customer.key)}
+                  >
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {expandedKey === customer.key
+                          ? <ChevronDown className="h-4 w-4" />
+                          : <ChevronRight className="h-4 w-4" />}
+                        <div>
+                          {customer.name}
+                          {customer.phone && (
+                            <div className="text-xs font-normal text-muted-foreground">{customer.phone}</div>
+                          )}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{customer.invoices.length}</TableCell>
+                    {agingBuckets.map((bucket) => (
+                      <TableCell key={bucket.key} className="text-right">
+                        {customer.buckets[bucket.key] > 0 ? `₹${customer.buckets[bucket.key].toFixed(2)}` : "-"}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-semibold">
+                      ₹{customer.total.toFixed(2)}
+                      {customer.overdue > 0 && (
+                        <div className="text-xs font-normal text-red-600">₹{customer.overdue.toFixed(2)} overdue</div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  {expandedKey === customer.key && customer.invoices.map((invoice) => (
+                    <TableRow key={invoice.invoice_id} className="bg-muted/50">
+                      <TableCell className="pl-10">
+                        {invoice.invoice_number}
+                        <div className="text-xs text-muted-foreground">
+                          {format(new Date(invoice.created_at), "PP")} · {invoice.days_outstanding} days
+                          {invoice.expected_payment_date && ` · due ${format(new Date(invoice.expected_payment_date), "PP")}`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <PaymentStatusBadge invoice={invoice} />
+                      </TableCell>
+                      <TableCell colSpan={agingBuckets.length} className="text-right text-sm text-muted-foreground">
+                        ₹{Number(invoice.grand_total).toFixed(2)} billed
+                        {Number(invoice.amount_paid) > 0 && ` · ₹${Number(invoice.amount_paid).toFixed(2)} paid`}
+                        {Number(invoice.credited_amount) > 0 && ` · ₹${Number(invoice.credited_amount).toFixed(2)} returned`}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <span className="font-medium">₹{Number(invoice.balance_due).toFixed(2)}</span>
+                          <Button size="sm" variant="outline" onClick={() => setPaymentInvoiceId(invoice.invoice_id)}>
+                            Record Payment
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <PaymentRemindersDialog
+        receivables={receivables || []}
+        storeSettings={storeSettings}
+        open={remindersOpen}
+        onOpenChange={setRemindersOpen}
+      />
+
+      <EditInvoiceDialog
+        invoiceId={paymentInvoiceId}
+        open={!!paymentInvoiceId}
+        onOpenChange={(isOpen) => { if (!isOpen) setPaymentInvoiceId(null); }}
+      />
+    </div>
+  );
+}
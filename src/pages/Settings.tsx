@@ -1,12 +1,34 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { Upload, X, Trash2 } from "lucide-react";
+import { CostingMethod, costingMethodDescriptions, costingMethodLabels } from "@/lib/costing";
+import { gstStates, gstinStateCode, isValidGstin } from "@/lib/tax";
+import { PrintFormat, printFormatLabels } from "@/lib/receipt";
+import { isValidUpiId } from "@/lib/upi";
+import {
+  InvoiceBranding,
+  InvoiceFont,
+  InvoiceTemplate,
+  invoiceBrandingFor,
+  invoiceFontLabels,
+  invoiceTemplateLabels,
+} from "@/lib/invoice-templates";
+import {
+  MessagePlaceholder,
+  defaultInvoiceMessage,
+  defaultReminderMessage,
+  messagePlaceholderLabels,
+} from "@/lib/whatsapp";
+import { useAuth } from "@/hooks/use-auth";
+import { TeamMembers } from "@/components/Settings/TeamMembers";
+import { InvoicePreview } from "@/components/Settings/InvoicePreview";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -21,6 +43,7 @@ import {
 
 export default function Settings() {
   const { toast } = useToast();
+  const { permissions } = useAuth();
   const queryClient = useQueryClient();
   const [logoFile, setLogoFile] = useState<File | null>(null);
   const [logoPreview, setLogoPreview] = useState<string>("");
@@ -28,6 +51,7 @@ export default function Settings() {
   const [whatsappQRPreview, setWhatsappQRPreview] = useState<string>("");
   const [instagramQRFile, setInstagramQRFile] = useState<File | null>(null);
   const [instagramQRPreview, setInstagramQRPreview] = useState<string>("");
+  const [invoiceDesign, setInvoiceDesign] = useState<Partial<InvoiceBranding>>({});
 
   const { data: settings, isLoading, error: settingsError } = useQuery({
     queryKey: ["store-settings"],
@@ -73,6 +97,21 @@ export default function Settings() {
   
   const user = userResponse?.data?.user;
 
+  // Changes to the invoice design show in the preview before they are saved
+  const branding: InvoiceBranding = { ...invoiceBrandingFor(settings), ...invoiceDesign };
+  const previewSettings = useMemo(
+    () =>
+      settings && {
+        ...settings,
+        logo_url: logoPreview || settings.logo_url,
+        invoice_template: branding.template,
+        invoice_font_family: branding.font,
+        invoice_primary_color: branding.primaryColor,
+        invoice_secondary_color: branding.secondaryColor,
+      },
+    [settings, logoPreview, branding.template, branding.font, branding.primaryColor, branding.secondaryColor]
+  );
+
   const updateMutation = useMutation({
     mutationFn: async (data: any) => {
       if (!settings) throw new Error("No settings found");
@@ -116,6 +155,23 @@ export default function Settings() {
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
+
+    const gstin = ((formData.get("gstin") as string) || "").trim().toUpperCase();
+    const gstEnabled = formData.get("gst_enabled") === "on";
+    if (gstin && !isValidGstin(gstin)) {
+      toast({ title: "Enter a valid 15 character GSTIN", variant: "destructive" });
+      return;
+    }
+    if (gstEnabled && !gstin) {
+      toast({ title: "Add the store's GSTIN to bill with GST", variant: "destructive" });
+      return;
+    }
+
+    const upiVpa = ((formData.get("upi_vpa") as string) || "").trim();
+    if (upiVpa && !isValidUpiId(upiVpa)) {
+      toast({ title: "Enter a valid UPI ID, e.g. mystore@okicici", variant: "destructive" });
+      return;
+    }
     
     let logoUrl = settings?.logo_url;
     let whatsappQRUrl = settings?.whatsapp_qr_url;
@@ -136,18 +192,42 @@ export default function Settings() {
       if (uploadedUrl) instagramQRUrl = uploadedUrl;
     }
     
+    // Messages left as the default are stored as null, so they follow changes to the default
+    const whatsappMessage = (name: string, defaultMessage: string) => {
+      const message = ((formData.get(name) as string) || "").trim();
+      return message && message !== defaultMessage ? message : null;
+    };
+
     const updates = {
       store_name: formData.get("store_name") as string,
       email: (formData.get("email") as string) || null,
       phone: (formData.get("phone") as string) || null,
       address: (formData.get("address") as string) || null,
       tax_percentage: parseFloat(formData.get("tax_percentage") as string) || 0,
+      gst_enabled: gstEnabled,
+      gstin: gstin || null,
+      // The state is part of the GSTIN, so a valid GSTIN decides it
+      state_code: gstinStateCode(gstin) || (formData.get("state_code") as string) || null,
+      gst_slab_threshold: parseFloat(formData.get("gst_slab_threshold") as string) || 1000,
+      gst_rate_below_threshold: parseFloat(formData.get("gst_rate_below_threshold") as string) || 0,
+      gst_rate_above_threshold: parseFloat(formData.get("gst_rate_above_threshold") as string) || 0,
       currency_symbol: formData.get("currency_symbol") as string,
       low_stock_threshold: parseInt(formData.get("low_stock_threshold") as string) || 10,
+      costing_method: (formData.get("costing_method") as string) || "weighted_average",
+      print_format: (formData.get("print_format") as string) || "a4",
+      receipt_footer: ((formData.get("receipt_footer") as string) || "").trim() || null,
+      upi_vpa: upiVpa || null,
+      upi_payee_name: ((formData.get("upi_payee_name") as string) || "").trim() || null,
+      invoice_template: (formData.get("invoice_template") as string) || "classic",
+      invoice_font_family: (formData.get("invoice_font_family") as string) || "helvetica",
+      invoice_primary_color: (formData.get("invoice_primary_color") as string) || "#000000",
+      invoice_secondary_color: (formData.get("invoice_secondary_color") as string) || "#666666",
       whatsapp_channel_name: (formData.get("whatsapp_channel_name") as string) || '',
       instagram_page_id: (formData.get("instagram_page_id") as string) || '',
       whatsapp_tagline: (formData.get("whatsapp_tagline") as string) || 'Join our WhatsApp group',
       instagram_tagline: (formData.get("instagram_tagline") as string) || 'Follow us on Instagram',
+      whatsapp_invoice_message: whatsappMessage("whatsapp_invoice_message", defaultInvoiceMessage),
+      whatsapp_reminder_message: whatsappMessage("whatsapp_reminder_message", defaultReminderMessage),
       logo_url: logoUrl,
       whatsapp_qr_url: whatsappQRUrl,
       instagram_qr_url: instagramQRUrl
@@ -359,6 +439,67 @@ export default function Settings() {
           <div className="space-y-2">
             <Label htmlFor="tax_percentage">Default Tax Percentage (%)</Label>
             <Input id="tax_percentage" name="tax_percentage" type="number" step="0.01" min="0" defaultValue={settings?.tax_percentage || ""} placeholder="0" />
+            <p className="text-sm text-muted-foreground">Used when the store does not bill with GST.</p>
+          </div>
+
+          <div className="mb-6 mt-8">
+            <h3 className="text-lg font-semibold">GST</h3>
+            <p className="text-sm text-muted-foreground">
+              Tax invoices with HSN codes and a CGST + SGST or IGST split. Each piece is taxed at the lower
+              rate up to the threshold value and at the higher rate above it.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="gst_enabled">Billing</Label>
+              <Select name="gst_enabled" defaultValue={settings?.gst_enabled ? "on" : "off"}>
+                <SelectTrigger id="gst_enabled">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Flat tax percentage</SelectItem>
+                  <SelectItem value="on">GST tax invoices</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gstin">Store GSTIN</Label>
+              <Input id="gstin" name="gstin" maxLength={15} defaultValue={settings?.gstin || ""} placeholder="e.g. 27ABCDE1234F1Z5" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="state_code">Store State</Label>
+              <Select name="state_code" defaultValue={settings?.state_code || undefined}>
+                <SelectTrigger id="state_code">
+                  <SelectValue placeholder="Taken from the GSTIN" />
+                </SelectTrigger>
+                <SelectContent>
+                  {gstStates.map((state) => (
+                    <SelectItem key={state.code} value={state.code}>
+                      {state.code} - {state.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gst_slab_threshold">Slab Threshold per Piece (₹)</Label>
+              <Input id="gst_slab_threshold" name="gst_slab_threshold" type="number" step="0.01" min="0" defaultValue={settings?.gst_slab_threshold ?? 1000} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="gst_rate_below_threshold">GST up to Threshold (%)</Label>
+              <Input id="gst_rate_below_threshold" name="gst_rate_below_threshold" type="number" step="0.01" min="0" defaultValue={settings?.gst_rate_below_threshold ?? 5} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gst_rate_above_threshold">GST above Threshold (%)</Label>
+              <Input id="gst_rate_above_threshold" name="gst_rate_above_threshold" type="number" step="0.01" min="0" defaultValue={settings?.gst_rate_above_threshold ?? 12} />
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -366,6 +507,165 @@ export default function Settings() {
             <Input id="low_stock_threshold" name="low_stock_threshold" type="number" min="0" defaultValue={settings?.low_stock_threshold || 10} placeholder="10" />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="costing_method">Costing Method</Label>
+            <Select name="costing_method" defaultValue={settings?.costing_method || "weighted_average"}>
+              <SelectTrigger id="costing_method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(costingMethodLabels) as CostingMethod[]).map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {costingMethodLabels[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              {costingMethodDescriptions[(settings?.costing_method || "weighted_average") as CostingMethod]}. Applies to
+              sales made from now on.
+            </p>
+          </div>
+
+          <div className="mb-6 mt-8">
+            <h3 className="text-lg font-semibold">Printing</h3>
+            <p className="text-sm text-muted-foreground">
+              How invoices print unless another format is picked for a print. Receipts fit 58 mm and 80 mm
+              thermal printers.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="print_format">Default Print Format</Label>
+              <Select name="print_format" defaultValue={settings?.print_format || "a4"}>
+                <SelectTrigger id="print_format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(printFormatLabels) as PrintFormat[]).map((printFormat) => (
+                    <SelectItem key={printFormat} value={printFormat}>
+                      {printFormatLabels[printFormat]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="receipt_footer">Receipt Footer</Label>
+              <Textarea
+                id="receipt_footer"
+                name="receipt_footer"
+                rows={2}
+                defaultValue={settings?.receipt_footer || ""}
+                placeholder="e.g. Exchange within 7 days with this receipt"
+              />
+            </div>
+          </div>
+
+          <div className="mb-6 mt-8">
+            <h3 className="text-lg font-semibold">UPI Payments</h3>
+            <p className="text-sm text-muted-foreground">
+              Invoices, receipts and the POS show a QR code customers scan to pay, with the amount filled in.
+              Invoices that are paid in full leave it out.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="upi_vpa">UPI ID</Label>
+              <Input id="upi_vpa" name="upi_vpa" defaultValue={settings?.upi_vpa || ""} placeholder="e.g. mystore@okicici" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="upi_payee_name">Payee Name</Label>
+              <Input
+                id="upi_payee_name"
+                name="upi_payee_name"
+                defaultValue={settings?.upi_payee_name || ""}
+                placeholder={settings?.store_name || "Store name"}
+              />
+            </div>
+          </div>
+
+          <div className="mb-6 mt-8">
+            <h3 className="text-lg font-semibold">Invoice Design</h3>
+            <p className="text-sm text-muted-foreground">
+              Template, font and colors of A4 invoices and credit notes. The preview updates as you make changes.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="invoice_template">Template</Label>
+                <Select
+                  name="invoice_template"
+                  value={branding.template}
+                  onValueChange={(value: InvoiceTemplate) => setInvoiceDesign((prev) => ({ ...prev, template: value }))}
+                >
+                  <SelectTrigger id="invoice_template">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(invoiceTemplateLabels) as InvoiceTemplate[]).map((template) => (
+                      <SelectItem key={template} value={template}>
+                        {invoiceTemplateLabels[template]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invoice_font_family">Font</Label>
+                <Select
+                  name="invoice_font_family"
+                  value={branding.font}
+                  onValueChange={(value: InvoiceFont) => setInvoiceDesign((prev) => ({ ...prev, font: value }))}
+                >
+                  <SelectTrigger id="invoice_font_family">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(invoiceFontLabels) as InvoiceFont[]).map((font) => (
+                      <SelectItem key={font} value={font}>
+                        {invoiceFontLabels[font]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invoice_primary_color">Primary Color</Label>
+                  <Input
+                    id="invoice_primary_color"
+                    name="invoice_primary_color"
+                    type="color"
+                    className="h-10 p-1"
+                    value={branding.primaryColor}
+                    onChange={(e) => setInvoiceDesign((prev) => ({ ...prev, primaryColor: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoice_secondary_color">Secondary Color</Label>
+                  <Input
+                    id="invoice_secondary_color"
+                    name="invoice_secondary_color"
+                    type="color"
+                    className="h-10 p-1"
+                    value={branding.secondaryColor}
+                    onChange={(e) => setInvoiceDesign((prev) => ({ ...prev, secondaryColor: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                The primary color is used for the store name, headings and the grand total; the secondary color
+                for contact details and table shading.
+              </p>
+            </div>
+            {previewSettings && <InvoicePreview storeSettings={previewSettings} />}
+          </div>
+
           <div className="mb-6 mt-8">
             <h3 className="text-lg font-semibold">Social Media Settings</h3>
             <p className="text-sm text-muted-foreground">Upload QR codes and add details to display on invoices</p>
@@ -497,12 +797,46 @@ export default function Settings() {
             </div>
           </div>
 
+          <div className="mb-6 mt-8">
+            <h3 className="text-lg font-semibold">WhatsApp Messages</h3>
+            <p className="text-sm text-muted-foreground">
+              Sent with invoices and payment reminders. These placeholders are filled in for each invoice:{" "}
+              {(Object.keys(messagePlaceholderLabels) as MessagePlaceholder[])
+                .map((placeholder) => `{${placeholder}} ${messagePlaceholderLabels[placeholder].toLowerCase()}`)
+                .join(", ")}
+              .
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="whatsapp_invoice_message">Invoice Message</Label>
+              <Textarea
+                id="whatsapp_invoice_message"
+                name="whatsapp_invoice_message"
+                rows={4}
+                defaultValue={settings?.whatsapp_invoice_message || defaultInvoiceMessage}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="whatsapp_reminder_message">Payment Reminder Message</Label>
+              <Textarea
+                id="whatsapp_reminder_message"
+                name="whatsapp_reminder_message"
+                rows={4}
+                defaultValue={settings?.whatsapp_reminder_message || defaultReminderMessage}
+              />
+            </div>
+          </div>
+
           <div className="flex justify-end">
             <Button type="submit">Save Changes</Button>
           </div>
         </form>
       </div>
 
+      {permissions.manageTeam && <TeamMembers />}
+
       <div className="rounded-lg border bg-card p-6 border-destructive">
         <div className="mb-6">
           <h3 className="text-lg font-semibold text-destructive">Danger Zone</h3>
@@ -8,11 +8,13 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Plus, Pencil, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Sizes() {
   const [open, setOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const { toast } = useToast();
+  const { permissions } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: sizes, isLoading } = useQuery({
@@ -67,9 +69,11 @@ export default function Sizes() {
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold">Sizes</h1>
         <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) setEditingId(null); }}>
-          <DialogTrigger asChild>
-            <Button><Plus className="mr-2 h-4 w-4" />Add Size</Button>
-          </DialogTrigger>
+          {permissions.manageProducts && (
+            <DialogTrigger asChild>
+              <Button><Plus className="mr-2 h-4 w-4" />Add Size</Button>
+            </DialogTrigger>
+          )}
           <DialogContent>
             <DialogHeader>
               <DialogTitle>{editingId ? "Edit Size" : "Add New Size"}</DialogTitle>
@@ -110,12 +114,16 @@ export default function Sizes() {
                   <TableCell className="font-medium">{size.name}</TableCell>
                   <TableCell>{size.sort_order}</TableCell>
                   <TableCell className="text-right space-x-2">
-                    <Button variant="ghost" size="icon" onClick={() => { setEditingId(size.id); setOpen(true); }}>
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                    <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(size.id)}>
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    {permissions.manageProducts && (
+                      <>
+                        <Button variant="ghost" size="icon" onClick={() => { setEditingId(size.id); setOpen(true); }}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(size.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
                   </TableCell>
                 </TableRow>
               ))}
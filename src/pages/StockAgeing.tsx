@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, Hourglass } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { SpreadsheetFormat, downloadSpreadsheet, spreadsheetFormatLabels } from "@/lib/spreadsheet";
+import {
+  AgeingBucket,
+  ageingBucketLabels,
+  ageingBucketMarkdowns,
+  fetchStockAgeing,
+  stockAgeingRows,
+} from "@/lib/stock-ageing";
+
+type BucketFilter = AgeingBucket | "all" | "slow";
+
+const buckets = Object.keys(ageingBucketLabels) as AgeingBucket[];
+
+const bucketVariants: Record<AgeingBucket, "outline" | "secondary" | "default" | "destructive"> = {
+  under_60: "outline",
+  "60_89": "secondary",
+  "90_179": "default",
+  "180_plus": "destructive",
+};
+
+export default function StockAgeing() {
+  const { toast } = useToast();
+  const [bucketFilter, setBucketFilter] = useState<BucketFilter>("slow");
+
+  const { data: products, isLoading } = useQuery({
+    queryKey: ["stock-ageing"],
+    queryFn: () => fetchStockAgeing(),
+  });
+
+  const filteredProducts = products?.filter((product) =>
+    bucketFilter === "all" ? true : bucketFilter === "slow" ? product.bucket !== "under_60" : product.bucket === bucketFilter
+  );
+
+  const exportReport = async (spreadsheetFormat: SpreadsheetFormat) => {
+    try {
+      await downloadSpreadsheet(
+        stockAgeingRows(filteredProducts || []),
+        `Stock-Ageing-${format(new Date(), "yyyy-MM-dd")}`,
+        spreadsheetFormat
+      );
+    } catch (error) {
+      console.error("Stock ageing export error:", error);
+      toast({ title: "Failed to export stock ageing", variant: "destructive" });
+    }
+  };
+
+  const renderBucketCard = (bucket: AgeingBucket) => {
+    const inBucket = products?.filter((product) => product.bucket === bucket) || [];
+    const value = inBucket.reduce((sum, product) => sum + product.stockValue, 0);
+
+    return (
+      <Card
+        key={bucket}
+        className={`cursor-pointer transition-colors ${bucketFilter === bucket ? "border-primary" : "hover:bg-accent/50"}`}
+        onClick={() => setBucketFilter(bucketFilter === bucket ? "slow" : bucket)}
+      >
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">{ageingBucketLabels[bucket]}</CardTitle>
+          <Hourglass className="h-4 w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold">₹{value.toFixed(2)}</div>
+          <p className="text-xs text-muted-foreground">
+            {inBucket.length} {inBucket.length === 1 ? "product" : "products"} at cost
+            {ageingBucketMarkdowns[bucket] > 0 && ` · ${ageingBucketMarkdowns[bucket]}% markdown`}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderTable = () => {
+    if (isLoading) {
+      return <div className="text-center py-8">Loading...</div>;
+    }
+    if (!filteredProducts || filteredProducts.length === 0) {
+      return <div className="text-center py-8 text-muted-foreground">No products in stock match this filter</div>;
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Product</TableHead>
+            <TableHead className="text-right">In Stock</TableHead>
+            <TableHead className="text-right">Value at Cost</TableHead>
+            <TableHead>Last Sold</TableHead>
+            <TableHead className="text-right">Days Since Last Sale</TableHead>
+            <TableHead>Last Received</TableHead>
+            <TableHead className="text-right">Sold (90 days)</TableHead>
+            <TableHead>Ageing</TableHead>
+            <TableHead className="text-right">Suggested Price</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {filteredProducts.map((product) => (
+            <TableRow key={product.productId}>
+              <TableCell>
+                <p className="font-medium">{product.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {[product.category, product.sku && `SKU: ${product.sku}`].filter(Boolean).join(" · ")}
+                </p>
+              </TableCell>
+              <TableCell className="text-right">{product.stock}</TableCell>
+              <TableCell className="text-right">₹{product.stockValue.toFixed(2)}</TableCell>
+              <TableCell>{product.lastSoldAt ? format(product.lastSoldAt, "PP") : "Never"}</TableCell>
+              <TableCell className="text-right">{product.daysIdle}</TableCell>
+              <TableCell>{product.lastReceivedAt ? format(product.lastReceivedAt, "PP") : "-"}</TableCell>
+              <TableCell className="text-right">{product.unitsSold90Days}</TableCell>
+              <TableCell>
+                <Badge variant={bucketVariants[product.bucket]}>{ageingBucketLabels[product.bucket]}</Badge>
+              </TableCell>
+              <TableCell className="text-right">
+                {product.markdownPercent > 0 ? (
+                  <>
+                    <p className="font-semibold">₹{product.markdownPrice.toFixed(2)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      <span className="line-through">₹{product.price.toFixed(2)}</span>{" "}
+                      {product.markdownAtCost ? "at cost" : `-${product.markdownPercent}%`}
+                    </p>
+                  </>
+                ) : (
+                  `₹${product.price.toFixed(2)}`
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Stock Ageing</h1>
+          <p className="text-muted-foreground mt-1">Find dead stock and slow movers tying up cash</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={bucketFilter} onValueChange={(v: BucketFilter) => setBucketFilter(v)}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="slow">Not sold in 60+ days</SelectItem>
+              <SelectItem value="all">All stock</SelectItem>
+              {buckets.map((bucket) => (
+                <SelectItem key={bucket} value={bucket}>
+                  {ageingBucketLabels[bucket]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={!filteredProducts?.length}>
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {(Object.keys(spreadsheetFormatLabels) as SpreadsheetFormat[]).map((spreadsheetFormat) => (
+                <DropdownMenuItem key={spreadsheetFormat} onClick={() => exportReport(spreadsheetFormat)}>
+                  {spreadsheetFormatLabels[spreadsheetFormat]}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">{buckets.map(renderBucketCard)}</div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {bucketFilter === "all"
+              ? "All Stock"
+              : bucketFilter === "slow"
+                ? "Not Sold in 60+ Days"
+                : ageingBucketLabels[bucketFilter]}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {renderTable()}
+          <p className="mt-4 text-xs text-muted-foreground">
+            Days are counted from the last sale, or for products that have never sold, from when their oldest stock
+            came in. Suggested prices never go below cost.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,78 +1,57 @@
 import { useState } from "react";
 import { useDate } from "@/contexts/DateContext";
 import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Button } from "@/components/ui/button";
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Calendar } from "@/components/ui/calendar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { CalendarIcon } from "lucide-react";
-import { cn } from "@/lib/utils";
-import { format, startOfDay, endOfDay, startOfMonth, endOfMonth, startOfYear, endOfYear } from "date-fns";
+import {
+  ComparisonPeriod,
+  ProductSales,
+  comparisonPeriodLabels,
+  comparisonRange,
+  fetchSalesByProduct,
+} from "@/lib/analytics";
+import { ChangeIndicator, SalesComparisonCard } from "@/components/Dashboard/SalesComparisonCard";
+import { describeReportPeriod } from "@/lib/date-ranges";
+import { DateRangePicker } from "@/components/Layout/DateRangePicker";
+import { SalesBreakdown } from "@/components/Dashboard/SalesBreakdown";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Trending() {
-  const { selectedDate } = useDate();
-  const [localDate, setLocalDate] = useState<Date>(new Date());
+  const { period, range } = useDate();
+  const { permissions } = useAuth();
   const [sortBy, setSortBy] = useState<'quantity' | 'revenue'>('quantity');
-
-  const getTrendingProducts = async (startDate: Date, endDate: Date) => {
-    const { data, error } = await supabase
-      .from("sales_records")
-      .select("product_id, product_name, quantity, total_price, sale_date")
-      .gte("sale_date", startDate.toISOString())
-      .lte("sale_date", endDate.toISOString());
-
-    if (error) throw error;
-
-    const productStats = data.reduce((acc: any, record) => {
-      if (!acc[record.product_id]) {
-        acc[record.product_id] = {
-          product_id: record.product_id,
-          product_name: record.product_name,
-          total_quantity: 0,
-          total_revenue: 0,
-        };
-      }
-      acc[record.product_id].total_quantity += record.quantity;
-      acc[record.product_id].total_revenue += Number(record.total_price);
-      return acc;
-    }, {});
-
-    return Object.values(productStats).slice(0, 20);
-  };
-
-  const { data: todayProducts, isLoading: loadingToday } = useQuery({
-    queryKey: ["trending-today", localDate],
-    queryFn: () => getTrendingProducts(startOfDay(localDate), endOfDay(localDate)),
-  });
-
-  const { data: monthProducts, isLoading: loadingMonth } = useQuery({
-    queryKey: ["trending-month", localDate],
-    queryFn: () => getTrendingProducts(startOfMonth(localDate), endOfMonth(localDate)),
-  });
-
-  const { data: yearProducts, isLoading: loadingYear } = useQuery({
-    queryKey: ["trending-year", localDate],
-    queryFn: () => getTrendingProducts(startOfYear(localDate), endOfYear(localDate)),
+  const [compareWith, setCompareWith] = useState<ComparisonPeriod | 'none'>('none');
+
+  const { data: trendingProducts, isLoading } = useQuery({
+    queryKey: ["trending-products", range.start, range.end, compareWith],
+    queryFn: async () => {
+      const compared = compareWith === 'none' ? null : comparisonRange(range, compareWith);
+      const [products, comparedProducts] = await Promise.all([
+        fetchSalesByProduct(range.start, range.end),
+        compared ? fetchSalesByProduct(compared.start, compared.end) : null,
+      ]);
+      return { products, comparedProducts };
+    },
   });
 
-  const renderTable = (products: any[] | undefined, isLoading: boolean) => {
+  const renderTable = (
+    data: { products: ProductSales[]; comparedProducts: ProductSales[] | null } | undefined,
+    isLoading: boolean
+  ) => {
     if (isLoading) return <div className="text-center py-8">Loading...</div>;
 
+    const products = data?.products;
     if (!products || products.length === 0) {
       return <div className="text-center py-8 text-muted-foreground">No sales data available</div>;
     }
 
-    const sortedProducts = [...products].sort((a: any, b: any) => {
-      if (sortBy === 'quantity') {
-        return b.total_quantity - a.total_quantity;
-      }
-      return b.total_revenue - a.total_revenue;
-    });
+    const sortedProducts = [...products]
+      .sort((a, b) => (sortBy === 'quantity' ? b.units - a.units : b.revenue - a.revenue))
+      .slice(0, 20);
+    const metric = sortBy === 'quantity' ? 'units' : 'revenue';
+    const compared = new Map(data.comparedProducts?.map((p) => [p.productId || p.productName, p]));
 
     return (
       <Table>
@@ -83,24 +62,35 @@ export default function Trending() {
             <TableHead className="text-right">Units Sold</TableHead>
             <TableHead className="text-right">Revenue</TableHead>
             <TableHead className="text-right">Avg. Price</TableHead>
+            {compareWith !== 'none' && (
+              <TableHead className="text-right">vs {comparisonPeriodLabels[compareWith]}</TableHead>
+            )}
           </TableRow>
         </TableHeader>
         <TableBody>
-          {sortedProducts.map((product: any, index: number) => (
-            <TableRow key={product.product_id}>
+          {sortedProducts.map((product, index) => (
+            <TableRow key={product.productId || product.productName}>
               <TableCell>
                 <Badge variant={index < 3 ? "default" : "secondary"}>
                   #{index + 1}
                 </Badge>
               </TableCell>
-              <TableCell className="font-medium">{product.product_name}</TableCell>
+              <TableCell className="font-medium">{product.productName}</TableCell>
               <TableCell className="text-right font-semibold">
-                {product.total_quantity}
+                {product.units}
               </TableCell>
-              <TableCell className="text-right">₹{product.total_revenue.toFixed(2)}</TableCell>
+              <TableCell className="text-right">₹{product.revenue.toFixed(2)}</TableCell>
               <TableCell className="text-right">
-                ₹{(product.total_revenue / product.total_quantity).toFixed(2)}
+                ₹{(product.units ? product.revenue / product.units : 0).toFixed(2)}
               </TableCell>
+              {compareWith !== 'none' && (
+                <TableCell className="text-right">
+                  <ChangeIndicator
+                    current={product[metric]}
+                    previous={compared.get(product.productId || product.productName)?.[metric] || 0}
+                  />
+                </TableCell>
+              )}
             </TableRow>
           ))}
         </TableBody>
@@ -127,72 +117,34 @@ export default function Trending() {
               <SelectItem value="revenue">By Revenue</SelectItem>
             </SelectContent>
           </Select>
-          <Popover>
-          <PopoverTrigger asChild>
-            <Button
-              variant="outline"
-              className={cn(
-                "w-[240px] justify-start text-left font-normal",
-                !localDate && "text-muted-foreground"
-              )}
-            >
-              <CalendarIcon className="mr-2 h-4 w-4" />
-              {localDate ? format(localDate, "PPP") : <span>Pick a date</span>}
-            </Button>
-          </PopoverTrigger>
-          <PopoverContent className="w-auto p-0" align="end">
-            <Calendar
-              mode="single"
-              selected={localDate}
-              onSelect={(date) => date && setLocalDate(date)}
-              initialFocus
-              className={cn("p-3 pointer-events-auto")}
-            />
-          </PopoverContent>
-        </Popover>
+          <Select value={compareWith} onValueChange={(v: ComparisonPeriod | 'none') => setCompareWith(v)}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No comparison</SelectItem>
+              <SelectItem value="previous">vs {comparisonPeriodLabels.previous}</SelectItem>
+              <SelectItem value="last_year">vs {comparisonPeriodLabels.last_year}</SelectItem>
+            </SelectContent>
+          </Select>
+          <DateRangePicker />
         </div>
       </div>
 
-      <Tabs defaultValue="today" className="space-y-4">
-        <TabsList>
-          <TabsTrigger value="today">Today</TabsTrigger>
-          <TabsTrigger value="month">This Month</TabsTrigger>
-          <TabsTrigger value="year">This Year</TabsTrigger>
-        </TabsList>
-
-        <TabsContent value="today" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Top Selling Products - {format(localDate, "PPP")}</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {renderTable(todayProducts, loadingToday)}
-            </CardContent>
-          </Card>
-        </TabsContent>
+      {compareWith !== 'none' && (
+        <SalesComparisonCard title={`Sales Comparison - ${describeReportPeriod(period)}`} range={range} showProfit={permissions.viewProfits} />
+      )}
 
-        <TabsContent value="month" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Top Selling Products - {format(localDate, "MMMM yyyy")}</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {renderTable(monthProducts, loadingMonth)}
-            </CardContent>
-          </Card>
-        </TabsContent>
+      <Card>
+        <CardHeader>
+          <CardTitle>Top Selling Products - {describeReportPeriod(period)}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {renderTable(trendingProducts, isLoading)}
+        </CardContent>
+      </Card>
 
-        <TabsContent value="year" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Top Selling Products - {format(localDate, "yyyy")}</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {renderTable(yearProducts, loadingYear)}
-            </CardContent>
-          </Card>
-        </TabsContent>
-      </Tabs>
+      <SalesBreakdown range={range} showMargin={permissions.viewProfits} />
     </div>
   );
 }
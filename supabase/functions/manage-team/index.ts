@@ -0,0 +1,177 @@
+// Team management for the store owner: list members, invite by email, change roles and
+// deactivate or reactivate accounts. Runs with the service role key, which never leaves
+// the server; every request is checked against the caller's own role first.
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+type AppRole = "owner" | "admin" | "staff";
+
+type TeamRequest =
+  | { action: "list" }
+  | { action: "invite"; email: string; role: AppRole }
+  | { action: "set_role"; userId: string; role: AppRole }
+  | { action: "deactivate"; userId: string }
+  | { action: "reactivate"; userId: string };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const appRoles: AppRole[] = ["owner", "admin", "staff"];
+
+// Deactivated accounts are banned rather than deleted, so their invoices keep an author and
+// the role comes back on reactivation. A ban stops sign-ins and token refreshes; a session
+// already open ends when its access token expires.
+const deactivatedBanDuration = "876000h";
+
+class TeamError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const assertRole = (role: unknown): AppRole => {
+  if (!appRoles.includes(role as AppRole)) throw new TeamError("Unknown role");
+  return role as AppRole;
+};
+
+const listMembers = async (admin: SupabaseClient) => {
+  const { data: roles, error } = await admin.from("user_roles").select("user_id, role, created_at");
+  if (error) throw error;
+
+  const byUser = new Map<string, { role: AppRole; created_at: string }>();
+  roles.forEach((row) => {
+    const current = byUser.get(row.user_id);
+    // A user with several roles is shown with the broadest one
+    if (!current || appRoles.indexOf(row.role) < appRoles.indexOf(current.role)) {
+      byUser.set(row.user_id, { role: row.role, created_at: row.created_at });
+    }
+  });
+
+  const members = await Promise.all(
+    Array.from(byUser.entries()).map(async ([userId, { role, created_at }]) => {
+      const { data, error: userError } = await admin.auth.admin.getUserById(userId);
+      if (userError) throw userError;
+      const user = data.user;
+      const bannedUntil = (user as { banned_until?: string | null }).banned_until;
+
+      return {
+        user_id: userId,
+        email: user.email ?? null,
+        role,
+        added_at: created_at,
+        last_sign_in_at: user.last_sign_in_at ?? null,
+        invited_at: user.invited_at ?? null,
+        active: !bannedUntil || new Date(bannedUntil) <= new Date(),
+      };
+    })
+  );
+
+  return members.sort((a, b) => appRoles.indexOf(a.role) - appRoles.indexOf(b.role) || (a.email || "").localeCompare(b.email || ""));
+};
+
+const findUserByEmail = async (admin: SupabaseClient, email: string) => {
+  for (let page = 1; ; page++) {
+    const { data, error } = await admin.auth.admin.listUsers({ page, perPage: 1000 });
+    if (error) throw error;
+    const user = data.users.find((u) => u.email?.toLowerCase() === email);
+    if (user || data.users.length < 1000) return user ?? null;
+  }
+};
+
+// The new role is added before the old ones are removed, so a failure part-way never leaves
+// the user with no role at all
+const setRole = async (admin: SupabaseClient, userId: string, role: AppRole) => {
+  const { error } = await admin
+    .from("user_roles")
+    .upsert({ user_id: userId, role }, { onConflict: "user_id,role", ignoreDuplicates: true });
+  if (error) throw error;
+
+  const { error: deleteError } = await admin.from("user_roles").delete().eq("user_id", userId).neq("role", role);
+  if (deleteError) throw deleteError;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+      auth: { persistSession: false },
+    });
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!token) throw new TeamError("Not authenticated", 401);
+
+    const { data: { user: caller }, error: callerError } = await admin.auth.getUser(token);
+    if (callerError || !caller) throw new TeamError("Not authenticated", 401);
+
+    const { data: callerRoles, error: rolesError } = await admin
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", caller.id);
+    if (rolesError) throw rolesError;
+    if (!callerRoles.some((row) => row.role === "owner")) {
+      throw new TeamError("Only the store owner can manage the team", 403);
+    }
+
+    const request = (await req.json()) as TeamRequest;
+
+    // The owner cannot lock themselves out
+    if ("userId" in request && request.userId === caller.id) {
+      throw new TeamError("You can't change your own access");
+    }
+
+    switch (request.action) {
+      case "list":
+        return json({ members: await listMembers(admin) });
+
+      case "invite": {
+        const email = String(request.email || "").trim().toLowerCase();
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new TeamError("Enter a valid email address");
+        const role = assertRole(request.role);
+
+        // Someone who already signed up is given the role instead of a second invite
+        let user = await findUserByEmail(admin, email);
+        if (!user) {
+          const { data, error } = await admin.auth.admin.inviteUserByEmail(email, {
+            redirectTo: req.headers.get("origin") || undefined,
+          });
+          if (error) throw error;
+          user = data.user;
+        }
+        if (user.id === caller.id) throw new TeamError("You can't change your own access");
+
+        await setRole(admin, user.id, role);
+        return json({ user_id: user.id });
+      }
+
+      case "set_role":
+        await setRole(admin, request.userId, assertRole(request.role));
+        return json({ user_id: request.userId });
+
+      case "deactivate":
+      case "reactivate": {
+        const { error } = await admin.auth.admin.updateUserById(request.userId, {
+          ban_duration: request.action === "deactivate" ? deactivatedBanDuration : "none",
+        });
+        if (error) throw error;
+        return json({ user_id: request.userId });
+      }
+
+      default:
+        throw new TeamError("Unknown action");
+    }
+  } catch (error) {
+    console.error("manage-team error:", error);
+    const status = error instanceof TeamError ? error.status : 500;
+    return json({ error: error instanceof Error ? error.message : "Unexpected error" }, status);
+  }
+});
@@ -0,0 +1,252 @@
+/*
+  # Transactional Invoice Functions
+
+  1. New Functions
+    - `create_invoice(p_invoice, p_items)`: Inserts the invoice, its items, reduces stock
+      and writes sales records in a single transaction. Returns the created invoice
+      including its generated invoice number.
+    - `update_invoice_payment_status(p_invoice_id, p_payment_status, p_expected_payment_date)`:
+      Updates the payment status of an invoice. Sales records are managed by the
+      existing `manage_sales_on_invoice_update` trigger in the same transaction.
+    - `cancel_invoice(p_invoice_id)`: Restores stock, removes sales records, items and
+      the invoice in a single transaction.
+
+  2. Details
+    - Product rows are locked (SELECT ... FOR UPDATE) in a stable order before stock is
+      checked, so two tills selling the same item cannot both pass the stock check
+    - Overselling raises an exception and rolls back the whole sale
+    - Invoice numbering is serialised with a transaction-level advisory lock, since
+      `generate_invoice_number()` derives the next number from MAX(invoice_number)
+    - The `reduce_stock_after_invoice_item` trigger is dropped, since `create_invoice` now
+      reduces stock itself and the trigger would take it off a second time
+
+  3. Security
+    - Functions run as SECURITY DEFINER and require an authenticated user
+*/
+
+DROP TRIGGER IF EXISTS reduce_stock_after_invoice_item ON public.invoice_items;
+
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_item JSONB;
+  v_product public.products;
+  v_quantity INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'product_id' IS NULL
+      OR COALESCE(item->>'product_name', '') = ''
+      OR COALESCE((item->>'quantity')::INTEGER, 0) <= 0
+      OR COALESCE((item->>'unit_price')::NUMERIC, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'All items must have a valid product, quantity greater than 0, and non-negative price';
+  END IF;
+
+  -- Lock every product on the invoice in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT (item->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Serialise invoice numbering for the rest of this transaction
+  PERFORM pg_advisory_xact_lock(hashtext('invoices.invoice_number'));
+
+  INSERT INTO invoices (
+    customer_name,
+    customer_phone,
+    subtotal,
+    tax_amount,
+    tax_percentage,
+    discount_amount,
+    discount_type,
+    grand_total,
+    created_by,
+    payment_status,
+    expected_payment_date,
+    invoice_number
+  )
+  VALUES (
+    NULLIF(p_invoice->>'customer_name', ''),
+    NULLIF(p_invoice->>'customer_phone', ''),
+    (p_invoice->>'subtotal')::NUMERIC,
+    COALESCE((p_invoice->>'tax_amount')::NUMERIC, 0),
+    COALESCE((p_invoice->>'tax_percentage')::NUMERIC, 0),
+    COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0),
+    COALESCE(p_invoice->>'discount_type', 'percentage'),
+    (p_invoice->>'grand_total')::NUMERIC,
+    auth.uid(),
+    COALESCE(p_invoice->>'payment_status', 'done'),
+    CASE
+      WHEN p_invoice->>'payment_status' = 'pending' THEN (p_invoice->>'expected_payment_date')::DATE
+      ELSE NULL
+    END,
+    ''
+  )
+  RETURNING * INTO v_invoice;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product "%" no longer exists', v_item->>'product_name';
+    END IF;
+
+    IF v_product.quantity_in_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for "%": % available, % requested',
+        v_product.name, v_product.quantity_in_stock, v_quantity;
+    END IF;
+
+    UPDATE products
+    SET quantity_in_stock = quantity_in_stock - v_quantity,
+        updated_at = now()
+    WHERE id = v_product.id;
+
+    INSERT INTO invoice_items (
+      invoice_id,
+      product_id,
+      product_name,
+      size_name,
+      color_name,
+      quantity,
+      unit_price,
+      total_price
+    )
+    VALUES (
+      v_invoice.id,
+      v_product.id,
+      v_item->>'product_name',
+      NULLIF(v_item->>'size_name', ''),
+      NULLIF(v_item->>'color_name', ''),
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'unit_price')::NUMERIC * v_quantity
+    );
+  END LOOP;
+
+  -- Sales records are only created for paid invoices; pending invoices get theirs
+  -- from the status update trigger once they are marked as done
+  IF v_invoice.payment_status = 'done' THEN
+    INSERT INTO sales_records (
+      invoice_id,
+      invoice_number,
+      product_id,
+      product_name,
+      size_name,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      profit_per_unit,
+      total_profit,
+      sale_date
+    )
+    SELECT
+      v_invoice.id,
+      v_invoice.invoice_number,
+      ii.product_id,
+      ii.product_name,
+      ii.size_name,
+      ii.color_name,
+      ii.quantity,
+      ii.unit_price,
+      ii.total_price,
+      COALESCE(p.cost_inr, 0),
+      ii.unit_price - COALESCE(p.cost_inr, 0),
+      (ii.unit_price - COALESCE(p.cost_inr, 0)) * ii.quantity,
+      v_invoice.created_at
+    FROM invoice_items ii
+    LEFT JOIN products p ON ii.product_id = p.id
+    WHERE ii.invoice_id = v_invoice.id;
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_invoice_payment_status(
+  p_invoice_id UUID,
+  p_payment_status TEXT,
+  p_expected_payment_date DATE DEFAULT NULL
+)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE invoices
+  SET payment_status = p_payment_status,
+      expected_payment_date = CASE WHEN p_payment_status = 'pending' THEN p_expected_payment_date ELSE NULL END
+  WHERE id = p_invoice_id
+  RETURNING * INTO v_invoice;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_invoice(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM 1 FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  -- Restore stock for every product that still exists
+  UPDATE products p
+  SET quantity_in_stock = p.quantity_in_stock + returned.quantity,
+      updated_at = now()
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id AND product_id IS NOT NULL
+    GROUP BY product_id
+  ) AS returned
+  WHERE p.id = returned.product_id;
+
+  DELETE FROM sales_records WHERE invoice_id = p_invoice_id;
+  DELETE FROM invoice_items WHERE invoice_id = p_invoice_id;
+  DELETE FROM invoices WHERE id = p_invoice_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_invoice(JSONB, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_invoice_payment_status(UUID, TEXT, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_invoice(UUID) TO authenticated;
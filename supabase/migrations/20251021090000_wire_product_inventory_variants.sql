@@ -0,0 +1,430 @@
+/*
+  # Per-Size, Per-Color Stock Using product_inventory
+
+  1. Changes to product_inventory
+    - `size_id` and `color_id` become nullable so products with only sizes or only colors
+      can still track stock per variant
+    - The product/size/color unique constraint treats NULLs as equal
+
+  2. Changes to invoice_items
+    - Add `size_id` and `color_id` so a sale (and a cancelled sale) hits the exact variant
+
+  3. Stock Rules
+    - For products with variant rows, `products.quantity_in_stock` is the sum of the
+      variant quantities and is maintained by the `sync_product_stock` trigger
+    - Products without variant rows keep using `products.quantity_in_stock` directly
+
+  4. New Objects
+    - `set_product_stock(p_product_id, p_quantity, p_variants, p_expected_quantity)`: replaces
+      the stock of a product, either as a single number or as a set of variant quantities.
+      When `p_expected_quantity` is given and the product's stock no longer matches it (say a
+      sale went through while the product was being edited), nothing is changed
+    - `product_stock_levels` view: one row per variant, or per product when it has no
+      variants, used for low stock alerts
+    - `create_invoice` and `cancel_invoice` now reduce/restore the chosen variant
+
+  5. Security
+    - The view runs with the privileges of the caller (security_invoker)
+*/
+
+ALTER TABLE public.product_inventory ALTER COLUMN size_id DROP NOT NULL;
+ALTER TABLE public.product_inventory ALTER COLUMN color_id DROP NOT NULL;
+
+ALTER TABLE public.product_inventory
+  DROP CONSTRAINT IF EXISTS product_inventory_product_id_size_id_color_id_key;
+ALTER TABLE public.product_inventory
+  ADD CONSTRAINT product_inventory_product_id_size_id_color_id_key
+  UNIQUE NULLS NOT DISTINCT (product_id, size_id, color_id);
+
+ALTER TABLE public.product_inventory
+  DROP CONSTRAINT IF EXISTS product_inventory_quantity_check;
+ALTER TABLE public.product_inventory
+  ADD CONSTRAINT product_inventory_quantity_check CHECK (quantity >= 0);
+
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS size_id UUID REFERENCES public.sizes(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS color_id UUID REFERENCES public.colors(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_product_inventory_product_id ON public.product_inventory(product_id);
+
+-- Keep products.quantity_in_stock equal to the sum of its variants
+CREATE OR REPLACE FUNCTION public.sync_product_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id UUID;
+BEGIN
+  v_product_id := COALESCE(NEW.product_id, OLD.product_id);
+
+  UPDATE products
+  SET quantity_in_stock = COALESCE((
+        SELECT SUM(quantity) FROM product_inventory WHERE product_id = v_product_id
+      ), 0),
+      updated_at = now()
+  WHERE id = v_product_id;
+
+  IF TG_OP = 'UPDATE' AND OLD.product_id IS DISTINCT FROM NEW.product_id THEN
+    UPDATE products
+    SET quantity_in_stock = COALESCE((
+          SELECT SUM(quantity) FROM product_inventory WHERE product_id = OLD.product_id
+        ), 0),
+        updated_at = now()
+    WHERE id = OLD.product_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_product_stock_on_inventory_change ON public.product_inventory;
+CREATE TRIGGER sync_product_stock_on_inventory_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.product_inventory
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_product_stock();
+
+CREATE OR REPLACE FUNCTION public.set_product_stock(
+  p_product_id UUID,
+  p_quantity INTEGER DEFAULT 0,
+  p_variants JSONB DEFAULT '[]'::JSONB,
+  p_expected_quantity INTEGER DEFAULT NULL
+)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF p_expected_quantity IS NOT NULL AND v_product.quantity_in_stock <> p_expected_quantity THEN
+    RAISE EXCEPTION 'Stock for "%" changed to % while it was being edited; reload it and try again',
+      v_product.name, v_product.quantity_in_stock;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB)) AS v
+    WHERE COALESCE((v->>'quantity')::INTEGER, 0) < 0
+  ) OR COALESCE(p_quantity, 0) < 0 THEN
+    RAISE EXCEPTION 'Stock cannot be negative';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_variants, '[]'::JSONB)) = 0 THEN
+    DELETE FROM product_inventory WHERE product_id = p_product_id;
+
+    UPDATE products
+    SET quantity_in_stock = COALESCE(p_quantity, 0),
+        updated_at = now()
+    WHERE id = p_product_id;
+  ELSE
+    -- Drop variants that are no longer offered (e.g. a size was deselected)
+    DELETE FROM product_inventory pi
+    WHERE pi.product_id = p_product_id
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_variants) AS v
+        WHERE pi.size_id IS NOT DISTINCT FROM NULLIF(v->>'size_id', '')::UUID
+          AND pi.color_id IS NOT DISTINCT FROM NULLIF(v->>'color_id', '')::UUID
+      );
+
+    INSERT INTO product_inventory (product_id, size_id, color_id, quantity)
+    SELECT
+      p_product_id,
+      NULLIF(v->>'size_id', '')::UUID,
+      NULLIF(v->>'color_id', '')::UUID,
+      COALESCE((v->>'quantity')::INTEGER, 0)
+    FROM jsonb_array_elements(p_variants) AS v
+    ON CONFLICT (product_id, size_id, color_id)
+    DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now();
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+  RETURN v_product;
+END;
+$$;
+
+CREATE OR REPLACE VIEW public.product_stock_levels
+WITH (security_invoker = on) AS
+SELECT
+  pi.id,
+  p.id AS product_id,
+  p.name AS product_name,
+  p.sku,
+  pi.size_id,
+  s.name AS size_name,
+  pi.color_id,
+  c.name AS color_name,
+  pi.quantity
+FROM public.product_inventory pi
+JOIN public.products p ON p.id = pi.product_id
+LEFT JOIN public.sizes s ON s.id = pi.size_id
+LEFT JOIN public.colors c ON c.id = pi.color_id
+UNION ALL
+SELECT
+  p.id,
+  p.id AS product_id,
+  p.name AS product_name,
+  p.sku,
+  NULL::UUID AS size_id,
+  NULL::TEXT AS size_name,
+  NULL::UUID AS color_id,
+  NULL::TEXT AS color_name,
+  p.quantity_in_stock AS quantity
+FROM public.products p
+WHERE NOT EXISTS (SELECT 1 FROM public.product_inventory pi WHERE pi.product_id = p.id);
+
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_item JSONB;
+  v_product public.products;
+  v_variant public.product_inventory;
+  v_size_id UUID;
+  v_color_id UUID;
+  v_quantity INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'product_id' IS NULL
+      OR COALESCE(item->>'product_name', '') = ''
+      OR COALESCE((item->>'quantity')::INTEGER, 0) <= 0
+      OR COALESCE((item->>'unit_price')::NUMERIC, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'All items must have a valid product, quantity greater than 0, and non-negative price';
+  END IF;
+
+  -- Lock every product on the invoice in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT (item->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Serialise invoice numbering for the rest of this transaction
+  PERFORM pg_advisory_xact_lock(hashtext('invoices.invoice_number'));
+
+  INSERT INTO invoices (
+    customer_name,
+    customer_phone,
+    subtotal,
+    tax_amount,
+    tax_percentage,
+    discount_amount,
+    discount_type,
+    grand_total,
+    created_by,
+    payment_status,
+    expected_payment_date,
+    invoice_number
+  )
+  VALUES (
+    NULLIF(p_invoice->>'customer_name', ''),
+    NULLIF(p_invoice->>'customer_phone', ''),
+    (p_invoice->>'subtotal')::NUMERIC,
+    COALESCE((p_invoice->>'tax_amount')::NUMERIC, 0),
+    COALESCE((p_invoice->>'tax_percentage')::NUMERIC, 0),
+    COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0),
+    COALESCE(p_invoice->>'discount_type', 'percentage'),
+    (p_invoice->>'grand_total')::NUMERIC,
+    auth.uid(),
+    COALESCE(p_invoice->>'payment_status', 'done'),
+    CASE
+      WHEN p_invoice->>'payment_status' = 'pending' THEN (p_invoice->>'expected_payment_date')::DATE
+      ELSE NULL
+    END,
+    ''
+  )
+  RETURNING * INTO v_invoice;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_size_id := NULLIF(v_item->>'size_id', '')::UUID;
+    v_color_id := NULLIF(v_item->>'color_id', '')::UUID;
+
+    SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product "%" no longer exists', v_item->>'product_name';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM product_inventory WHERE product_id = v_product.id) THEN
+      SELECT * INTO v_variant
+      FROM product_inventory
+      WHERE product_id = v_product.id
+        AND size_id IS NOT DISTINCT FROM v_size_id
+        AND color_id IS NOT DISTINCT FROM v_color_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Select an available size and color for "%"', v_product.name;
+      END IF;
+
+      IF v_variant.quantity < v_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for "%" (%): % available, % requested',
+          v_product.name,
+          concat_ws(' / ', NULLIF(v_item->>'size_name', ''), NULLIF(v_item->>'color_name', '')),
+          v_variant.quantity, v_quantity;
+      END IF;
+
+      -- products.quantity_in_stock follows through the sync_product_stock trigger
+      UPDATE product_inventory
+      SET quantity = quantity - v_quantity,
+          updated_at = now()
+      WHERE id = v_variant.id;
+    ELSE
+      IF v_product.quantity_in_stock < v_quantity THEN
+        RAISE EXCEPTION 'Insufficient stock for "%": % available, % requested',
+          v_product.name, v_product.quantity_in_stock, v_quantity;
+      END IF;
+
+      UPDATE products
+      SET quantity_in_stock = quantity_in_stock - v_quantity,
+          updated_at = now()
+      WHERE id = v_product.id;
+    END IF;
+
+    INSERT INTO invoice_items (
+      invoice_id,
+      product_id,
+      product_name,
+      size_id,
+      size_name,
+      color_id,
+      color_name,
+      quantity,
+      unit_price,
+      total_price
+    )
+    VALUES (
+      v_invoice.id,
+      v_product.id,
+      v_item->>'product_name',
+      v_size_id,
+      NULLIF(v_item->>'size_name', ''),
+      v_color_id,
+      NULLIF(v_item->>'color_name', ''),
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'unit_price')::NUMERIC * v_quantity
+    );
+  END LOOP;
+
+  -- Sales records are only created for paid invoices; pending invoices get theirs
+  -- from the status update trigger once they are marked as done
+  IF v_invoice.payment_status = 'done' THEN
+    INSERT INTO sales_records (
+      invoice_id,
+      invoice_number,
+      product_id,
+      product_name,
+      size_name,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      profit_per_unit,
+      total_profit,
+      sale_date
+    )
+    SELECT
+      v_invoice.id,
+      v_invoice.invoice_number,
+      ii.product_id,
+      ii.product_name,
+      ii.size_name,
+      ii.color_name,
+      ii.quantity,
+      ii.unit_price,
+      ii.total_price,
+      COALESCE(p.cost_inr, 0),
+      ii.unit_price - COALESCE(p.cost_inr, 0),
+      (ii.unit_price - COALESCE(p.cost_inr, 0)) * ii.quantity,
+      v_invoice.created_at
+    FROM invoice_items ii
+    LEFT JOIN products p ON ii.product_id = p.id
+    WHERE ii.invoice_id = v_invoice.id;
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_invoice(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.invoice_items;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM 1 FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM invoice_items WHERE invoice_id = p_invoice_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Restore stock to the variant that was sold, or to the product when it has no variants
+  FOR v_item IN SELECT * FROM invoice_items WHERE invoice_id = p_invoice_id AND product_id IS NOT NULL
+  LOOP
+    UPDATE product_inventory
+    SET quantity = quantity + v_item.quantity,
+        updated_at = now()
+    WHERE product_id = v_item.product_id
+      AND size_id IS NOT DISTINCT FROM v_item.size_id
+      AND color_id IS NOT DISTINCT FROM v_item.color_id;
+
+    IF NOT FOUND AND NOT EXISTS (SELECT 1 FROM product_inventory WHERE product_id = v_item.product_id) THEN
+      UPDATE products
+      SET quantity_in_stock = quantity_in_stock + v_item.quantity,
+          updated_at = now()
+      WHERE id = v_item.product_id;
+    ELSIF NOT FOUND THEN
+      -- The variant was removed since the sale; bring it back with the returned quantity
+      INSERT INTO product_inventory (product_id, size_id, color_id, quantity)
+      VALUES (v_item.product_id, v_item.size_id, v_item.color_id, v_item.quantity);
+    END IF;
+  END LOOP;
+
+  DELETE FROM sales_records WHERE invoice_id = p_invoice_id;
+  DELETE FROM invoice_items WHERE invoice_id = p_invoice_id;
+  DELETE FROM invoices WHERE id = p_invoice_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_product_stock(UUID, INTEGER, JSONB, INTEGER) TO authenticated;
+GRANT SELECT ON public.product_stock_levels TO authenticated;
@@ -0,0 +1,546 @@
+/*
+  # Stock Movements Ledger
+
+  1. New Tables
+    - `stock_movements`: Every change to stock, with the reason it happened
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key to products)
+      - `size_id`, `color_id` (uuid, nullable) - The variant that changed, if any
+      - `movement_type` (text) - opening, sale, return, restock, adjustment, damage or transfer
+      - `quantity_change` (integer) - Signed change, negative when stock goes out
+      - `quantity_before`, `quantity_after` (integer) - Stock of the product or variant around the change
+      - `invoice_id` (uuid, nullable) and `invoice_number` (text) - The sale the movement belongs to
+      - `notes` (text)
+      - `created_by` (uuid) - The user who made the change
+      - `created_at` (timestamp)
+
+  2. New Functions
+    - `record_stock_movement(...)`: The single place stock is changed. Applies the change to the
+      variant (or to the product when it has no variants) and writes the ledger row
+    - `reconcile_product_stock(p_product_id)`: Resets stored stock to what the ledger adds up to
+
+  3. Changes
+    - `set_product_stock` takes a movement type and notes, and records the difference
+    - `create_invoice` records `sale` movements and `cancel_invoice` records `return` movements
+    - Existing stock is backfilled as `opening` movements
+
+  4. Security
+    - Enable RLS on stock_movements
+    - Authenticated users can view movements. Movements are only written by the stock
+      functions, which run as SECURITY DEFINER, and cannot be edited or deleted
+*/
+
+CREATE TABLE IF NOT EXISTS public.stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  size_id UUID REFERENCES public.sizes(id) ON DELETE SET NULL,
+  color_id UUID REFERENCES public.colors(id) ON DELETE SET NULL,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('opening', 'sale', 'return', 'restock', 'adjustment', 'damage', 'transfer')),
+  quantity_change INTEGER NOT NULL,
+  quantity_before INTEGER NOT NULL,
+  quantity_after INTEGER NOT NULL,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  invoice_number TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product_id ON public.stock_movements(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_invoice_id ON public.stock_movements(invoice_id);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view stock movements"
+  ON public.stock_movements FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Opening balances so the ledger adds up to the stock we have today
+INSERT INTO public.stock_movements (
+  product_id, size_id, color_id, movement_type, quantity_change, quantity_before, quantity_after, notes, created_by
+)
+SELECT pi.product_id, pi.size_id, pi.color_id, 'opening', pi.quantity, 0, pi.quantity, 'Opening balance', NULL
+FROM public.product_inventory pi
+WHERE pi.quantity <> 0
+UNION ALL
+SELECT p.id, NULL, NULL, 'opening', p.quantity_in_stock, 0, p.quantity_in_stock, 'Opening balance', NULL
+FROM public.products p
+WHERE p.quantity_in_stock <> 0
+  AND NOT EXISTS (SELECT 1 FROM public.product_inventory pi WHERE pi.product_id = p.id);
+
+CREATE OR REPLACE FUNCTION public.record_stock_movement(
+  p_product_id UUID,
+  p_size_id UUID,
+  p_color_id UUID,
+  p_quantity_change INTEGER,
+  p_movement_type TEXT,
+  p_invoice_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products;
+  v_variant public.product_inventory;
+  v_before INTEGER;
+  v_after INTEGER;
+  v_label TEXT;
+  v_movement public.stock_movements;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM product_inventory WHERE product_id = p_product_id) THEN
+    SELECT * INTO v_variant
+    FROM product_inventory
+    WHERE product_id = p_product_id
+      AND size_id IS NOT DISTINCT FROM p_size_id
+      AND color_id IS NOT DISTINCT FROM p_color_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      IF p_quantity_change < 0 THEN
+        RAISE EXCEPTION 'Select an available size and color for "%"', v_product.name;
+      END IF;
+
+      INSERT INTO product_inventory (product_id, size_id, color_id, quantity)
+      VALUES (p_product_id, p_size_id, p_color_id, 0)
+      RETURNING * INTO v_variant;
+    END IF;
+
+    v_before := v_variant.quantity;
+    v_after := v_before + p_quantity_change;
+
+    IF v_after < 0 THEN
+      SELECT concat_ws(' / ', s.name, c.name) INTO v_label
+      FROM (SELECT 1) AS one
+      LEFT JOIN sizes s ON s.id = p_size_id
+      LEFT JOIN colors c ON c.id = p_color_id;
+
+      RAISE EXCEPTION 'Insufficient stock for "%" (%): % available, % requested',
+        v_product.name, v_label, v_before, -p_quantity_change;
+    END IF;
+
+    -- products.quantity_in_stock follows through the sync_product_stock trigger
+    UPDATE product_inventory
+    SET quantity = v_after,
+        updated_at = now()
+    WHERE id = v_variant.id;
+  ELSE
+    v_before := v_product.quantity_in_stock;
+    v_after := v_before + p_quantity_change;
+
+    IF v_after < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock for "%": % available, % requested',
+        v_product.name, v_before, -p_quantity_change;
+    END IF;
+
+    UPDATE products
+    SET quantity_in_stock = v_after,
+        updated_at = now()
+    WHERE id = p_product_id;
+  END IF;
+
+  INSERT INTO stock_movements (
+    product_id,
+    size_id,
+    color_id,
+    movement_type,
+    quantity_change,
+    quantity_before,
+    quantity_after,
+    invoice_id,
+    invoice_number,
+    notes,
+    created_by
+  )
+  VALUES (
+    p_product_id,
+    p_size_id,
+    p_color_id,
+    p_movement_type,
+    p_quantity_change,
+    v_before,
+    v_after,
+    p_invoice_id,
+    (SELECT invoice_number FROM invoices WHERE id = p_invoice_id),
+    NULLIF(p_notes, ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_movement;
+
+  RETURN v_movement;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.set_product_stock(UUID, INTEGER, JSONB, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.set_product_stock(
+  p_product_id UUID,
+  p_quantity INTEGER DEFAULT 0,
+  p_variants JSONB DEFAULT '[]'::JSONB,
+  p_movement_type TEXT DEFAULT 'adjustment',
+  p_notes TEXT DEFAULT NULL,
+  p_expected_quantity INTEGER DEFAULT NULL
+)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products;
+  v_existing public.product_inventory;
+  v_variant JSONB;
+  v_size_id UUID;
+  v_color_id UUID;
+  v_current INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF p_expected_quantity IS NOT NULL AND v_product.quantity_in_stock <> p_expected_quantity THEN
+    RAISE EXCEPTION 'Stock for "%" changed to % while it was being edited; reload it and try again',
+      v_product.name, v_product.quantity_in_stock;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB)) AS v
+    WHERE COALESCE((v->>'quantity')::INTEGER, 0) < 0
+  ) OR COALESCE(p_quantity, 0) < 0 THEN
+    RAISE EXCEPTION 'Stock cannot be negative';
+  END IF;
+
+  p_variants := COALESCE(p_variants, '[]'::JSONB);
+
+  -- Empty out variants that are no longer offered (e.g. a size was deselected),
+  -- or all of them when the product goes back to a single stock number
+  FOR v_existing IN
+    SELECT * FROM product_inventory pi
+    WHERE pi.product_id = p_product_id
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_variants) AS v
+        WHERE pi.size_id IS NOT DISTINCT FROM NULLIF(v->>'size_id', '')::UUID
+          AND pi.color_id IS NOT DISTINCT FROM NULLIF(v->>'color_id', '')::UUID
+      )
+  LOOP
+    IF v_existing.quantity <> 0 THEN
+      PERFORM record_stock_movement(
+        p_product_id, v_existing.size_id, v_existing.color_id, -v_existing.quantity,
+        p_movement_type, NULL, COALESCE(p_notes, 'Variant removed')
+      );
+    END IF;
+    DELETE FROM product_inventory WHERE id = v_existing.id;
+  END LOOP;
+
+  IF jsonb_array_length(p_variants) = 0 THEN
+    SELECT quantity_in_stock INTO v_current FROM products WHERE id = p_product_id;
+
+    IF COALESCE(p_quantity, 0) <> v_current THEN
+      PERFORM record_stock_movement(
+        p_product_id, NULL, NULL, COALESCE(p_quantity, 0) - v_current, p_movement_type, NULL, p_notes
+      );
+    END IF;
+  ELSE
+    -- Stock held on the product itself moves into the variants
+    IF NOT EXISTS (SELECT 1 FROM product_inventory WHERE product_id = p_product_id)
+      AND v_product.quantity_in_stock <> 0 THEN
+      PERFORM record_stock_movement(
+        p_product_id, NULL, NULL, -v_product.quantity_in_stock, p_movement_type, NULL,
+        COALESCE(p_notes, 'Split into variants')
+      );
+    END IF;
+
+    INSERT INTO product_inventory (product_id, size_id, color_id, quantity)
+    SELECT p_product_id, NULLIF(v->>'size_id', '')::UUID, NULLIF(v->>'color_id', '')::UUID, 0
+    FROM jsonb_array_elements(p_variants) AS v
+    ON CONFLICT (product_id, size_id, color_id) DO NOTHING;
+
+    FOR v_variant IN SELECT * FROM jsonb_array_elements(p_variants)
+    LOOP
+      v_size_id := NULLIF(v_variant->>'size_id', '')::UUID;
+      v_color_id := NULLIF(v_variant->>'color_id', '')::UUID;
+
+      SELECT quantity INTO v_current
+      FROM product_inventory
+      WHERE product_id = p_product_id
+        AND size_id IS NOT DISTINCT FROM v_size_id
+        AND color_id IS NOT DISTINCT FROM v_color_id;
+
+      IF COALESCE((v_variant->>'quantity')::INTEGER, 0) <> v_current THEN
+        PERFORM record_stock_movement(
+          p_product_id, v_size_id, v_color_id,
+          COALESCE((v_variant->>'quantity')::INTEGER, 0) - v_current,
+          p_movement_type, NULL, p_notes
+        );
+      END IF;
+    END LOOP;
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+  RETURN v_product;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reconcile_product_stock(p_product_id UUID)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM product_inventory WHERE product_id = p_product_id) THEN
+    UPDATE product_inventory pi
+    SET quantity = COALESCE((
+          SELECT SUM(sm.quantity_change)
+          FROM stock_movements sm
+          WHERE sm.product_id = pi.product_id
+            AND sm.size_id IS NOT DISTINCT FROM pi.size_id
+            AND sm.color_id IS NOT DISTINCT FROM pi.color_id
+        ), 0),
+        updated_at = now()
+    WHERE pi.product_id = p_product_id;
+  ELSE
+    UPDATE products
+    SET quantity_in_stock = COALESCE((
+          SELECT SUM(quantity_change) FROM stock_movements WHERE product_id = p_product_id
+        ), 0),
+        updated_at = now()
+    WHERE id = p_product_id;
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+  RETURN v_product;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_item JSONB;
+  v_product public.products;
+  v_size_id UUID;
+  v_color_id UUID;
+  v_quantity INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'product_id' IS NULL
+      OR COALESCE(item->>'product_name', '') = ''
+      OR COALESCE((item->>'quantity')::INTEGER, 0) <= 0
+      OR COALESCE((item->>'unit_price')::NUMERIC, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'All items must have a valid product, quantity greater than 0, and non-negative price';
+  END IF;
+
+  -- Lock every product on the invoice in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT (item->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Serialise invoice numbering for the rest of this transaction
+  PERFORM pg_advisory_xact_lock(hashtext('invoices.invoice_number'));
+
+  INSERT INTO invoices (
+    customer_name,
+    customer_phone,
+    subtotal,
+    tax_amount,
+    tax_percentage,
+    discount_amount,
+    discount_type,
+    grand_total,
+    created_by,
+    payment_status,
+    expected_payment_date,
+    invoice_number
+  )
+  VALUES (
+    NULLIF(p_invoice->>'customer_name', ''),
+    NULLIF(p_invoice->>'customer_phone', ''),
+    (p_invoice->>'subtotal')::NUMERIC,
+    COALESCE((p_invoice->>'tax_amount')::NUMERIC, 0),
+    COALESCE((p_invoice->>'tax_percentage')::NUMERIC, 0),
+    COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0),
+    COALESCE(p_invoice->>'discount_type', 'percentage'),
+    (p_invoice->>'grand_total')::NUMERIC,
+    auth.uid(),
+    COALESCE(p_invoice->>'payment_status', 'done'),
+    CASE
+      WHEN p_invoice->>'payment_status' = 'pending' THEN (p_invoice->>'expected_payment_date')::DATE
+      ELSE NULL
+    END,
+    ''
+  )
+  RETURNING * INTO v_invoice;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_size_id := NULLIF(v_item->>'size_id', '')::UUID;
+    v_color_id := NULLIF(v_item->>'color_id', '')::UUID;
+
+    SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product "%" no longer exists', v_item->>'product_name';
+    END IF;
+
+    -- Raises when the product or chosen variant does not have enough stock
+    PERFORM record_stock_movement(
+      v_product.id, v_size_id, v_color_id, -v_quantity, 'sale', v_invoice.id, NULL
+    );
+
+    INSERT INTO invoice_items (
+      invoice_id,
+      product_id,
+      product_name,
+      size_id,
+      size_name,
+      color_id,
+      color_name,
+      quantity,
+      unit_price,
+      total_price
+    )
+    VALUES (
+      v_invoice.id,
+      v_product.id,
+      v_item->>'product_name',
+      v_size_id,
+      NULLIF(v_item->>'size_name', ''),
+      v_color_id,
+      NULLIF(v_item->>'color_name', ''),
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'unit_price')::NUMERIC * v_quantity
+    );
+  END LOOP;
+
+  -- Sales records are only created for paid invoices; pending invoices get theirs
+  -- from the status update trigger once they are marked as done
+  IF v_invoice.payment_status = 'done' THEN
+    INSERT INTO sales_records (
+      invoice_id,
+      invoice_number,
+      product_id,
+      product_name,
+      size_name,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      profit_per_unit,
+      total_profit,
+      sale_date
+    )
+    SELECT
+      v_invoice.id,
+      v_invoice.invoice_number,
+      ii.product_id,
+      ii.product_name,
+      ii.size_name,
+      ii.color_name,
+      ii.quantity,
+      ii.unit_price,
+      ii.total_price,
+      COALESCE(p.cost_inr, 0),
+      ii.unit_price - COALESCE(p.cost_inr, 0),
+      (ii.unit_price - COALESCE(p.cost_inr, 0)) * ii.quantity,
+      v_invoice.created_at
+    FROM invoice_items ii
+    LEFT JOIN products p ON ii.product_id = p.id
+    WHERE ii.invoice_id = v_invoice.id;
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_invoice(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.invoice_items;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM 1 FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM invoice_items WHERE invoice_id = p_invoice_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Put the stock back on the variant that was sold, or on the product when it has no variants
+  FOR v_item IN
+    SELECT * FROM invoice_items
+    WHERE invoice_id = p_invoice_id
+      AND product_id IN (SELECT id FROM products)
+  LOOP
+    PERFORM record_stock_movement(
+      v_item.product_id, v_item.size_id, v_item.color_id, v_item.quantity, 'return', p_invoice_id, 'Sale cancelled'
+    );
+  END LOOP;
+
+  DELETE FROM sales_records WHERE invoice_id = p_invoice_id;
+  DELETE FROM invoice_items WHERE invoice_id = p_invoice_id;
+  DELETE FROM invoices WHERE id = p_invoice_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_stock_movement(UUID, UUID, UUID, INTEGER, TEXT, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_product_stock(UUID, INTEGER, JSONB, TEXT, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reconcile_product_stock(UUID) TO authenticated;
@@ -0,0 +1,384 @@
+/*
+  # Suppliers and Purchase Orders
+
+  1. New Tables
+    - `suppliers`: Who we buy stock from
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `gstin` (text) - Supplier GST number
+      - `contact_person`, `phone`, `email`, `address` (text)
+      - `payment_terms` (text) - e.g. "Net 30", "Advance"
+      - `notes` (text)
+      - `created_at`, `updated_at` (timestamp)
+
+    - `purchase_orders`: Stock ordered from a supplier
+      - `id` (uuid, primary key)
+      - `po_number` (text, unique) - Generated as PO-000001
+      - `supplier_id` (uuid, foreign key to suppliers)
+      - `status` (text) - ordered, partially_received, received or cancelled
+      - `order_date`, `expected_date` (date)
+      - `subtotal` (numeric) - Sum of line costs
+      - `freight_amount`, `other_charges` (numeric) - Spread over the lines as landed cost
+      - `total_amount` (numeric)
+      - `notes` (text)
+      - `created_by` (uuid)
+      - `created_at`, `updated_at` (timestamp)
+
+    - `purchase_order_items`: Lines per product, size and color
+      - `id` (uuid, primary key)
+      - `purchase_order_id` (uuid, foreign key to purchase_orders)
+      - `product_id` (uuid, foreign key to products)
+      - `product_name`, `size_name`, `color_name` (text)
+      - `size_id`, `color_id` (uuid, nullable)
+      - `quantity_ordered`, `quantity_received` (integer)
+      - `unit_cost` (numeric) - Supplier price per unit
+      - `landed_unit_cost` (numeric) - Unit cost including its share of freight and other charges
+      - `created_at` (timestamp)
+
+  2. New Functions
+    - `create_purchase_order(p_order, p_items)`: Creates the order and its lines in one transaction
+    - `receive_purchase_order(p_purchase_order_id, p_items)`: Receives some or all of the
+      outstanding quantities. Stock goes up through `restock` stock movements and the product
+      cost (`cost_inr`, used for `cost_per_unit` on sales records) becomes the weighted average
+      of the stock on hand and the landed cost of what was received
+
+  3. Security
+    - Enable RLS on all new tables
+    - Authenticated users can manage suppliers and purchase orders
+*/
+
+CREATE TABLE IF NOT EXISTS public.suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  gstin TEXT,
+  contact_person TEXT,
+  phone TEXT,
+  email TEXT,
+  address TEXT,
+  payment_terms TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number TEXT NOT NULL UNIQUE,
+  supplier_id UUID REFERENCES public.suppliers(id) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'ordered' CHECK (status IN ('ordered', 'partially_received', 'received', 'cancelled')),
+  order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expected_date DATE,
+  subtotal NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  freight_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  other_charges NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  product_name TEXT NOT NULL,
+  size_id UUID REFERENCES public.sizes(id) ON DELETE SET NULL,
+  size_name TEXT,
+  color_id UUID REFERENCES public.colors(id) ON DELETE SET NULL,
+  color_name TEXT,
+  quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost NUMERIC(10, 2) NOT NULL CHECK (unit_cost >= 0),
+  landed_unit_cost NUMERIC(10, 2),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (quantity_received <= quantity_ordered)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON public.purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_purchase_order_id ON public.purchase_order_items(purchase_order_id);
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for suppliers
+CREATE POLICY "Authenticated users can view suppliers"
+  ON public.suppliers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create suppliers"
+  ON public.suppliers FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update suppliers"
+  ON public.suppliers FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete suppliers"
+  ON public.suppliers FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- RLS Policies for purchase_orders
+CREATE POLICY "Authenticated users can view purchase orders"
+  ON public.purchase_orders FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create purchase orders"
+  ON public.purchase_orders FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update purchase orders"
+  ON public.purchase_orders FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- RLS Policies for purchase_order_items
+CREATE POLICY "Authenticated users can view purchase order items"
+  ON public.purchase_order_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create purchase order items"
+  ON public.purchase_order_items FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+-- Function to auto-generate purchase order numbers
+CREATE OR REPLACE FUNCTION public.generate_po_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_number INTEGER;
+BEGIN
+  IF NEW.po_number IS NULL OR NEW.po_number = '' THEN
+    SELECT COALESCE(MAX(CAST(SUBSTRING(po_number FROM 'PO-([0-9]+)') AS INTEGER)), 0) + 1
+    INTO next_number
+    FROM purchase_orders
+    WHERE po_number ~ 'PO-[0-9]+';
+
+    NEW.po_number := 'PO-' || LPAD(next_number::TEXT, 6, '0');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_po_number ON public.purchase_orders;
+CREATE TRIGGER set_po_number
+  BEFORE INSERT ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.generate_po_number();
+
+CREATE OR REPLACE FUNCTION public.create_purchase_order(p_order JSONB, p_items JSONB)
+RETURNS public.purchase_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.purchase_orders;
+  v_subtotal NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_order->>'supplier_id' IS NULL THEN
+    RAISE EXCEPTION 'A supplier is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'product_id' IS NULL
+      OR COALESCE(item->>'product_name', '') = ''
+      OR COALESCE((item->>'quantity_ordered')::INTEGER, 0) <= 0
+      OR COALESCE((item->>'unit_cost')::NUMERIC, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'All items must have a valid product, quantity greater than 0, and non-negative cost';
+  END IF;
+
+  SELECT SUM((item->>'unit_cost')::NUMERIC * (item->>'quantity_ordered')::INTEGER)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  -- Serialise PO numbering for the rest of this transaction
+  PERFORM pg_advisory_xact_lock(hashtext('purchase_orders.po_number'));
+
+  INSERT INTO purchase_orders (
+    po_number,
+    supplier_id,
+    order_date,
+    expected_date,
+    subtotal,
+    freight_amount,
+    other_charges,
+    total_amount,
+    notes,
+    created_by
+  )
+  VALUES (
+    '',
+    (p_order->>'supplier_id')::UUID,
+    COALESCE((p_order->>'order_date')::DATE, CURRENT_DATE),
+    (p_order->>'expected_date')::DATE,
+    v_subtotal,
+    COALESCE((p_order->>'freight_amount')::NUMERIC, 0),
+    COALESCE((p_order->>'other_charges')::NUMERIC, 0),
+    v_subtotal + COALESCE((p_order->>'freight_amount')::NUMERIC, 0) + COALESCE((p_order->>'other_charges')::NUMERIC, 0),
+    NULLIF(p_order->>'notes', ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO purchase_order_items (
+    purchase_order_id,
+    product_id,
+    product_name,
+    size_id,
+    size_name,
+    color_id,
+    color_name,
+    quantity_ordered,
+    unit_cost
+  )
+  SELECT
+    v_order.id,
+    (item->>'product_id')::UUID,
+    item->>'product_name',
+    NULLIF(item->>'size_id', '')::UUID,
+    NULLIF(item->>'size_name', ''),
+    NULLIF(item->>'color_id', '')::UUID,
+    NULLIF(item->>'color_name', ''),
+    (item->>'quantity_ordered')::INTEGER,
+    (item->>'unit_cost')::NUMERIC
+  FROM jsonb_array_elements(p_items) AS item;
+
+  RETURN v_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_purchase_order_id UUID, p_items JSONB)
+RETURNS public.purchase_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.purchase_orders;
+  v_item public.purchase_order_items;
+  v_receipt JSONB;
+  v_quantity INTEGER;
+  v_landed_cost NUMERIC;
+  v_stock_before INTEGER;
+  v_cost_before NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF v_order.status IN ('received', 'cancelled') THEN
+    RAISE EXCEPTION 'Purchase order % is already %', v_order.po_number, v_order.status;
+  END IF;
+
+  FOR v_receipt IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB))
+  LOOP
+    v_quantity := COALESCE((v_receipt->>'quantity')::INTEGER, 0);
+    CONTINUE WHEN v_quantity = 0;
+
+    SELECT * INTO v_item
+    FROM purchase_order_items
+    WHERE id = (v_receipt->>'item_id')::UUID
+      AND purchase_order_id = p_purchase_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order item not found';
+    END IF;
+
+    IF v_quantity < 0 OR v_item.quantity_received + v_quantity > v_item.quantity_ordered THEN
+      RAISE EXCEPTION 'Cannot receive % of "%": % ordered, % already received',
+        v_quantity, v_item.product_name, v_item.quantity_ordered, v_item.quantity_received;
+    END IF;
+
+    -- Freight and other charges are spread over the lines in proportion to their cost
+    v_landed_cost := v_item.unit_cost;
+    IF v_order.subtotal > 0 THEN
+      v_landed_cost := ROUND(
+        v_item.unit_cost * (1 + (v_order.freight_amount + v_order.other_charges) / v_order.subtotal),
+        2
+      );
+    END IF;
+
+    UPDATE purchase_order_items
+    SET quantity_received = quantity_received + v_quantity,
+        landed_unit_cost = v_landed_cost
+    WHERE id = v_item.id;
+
+    IF v_item.product_id IS NOT NULL THEN
+      SELECT quantity_in_stock, COALESCE(cost_inr, 0)
+      INTO v_stock_before, v_cost_before
+      FROM products
+      WHERE id = v_item.product_id
+      FOR UPDATE;
+
+      PERFORM record_stock_movement(
+        v_item.product_id, v_item.size_id, v_item.color_id, v_quantity, 'restock', NULL,
+        'Received on ' || v_order.po_number
+      );
+
+      -- Weighted average of what was on hand and what just arrived
+      UPDATE products
+      SET cost_inr = ROUND(
+            (GREATEST(v_stock_before, 0) * v_cost_before + v_quantity * v_landed_cost)
+            / (GREATEST(v_stock_before, 0) + v_quantity),
+            2
+          ),
+          updated_at = now()
+      WHERE id = v_item.product_id;
+    END IF;
+  END LOOP;
+
+  UPDATE purchase_orders
+  SET status = CASE
+        WHEN NOT EXISTS (
+          SELECT 1 FROM purchase_order_items
+          WHERE purchase_order_id = p_purchase_order_id AND quantity_received < quantity_ordered
+        ) THEN 'received'
+        WHEN EXISTS (
+          SELECT 1 FROM purchase_order_items
+          WHERE purchase_order_id = p_purchase_order_id AND quantity_received > 0
+        ) THEN 'partially_received'
+        ELSE 'ordered'
+      END,
+      updated_at = now()
+  WHERE id = p_purchase_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_purchase_order(JSONB, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(UUID, JSONB) TO authenticated;
@@ -0,0 +1,837 @@
+/*
+  # Weighted Average and FIFO Costing
+
+  1. New Tables
+    - `cost_layers`: One layer per batch of stock that came in, consumed oldest first
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key to products)
+      - `source` (text) - opening, purchase, return or adjustment
+      - `purchase_order_item_id` (uuid, nullable) - The purchase line the stock came from
+      - `unit_cost` (numeric) - Landed cost per unit
+      - `quantity_received`, `quantity_remaining` (integer)
+      - `received_at` (timestamp)
+
+  2. Changes
+    - `store_settings.costing_method`: weighted_average (default) or fifo
+    - `products.average_cost`: Perpetual weighted average cost, updated whenever stock comes in
+    - `stock_movements.unit_cost`: Cost per unit of the movement
+    - `invoice_items.cost_per_unit` and `invoice_items.costing_method`: Cost of the goods sold,
+      worked out from the cost layers when the sale is made
+    - `sales_records.costing_method`: The method used for `cost_per_unit`
+    - `sales_records.cost_per_unit` now comes from `invoice_items.cost_per_unit` instead of
+      the current `products.cost_inr`, so changing a cost price no longer rewrites past profit
+
+  3. Details
+    - Cost layers are always consumed FIFO so they stay in step with stock. Under weighted
+      average the sale is costed at `products.average_cost`; under FIFO at the layers consumed
+    - Receiving a purchase order adds a layer at its landed cost; cancelled sales put the
+      stock back at the cost it was sold at; other increases use the current average cost
+    - Moving stock between variants of the same product does not touch the layers
+    - Existing stock is backfilled as opening layers at `cost_inr`
+
+  4. Security
+    - Enable RLS on cost_layers
+    - Authenticated users can view cost layers; they are only written by the stock functions
+    - `add_cost_layer` and `consume_cost_layers` can't be called directly, only by the stock
+      functions
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'store_settings' AND column_name = 'costing_method'
+  ) THEN
+    ALTER TABLE public.store_settings
+      ADD COLUMN costing_method TEXT NOT NULL DEFAULT 'weighted_average'
+      CHECK (costing_method IN ('weighted_average', 'fifo'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'average_cost'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN average_cost NUMERIC(10, 2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'stock_movements' AND column_name = 'unit_cost'
+  ) THEN
+    ALTER TABLE public.stock_movements ADD COLUMN unit_cost NUMERIC(10, 2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'cost_per_unit'
+  ) THEN
+    ALTER TABLE public.invoice_items ADD COLUMN cost_per_unit NUMERIC(10, 2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'costing_method'
+  ) THEN
+    ALTER TABLE public.invoice_items ADD COLUMN costing_method TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sales_records' AND column_name = 'costing_method'
+  ) THEN
+    ALTER TABLE public.sales_records ADD COLUMN costing_method TEXT;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.cost_layers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('opening', 'purchase', 'return', 'adjustment')),
+  purchase_order_item_id UUID REFERENCES public.purchase_order_items(id) ON DELETE SET NULL,
+  unit_cost NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  quantity_received INTEGER NOT NULL CHECK (quantity_received > 0),
+  quantity_remaining INTEGER NOT NULL CHECK (quantity_remaining >= 0),
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_layers_product_open
+  ON public.cost_layers(product_id, received_at)
+  WHERE quantity_remaining > 0;
+
+ALTER TABLE public.cost_layers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view cost layers"
+  ON public.cost_layers FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Backfill: current stock becomes the opening layer at today's cost price
+UPDATE public.products SET average_cost = cost_inr WHERE average_cost IS NULL;
+
+INSERT INTO public.cost_layers (product_id, source, unit_cost, quantity_received, quantity_remaining)
+SELECT id, 'opening', COALESCE(cost_inr, 0), quantity_in_stock, quantity_in_stock
+FROM public.products
+WHERE quantity_in_stock > 0;
+
+UPDATE public.invoice_items ii
+SET cost_per_unit = COALESCE(
+      (SELECT sr.cost_per_unit FROM public.sales_records sr
+       WHERE sr.invoice_id = ii.invoice_id AND sr.product_id IS NOT DISTINCT FROM ii.product_id
+       LIMIT 1),
+      (SELECT p.cost_inr FROM public.products p WHERE p.id = ii.product_id),
+      0
+    )
+WHERE ii.cost_per_unit IS NULL;
+
+CREATE OR REPLACE FUNCTION public.current_costing_method()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT costing_method FROM store_settings LIMIT 1), 'weighted_average');
+$$;
+
+-- Adds a layer and moves the weighted average towards its cost
+CREATE OR REPLACE FUNCTION public.add_cost_layer(
+  p_product_id UUID,
+  p_stock_before INTEGER,
+  p_quantity INTEGER,
+  p_unit_cost NUMERIC,
+  p_source TEXT,
+  p_purchase_order_item_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_quantity <= 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO cost_layers (product_id, source, purchase_order_item_id, unit_cost, quantity_received, quantity_remaining)
+  VALUES (p_product_id, p_source, p_purchase_order_item_id, p_unit_cost, p_quantity, p_quantity);
+
+  UPDATE products
+  SET average_cost = ROUND(
+        (GREATEST(p_stock_before, 0) * COALESCE(average_cost, cost_inr, 0) + p_quantity * p_unit_cost)
+        / (GREATEST(p_stock_before, 0) + p_quantity),
+        2
+      )
+  WHERE id = p_product_id;
+END;
+$$;
+
+-- Takes stock out of the oldest layers first and returns what it cost in total.
+-- Units with no layer left (e.g. stock counted before layers existed) are costed at the average.
+CREATE OR REPLACE FUNCTION public.consume_cost_layers(p_product_id UUID, p_quantity INTEGER)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_layer public.cost_layers;
+  v_remaining INTEGER := p_quantity;
+  v_take INTEGER;
+  v_total NUMERIC := 0;
+BEGIN
+  FOR v_layer IN
+    SELECT * FROM cost_layers
+    WHERE product_id = p_product_id AND quantity_remaining > 0
+    ORDER BY received_at, id
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_take := LEAST(v_layer.quantity_remaining, v_remaining);
+
+    UPDATE cost_layers
+    SET quantity_remaining = quantity_remaining - v_take
+    WHERE id = v_layer.id;
+
+    v_total := v_total + v_take * v_layer.unit_cost;
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+
+  IF v_remaining > 0 THEN
+    v_total := v_total + v_remaining * COALESCE(
+      (SELECT COALESCE(average_cost, cost_inr, 0) FROM products WHERE id = p_product_id),
+      0
+    );
+  END IF;
+
+  RETURN v_total;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.record_stock_movement(UUID, UUID, UUID, INTEGER, TEXT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.record_stock_movement(
+  p_product_id UUID,
+  p_size_id UUID,
+  p_color_id UUID,
+  p_quantity_change INTEGER,
+  p_movement_type TEXT,
+  p_invoice_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_unit_cost NUMERIC DEFAULT NULL,
+  p_apply_cost BOOLEAN DEFAULT true
+)
+RETURNS public.stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products;
+  v_variant public.product_inventory;
+  v_before INTEGER;
+  v_after INTEGER;
+  v_label TEXT;
+  v_unit_cost NUMERIC := p_unit_cost;
+  v_movement public.stock_movements;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM product_inventory WHERE product_id = p_product_id) THEN
+    SELECT * INTO v_variant
+    FROM product_inventory
+    WHERE product_id = p_product_id
+      AND size_id IS NOT DISTINCT FROM p_size_id
+      AND color_id IS NOT DISTINCT FROM p_color_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      IF p_quantity_change < 0 THEN
+        RAISE EXCEPTION 'Select an available size and color for "%"', v_product.name;
+      END IF;
+
+      INSERT INTO product_inventory (product_id, size_id, color_id, quantity)
+      VALUES (p_product_id, p_size_id, p_color_id, 0)
+      RETURNING * INTO v_variant;
+    END IF;
+
+    v_before := v_variant.quantity;
+    v_after := v_before + p_quantity_change;
+
+    IF v_after < 0 THEN
+      SELECT concat_ws(' / ', s.name, c.name) INTO v_label
+      FROM (SELECT 1) AS one
+      LEFT JOIN sizes s ON s.id = p_size_id
+      LEFT JOIN colors c ON c.id = p_color_id;
+
+      RAISE EXCEPTION 'Insufficient stock for "%" (%): % available, % requested',
+        v_product.name, v_label, v_before, -p_quantity_change;
+    END IF;
+
+    -- products.quantity_in_stock follows through the sync_product_stock trigger
+    UPDATE product_inventory
+    SET quantity = v_after,
+        updated_at = now()
+    WHERE id = v_variant.id;
+  ELSE
+    v_before := v_product.quantity_in_stock;
+    v_after := v_before + p_quantity_change;
+
+    IF v_after < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock for "%": % available, % requested',
+        v_product.name, v_before, -p_quantity_change;
+    END IF;
+
+    UPDATE products
+    SET quantity_in_stock = v_after,
+        updated_at = now()
+    WHERE id = p_product_id;
+  END IF;
+
+  IF p_apply_cost AND p_quantity_change > 0 THEN
+    v_unit_cost := COALESCE(p_unit_cost, v_product.average_cost, v_product.cost_inr, 0);
+    PERFORM add_cost_layer(
+      p_product_id,
+      v_product.quantity_in_stock,
+      p_quantity_change,
+      v_unit_cost,
+      CASE p_movement_type
+        WHEN 'return' THEN 'return'
+        WHEN 'opening' THEN 'opening'
+        ELSE 'adjustment'
+      END
+    );
+  ELSIF p_apply_cost AND p_quantity_change < 0 THEN
+    v_unit_cost := consume_cost_layers(p_product_id, -p_quantity_change) / -p_quantity_change;
+    IF current_costing_method() = 'weighted_average' THEN
+      v_unit_cost := COALESCE(v_product.average_cost, v_product.cost_inr, 0);
+    END IF;
+  END IF;
+
+  INSERT INTO stock_movements (
+    product_id,
+    size_id,
+    color_id,
+    movement_type,
+    quantity_change,
+    quantity_before,
+    quantity_after,
+    unit_cost,
+    invoice_id,
+    invoice_number,
+    notes,
+    created_by
+  )
+  VALUES (
+    p_product_id,
+    p_size_id,
+    p_color_id,
+    p_movement_type,
+    p_quantity_change,
+    v_before,
+    v_after,
+    ROUND(v_unit_cost, 2),
+    p_invoice_id,
+    (SELECT invoice_number FROM invoices WHERE id = p_invoice_id),
+    NULLIF(p_notes, ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_movement;
+
+  RETURN v_movement;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_product_stock(
+  p_product_id UUID,
+  p_quantity INTEGER DEFAULT 0,
+  p_variants JSONB DEFAULT '[]'::JSONB,
+  p_movement_type TEXT DEFAULT 'adjustment',
+  p_notes TEXT DEFAULT NULL,
+  p_expected_quantity INTEGER DEFAULT NULL
+)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products;
+  v_existing public.product_inventory;
+  v_variant JSONB;
+  v_size_id UUID;
+  v_color_id UUID;
+  v_current INTEGER;
+  v_net_change INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF p_expected_quantity IS NOT NULL AND v_product.quantity_in_stock <> p_expected_quantity THEN
+    RAISE EXCEPTION 'Stock for "%" changed to % while it was being edited; reload it and try again',
+      v_product.name, v_product.quantity_in_stock;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB)) AS v
+    WHERE COALESCE((v->>'quantity')::INTEGER, 0) < 0
+  ) OR COALESCE(p_quantity, 0) < 0 THEN
+    RAISE EXCEPTION 'Stock cannot be negative';
+  END IF;
+
+  p_variants := COALESCE(p_variants, '[]'::JSONB);
+
+  -- Quantities are moved between variants without touching cost layers;
+  -- only the net change to the product's stock is costed at the end
+  FOR v_existing IN
+    SELECT * FROM product_inventory pi
+    WHERE pi.product_id = p_product_id
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_variants) AS v
+        WHERE pi.size_id IS NOT DISTINCT FROM NULLIF(v->>'size_id', '')::UUID
+          AND pi.color_id IS NOT DISTINCT FROM NULLIF(v->>'color_id', '')::UUID
+      )
+  LOOP
+    IF v_existing.quantity <> 0 THEN
+      PERFORM record_stock_movement(
+        p_product_id, v_existing.size_id, v_existing.color_id, -v_existing.quantity,
+        p_movement_type, NULL, COALESCE(p_notes, 'Variant removed'), NULL, false
+      );
+    END IF;
+    DELETE FROM product_inventory WHERE id = v_existing.id;
+  END LOOP;
+
+  IF jsonb_array_length(p_variants) = 0 THEN
+    SELECT quantity_in_stock INTO v_current FROM products WHERE id = p_product_id;
+
+    IF COALESCE(p_quantity, 0) <> v_current THEN
+      PERFORM record_stock_movement(
+        p_product_id, NULL, NULL, COALESCE(p_quantity, 0) - v_current, p_movement_type, NULL, p_notes, NULL, false
+      );
+    END IF;
+  ELSE
+    -- Stock held on the product itself moves into the variants
+    IF NOT EXISTS (SELECT 1 FROM product_inventory WHERE product_id = p_product_id)
+      AND v_product.quantity_in_stock <> 0 THEN
+      PERFORM record_stock_movement(
+        p_product_id, NULL, NULL, -v_product.quantity_in_stock, p_movement_type, NULL,
+        COALESCE(p_notes, 'Split into variants'), NULL, false
+      );
+    END IF;
+
+    INSERT INTO product_inventory (product_id, size_id, color_id, quantity)
+    SELECT p_product_id, NULLIF(v->>'size_id', '')::UUID, NULLIF(v->>'color_id', '')::UUID, 0
+    FROM jsonb_array_elements(p_variants) AS v
+    ON CONFLICT (product_id, size_id, color_id) DO NOTHING;
+
+    FOR v_variant IN SELECT * FROM jsonb_array_elements(p_variants)
+    LOOP
+      v_size_id := NULLIF(v_variant->>'size_id', '')::UUID;
+      v_color_id := NULLIF(v_variant->>'color_id', '')::UUID;
+
+      SELECT quantity INTO v_current
+      FROM product_inventory
+      WHERE product_id = p_product_id
+        AND size_id IS NOT DISTINCT FROM v_size_id
+        AND color_id IS NOT DISTINCT FROM v_color_id;
+
+      IF COALESCE((v_variant->>'quantity')::INTEGER, 0) <> v_current THEN
+        PERFORM record_stock_movement(
+          p_product_id, v_size_id, v_color_id,
+          COALESCE((v_variant->>'quantity')::INTEGER, 0) - v_current,
+          p_movement_type, NULL, p_notes, NULL, false
+        );
+      END IF;
+    END LOOP;
+  END IF;
+
+  SELECT quantity_in_stock - v_product.quantity_in_stock INTO v_net_change
+  FROM products WHERE id = p_product_id;
+
+  IF v_net_change > 0 THEN
+    PERFORM add_cost_layer(
+      p_product_id, v_product.quantity_in_stock, v_net_change,
+      COALESCE(v_product.average_cost, v_product.cost_inr, 0),
+      CASE WHEN p_movement_type = 'opening' THEN 'opening' ELSE 'adjustment' END
+    );
+  ELSIF v_net_change < 0 THEN
+    PERFORM consume_cost_layers(p_product_id, -v_net_change);
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+  RETURN v_product;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_purchase_order_id UUID, p_items JSONB)
+RETURNS public.purchase_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.purchase_orders;
+  v_item public.purchase_order_items;
+  v_receipt JSONB;
+  v_quantity INTEGER;
+  v_landed_cost NUMERIC;
+  v_stock_before INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF v_order.status IN ('received', 'cancelled') THEN
+    RAISE EXCEPTION 'Purchase order % is already %', v_order.po_number, v_order.status;
+  END IF;
+
+  FOR v_receipt IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB))
+  LOOP
+    v_quantity := COALESCE((v_receipt->>'quantity')::INTEGER, 0);
+    CONTINUE WHEN v_quantity = 0;
+
+    SELECT * INTO v_item
+    FROM purchase_order_items
+    WHERE id = (v_receipt->>'item_id')::UUID
+      AND purchase_order_id = p_purchase_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order item not found';
+    END IF;
+
+    IF v_quantity < 0 OR v_item.quantity_received + v_quantity > v_item.quantity_ordered THEN
+      RAISE EXCEPTION 'Cannot receive % of "%": % ordered, % already received',
+        v_quantity, v_item.product_name, v_item.quantity_ordered, v_item.quantity_received;
+    END IF;
+
+    -- Freight and other charges are spread over the lines in proportion to their cost
+    v_landed_cost := v_item.unit_cost;
+    IF v_order.subtotal > 0 THEN
+      v_landed_cost := ROUND(
+        v_item.unit_cost * (1 + (v_order.freight_amount + v_order.other_charges) / v_order.subtotal),
+        2
+      );
+    END IF;
+
+    UPDATE purchase_order_items
+    SET quantity_received = quantity_received + v_quantity,
+        landed_unit_cost = v_landed_cost
+    WHERE id = v_item.id;
+
+    IF v_item.product_id IS NOT NULL THEN
+      SELECT quantity_in_stock INTO v_stock_before
+      FROM products
+      WHERE id = v_item.product_id
+      FOR UPDATE;
+
+      PERFORM record_stock_movement(
+        v_item.product_id, v_item.size_id, v_item.color_id, v_quantity, 'restock', NULL,
+        'Received on ' || v_order.po_number, v_landed_cost, false
+      );
+
+      PERFORM add_cost_layer(v_item.product_id, v_stock_before, v_quantity, v_landed_cost, 'purchase', v_item.id);
+    END IF;
+  END LOOP;
+
+  UPDATE purchase_orders
+  SET status = CASE
+        WHEN NOT EXISTS (
+          SELECT 1 FROM purchase_order_items
+          WHERE purchase_order_id = p_purchase_order_id AND quantity_received < quantity_ordered
+        ) THEN 'received'
+        WHEN EXISTS (
+          SELECT 1 FROM purchase_order_items
+          WHERE purchase_order_id = p_purchase_order_id AND quantity_received > 0
+        ) THEN 'partially_received'
+        ELSE 'ordered'
+      END,
+      updated_at = now()
+  WHERE id = p_purchase_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_item JSONB;
+  v_product public.products;
+  v_movement public.stock_movements;
+  v_size_id UUID;
+  v_color_id UUID;
+  v_quantity INTEGER;
+  v_costing_method TEXT := current_costing_method();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'product_id' IS NULL
+      OR COALESCE(item->>'product_name', '') = ''
+      OR COALESCE((item->>'quantity')::INTEGER, 0) <= 0
+      OR COALESCE((item->>'unit_price')::NUMERIC, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'All items must have a valid product, quantity greater than 0, and non-negative price';
+  END IF;
+
+  -- Lock every product on the invoice in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT (item->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Serialise invoice numbering for the rest of this transaction
+  PERFORM pg_advisory_xact_lock(hashtext('invoices.invoice_number'));
+
+  INSERT INTO invoices (
+    customer_name,
+    customer_phone,
+    subtotal,
+    tax_amount,
+    tax_percentage,
+    discount_amount,
+    discount_type,
+    grand_total,
+    created_by,
+    payment_status,
+    expected_payment_date,
+    invoice_number
+  )
+  VALUES (
+    NULLIF(p_invoice->>'customer_name', ''),
+    NULLIF(p_invoice->>'customer_phone', ''),
+    (p_invoice->>'subtotal')::NUMERIC,
+    COALESCE((p_invoice->>'tax_amount')::NUMERIC, 0),
+    COALESCE((p_invoice->>'tax_percentage')::NUMERIC, 0),
+    COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0),
+    COALESCE(p_invoice->>'discount_type', 'percentage'),
+    (p_invoice->>'grand_total')::NUMERIC,
+    auth.uid(),
+    COALESCE(p_invoice->>'payment_status', 'done'),
+    CASE
+      WHEN p_invoice->>'payment_status' = 'pending' THEN (p_invoice->>'expected_payment_date')::DATE
+      ELSE NULL
+    END,
+    ''
+  )
+  RETURNING * INTO v_invoice;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_size_id := NULLIF(v_item->>'size_id', '')::UUID;
+    v_color_id := NULLIF(v_item->>'color_id', '')::UUID;
+
+    SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product "%" no longer exists', v_item->>'product_name';
+    END IF;
+
+    -- Raises when the product or chosen variant does not have enough stock;
+    -- the movement carries the cost of the units sold under the store's costing method
+    v_movement := record_stock_movement(
+      v_product.id, v_size_id, v_color_id, -v_quantity, 'sale', v_invoice.id, NULL
+    );
+
+    INSERT INTO invoice_items (
+      invoice_id,
+      product_id,
+      product_name,
+      size_id,
+      size_name,
+      color_id,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      costing_method
+    )
+    VALUES (
+      v_invoice.id,
+      v_product.id,
+      v_item->>'product_name',
+      v_size_id,
+      NULLIF(v_item->>'size_name', ''),
+      v_color_id,
+      NULLIF(v_item->>'color_name', ''),
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'unit_price')::NUMERIC * v_quantity,
+      v_movement.unit_cost,
+      v_costing_method
+    );
+  END LOOP;
+
+  -- Sales records are only created for paid invoices; pending invoices get theirs
+  -- from the status update trigger once they are marked as done
+  IF v_invoice.payment_status = 'done' THEN
+    INSERT INTO sales_records (
+      invoice_id,
+      invoice_number,
+      product_id,
+      product_name,
+      size_name,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      profit_per_unit,
+      total_profit,
+      costing_method,
+      sale_date
+    )
+    SELECT
+      v_invoice.id,
+      v_invoice.invoice_number,
+      ii.product_id,
+      ii.product_name,
+      ii.size_name,
+      ii.color_name,
+      ii.quantity,
+      ii.unit_price,
+      ii.total_price,
+      COALESCE(ii.cost_per_unit, 0),
+      ii.unit_price - COALESCE(ii.cost_per_unit, 0),
+      (ii.unit_price - COALESCE(ii.cost_per_unit, 0)) * ii.quantity,
+      ii.costing_method,
+      v_invoice.created_at
+    FROM invoice_items ii
+    WHERE ii.invoice_id = v_invoice.id;
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_invoice(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.invoice_items;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM 1 FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM invoice_items WHERE invoice_id = p_invoice_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Put the stock back on the variant that was sold, at the cost it was sold at
+  FOR v_item IN
+    SELECT * FROM invoice_items
+    WHERE invoice_id = p_invoice_id
+      AND product_id IN (SELECT id FROM products)
+  LOOP
+    PERFORM record_stock_movement(
+      v_item.product_id, v_item.size_id, v_item.color_id, v_item.quantity, 'return', p_invoice_id,
+      'Sale cancelled', v_item.cost_per_unit
+    );
+  END LOOP;
+
+  DELETE FROM sales_records WHERE invoice_id = p_invoice_id;
+  DELETE FROM invoice_items WHERE invoice_id = p_invoice_id;
+  DELETE FROM invoices WHERE id = p_invoice_id;
+END;
+$$;
+
+-- Sales records created when a pending invoice is paid use the cost worked out at sale time
+CREATE OR REPLACE FUNCTION public.manage_sales_records_on_invoice_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- If status changed from "pending" to "done", create sales records
+  IF OLD.payment_status = 'pending' AND NEW.payment_status = 'done' THEN
+    INSERT INTO public.sales_records (
+      invoice_id,
+      invoice_number,
+      product_id,
+      product_name,
+      size_name,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      profit_per_unit,
+      total_profit,
+      costing_method,
+      sale_date
+    )
+    SELECT
+      NEW.id,
+      NEW.invoice_number,
+      ii.product_id,
+      ii.product_name,
+      ii.size_name,
+      ii.color_name,
+      ii.quantity,
+      ii.unit_price,
+      ii.total_price,
+      COALESCE(ii.cost_per_unit, p.cost_inr, 0),
+      ii.unit_price - COALESCE(ii.cost_per_unit, p.cost_inr, 0),
+      (ii.unit_price - COALESCE(ii.cost_per_unit, p.cost_inr, 0)) * ii.quantity,
+      ii.costing_method,
+      NEW.created_at
+    FROM public.invoice_items ii
+    LEFT JOIN public.products p ON ii.product_id = p.id
+    WHERE ii.invoice_id = NEW.id;
+  END IF;
+
+  -- If status changed from "done" to "pending", delete sales records
+  IF OLD.payment_status = 'done' AND NEW.payment_status = 'pending' THEN
+    DELETE FROM public.sales_records WHERE invoice_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.record_stock_movement(UUID, UUID, UUID, INTEGER, TEXT, UUID, TEXT, NUMERIC, BOOLEAN) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.add_cost_layer(UUID, INTEGER, INTEGER, NUMERIC, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_cost_layers(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,299 @@
+/*
+  # Invoice Editing and Revision History
+
+  1. New Tables
+    - `invoice_revisions`: A copy of an invoice and its items as they were before each edit
+      - `id` (uuid, primary key)
+      - `invoice_id` (uuid, foreign key to invoices)
+      - `revision_number` (integer) - 1 for the first edit, 2 for the second, ...
+      - `invoice_data` (jsonb) - The invoice row before the edit
+      - `items_data` (jsonb) - The invoice items before the edit
+      - `change_summary` (text) - What changed, e.g. "Shirt (M / Blue): 2 → 1; Discount"
+      - `created_by` (uuid) - Who made the edit
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `invoices.updated_at`: When the invoice was last edited
+
+  3. Functions
+    - `update_invoice(p_invoice_id, p_invoice, p_items)`: Replaces the customer, discount and line
+      items of an invoice in one transaction, keeping its number and date. Stock is only moved for
+      the difference between the old and new quantities of each product variant: extra units are
+      recorded as sales, removed units as returns at the cost they were sold at. Sales records of
+      paid invoices are rebuilt from the new items.
+
+  4. Security
+    - Enable RLS on invoice_revisions
+    - Authenticated users can view revisions; they are only written by `update_invoice`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE public.invoices ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.invoice_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE CASCADE NOT NULL,
+  revision_number INTEGER NOT NULL,
+  invoice_data JSONB NOT NULL,
+  items_data JSONB NOT NULL DEFAULT '[]'::JSONB,
+  change_summary TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (invoice_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_revisions_invoice_id ON public.invoice_revisions(invoice_id);
+
+ALTER TABLE public.invoice_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view invoice revisions"
+  ON public.invoice_revisions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.update_invoice(p_invoice_id UUID, p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_line RECORD;
+  v_movement public.stock_movements;
+  v_delta INTEGER;
+  v_unit_cost NUMERIC;
+  v_costs JSONB := '{}'::JSONB;
+  v_changes TEXT[] := ARRAY[]::TEXT[];
+  v_costing_method TEXT := current_costing_method();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'product_id' IS NULL
+      OR COALESCE(item->>'product_name', '') = ''
+      OR COALESCE((item->>'quantity')::INTEGER, 0) <= 0
+      OR COALESCE((item->>'unit_price')::NUMERIC, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'All items must have a valid product, quantity greater than 0, and non-negative price';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT product_id FROM invoice_items WHERE invoice_id = p_invoice_id
+    UNION
+    SELECT (item->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS item
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  INSERT INTO invoice_revisions (invoice_id, revision_number, invoice_data, items_data, created_by)
+  VALUES (
+    p_invoice_id,
+    COALESCE((SELECT MAX(revision_number) FROM invoice_revisions WHERE invoice_id = p_invoice_id), 0) + 1,
+    to_jsonb(v_invoice),
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ii) ORDER BY ii.created_at) FROM invoice_items ii WHERE ii.invoice_id = p_invoice_id),
+      '[]'::JSONB
+    ),
+    auth.uid()
+  );
+
+  -- Compare quantities per product variant so that only the difference touches stock
+  FOR v_line IN
+    WITH old_items AS (
+      SELECT product_id, size_id, color_id,
+             MIN(product_name) AS product_name,
+             MIN(concat_ws(' / ', size_name, color_name)) AS variant,
+             SUM(quantity)::INTEGER AS quantity,
+             SUM(quantity * COALESCE(cost_per_unit, 0)) / NULLIF(SUM(quantity), 0) AS cost_per_unit
+      FROM invoice_items
+      WHERE invoice_id = p_invoice_id AND product_id IS NOT NULL
+      GROUP BY product_id, size_id, color_id
+    ),
+    new_items AS (
+      SELECT (item->>'product_id')::UUID AS product_id,
+             NULLIF(item->>'size_id', '')::UUID AS size_id,
+             NULLIF(item->>'color_id', '')::UUID AS color_id,
+             MIN(item->>'product_name') AS product_name,
+             MIN(concat_ws(' / ', NULLIF(item->>'size_name', ''), NULLIF(item->>'color_name', ''))) AS variant,
+             SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1, 2, 3
+    )
+    SELECT
+      COALESCE(n.product_id, o.product_id) AS product_id,
+      COALESCE(n.size_id, o.size_id) AS size_id,
+      COALESCE(n.color_id, o.color_id) AS color_id,
+      COALESCE(n.product_name, o.product_name) AS product_name,
+      COALESCE(n.variant, o.variant) AS variant,
+      COALESCE(o.quantity, 0) AS old_quantity,
+      COALESCE(n.quantity, 0) AS new_quantity,
+      o.cost_per_unit AS old_cost
+    FROM old_items o
+    FULL JOIN new_items n
+      ON n.product_id = o.product_id
+      AND n.size_id IS NOT DISTINCT FROM o.size_id
+      AND n.color_id IS NOT DISTINCT FROM o.color_id
+  LOOP
+    v_delta := v_line.new_quantity - v_line.old_quantity;
+    v_unit_cost := v_line.old_cost;
+
+    IF v_delta > 0 THEN
+      IF NOT EXISTS (SELECT 1 FROM products WHERE id = v_line.product_id) THEN
+        RAISE EXCEPTION 'Product "%" no longer exists', v_line.product_name;
+      END IF;
+
+      v_movement := record_stock_movement(
+        v_line.product_id, v_line.size_id, v_line.color_id, -v_delta, 'sale', p_invoice_id, 'Invoice edited'
+      );
+
+      -- Units already on the invoice keep their cost; the extra units are costed now
+      v_unit_cost := (v_line.old_quantity * COALESCE(v_line.old_cost, 0) + v_delta * v_movement.unit_cost)
+        / v_line.new_quantity;
+    ELSIF v_delta < 0 AND EXISTS (SELECT 1 FROM products WHERE id = v_line.product_id) THEN
+      PERFORM record_stock_movement(
+        v_line.product_id, v_line.size_id, v_line.color_id, -v_delta, 'return', p_invoice_id,
+        'Invoice edited', v_line.old_cost
+      );
+    END IF;
+
+    IF v_delta <> 0 THEN
+      v_changes := v_changes || format(
+        '%s%s: %s → %s',
+        v_line.product_name,
+        CASE WHEN v_line.variant <> '' THEN ' (' || v_line.variant || ')' ELSE '' END,
+        v_line.old_quantity,
+        v_line.new_quantity
+      );
+    END IF;
+
+    IF v_line.new_quantity > 0 THEN
+      v_costs := v_costs || jsonb_build_object(
+        concat_ws('|', v_line.product_id, v_line.size_id, v_line.color_id),
+        ROUND(COALESCE(v_unit_cost, 0), 2)
+      );
+    END IF;
+  END LOOP;
+
+  IF COALESCE(NULLIF(p_invoice->>'customer_name', ''), '') <> COALESCE(v_invoice.customer_name, '')
+    OR COALESCE(NULLIF(p_invoice->>'customer_phone', ''), '') <> COALESCE(v_invoice.customer_phone, '') THEN
+    v_changes := v_changes || 'Customer details'::TEXT;
+  END IF;
+
+  IF COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0) <> COALESCE(v_invoice.discount_amount, 0) THEN
+    v_changes := v_changes || 'Discount'::TEXT;
+  END IF;
+
+  DELETE FROM invoice_items WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO invoice_items (
+    invoice_id,
+    product_id,
+    product_name,
+    size_id,
+    size_name,
+    color_id,
+    color_name,
+    quantity,
+    unit_price,
+    total_price,
+    cost_per_unit,
+    costing_method
+  )
+  SELECT
+    p_invoice_id,
+    (item->>'product_id')::UUID,
+    item->>'product_name',
+    NULLIF(item->>'size_id', '')::UUID,
+    NULLIF(item->>'size_name', ''),
+    NULLIF(item->>'color_id', '')::UUID,
+    NULLIF(item->>'color_name', ''),
+    (item->>'quantity')::INTEGER,
+    (item->>'unit_price')::NUMERIC,
+    (item->>'unit_price')::NUMERIC * (item->>'quantity')::INTEGER,
+    (v_costs->>concat_ws('|', item->>'product_id', NULLIF(item->>'size_id', ''), NULLIF(item->>'color_id', '')))::NUMERIC,
+    v_costing_method
+  FROM jsonb_array_elements(p_items) AS item;
+
+  UPDATE invoices
+  SET customer_name = NULLIF(p_invoice->>'customer_name', ''),
+      customer_phone = NULLIF(p_invoice->>'customer_phone', ''),
+      subtotal = (p_invoice->>'subtotal')::NUMERIC,
+      tax_amount = COALESCE((p_invoice->>'tax_amount')::NUMERIC, 0),
+      discount_amount = COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0),
+      discount_type = COALESCE(p_invoice->>'discount_type', discount_type),
+      grand_total = (p_invoice->>'grand_total')::NUMERIC,
+      updated_at = now()
+  WHERE id = p_invoice_id
+  RETURNING * INTO v_invoice;
+
+  UPDATE invoice_revisions
+  SET change_summary = COALESCE(NULLIF(array_to_string(v_changes, '; '), ''), 'Prices')
+  WHERE invoice_id = p_invoice_id
+    AND revision_number = (SELECT MAX(revision_number) FROM invoice_revisions WHERE invoice_id = p_invoice_id);
+
+  IF v_invoice.payment_status = 'done' THEN
+    DELETE FROM sales_records WHERE invoice_id = p_invoice_id;
+
+    INSERT INTO sales_records (
+      invoice_id,
+      invoice_number,
+      product_id,
+      product_name,
+      size_name,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      profit_per_unit,
+      total_profit,
+      costing_method,
+      sale_date
+    )
+    SELECT
+      v_invoice.id,
+      v_invoice.invoice_number,
+      ii.product_id,
+      ii.product_name,
+      ii.size_name,
+      ii.color_name,
+      ii.quantity,
+      ii.unit_price,
+      ii.total_price,
+      COALESCE(ii.cost_per_unit, 0),
+      ii.unit_price - COALESCE(ii.cost_per_unit, 0),
+      (ii.unit_price - COALESCE(ii.cost_per_unit, 0)) * ii.quantity,
+      ii.costing_method,
+      v_invoice.created_at
+    FROM invoice_items ii
+    WHERE ii.invoice_id = v_invoice.id;
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_invoice(UUID, JSONB, JSONB) TO authenticated;
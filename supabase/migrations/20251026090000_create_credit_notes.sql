@@ -0,0 +1,697 @@
+/*
+  # Customer Returns and Credit Notes
+
+  1. New Tables
+    - `credit_notes`: A numbered credit note (CN-000001) for items returned against an invoice
+      - `id` (uuid, primary key)
+      - `credit_note_number` (text, unique)
+      - `invoice_id` (uuid, foreign key to invoices) and `invoice_number` - The original sale
+      - `customer_name`, `customer_phone` (text) - Copied from the invoice
+      - `reason` (text)
+      - `refund_method` (text) - cash, upi, card, store_credit or exchange
+      - `exchange_invoice_id` (uuid, foreign key to invoices) - The new invoice for an exchange
+      - `subtotal`, `tax_amount`, `total_amount` (numeric) - Credit due, including the share of
+        the invoice's discount and tax that applied to the returned lines
+      - `created_by` (uuid), `created_at` (timestamp)
+    - `credit_note_items`: The lines and quantities returned
+      - `invoice_item_id` (uuid, foreign key to invoice_items)
+      - product, size and color ids and names, `quantity`, `unit_price`, `total_price`
+      - `cost_per_unit` (numeric) - The cost the units were sold at
+      - `condition` (text) - restock (back on sale) or damaged (written off)
+
+  2. Changes
+    - `invoice_items.quantity_returned`: Units of the line returned so far
+    - `sales_records.credit_note_id`: Set on the negative sales records written for a return
+    - Sales records created when a pending invoice is paid leave out units already returned
+    - `cancel_invoice` only restocks units that have not been returned
+    - `update_invoice` refuses invoices with returns; the credit notes refer to their lines
+
+  3. Functions
+    - `create_credit_note(p_invoice_id, p_credit_note, p_items, p_exchange_invoice, p_exchange_items)`:
+      Returns stock (and writes off damaged units), records negative sales records on the return
+      date for paid invoices, and for exchanges creates the replacement invoice in the same transaction
+
+  4. Security
+    - Enable RLS on both tables
+    - Authenticated users can view credit notes; they are only written by `create_credit_note`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'quantity_returned'
+  ) THEN
+    ALTER TABLE public.invoice_items ADD COLUMN quantity_returned INTEGER NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.credit_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_number TEXT UNIQUE NOT NULL,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  invoice_number TEXT NOT NULL,
+  customer_name TEXT,
+  customer_phone TEXT,
+  reason TEXT,
+  refund_method TEXT NOT NULL DEFAULT 'cash'
+    CHECK (refund_method IN ('cash', 'upi', 'card', 'store_credit', 'exchange')),
+  exchange_invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  subtotal NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(10, 2) DEFAULT 0,
+  total_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.credit_note_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_id UUID REFERENCES public.credit_notes(id) ON DELETE CASCADE NOT NULL,
+  invoice_item_id UUID REFERENCES public.invoice_items(id) ON DELETE SET NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  product_name TEXT NOT NULL,
+  size_id UUID REFERENCES public.sizes(id) ON DELETE SET NULL,
+  size_name TEXT,
+  color_id UUID REFERENCES public.colors(id) ON DELETE SET NULL,
+  color_name TEXT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price NUMERIC(10, 2) NOT NULL,
+  total_price NUMERIC(10, 2) NOT NULL,
+  cost_per_unit NUMERIC(10, 2),
+  condition TEXT NOT NULL DEFAULT 'restock' CHECK (condition IN ('restock', 'damaged')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sales_records' AND column_name = 'credit_note_id'
+  ) THEN
+    ALTER TABLE public.sales_records
+      ADD COLUMN credit_note_id UUID REFERENCES public.credit_notes(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice_id ON public.credit_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_credit_note_id ON public.credit_note_items(credit_note_id);
+
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_note_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view credit notes"
+  ON public.credit_notes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can view credit note items"
+  ON public.credit_note_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Function to auto-generate credit note numbers
+CREATE OR REPLACE FUNCTION public.generate_credit_note_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_number INTEGER;
+BEGIN
+  IF NEW.credit_note_number IS NULL OR NEW.credit_note_number = '' THEN
+    SELECT COALESCE(MAX(CAST(SUBSTRING(credit_note_number FROM 'CN-([0-9]+)') AS INTEGER)), 0) + 1
+    INTO next_number
+    FROM credit_notes
+    WHERE credit_note_number ~ 'CN-[0-9]+';
+
+    NEW.credit_note_number := 'CN-' || LPAD(next_number::TEXT, 6, '0');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_credit_note_number ON public.credit_notes;
+CREATE TRIGGER set_credit_note_number
+  BEFORE INSERT ON public.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.generate_credit_note_number();
+
+CREATE OR REPLACE FUNCTION public.create_credit_note(
+  p_invoice_id UUID,
+  p_credit_note JSONB,
+  p_items JSONB,
+  p_exchange_invoice JSONB DEFAULT NULL,
+  p_exchange_items JSONB DEFAULT NULL
+)
+RETURNS public.credit_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_credit_note public.credit_notes;
+  v_exchange public.invoices;
+  v_item public.invoice_items;
+  v_return JSONB;
+  v_quantity INTEGER;
+  v_condition TEXT;
+  v_subtotal NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM invoice_items WHERE invoice_id = p_invoice_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Serialise credit note numbering for the rest of this transaction
+  PERFORM pg_advisory_xact_lock(hashtext('credit_notes.credit_note_number'));
+
+  INSERT INTO credit_notes (
+    credit_note_number,
+    invoice_id,
+    invoice_number,
+    customer_name,
+    customer_phone,
+    reason,
+    refund_method,
+    created_by
+  )
+  VALUES (
+    '',
+    v_invoice.id,
+    v_invoice.invoice_number,
+    v_invoice.customer_name,
+    v_invoice.customer_phone,
+    NULLIF(p_credit_note->>'reason', ''),
+    CASE
+      WHEN p_exchange_items IS NOT NULL AND jsonb_array_length(p_exchange_items) > 0 THEN 'exchange'
+      ELSE COALESCE(NULLIF(p_credit_note->>'refund_method', ''), 'cash')
+    END,
+    auth.uid()
+  )
+  RETURNING * INTO v_credit_note;
+
+  FOR v_return IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := COALESCE((v_return->>'quantity')::INTEGER, 0);
+    CONTINUE WHEN v_quantity = 0;
+    v_condition := COALESCE(NULLIF(v_return->>'condition', ''), 'restock');
+
+    SELECT * INTO v_item
+    FROM invoice_items
+    WHERE id = (v_return->>'invoice_item_id')::UUID
+      AND invoice_id = p_invoice_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice item not found';
+    END IF;
+
+    IF v_quantity < 0 OR v_item.quantity_returned + v_quantity > v_item.quantity THEN
+      RAISE EXCEPTION 'Cannot return % of "%": % sold, % already returned',
+        v_quantity, v_item.product_name, v_item.quantity, v_item.quantity_returned;
+    END IF;
+
+    UPDATE invoice_items
+    SET quantity_returned = quantity_returned + v_quantity
+    WHERE id = v_item.id;
+
+    INSERT INTO credit_note_items (
+      credit_note_id,
+      invoice_item_id,
+      product_id,
+      product_name,
+      size_id,
+      size_name,
+      color_id,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      condition
+    )
+    VALUES (
+      v_credit_note.id,
+      v_item.id,
+      v_item.product_id,
+      v_item.product_name,
+      v_item.size_id,
+      v_item.size_name,
+      v_item.color_id,
+      v_item.color_name,
+      v_quantity,
+      v_item.unit_price,
+      v_item.unit_price * v_quantity,
+      v_item.cost_per_unit,
+      v_condition
+    );
+
+    IF v_item.product_id IS NOT NULL AND EXISTS (SELECT 1 FROM products WHERE id = v_item.product_id) THEN
+      PERFORM record_stock_movement(
+        v_item.product_id, v_item.size_id, v_item.color_id, v_quantity, 'return', p_invoice_id,
+        'Returned on ' || v_credit_note.credit_note_number, v_item.cost_per_unit
+      );
+
+      -- Damaged returns come back into the ledger and are written off straight away
+      IF v_condition = 'damaged' THEN
+        PERFORM record_stock_movement(
+          v_item.product_id, v_item.size_id, v_item.color_id, -v_quantity, 'damage', p_invoice_id,
+          'Damaged return on ' || v_credit_note.credit_note_number
+        );
+      END IF;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(total_price), 0) INTO v_subtotal
+  FROM credit_note_items
+  WHERE credit_note_id = v_credit_note.id;
+
+  IF v_subtotal = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  -- The returned lines carry their share of the invoice's discount and tax
+  UPDATE credit_notes
+  SET subtotal = v_subtotal,
+      tax_amount = CASE WHEN v_invoice.subtotal > 0
+        THEN ROUND(v_subtotal * COALESCE(v_invoice.tax_amount, 0) / v_invoice.subtotal, 2) ELSE 0 END,
+      total_amount = CASE WHEN v_invoice.subtotal > 0
+        THEN ROUND(v_subtotal * v_invoice.grand_total / v_invoice.subtotal, 2) ELSE v_subtotal END
+  WHERE id = v_credit_note.id
+  RETURNING * INTO v_credit_note;
+
+  -- Paid sales are reversed on the return date; pending invoices simply bill fewer units when paid
+  IF v_invoice.payment_status = 'done' THEN
+    INSERT INTO sales_records (
+      invoice_id,
+      invoice_number,
+      credit_note_id,
+      product_id,
+      product_name,
+      size_name,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      profit_per_unit,
+      total_profit,
+      costing_method,
+      sale_date
+    )
+    SELECT
+      v_invoice.id,
+      v_invoice.invoice_number,
+      v_credit_note.id,
+      cni.product_id,
+      cni.product_name,
+      cni.size_name,
+      cni.color_name,
+      -cni.quantity,
+      cni.unit_price,
+      -cni.total_price,
+      COALESCE(cni.cost_per_unit, 0),
+      cni.unit_price - COALESCE(cni.cost_per_unit, 0),
+      -(cni.unit_price - COALESCE(cni.cost_per_unit, 0)) * cni.quantity,
+      ii.costing_method,
+      v_credit_note.created_at
+    FROM credit_note_items cni
+    LEFT JOIN invoice_items ii ON ii.id = cni.invoice_item_id
+    WHERE cni.credit_note_id = v_credit_note.id;
+  END IF;
+
+  IF p_exchange_items IS NOT NULL AND jsonb_array_length(p_exchange_items) > 0 THEN
+    v_exchange := create_invoice(
+      COALESCE(p_exchange_invoice, '{}'::JSONB) || jsonb_build_object(
+        'customer_name', v_invoice.customer_name,
+        'customer_phone', v_invoice.customer_phone
+      ),
+      p_exchange_items
+    );
+
+    UPDATE credit_notes
+    SET exchange_invoice_id = v_exchange.id
+    WHERE id = v_credit_note.id
+    RETURNING * INTO v_credit_note;
+  END IF;
+
+  RETURN v_credit_note;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_invoice(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.invoice_items;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM 1 FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM invoice_items WHERE invoice_id = p_invoice_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Put the stock back on the variant that was sold, at the cost it was sold at.
+  -- Units already returned on a credit note are back in stock.
+  FOR v_item IN
+    SELECT * FROM invoice_items
+    WHERE invoice_id = p_invoice_id
+      AND quantity > quantity_returned
+      AND product_id IN (SELECT id FROM products)
+  LOOP
+    PERFORM record_stock_movement(
+      v_item.product_id, v_item.size_id, v_item.color_id, v_item.quantity - v_item.quantity_returned,
+      'return', p_invoice_id, 'Sale cancelled', v_item.cost_per_unit
+    );
+  END LOOP;
+
+  DELETE FROM sales_records WHERE invoice_id = p_invoice_id;
+  DELETE FROM invoice_items WHERE invoice_id = p_invoice_id;
+  DELETE FROM invoices WHERE id = p_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.manage_sales_records_on_invoice_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- If status changed from "pending" to "done", create sales records for the units kept
+  IF OLD.payment_status = 'pending' AND NEW.payment_status = 'done' THEN
+    INSERT INTO public.sales_records (
+      invoice_id,
+      invoice_number,
+      product_id,
+      product_name,
+      size_name,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      profit_per_unit,
+      total_profit,
+      costing_method,
+      sale_date
+    )
+    SELECT
+      NEW.id,
+      NEW.invoice_number,
+      ii.product_id,
+      ii.product_name,
+      ii.size_name,
+      ii.color_name,
+      ii.quantity - ii.quantity_returned,
+      ii.unit_price,
+      ii.unit_price * (ii.quantity - ii.quantity_returned),
+      COALESCE(ii.cost_per_unit, p.cost_inr, 0),
+      ii.unit_price - COALESCE(ii.cost_per_unit, p.cost_inr, 0),
+      (ii.unit_price - COALESCE(ii.cost_per_unit, p.cost_inr, 0)) * (ii.quantity - ii.quantity_returned),
+      ii.costing_method,
+      NEW.created_at
+    FROM public.invoice_items ii
+    LEFT JOIN public.products p ON ii.product_id = p.id
+    WHERE ii.invoice_id = NEW.id
+      AND ii.quantity > ii.quantity_returned;
+  END IF;
+
+  -- If status changed from "done" to "pending", delete sales records
+  IF OLD.payment_status = 'done' AND NEW.payment_status = 'pending' THEN
+    DELETE FROM public.sales_records WHERE invoice_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Items with returns are referenced by credit notes, so those invoices are no longer editable
+CREATE OR REPLACE FUNCTION public.update_invoice(p_invoice_id UUID, p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_line RECORD;
+  v_movement public.stock_movements;
+  v_delta INTEGER;
+  v_unit_cost NUMERIC;
+  v_costs JSONB := '{}'::JSONB;
+  v_changes TEXT[] := ARRAY[]::TEXT[];
+  v_costing_method TEXT := current_costing_method();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'product_id' IS NULL
+      OR COALESCE(item->>'product_name', '') = ''
+      OR COALESCE((item->>'quantity')::INTEGER, 0) <= 0
+      OR COALESCE((item->>'unit_price')::NUMERIC, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'All items must have a valid product, quantity greater than 0, and non-negative price';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM invoice_items WHERE invoice_id = p_invoice_id AND quantity_returned > 0) THEN
+    RAISE EXCEPTION 'Invoice % has returns against it and can no longer be edited', v_invoice.invoice_number;
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT product_id FROM invoice_items WHERE invoice_id = p_invoice_id
+    UNION
+    SELECT (item->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS item
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  INSERT INTO invoice_revisions (invoice_id, revision_number, invoice_data, items_data, created_by)
+  VALUES (
+    p_invoice_id,
+    COALESCE((SELECT MAX(revision_number) FROM invoice_revisions WHERE invoice_id = p_invoice_id), 0) + 1,
+    to_jsonb(v_invoice),
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ii) ORDER BY ii.created_at) FROM invoice_items ii WHERE ii.invoice_id = p_invoice_id),
+      '[]'::JSONB
+    ),
+    auth.uid()
+  );
+
+  -- Compare quantities per product variant so that only the difference touches stock
+  FOR v_line IN
+    WITH old_items AS (
+      SELECT product_id, size_id, color_id,
+             MIN(product_name) AS product_name,
+             MIN(concat_ws(' / ', size_name, color_name)) AS variant,
+             SUM(quantity)::INTEGER AS quantity,
+             SUM(quantity * COALESCE(cost_per_unit, 0)) / NULLIF(SUM(quantity), 0) AS cost_per_unit
+      FROM invoice_items
+      WHERE invoice_id = p_invoice_id AND product_id IS NOT NULL
+      GROUP BY product_id, size_id, color_id
+    ),
+    new_items AS (
+      SELECT (item->>'product_id')::UUID AS product_id,
+             NULLIF(item->>'size_id', '')::UUID AS size_id,
+             NULLIF(item->>'color_id', '')::UUID AS color_id,
+             MIN(item->>'product_name') AS product_name,
+             MIN(concat_ws(' / ', NULLIF(item->>'size_name', ''), NULLIF(item->>'color_name', ''))) AS variant,
+             SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1, 2, 3
+    )
+    SELECT
+      COALESCE(n.product_id, o.product_id) AS product_id,
+      COALESCE(n.size_id, o.size_id) AS size_id,
+      COALESCE(n.color_id, o.color_id) AS color_id,
+      COALESCE(n.product_name, o.product_name) AS product_name,
+      COALESCE(n.variant, o.variant) AS variant,
+      COALESCE(o.quantity, 0) AS old_quantity,
+      COALESCE(n.quantity, 0) AS new_quantity,
+      o.cost_per_unit AS old_cost
+    FROM old_items o
+    FULL JOIN new_items n
+      ON n.product_id = o.product_id
+      AND n.size_id IS NOT DISTINCT FROM o.size_id
+      AND n.color_id IS NOT DISTINCT FROM o.color_id
+  LOOP
+    v_delta := v_line.new_quantity - v_line.old_quantity;
+    v_unit_cost := v_line.old_cost;
+
+    IF v_delta > 0 THEN
+      IF NOT EXISTS (SELECT 1 FROM products WHERE id = v_line.product_id) THEN
+        RAISE EXCEPTION 'Product "%" no longer exists', v_line.product_name;
+      END IF;
+
+      v_movement := record_stock_movement(
+        v_line.product_id, v_line.size_id, v_line.color_id, -v_delta, 'sale', p_invoice_id, 'Invoice edited'
+      );
+
+      -- Units already on the invoice keep their cost; the extra units are costed now
+      v_unit_cost := (v_line.old_quantity * COALESCE(v_line.old_cost, 0) + v_delta * v_movement.unit_cost)
+        / v_line.new_quantity;
+    ELSIF v_delta < 0 AND EXISTS (SELECT 1 FROM products WHERE id = v_line.product_id) THEN
+      PERFORM record_stock_movement(
+        v_line.product_id, v_line.size_id, v_line.color_id, -v_delta, 'return', p_invoice_id,
+        'Invoice edited', v_line.old_cost
+      );
+    END IF;
+
+    IF v_delta <> 0 THEN
+      v_changes := v_changes || format(
+        '%s%s: %s → %s',
+        v_line.product_name,
+        CASE WHEN v_line.variant <> '' THEN ' (' || v_line.variant || ')' ELSE '' END,
+        v_line.old_quantity,
+        v_line.new_quantity
+      );
+    END IF;
+
+    IF v_line.new_quantity > 0 THEN
+      v_costs := v_costs || jsonb_build_object(
+        concat_ws('|', v_line.product_id, v_line.size_id, v_line.color_id),
+        ROUND(COALESCE(v_unit_cost, 0), 2)
+      );
+    END IF;
+  END LOOP;
+
+  IF COALESCE(NULLIF(p_invoice->>'customer_name', ''), '') <> COALESCE(v_invoice.customer_name, '')
+    OR COALESCE(NULLIF(p_invoice->>'customer_phone', ''), '') <> COALESCE(v_invoice.customer_phone, '') THEN
+    v_changes := v_changes || 'Customer details'::TEXT;
+  END IF;
+
+  IF COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0) <> COALESCE(v_invoice.discount_amount, 0) THEN
+    v_changes := v_changes || 'Discount'::TEXT;
+  END IF;
+
+  DELETE FROM invoice_items WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO invoice_items (
+    invoice_id,
+    product_id,
+    product_name,
+    size_id,
+    size_name,
+    color_id,
+    color_name,
+    quantity,
+    unit_price,
+    total_price,
+    cost_per_unit,
+    costing_method
+  )
+  SELECT
+    p_invoice_id,
+    (item->>'product_id')::UUID,
+    item->>'product_name',
+    NULLIF(item->>'size_id', '')::UUID,
+    NULLIF(item->>'size_name', ''),
+    NULLIF(item->>'color_id', '')::UUID,
+    NULLIF(item->>'color_name', ''),
+    (item->>'quantity')::INTEGER,
+    (item->>'unit_price')::NUMERIC,
+    (item->>'unit_price')::NUMERIC * (item->>'quantity')::INTEGER,
+    (v_costs->>concat_ws('|', item->>'product_id', NULLIF(item->>'size_id', ''), NULLIF(item->>'color_id', '')))::NUMERIC,
+    v_costing_method
+  FROM jsonb_array_elements(p_items) AS item;
+
+  UPDATE invoices
+  SET customer_name = NULLIF(p_invoice->>'customer_name', ''),
+      customer_phone = NULLIF(p_invoice->>'customer_phone', ''),
+      subtotal = (p_invoice->>'subtotal')::NUMERIC,
+      tax_amount = COALESCE((p_invoice->>'tax_amount')::NUMERIC, 0),
+      discount_amount = COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0),
+      discount_type = COALESCE(p_invoice->>'discount_type', discount_type),
+      grand_total = (p_invoice->>'grand_total')::NUMERIC,
+      updated_at = now()
+  WHERE id = p_invoice_id
+  RETURNING * INTO v_invoice;
+
+  UPDATE invoice_revisions
+  SET change_summary = COALESCE(NULLIF(array_to_string(v_changes, '; '), ''), 'Prices')
+  WHERE invoice_id = p_invoice_id
+    AND revision_number = (SELECT MAX(revision_number) FROM invoice_revisions WHERE invoice_id = p_invoice_id);
+
+  IF v_invoice.payment_status = 'done' THEN
+    DELETE FROM sales_records WHERE invoice_id = p_invoice_id;
+
+    INSERT INTO sales_records (
+      invoice_id,
+      invoice_number,
+      product_id,
+      product_name,
+      size_name,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      profit_per_unit,
+      total_profit,
+      costing_method,
+      sale_date
+    )
+    SELECT
+      v_invoice.id,
+      v_invoice.invoice_number,
+      ii.product_id,
+      ii.product_name,
+      ii.size_name,
+      ii.color_name,
+      ii.quantity,
+      ii.unit_price,
+      ii.total_price,
+      COALESCE(ii.cost_per_unit, 0),
+      ii.unit_price - COALESCE(ii.cost_per_unit, 0),
+      (ii.unit_price - COALESCE(ii.cost_per_unit, 0)) * ii.quantity,
+      ii.costing_method,
+      v_invoice.created_at
+    FROM invoice_items ii
+    WHERE ii.invoice_id = v_invoice.id;
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_credit_note(UUID, JSONB, JSONB, JSONB, JSONB) TO authenticated;
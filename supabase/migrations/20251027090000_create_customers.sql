@@ -0,0 +1,186 @@
+/*
+  # Customer Directory
+
+  1. New Tables
+    - `customers`: One row per buyer, identified by phone number
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `phone` (text, unique) - Stored as the last 10 digits so spacing and +91 don't create duplicates
+      - `email`, `address`, `notes` (text)
+      - `created_by` (uuid), `created_at`, `updated_at` (timestamp)
+
+  2. Changes
+    - `invoices.customer_id`: The customer the invoice belongs to. An invoice saved without one
+      is linked from `customer_phone`, creating the customer on their first purchase
+    - Existing invoices are grouped into customers by phone number; the most recent name is kept
+
+  3. Views
+    - `customer_summaries`: Each customer with visits, total spend (net of credit notes),
+      last purchase and the total of their pending invoices
+
+  4. Security
+    - Enable RLS on customers
+    - Authenticated users can view, create, update and delete customers
+*/
+
+CREATE OR REPLACE FUNCTION public.normalize_phone(p_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(RIGHT(regexp_replace(COALESCE(p_phone, ''), '[^0-9]', '', 'g'), 10), '');
+$$;
+
+CREATE TABLE IF NOT EXISTS public.customers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  phone TEXT UNIQUE,
+  email TEXT,
+  address TEXT,
+  notes TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'customer_id'
+  ) THEN
+    ALTER TABLE public.invoices
+      ADD COLUMN customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_customer_id ON public.invoices(customer_id);
+
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view customers"
+  ON public.customers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can create customers"
+  ON public.customers FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update customers"
+  ON public.customers FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete customers"
+  ON public.customers FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Keep phone numbers in one format so lookups and the unique constraint work
+CREATE OR REPLACE FUNCTION public.normalize_customer_phone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.phone := normalize_phone(NEW.phone);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS normalize_customer_phone ON public.customers;
+CREATE TRIGGER normalize_customer_phone
+  BEFORE INSERT OR UPDATE OF phone ON public.customers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_customer_phone();
+
+-- Links an invoice to the customer picked for it, or failing that to the customer with the same
+-- phone number, creating them on their first purchase. Invoices without either stay unlinked.
+CREATE OR REPLACE FUNCTION public.link_invoice_customer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_phone TEXT := normalize_phone(NEW.customer_phone);
+BEGIN
+  -- A customer picked in the app wins over the phone number
+  IF NEW.customer_id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.customer_id IS DISTINCT FROM OLD.customer_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Saving an invoice without changing its phone number keeps its customer
+  IF TG_OP = 'UPDATE' AND NEW.customer_id IS NOT NULL AND NEW.customer_phone IS NOT DISTINCT FROM OLD.customer_phone THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_phone IS NULL THEN
+    NEW.customer_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO NEW.customer_id FROM customers WHERE phone = v_phone;
+
+  IF NEW.customer_id IS NULL THEN
+    INSERT INTO customers (name, phone)
+    VALUES (COALESCE(NULLIF(NEW.customer_name, ''), v_phone), v_phone)
+    ON CONFLICT (phone) DO UPDATE SET updated_at = now()
+    RETURNING id INTO NEW.customer_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_invoice_customer ON public.invoices;
+CREATE TRIGGER link_invoice_customer
+  BEFORE INSERT OR UPDATE OF customer_phone, customer_id ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.link_invoice_customer();
+
+-- Backfill: one customer per phone number, named as on their latest invoice
+INSERT INTO public.customers (name, phone, created_at)
+SELECT DISTINCT ON (normalize_phone(customer_phone))
+  COALESCE(NULLIF(customer_name, ''), normalize_phone(customer_phone)),
+  normalize_phone(customer_phone),
+  MIN(created_at) OVER (PARTITION BY normalize_phone(customer_phone))
+FROM public.invoices
+WHERE normalize_phone(customer_phone) IS NOT NULL
+ORDER BY normalize_phone(customer_phone), created_at DESC
+ON CONFLICT (phone) DO NOTHING;
+
+UPDATE public.invoices i
+SET customer_id = c.id
+FROM public.customers c
+WHERE c.phone = normalize_phone(i.customer_phone)
+  AND i.customer_id IS NULL;
+
+CREATE OR REPLACE VIEW public.customer_summaries
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.name,
+  c.phone,
+  c.email,
+  c.address,
+  c.notes,
+  c.created_at,
+  COUNT(i.id)::INTEGER AS visits,
+  COALESCE(SUM(i.grand_total), 0)
+    - COALESCE((
+        SELECT SUM(cn.total_amount)
+        FROM credit_notes cn
+        JOIN invoices ci ON ci.id = cn.invoice_id
+        WHERE ci.customer_id = c.id
+      ), 0) AS total_spend,
+  MAX(i.created_at) AS last_purchase_at,
+  COALESCE(SUM(i.grand_total) FILTER (WHERE i.payment_status = 'pending'), 0) AS outstanding_amount
+FROM public.customers c
+LEFT JOIN public.invoices i ON i.customer_id = c.id
+GROUP BY c.id;
+
+GRANT SELECT ON public.customer_summaries TO authenticated;
@@ -0,0 +1,986 @@
+/*
+  # Payments and Accounts Receivable
+
+  1. New Tables
+    - `payments`: Money received against an invoice; an invoice can be paid in instalments
+      - `id` (uuid, primary key)
+      - `invoice_id` (uuid, foreign key to invoices)
+      - `amount` (numeric)
+      - `method` (text) - cash, upi, card or bank
+      - `paid_on` (date)
+      - `reference` (text) - UPI/bank transaction id, cheque number, etc.
+      - `created_by` (uuid), `created_at` (timestamp)
+
+  2. Changes
+    - `invoices.amount_paid`: Sum of the invoice's payments, kept up to date by triggers
+    - `invoices.payment_status` is now paid, partial or unpaid and is derived from the payments
+      and credit notes against the invoice. Existing done invoices become paid (with a payment
+      for the full amount) and pending invoices become unpaid
+    - Sales records are written when the invoice is created, whatever its payment status, so
+      profit is recognised on the sale date. Pending invoices get their missing sales records
+    - The `manage_sales_on_invoice_update` trigger and `update_invoice_payment_status` are dropped
+    - `create_invoice` takes `payment_status`, `amount_paid`, `payment_method` and
+      `payment_reference` and records the first payment
+    - `customer_summaries.outstanding_amount` is the balance still due after payments and returns
+
+  3. Functions/Views
+    - `record_payment(p_invoice_id, p_payment)`: Records a payment, refusing more than is due
+    - `delete_payment(p_payment_id)`: Removes a payment entered by mistake
+    - `receivables`: Every invoice with a balance due, its age in days and whether it is overdue
+      (past its expected payment date)
+
+  4. Security
+    - Enable RLS on payments
+    - Authenticated users can view payments; they are only written by the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE CASCADE NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  method TEXT NOT NULL DEFAULT 'cash' CHECK (method IN ('cash', 'upi', 'card', 'bank')),
+  paid_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  reference TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_invoice_id ON public.payments(invoice_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view payments"
+  ON public.payments FOR SELECT
+  TO authenticated
+  USING (true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'amount_paid'
+  ) THEN
+    ALTER TABLE public.invoices ADD COLUMN amount_paid NUMERIC(10, 2) NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+-- Status is now driven by payments rather than set by hand
+DROP TRIGGER IF EXISTS manage_sales_on_invoice_update ON public.invoices;
+DROP FUNCTION IF EXISTS public.manage_sales_records_on_invoice_update();
+DROP FUNCTION IF EXISTS public.update_invoice_payment_status(UUID, TEXT, DATE);
+
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_payment_status_check;
+
+UPDATE public.invoices
+SET payment_status = CASE WHEN payment_status = 'pending' THEN 'unpaid' ELSE 'paid' END;
+
+ALTER TABLE public.invoices
+  ALTER COLUMN payment_status SET DEFAULT 'unpaid',
+  ADD CONSTRAINT invoices_payment_status_check CHECK (payment_status IN ('paid', 'partial', 'unpaid'));
+
+-- Backfill: invoices marked done were paid in full when they were created
+INSERT INTO public.payments (invoice_id, amount, method, paid_on, reference, created_by, created_at)
+SELECT id, grand_total, 'cash', created_at::DATE, 'Recorded before payment tracking', created_by, created_at
+FROM public.invoices
+WHERE payment_status = 'paid' AND grand_total > 0;
+
+UPDATE public.invoices
+SET amount_paid = grand_total
+WHERE payment_status = 'paid';
+
+-- Backfill: pending invoices never got sales records; recognise them on their sale date
+INSERT INTO public.sales_records (
+  invoice_id,
+  invoice_number,
+  product_id,
+  product_name,
+  size_name,
+  color_name,
+  quantity,
+  unit_price,
+  total_price,
+  cost_per_unit,
+  profit_per_unit,
+  total_profit,
+  costing_method,
+  sale_date
+)
+SELECT
+  i.id,
+  i.invoice_number,
+  ii.product_id,
+  ii.product_name,
+  ii.size_name,
+  ii.color_name,
+  ii.quantity - ii.quantity_returned,
+  ii.unit_price,
+  ii.unit_price * (ii.quantity - ii.quantity_returned),
+  COALESCE(ii.cost_per_unit, p.cost_inr, 0),
+  ii.unit_price - COALESCE(ii.cost_per_unit, p.cost_inr, 0),
+  (ii.unit_price - COALESCE(ii.cost_per_unit, p.cost_inr, 0)) * (ii.quantity - ii.quantity_returned),
+  ii.costing_method,
+  i.created_at
+FROM public.invoices i
+JOIN public.invoice_items ii ON ii.invoice_id = i.id
+LEFT JOIN public.products p ON p.id = ii.product_id
+WHERE i.payment_status = 'unpaid'
+  AND ii.quantity > ii.quantity_returned
+  AND NOT EXISTS (SELECT 1 FROM public.sales_records sr WHERE sr.invoice_id = i.id);
+
+-- Recomputes amount_paid and payment_status from the payments and credit notes on an invoice.
+-- Returned goods reduce what the customer owes, so an unpaid invoice that is fully returned is settled.
+CREATE OR REPLACE FUNCTION public.refresh_invoice_payment_status(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_paid NUMERIC;
+  v_credited NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid FROM payments WHERE invoice_id = p_invoice_id;
+  SELECT COALESCE(SUM(total_amount), 0) INTO v_credited FROM credit_notes WHERE invoice_id = p_invoice_id;
+
+  UPDATE invoices
+  SET amount_paid = v_paid,
+      payment_status = CASE
+        WHEN v_paid + v_credited >= grand_total THEN 'paid'
+        WHEN v_paid > 0 THEN 'partial'
+        ELSE 'unpaid'
+      END,
+      expected_payment_date = CASE
+        WHEN v_paid + v_credited >= grand_total THEN NULL
+        ELSE expected_payment_date
+      END
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_invoice_payment_status_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_invoice_payment_status(OLD.invoice_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM refresh_invoice_payment_status(NEW.invoice_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_invoice_payment_status ON public.payments;
+CREATE TRIGGER refresh_invoice_payment_status
+  AFTER INSERT OR DELETE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_invoice_payment_status_trigger();
+
+DROP TRIGGER IF EXISTS refresh_invoice_payment_status ON public.credit_notes;
+CREATE TRIGGER refresh_invoice_payment_status
+  AFTER INSERT OR UPDATE OF total_amount ON public.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_invoice_payment_status_trigger();
+
+-- Credit notes raised before payments were tracked may already settle an unpaid invoice
+SELECT public.refresh_invoice_payment_status(id)
+FROM public.invoices
+WHERE payment_status = 'unpaid'
+  AND id IN (SELECT invoice_id FROM public.credit_notes);
+
+CREATE OR REPLACE FUNCTION public.record_payment(p_invoice_id UUID, p_payment JSONB)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_payment public.payments;
+  v_amount NUMERIC := ROUND(COALESCE((p_payment->>'amount')::NUMERIC, 0), 2);
+  v_due NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than 0';
+  END IF;
+
+  v_due := v_invoice.grand_total - v_invoice.amount_paid
+    - COALESCE((SELECT SUM(total_amount) FROM credit_notes WHERE invoice_id = p_invoice_id), 0);
+
+  IF v_amount > v_due THEN
+    RAISE EXCEPTION 'Payment of ₹% is more than the ₹% due on %',
+      v_amount, GREATEST(v_due, 0), v_invoice.invoice_number;
+  END IF;
+
+  INSERT INTO payments (invoice_id, amount, method, paid_on, reference, created_by)
+  VALUES (
+    p_invoice_id,
+    v_amount,
+    COALESCE(NULLIF(p_payment->>'method', ''), 'cash'),
+    COALESCE(NULLIF(p_payment->>'paid_on', '')::DATE, CURRENT_DATE),
+    NULLIF(p_payment->>'reference', ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_payment;
+
+  RETURN v_payment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_payment(p_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM 1
+  FROM invoices
+  WHERE id = (SELECT invoice_id FROM payments WHERE id = p_payment_id)
+  FOR UPDATE;
+
+  DELETE FROM payments WHERE id = p_payment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+END;
+$$;
+
+-- Takes the first payment at the till and writes sales records for every sale
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_item JSONB;
+  v_product public.products;
+  v_movement public.stock_movements;
+  v_size_id UUID;
+  v_color_id UUID;
+  v_quantity INTEGER;
+  v_costing_method TEXT := current_costing_method();
+  v_payment_status TEXT := COALESCE(NULLIF(p_invoice->>'payment_status', ''), 'paid');
+  v_paid NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'product_id' IS NULL
+      OR COALESCE(item->>'product_name', '') = ''
+      OR COALESCE((item->>'quantity')::INTEGER, 0) <= 0
+      OR COALESCE((item->>'unit_price')::NUMERIC, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'All items must have a valid product, quantity greater than 0, and non-negative price';
+  END IF;
+
+  IF v_payment_status NOT IN ('paid', 'partial', 'unpaid') THEN
+    RAISE EXCEPTION 'Unknown payment status "%"', v_payment_status;
+  END IF;
+
+  v_paid := CASE v_payment_status
+    WHEN 'paid' THEN (p_invoice->>'grand_total')::NUMERIC
+    WHEN 'partial' THEN ROUND(COALESCE((p_invoice->>'amount_paid')::NUMERIC, 0), 2)
+    ELSE 0
+  END;
+
+  IF v_payment_status = 'partial' AND (v_paid <= 0 OR v_paid >= (p_invoice->>'grand_total')::NUMERIC) THEN
+    RAISE EXCEPTION 'A part payment must be more than 0 and less than the invoice total';
+  END IF;
+
+  -- Lock every product on the invoice in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT (item->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Serialise invoice numbering for the rest of this transaction
+  PERFORM pg_advisory_xact_lock(hashtext('invoices.invoice_number'));
+
+  INSERT INTO invoices (
+    customer_name,
+    customer_phone,
+    subtotal,
+    tax_amount,
+    tax_percentage,
+    discount_amount,
+    discount_type,
+    grand_total,
+    created_by,
+    payment_status,
+    expected_payment_date,
+    invoice_number
+  )
+  VALUES (
+    NULLIF(p_invoice->>'customer_name', ''),
+    NULLIF(p_invoice->>'customer_phone', ''),
+    (p_invoice->>'subtotal')::NUMERIC,
+    COALESCE((p_invoice->>'tax_amount')::NUMERIC, 0),
+    COALESCE((p_invoice->>'tax_percentage')::NUMERIC, 0),
+    COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0),
+    COALESCE(p_invoice->>'discount_type', 'percentage'),
+    (p_invoice->>'grand_total')::NUMERIC,
+    auth.uid(),
+    'unpaid',
+    CASE
+      WHEN v_payment_status <> 'paid' THEN NULLIF(p_invoice->>'expected_payment_date', '')::DATE
+      ELSE NULL
+    END,
+    ''
+  )
+  RETURNING * INTO v_invoice;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_size_id := NULLIF(v_item->>'size_id', '')::UUID;
+    v_color_id := NULLIF(v_item->>'color_id', '')::UUID;
+
+    SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product "%" no longer exists', v_item->>'product_name';
+    END IF;
+
+    -- Raises when the product or chosen variant does not have enough stock;
+    -- the movement carries the cost of the units sold under the store's costing method
+    v_movement := record_stock_movement(
+      v_product.id, v_size_id, v_color_id, -v_quantity, 'sale', v_invoice.id, NULL
+    );
+
+    INSERT INTO invoice_items (
+      invoice_id,
+      product_id,
+      product_name,
+      size_id,
+      size_name,
+      color_id,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      costing_method
+    )
+    VALUES (
+      v_invoice.id,
+      v_product.id,
+      v_item->>'product_name',
+      v_size_id,
+      NULLIF(v_item->>'size_name', ''),
+      v_color_id,
+      NULLIF(v_item->>'color_name', ''),
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'unit_price')::NUMERIC * v_quantity,
+      v_movement.unit_cost,
+      v_costing_method
+    );
+  END LOOP;
+
+  -- Profit is recognised on the sale date, whether or not the invoice has been paid
+  INSERT INTO sales_records (
+    invoice_id,
+    invoice_number,
+    product_id,
+    product_name,
+    size_name,
+    color_name,
+    quantity,
+    unit_price,
+    total_price,
+    cost_per_unit,
+    profit_per_unit,
+    total_profit,
+    costing_method,
+    sale_date
+  )
+  SELECT
+    v_invoice.id,
+    v_invoice.invoice_number,
+    ii.product_id,
+    ii.product_name,
+    ii.size_name,
+    ii.color_name,
+    ii.quantity,
+    ii.unit_price,
+    ii.total_price,
+    COALESCE(ii.cost_per_unit, 0),
+    ii.unit_price - COALESCE(ii.cost_per_unit, 0),
+    (ii.unit_price - COALESCE(ii.cost_per_unit, 0)) * ii.quantity,
+    ii.costing_method,
+    v_invoice.created_at
+  FROM invoice_items ii
+  WHERE ii.invoice_id = v_invoice.id;
+
+  IF v_paid > 0 THEN
+    INSERT INTO payments (invoice_id, amount, method, reference, created_by)
+    VALUES (
+      v_invoice.id,
+      v_paid,
+      COALESCE(NULLIF(p_invoice->>'payment_method', ''), 'cash'),
+      NULLIF(p_invoice->>'payment_reference', ''),
+      auth.uid()
+    );
+  END IF;
+
+  -- Also settles invoices with nothing to pay
+  PERFORM refresh_invoice_payment_status(v_invoice.id);
+  SELECT * INTO v_invoice FROM invoices WHERE id = v_invoice.id;
+
+  RETURN v_invoice;
+END;
+$$;
+
+-- Returns are reversed in the sales records of every invoice, not only paid ones
+CREATE OR REPLACE FUNCTION public.create_credit_note(
+  p_invoice_id UUID,
+  p_credit_note JSONB,
+  p_items JSONB,
+  p_exchange_invoice JSONB DEFAULT NULL,
+  p_exchange_items JSONB DEFAULT NULL
+)
+RETURNS public.credit_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_credit_note public.credit_notes;
+  v_exchange public.invoices;
+  v_item public.invoice_items;
+  v_return JSONB;
+  v_quantity INTEGER;
+  v_condition TEXT;
+  v_subtotal NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM invoice_items WHERE invoice_id = p_invoice_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Serialise credit note numbering for the rest of this transaction
+  PERFORM pg_advisory_xact_lock(hashtext('credit_notes.credit_note_number'));
+
+  INSERT INTO credit_notes (
+    credit_note_number,
+    invoice_id,
+    invoice_number,
+    customer_name,
+    customer_phone,
+    reason,
+    refund_method,
+    created_by
+  )
+  VALUES (
+    '',
+    v_invoice.id,
+    v_invoice.invoice_number,
+    v_invoice.customer_name,
+    v_invoice.customer_phone,
+    NULLIF(p_credit_note->>'reason', ''),
+    CASE
+      WHEN p_exchange_items IS NOT NULL AND jsonb_array_length(p_exchange_items) > 0 THEN 'exchange'
+      ELSE COALESCE(NULLIF(p_credit_note->>'refund_method', ''), 'cash')
+    END,
+    auth.uid()
+  )
+  RETURNING * INTO v_credit_note;
+
+  FOR v_return IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := COALESCE((v_return->>'quantity')::INTEGER, 0);
+    CONTINUE WHEN v_quantity = 0;
+    v_condition := COALESCE(NULLIF(v_return->>'condition', ''), 'restock');
+
+    SELECT * INTO v_item
+    FROM invoice_items
+    WHERE id = (v_return->>'invoice_item_id')::UUID
+      AND invoice_id = p_invoice_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice item not found';
+    END IF;
+
+    IF v_quantity < 0 OR v_item.quantity_returned + v_quantity > v_item.quantity THEN
+      RAISE EXCEPTION 'Cannot return % of "%": % sold, % already returned',
+        v_quantity, v_item.product_name, v_item.quantity, v_item.quantity_returned;
+    END IF;
+
+    UPDATE invoice_items
+    SET quantity_returned = quantity_returned + v_quantity
+    WHERE id = v_item.id;
+
+    INSERT INTO credit_note_items (
+      credit_note_id,
+      invoice_item_id,
+      product_id,
+      product_name,
+      size_id,
+      size_name,
+      color_id,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      condition
+    )
+    VALUES (
+      v_credit_note.id,
+      v_item.id,
+      v_item.product_id,
+      v_item.product_name,
+      v_item.size_id,
+      v_item.size_name,
+      v_item.color_id,
+      v_item.color_name,
+      v_quantity,
+      v_item.unit_price,
+      v_item.unit_price * v_quantity,
+      v_item.cost_per_unit,
+      v_condition
+    );
+
+    IF v_item.product_id IS NOT NULL AND EXISTS (SELECT 1 FROM products WHERE id = v_item.product_id) THEN
+      PERFORM record_stock_movement(
+        v_item.product_id, v_item.size_id, v_item.color_id, v_quantity, 'return', p_invoice_id,
+        'Returned on ' || v_credit_note.credit_note_number, v_item.cost_per_unit
+      );
+
+      -- Damaged returns come back into the ledger and are written off straight away
+      IF v_condition = 'damaged' THEN
+        PERFORM record_stock_movement(
+          v_item.product_id, v_item.size_id, v_item.color_id, -v_quantity, 'damage', p_invoice_id,
+          'Damaged return on ' || v_credit_note.credit_note_number
+        );
+      END IF;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(total_price), 0) INTO v_subtotal
+  FROM credit_note_items
+  WHERE credit_note_id = v_credit_note.id;
+
+  IF v_subtotal = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  -- The returned lines carry their share of the invoice's discount and tax
+  UPDATE credit_notes
+  SET subtotal = v_subtotal,
+      tax_amount = CASE WHEN v_invoice.subtotal > 0
+        THEN ROUND(v_subtotal * COALESCE(v_invoice.tax_amount, 0) / v_invoice.subtotal, 2) ELSE 0 END,
+      total_amount = CASE WHEN v_invoice.subtotal > 0
+        THEN ROUND(v_subtotal * v_invoice.grand_total / v_invoice.subtotal, 2) ELSE v_subtotal END
+  WHERE id = v_credit_note.id
+  RETURNING * INTO v_credit_note;
+
+  -- The sale is reversed on the return date and the credit settles what the customer still owes
+  INSERT INTO sales_records (
+    invoice_id,
+    invoice_number,
+    credit_note_id,
+    product_id,
+    product_name,
+    size_name,
+    color_name,
+    quantity,
+    unit_price,
+    total_price,
+    cost_per_unit,
+    profit_per_unit,
+    total_profit,
+    costing_method,
+    sale_date
+  )
+  SELECT
+    v_invoice.id,
+    v_invoice.invoice_number,
+    v_credit_note.id,
+    cni.product_id,
+    cni.product_name,
+    cni.size_name,
+    cni.color_name,
+    -cni.quantity,
+    cni.unit_price,
+    -cni.total_price,
+    COALESCE(cni.cost_per_unit, 0),
+    cni.unit_price - COALESCE(cni.cost_per_unit, 0),
+    -(cni.unit_price - COALESCE(cni.cost_per_unit, 0)) * cni.quantity,
+    ii.costing_method,
+    v_credit_note.created_at
+  FROM credit_note_items cni
+  LEFT JOIN invoice_items ii ON ii.id = cni.invoice_item_id
+  WHERE cni.credit_note_id = v_credit_note.id;
+
+  IF p_exchange_items IS NOT NULL AND jsonb_array_length(p_exchange_items) > 0 THEN
+    v_exchange := create_invoice(
+      COALESCE(p_exchange_invoice, '{}'::JSONB) || jsonb_build_object(
+        'customer_name', v_invoice.customer_name,
+        'customer_phone', v_invoice.customer_phone,
+        'payment_reference', 'Exchange on ' || v_credit_note.credit_note_number
+      ),
+      p_exchange_items
+    );
+
+    UPDATE credit_notes
+    SET exchange_invoice_id = v_exchange.id
+    WHERE id = v_credit_note.id
+    RETURNING * INTO v_credit_note;
+  END IF;
+
+  RETURN v_credit_note;
+END;
+$$;
+
+-- Sales records are rebuilt whatever the payment status, and the balance follows the new total
+CREATE OR REPLACE FUNCTION public.update_invoice(p_invoice_id UUID, p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_line RECORD;
+  v_movement public.stock_movements;
+  v_delta INTEGER;
+  v_unit_cost NUMERIC;
+  v_costs JSONB := '{}'::JSONB;
+  v_changes TEXT[] := ARRAY[]::TEXT[];
+  v_costing_method TEXT := current_costing_method();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'product_id' IS NULL
+      OR COALESCE(item->>'product_name', '') = ''
+      OR COALESCE((item->>'quantity')::INTEGER, 0) <= 0
+      OR COALESCE((item->>'unit_price')::NUMERIC, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'All items must have a valid product, quantity greater than 0, and non-negative price';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM invoice_items WHERE invoice_id = p_invoice_id AND quantity_returned > 0) THEN
+    RAISE EXCEPTION 'Invoice % has returns against it and can no longer be edited', v_invoice.invoice_number;
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT product_id FROM invoice_items WHERE invoice_id = p_invoice_id
+    UNION
+    SELECT (item->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS item
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  INSERT INTO invoice_revisions (invoice_id, revision_number, invoice_data, items_data, created_by)
+  VALUES (
+    p_invoice_id,
+    COALESCE((SELECT MAX(revision_number) FROM invoice_revisions WHERE invoice_id = p_invoice_id), 0) + 1,
+    to_jsonb(v_invoice),
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ii) ORDER BY ii.created_at) FROM invoice_items ii WHERE ii.invoice_id = p_invoice_id),
+      '[]'::JSONB
+    ),
+    auth.uid()
+  );
+
+  -- Compare quantities per product variant so that only the difference touches stock
+  FOR v_line IN
+    WITH old_items AS (
+      SELECT product_id, size_id, color_id,
+             MIN(product_name) AS product_name,
+             MIN(concat_ws(' / ', size_name, color_name)) AS variant,
+             SUM(quantity)::INTEGER AS quantity,
+             SUM(quantity * COALESCE(cost_per_unit, 0)) / NULLIF(SUM(quantity), 0) AS cost_per_unit
+      FROM invoice_items
+      WHERE invoice_id = p_invoice_id AND product_id IS NOT NULL
+      GROUP BY product_id, size_id, color_id
+    ),
+    new_items AS (
+      SELECT (item->>'product_id')::UUID AS product_id,
+             NULLIF(item->>'size_id', '')::UUID AS size_id,
+             NULLIF(item->>'color_id', '')::UUID AS color_id,
+             MIN(item->>'product_name') AS product_name,
+             MIN(concat_ws(' / ', NULLIF(item->>'size_name', ''), NULLIF(item->>'color_name', ''))) AS variant,
+             SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1, 2, 3
+    )
+    SELECT
+      COALESCE(n.product_id, o.product_id) AS product_id,
+      COALESCE(n.size_id, o.size_id) AS size_id,
+      COALESCE(n.color_id, o.color_id) AS color_id,
+      COALESCE(n.product_name, o.product_name) AS product_name,
+      COALESCE(n.variant, o.variant) AS variant,
+      COALESCE(o.quantity, 0) AS old_quantity,
+      COALESCE(n.quantity, 0) AS new_quantity,
+      o.cost_per_unit AS old_cost
+    FROM old_items o
+    FULL JOIN new_items n
+      ON n.product_id = o.product_id
+      AND n.size_id IS NOT DISTINCT FROM o.size_id
+      AND n.color_id IS NOT DISTINCT FROM o.color_id
+  LOOP
+    v_delta := v_line.new_quantity - v_line.old_quantity;
+    v_unit_cost := v_line.old_cost;
+
+    IF v_delta > 0 THEN
+      IF NOT EXISTS (SELECT 1 FROM products WHERE id = v_line.product_id) THEN
+        RAISE EXCEPTION 'Product "%" no longer exists', v_line.product_name;
+      END IF;
+
+      v_movement := record_stock_movement(
+        v_line.product_id, v_line.size_id, v_line.color_id, -v_delta, 'sale', p_invoice_id, 'Invoice edited'
+      );
+
+      -- Units already on the invoice keep their cost; the extra units are costed now
+      v_unit_cost := (v_line.old_quantity * COALESCE(v_line.old_cost, 0) + v_delta * v_movement.unit_cost)
+        / v_line.new_quantity;
+    ELSIF v_delta < 0 AND EXISTS (SELECT 1 FROM products WHERE id = v_line.product_id) THEN
+      PERFORM record_stock_movement(
+        v_line.product_id, v_line.size_id, v_line.color_id, -v_delta, 'return', p_invoice_id,
+        'Invoice edited', v_line.old_cost
+      );
+    END IF;
+
+    IF v_delta <> 0 THEN
+      v_changes := v_changes || format(
+        '%s%s: %s → %s',
+        v_line.product_name,
+        CASE WHEN v_line.variant <> '' THEN ' (' || v_line.variant || ')' ELSE '' END,
+        v_line.old_quantity,
+        v_line.new_quantity
+      );
+    END IF;
+
+    IF v_line.new_quantity > 0 THEN
+      v_costs := v_costs || jsonb_build_object(
+        concat_ws('|', v_line.product_id, v_line.size_id, v_line.color_id),
+        ROUND(COALESCE(v_unit_cost, 0), 2)
+      );
+    END IF;
+  END LOOP;
+
+  IF COALESCE(NULLIF(p_invoice->>'customer_name', ''), '') <> COALESCE(v_invoice.customer_name, '')
+    OR COALESCE(NULLIF(p_invoice->>'customer_phone', ''), '') <> COALESCE(v_invoice.customer_phone, '') THEN
+    v_changes := v_changes || 'Customer details'::TEXT;
+  END IF;
+
+  IF COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0) <> COALESCE(v_invoice.discount_amount, 0) THEN
+    v_changes := v_changes || 'Discount'::TEXT;
+  END IF;
+
+  DELETE FROM invoice_items WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO invoice_items (
+    invoice_id,
+    product_id,
+    product_name,
+    size_id,
+    size_name,
+    color_id,
+    color_name,
+    quantity,
+    unit_price,
+    total_price,
+    cost_per_unit,
+    costing_method
+  )
+  SELECT
+    p_invoice_id,
+    (item->>'product_id')::UUID,
+    item->>'product_name',
+    NULLIF(item->>'size_id', '')::UUID,
+    NULLIF(item->>'size_name', ''),
+    NULLIF(item->>'color_id', '')::UUID,
+    NULLIF(item->>'color_name', ''),
+    (item->>'quantity')::INTEGER,
+    (item->>'unit_price')::NUMERIC,
+    (item->>'unit_price')::NUMERIC * (item->>'quantity')::INTEGER,
+    (v_costs->>concat_ws('|', item->>'product_id', NULLIF(item->>'size_id', ''), NULLIF(item->>'color_id', '')))::NUMERIC,
+    v_costing_method
+  FROM jsonb_array_elements(p_items) AS item;
+
+  UPDATE invoices
+  SET customer_name = NULLIF(p_invoice->>'customer_name', ''),
+      customer_phone = NULLIF(p_invoice->>'customer_phone', ''),
+      subtotal = (p_invoice->>'subtotal')::NUMERIC,
+      tax_amount = COALESCE((p_invoice->>'tax_amount')::NUMERIC, 0),
+      discount_amount = COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0),
+      discount_type = COALESCE(p_invoice->>'discount_type', discount_type),
+      grand_total = (p_invoice->>'grand_total')::NUMERIC,
+      updated_at = now()
+  WHERE id = p_invoice_id
+  RETURNING * INTO v_invoice;
+
+  UPDATE invoice_revisions
+  SET change_summary = COALESCE(NULLIF(array_to_string(v_changes, '; '), ''), 'Prices')
+  WHERE invoice_id = p_invoice_id
+    AND revision_number = (SELECT MAX(revision_number) FROM invoice_revisions WHERE invoice_id = p_invoice_id);
+
+  DELETE FROM sales_records WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO sales_records (
+    invoice_id,
+    invoice_number,
+    product_id,
+    product_name,
+    size_name,
+    color_name,
+    quantity,
+    unit_price,
+    total_price,
+    cost_per_unit,
+    profit_per_unit,
+    total_profit,
+    costing_method,
+    sale_date
+  )
+  SELECT
+    v_invoice.id,
+    v_invoice.invoice_number,
+    ii.product_id,
+    ii.product_name,
+    ii.size_name,
+    ii.color_name,
+    ii.quantity,
+    ii.unit_price,
+    ii.total_price,
+    COALESCE(ii.cost_per_unit, 0),
+    ii.unit_price - COALESCE(ii.cost_per_unit, 0),
+    (ii.unit_price - COALESCE(ii.cost_per_unit, 0)) * ii.quantity,
+    ii.costing_method,
+    v_invoice.created_at
+  FROM invoice_items ii
+  WHERE ii.invoice_id = v_invoice.id;
+
+  -- A new total can settle the invoice or reopen its balance
+  PERFORM refresh_invoice_payment_status(p_invoice_id);
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id;
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE VIEW public.receivables
+WITH (security_invoker = true)
+AS
+SELECT
+  i.id AS invoice_id,
+  i.invoice_number,
+  i.customer_id,
+  COALESCE(c.name, i.customer_name) AS customer_name,
+  i.customer_phone,
+  i.created_at,
+  i.expected_payment_date,
+  i.grand_total,
+  i.amount_paid,
+  COALESCE(cn.credited, 0) AS credited_amount,
+  i.grand_total - i.amount_paid - COALESCE(cn.credited, 0) AS balance_due,
+  (CURRENT_DATE - i.created_at::DATE) AS days_outstanding,
+  CASE
+    WHEN i.expected_payment_date < CURRENT_DATE THEN 'overdue'
+    ELSE i.payment_status
+  END AS payment_status
+FROM public.invoices i
+LEFT JOIN public.customers c ON c.id = i.customer_id
+LEFT JOIN (
+  SELECT invoice_id, SUM(total_amount) AS credited
+  FROM public.credit_notes
+  GROUP BY invoice_id
+) cn ON cn.invoice_id = i.id
+WHERE i.payment_status <> 'paid';
+
+GRANT SELECT ON public.receivables TO authenticated;
+
+CREATE OR REPLACE VIEW public.customer_summaries
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.name,
+  c.phone,
+  c.email,
+  c.address,
+  c.notes,
+  c.created_at,
+  COUNT(i.id)::INTEGER AS visits,
+  COALESCE(SUM(i.grand_total), 0)
+    - COALESCE((
+        SELECT SUM(cn.total_amount)
+        FROM credit_notes cn
+        JOIN invoices ci ON ci.id = cn.invoice_id
+        WHERE ci.customer_id = c.id
+      ), 0) AS total_spend,
+  MAX(i.created_at) AS last_purchase_at,
+  COALESCE((
+    SELECT SUM(r.balance_due)
+    FROM receivables r
+    WHERE r.customer_id = c.id
+  ), 0) AS outstanding_amount
+FROM public.customers c
+LEFT JOIN public.invoices i ON i.customer_id = c.id
+GROUP BY c.id;
+
+GRANT EXECUTE ON FUNCTION public.record_payment(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_payment(UUID) TO authenticated;
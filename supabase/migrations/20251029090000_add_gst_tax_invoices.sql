@@ -0,0 +1,691 @@
+/*
+  # GST Tax Invoices
+
+  1. Changes
+    - `categories.hsn_code`, `products.hsn_code`: HSN code printed on tax invoices; a product's
+      own code overrides its category's
+    - `store_settings`:
+      - `gst_enabled` (boolean) - Bill with per-item GST instead of the flat `tax_percentage`
+      - `gstin` (text) - The store's GSTIN
+      - `state_code` (text) - Two digit GST state code of the store, e.g. 27 for Maharashtra
+      - `gst_slab_threshold`, `gst_rate_below_threshold`, `gst_rate_above_threshold` (numeric) -
+        Garments are taxed by the sale value per piece: 5% up to ₹1000 and 12% above by default
+    - `invoices`:
+      - `store_gstin`, `customer_gstin` (text)
+      - `place_of_supply` (text) - State code of the buyer. Set on GST invoices only; a place of
+        supply outside the store's state is taxed as IGST instead of CGST + SGST
+      - `cgst_amount`, `sgst_amount`, `igst_amount` (numeric) - Totals of the item lines
+    - `invoice_items`:
+      - `hsn_code` (text), `gst_rate` (numeric)
+      - `taxable_value` (numeric) - Line total after its share of the invoice discount
+      - `cgst_amount`, `sgst_amount`, `igst_amount` (numeric)
+    - `create_invoice` and `update_invoice` store the GST details sent by the app and add up the
+      invoice's CGST, SGST and IGST from its lines
+    - `create_invoice` and `update_invoice` link the invoice to the customer picked in the app,
+      sent as `customer_id`; without one it is still linked by phone number
+    - `check_invoice_totals`: Both functions reject an invoice whose subtotal, discount, tax or
+      grand total don't add up from its items. GST lines must carry their share of the discount,
+      the store's slab rate and the right CGST + SGST or IGST; other invoices are taxed at the
+      store's flat `tax_percentage` (or, when edited, the rate they were issued with)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'categories' AND column_name = 'hsn_code'
+  ) THEN
+    ALTER TABLE public.categories ADD COLUMN hsn_code TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'hsn_code'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN hsn_code TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'store_settings' AND column_name = 'gst_enabled'
+  ) THEN
+    ALTER TABLE public.store_settings
+      ADD COLUMN gst_enabled BOOLEAN NOT NULL DEFAULT false,
+      ADD COLUMN gstin TEXT,
+      ADD COLUMN state_code TEXT,
+      ADD COLUMN gst_slab_threshold NUMERIC(10, 2) NOT NULL DEFAULT 1000,
+      ADD COLUMN gst_rate_below_threshold NUMERIC(5, 2) NOT NULL DEFAULT 5,
+      ADD COLUMN gst_rate_above_threshold NUMERIC(5, 2) NOT NULL DEFAULT 12;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'place_of_supply'
+  ) THEN
+    ALTER TABLE public.invoices
+      ADD COLUMN store_gstin TEXT,
+      ADD COLUMN customer_gstin TEXT,
+      ADD COLUMN place_of_supply TEXT,
+      ADD COLUMN cgst_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+      ADD COLUMN sgst_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+      ADD COLUMN igst_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoice_items' AND column_name = 'gst_rate'
+  ) THEN
+    ALTER TABLE public.invoice_items
+      ADD COLUMN hsn_code TEXT,
+      ADD COLUMN gst_rate NUMERIC(5, 2),
+      ADD COLUMN taxable_value NUMERIC(10, 2),
+      ADD COLUMN cgst_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+      ADD COLUMN sgst_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+      ADD COLUMN igst_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+-- The amounts the app works out are checked against the items before an invoice is saved.
+-- GST invoices (with a place of supply) are checked line by line against the store's slabs;
+-- others against the flat p_tax_percentage. A few paise of rounding are allowed.
+CREATE OR REPLACE FUNCTION public.check_invoice_totals(
+  p_invoice JSONB,
+  p_items JSONB,
+  p_place_of_supply TEXT,
+  p_tax_percentage NUMERIC
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.store_settings;
+  v_subtotal NUMERIC;
+  v_discount NUMERIC := COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0);
+  v_tax NUMERIC := COALESCE((p_invoice->>'tax_amount')::NUMERIC, 0);
+  v_grand_total NUMERIC := (p_invoice->>'grand_total')::NUMERIC;
+  v_kept_share NUMERIC;
+  v_inter_state BOOLEAN;
+  v_taxable NUMERIC;
+  v_line_tax NUMERIC;
+BEGIN
+  SELECT SUM((item->>'unit_price')::NUMERIC * (item->>'quantity')::INTEGER)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF ABS(COALESCE((p_invoice->>'subtotal')::NUMERIC, -1) - v_subtotal) > 0.01 THEN
+    RAISE EXCEPTION 'Invoice subtotal does not match its items';
+  END IF;
+
+  IF v_discount < 0 OR v_discount > v_subtotal + 0.01 THEN
+    RAISE EXCEPTION 'Discount must be between 0 and the subtotal';
+  END IF;
+
+  IF p_place_of_supply IS NULL THEN
+    IF ABS(v_tax - v_subtotal * COALESCE(p_tax_percentage, 0) / 100) > 0.01
+      OR ABS(COALESCE(v_grand_total, -1) - (v_subtotal + v_tax - v_discount)) > 0.01 THEN
+      RAISE EXCEPTION 'Invoice totals do not match its items';
+    END IF;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_settings FROM store_settings LIMIT 1;
+  v_inter_state := v_settings.state_code IS NOT NULL AND p_place_of_supply <> v_settings.state_code;
+  v_kept_share := CASE WHEN v_subtotal > 0 THEN (v_subtotal - v_discount) / v_subtotal ELSE 0 END;
+
+  -- Each line carries its share of the discount and is taxed at the slab for its value per piece
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item,
+      LATERAL (
+        SELECT
+          COALESCE((item->>'taxable_value')::NUMERIC, -1) AS taxable_value,
+          (item->>'quantity')::INTEGER AS quantity,
+          (item->>'unit_price')::NUMERIC * (item->>'quantity')::INTEGER AS total_price,
+          (item->>'gst_rate')::NUMERIC AS gst_rate,
+          COALESCE((item->>'cgst_amount')::NUMERIC, 0) AS cgst,
+          COALESCE((item->>'sgst_amount')::NUMERIC, 0) AS sgst,
+          COALESCE((item->>'igst_amount')::NUMERIC, 0) AS igst
+      ) AS line
+    WHERE ABS(line.taxable_value - line.total_price * v_kept_share) > 0.05
+      OR line.gst_rate IS DISTINCT FROM CASE
+        WHEN line.taxable_value / line.quantity <= COALESCE(v_settings.gst_slab_threshold, 1000)
+          THEN COALESCE(v_settings.gst_rate_below_threshold, 5)
+        ELSE COALESCE(v_settings.gst_rate_above_threshold, 12)
+      END
+      OR ABS(line.cgst - CASE WHEN v_inter_state THEN 0 ELSE ROUND(line.taxable_value * line.gst_rate / 200, 2) END) > 0.01
+      OR ABS(line.sgst - CASE WHEN v_inter_state THEN 0 ELSE ROUND(line.taxable_value * line.gst_rate / 200, 2) END) > 0.01
+      OR ABS(line.igst - CASE WHEN v_inter_state THEN ROUND(line.taxable_value * line.gst_rate / 100, 2) ELSE 0 END) > 0.01
+  ) THEN
+    RAISE EXCEPTION 'Invoice tax does not match its items';
+  END IF;
+
+  SELECT
+    SUM((item->>'taxable_value')::NUMERIC),
+    SUM(COALESCE((item->>'cgst_amount')::NUMERIC, 0) + COALESCE((item->>'sgst_amount')::NUMERIC, 0)
+      + COALESCE((item->>'igst_amount')::NUMERIC, 0))
+  INTO v_taxable, v_line_tax
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF ABS(v_discount - (v_subtotal - v_taxable)) > 0.01
+    OR ABS(v_tax - v_line_tax) > 0.01
+    OR ABS(COALESCE(v_grand_total, -1) - (v_taxable + v_line_tax)) > 0.01 THEN
+    RAISE EXCEPTION 'Invoice totals do not match its items';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_invoice_totals(JSONB, JSONB, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Stores the GST split of each line and adds it up on the invoice
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_item JSONB;
+  v_product public.products;
+  v_movement public.stock_movements;
+  v_size_id UUID;
+  v_color_id UUID;
+  v_quantity INTEGER;
+  v_costing_method TEXT := current_costing_method();
+  v_payment_status TEXT := COALESCE(NULLIF(p_invoice->>'payment_status', ''), 'paid');
+  v_paid NUMERIC;
+  v_place_of_supply TEXT := NULLIF(p_invoice->>'place_of_supply', '');
+  -- Flat-rate invoices are taxed at the store's rate, not whatever the app sent
+  v_tax_percentage NUMERIC := CASE WHEN v_place_of_supply IS NULL
+    THEN COALESCE((SELECT tax_percentage FROM store_settings LIMIT 1), 0) ELSE 0 END;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'product_id' IS NULL
+      OR COALESCE(item->>'product_name', '') = ''
+      OR COALESCE((item->>'quantity')::INTEGER, 0) <= 0
+      OR COALESCE((item->>'unit_price')::NUMERIC, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'All items must have a valid product, quantity greater than 0, and non-negative price';
+  END IF;
+
+  PERFORM check_invoice_totals(p_invoice, p_items, v_place_of_supply, v_tax_percentage);
+
+  IF v_payment_status NOT IN ('paid', 'partial', 'unpaid') THEN
+    RAISE EXCEPTION 'Unknown payment status "%"', v_payment_status;
+  END IF;
+
+  v_paid := CASE v_payment_status
+    WHEN 'paid' THEN (p_invoice->>'grand_total')::NUMERIC
+    WHEN 'partial' THEN ROUND(COALESCE((p_invoice->>'amount_paid')::NUMERIC, 0), 2)
+    ELSE 0
+  END;
+
+  IF v_payment_status = 'partial' AND (v_paid <= 0 OR v_paid >= (p_invoice->>'grand_total')::NUMERIC) THEN
+    RAISE EXCEPTION 'A part payment must be more than 0 and less than the invoice total';
+  END IF;
+
+  -- Lock every product on the invoice in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT (item->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Serialise invoice numbering for the rest of this transaction
+  PERFORM pg_advisory_xact_lock(hashtext('invoices.invoice_number'));
+
+  INSERT INTO invoices (
+    customer_id,
+    customer_name,
+    customer_phone,
+    subtotal,
+    tax_amount,
+    tax_percentage,
+    discount_amount,
+    discount_type,
+    grand_total,
+    created_by,
+    payment_status,
+    expected_payment_date,
+    store_gstin,
+    customer_gstin,
+    place_of_supply,
+    invoice_number
+  )
+  VALUES (
+    NULLIF(p_invoice->>'customer_id', '')::UUID,
+    NULLIF(p_invoice->>'customer_name', ''),
+    NULLIF(p_invoice->>'customer_phone', ''),
+    (p_invoice->>'subtotal')::NUMERIC,
+    COALESCE((p_invoice->>'tax_amount')::NUMERIC, 0),
+    v_tax_percentage,
+    COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0),
+    COALESCE(p_invoice->>'discount_type', 'percentage'),
+    (p_invoice->>'grand_total')::NUMERIC,
+    auth.uid(),
+    'unpaid',
+    CASE
+      WHEN v_payment_status <> 'paid' THEN NULLIF(p_invoice->>'expected_payment_date', '')::DATE
+      ELSE NULL
+    END,
+    CASE
+      WHEN NULLIF(p_invoice->>'place_of_supply', '') IS NOT NULL THEN (SELECT gstin FROM store_settings LIMIT 1)
+      ELSE NULL
+    END,
+    UPPER(NULLIF(p_invoice->>'customer_gstin', '')),
+    NULLIF(p_invoice->>'place_of_supply', ''),
+    ''
+  )
+  RETURNING * INTO v_invoice;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_size_id := NULLIF(v_item->>'size_id', '')::UUID;
+    v_color_id := NULLIF(v_item->>'color_id', '')::UUID;
+
+    SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product "%" no longer exists', v_item->>'product_name';
+    END IF;
+
+    -- Raises when the product or chosen variant does not have enough stock;
+    -- the movement carries the cost of the units sold under the store's costing method
+    v_movement := record_stock_movement(
+      v_product.id, v_size_id, v_color_id, -v_quantity, 'sale', v_invoice.id, NULL
+    );
+
+    INSERT INTO invoice_items (
+      invoice_id,
+      product_id,
+      product_name,
+      size_id,
+      size_name,
+      color_id,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      costing_method,
+      hsn_code,
+      gst_rate,
+      taxable_value,
+      cgst_amount,
+      sgst_amount,
+      igst_amount
+    )
+    VALUES (
+      v_invoice.id,
+      v_product.id,
+      v_item->>'product_name',
+      v_size_id,
+      NULLIF(v_item->>'size_name', ''),
+      v_color_id,
+      NULLIF(v_item->>'color_name', ''),
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'unit_price')::NUMERIC * v_quantity,
+      v_movement.unit_cost,
+      v_costing_method,
+      NULLIF(v_item->>'hsn_code', ''),
+      (v_item->>'gst_rate')::NUMERIC,
+      (v_item->>'taxable_value')::NUMERIC,
+      COALESCE((v_item->>'cgst_amount')::NUMERIC, 0),
+      COALESCE((v_item->>'sgst_amount')::NUMERIC, 0),
+      COALESCE((v_item->>'igst_amount')::NUMERIC, 0)
+    );
+  END LOOP;
+
+  UPDATE invoices
+  SET cgst_amount = totals.cgst,
+      sgst_amount = totals.sgst,
+      igst_amount = totals.igst
+  FROM (
+    SELECT SUM(cgst_amount) AS cgst, SUM(sgst_amount) AS sgst, SUM(igst_amount) AS igst
+    FROM invoice_items
+    WHERE invoice_id = v_invoice.id
+  ) AS totals
+  WHERE id = v_invoice.id
+  RETURNING invoices.* INTO v_invoice;
+
+  -- Profit is recognised on the sale date, whether or not the invoice has been paid
+  INSERT INTO sales_records (
+    invoice_id,
+    invoice_number,
+    product_id,
+    product_name,
+    size_name,
+    color_name,
+    quantity,
+    unit_price,
+    total_price,
+    cost_per_unit,
+    profit_per_unit,
+    total_profit,
+    costing_method,
+    sale_date
+  )
+  SELECT
+    v_invoice.id,
+    v_invoice.invoice_number,
+    ii.product_id,
+    ii.product_name,
+    ii.size_name,
+    ii.color_name,
+    ii.quantity,
+    ii.unit_price,
+    ii.total_price,
+    COALESCE(ii.cost_per_unit, 0),
+    ii.unit_price - COALESCE(ii.cost_per_unit, 0),
+    (ii.unit_price - COALESCE(ii.cost_per_unit, 0)) * ii.quantity,
+    ii.costing_method,
+    v_invoice.created_at
+  FROM invoice_items ii
+  WHERE ii.invoice_id = v_invoice.id;
+
+  IF v_paid > 0 THEN
+    INSERT INTO payments (invoice_id, amount, method, reference, created_by)
+    VALUES (
+      v_invoice.id,
+      v_paid,
+      COALESCE(NULLIF(p_invoice->>'payment_method', ''), 'cash'),
+      NULLIF(p_invoice->>'payment_reference', ''),
+      auth.uid()
+    );
+  END IF;
+
+  -- Also settles invoices with nothing to pay
+  PERFORM refresh_invoice_payment_status(v_invoice.id);
+  SELECT * INTO v_invoice FROM invoices WHERE id = v_invoice.id;
+
+  RETURN v_invoice;
+END;
+$$;
+
+-- A GST invoice stays a GST invoice when edited; its place of supply can be corrected
+CREATE OR REPLACE FUNCTION public.update_invoice(p_invoice_id UUID, p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_line RECORD;
+  v_movement public.stock_movements;
+  v_delta INTEGER;
+  v_unit_cost NUMERIC;
+  v_costs JSONB := '{}'::JSONB;
+  v_changes TEXT[] := ARRAY[]::TEXT[];
+  v_costing_method TEXT := current_costing_method();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'product_id' IS NULL
+      OR COALESCE(item->>'product_name', '') = ''
+      OR COALESCE((item->>'quantity')::INTEGER, 0) <= 0
+      OR COALESCE((item->>'unit_price')::NUMERIC, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'All items must have a valid product, quantity greater than 0, and non-negative price';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  -- A GST invoice is checked at its (possibly corrected) place of supply, any other at its own rate
+  PERFORM check_invoice_totals(
+    p_invoice,
+    p_items,
+    CASE WHEN v_invoice.place_of_supply IS NOT NULL
+      THEN COALESCE(NULLIF(p_invoice->>'place_of_supply', ''), v_invoice.place_of_supply) END,
+    v_invoice.tax_percentage
+  );
+
+  IF EXISTS (SELECT 1 FROM invoice_items WHERE invoice_id = p_invoice_id AND quantity_returned > 0) THEN
+    RAISE EXCEPTION 'Invoice % has returns against it and can no longer be edited', v_invoice.invoice_number;
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT product_id FROM invoice_items WHERE invoice_id = p_invoice_id
+    UNION
+    SELECT (item->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS item
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  INSERT INTO invoice_revisions (invoice_id, revision_number, invoice_data, items_data, created_by)
+  VALUES (
+    p_invoice_id,
+    COALESCE((SELECT MAX(revision_number) FROM invoice_revisions WHERE invoice_id = p_invoice_id), 0) + 1,
+    to_jsonb(v_invoice),
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ii) ORDER BY ii.created_at) FROM invoice_items ii WHERE ii.invoice_id = p_invoice_id),
+      '[]'::JSONB
+    ),
+    auth.uid()
+  );
+
+  -- Compare quantities per product variant so that only the difference touches stock
+  FOR v_line IN
+    WITH old_items AS (
+      SELECT product_id, size_id, color_id,
+             MIN(product_name) AS product_name,
+             MIN(concat_ws(' / ', size_name, color_name)) AS variant,
+             SUM(quantity)::INTEGER AS quantity,
+             SUM(quantity * COALESCE(cost_per_unit, 0)) / NULLIF(SUM(quantity), 0) AS cost_per_unit
+      FROM invoice_items
+      WHERE invoice_id = p_invoice_id AND product_id IS NOT NULL
+      GROUP BY product_id, size_id, color_id
+    ),
+    new_items AS (
+      SELECT (item->>'product_id')::UUID AS product_id,
+             NULLIF(item->>'size_id', '')::UUID AS size_id,
+             NULLIF(item->>'color_id', '')::UUID AS color_id,
+             MIN(item->>'product_name') AS product_name,
+             MIN(concat_ws(' / ', NULLIF(item->>'size_name', ''), NULLIF(item->>'color_name', ''))) AS variant,
+             SUM((item->>'quantity')::INTEGER)::INTEGER AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1, 2, 3
+    )
+    SELECT
+      COALESCE(n.product_id, o.product_id) AS product_id,
+      COALESCE(n.size_id, o.size_id) AS size_id,
+      COALESCE(n.color_id, o.color_id) AS color_id,
+      COALESCE(n.product_name, o.product_name) AS product_name,
+      COALESCE(n.variant, o.variant) AS variant,
+      COALESCE(o.quantity, 0) AS old_quantity,
+      COALESCE(n.quantity, 0) AS new_quantity,
+      o.cost_per_unit AS old_cost
+    FROM old_items o
+    FULL JOIN new_items n
+      ON n.product_id = o.product_id
+      AND n.size_id IS NOT DISTINCT FROM o.size_id
+      AND n.color_id IS NOT DISTINCT FROM o.color_id
+  LOOP
+    v_delta := v_line.new_quantity - v_line.old_quantity;
+    v_unit_cost := v_line.old_cost;
+
+    IF v_delta > 0 THEN
+      IF NOT EXISTS (SELECT 1 FROM products WHERE id = v_line.product_id) THEN
+        RAISE EXCEPTION 'Product "%" no longer exists', v_line.product_name;
+      END IF;
+
+      v_movement := record_stock_movement(
+        v_line.product_id, v_line.size_id, v_line.color_id, -v_delta, 'sale', p_invoice_id, 'Invoice edited'
+      );
+
+      -- Units already on the invoice keep their cost; the extra units are costed now
+      v_unit_cost := (v_line.old_quantity * COALESCE(v_line.old_cost, 0) + v_delta * v_movement.unit_cost)
+        / v_line.new_quantity;
+    ELSIF v_delta < 0 AND EXISTS (SELECT 1 FROM products WHERE id = v_line.product_id) THEN
+      PERFORM record_stock_movement(
+        v_line.product_id, v_line.size_id, v_line.color_id, -v_delta, 'return', p_invoice_id,
+        'Invoice edited', v_line.old_cost
+      );
+    END IF;
+
+    IF v_delta <> 0 THEN
+      v_changes := v_changes || format(
+        '%s%s: %s → %s',
+        v_line.product_name,
+        CASE WHEN v_line.variant <> '' THEN ' (' || v_line.variant || ')' ELSE '' END,
+        v_line.old_quantity,
+        v_line.new_quantity
+      );
+    END IF;
+
+    IF v_line.new_quantity > 0 THEN
+      v_costs := v_costs || jsonb_build_object(
+        concat_ws('|', v_line.product_id, v_line.size_id, v_line.color_id),
+        ROUND(COALESCE(v_unit_cost, 0), 2)
+      );
+    END IF;
+  END LOOP;
+
+  IF COALESCE(NULLIF(p_invoice->>'customer_name', ''), '') <> COALESCE(v_invoice.customer_name, '')
+    OR COALESCE(NULLIF(p_invoice->>'customer_phone', ''), '') <> COALESCE(v_invoice.customer_phone, '')
+    OR COALESCE(UPPER(NULLIF(p_invoice->>'customer_gstin', '')), '') <> COALESCE(v_invoice.customer_gstin, '')
+    OR COALESCE(NULLIF(p_invoice->>'place_of_supply', ''), '') <> COALESCE(v_invoice.place_of_supply, '') THEN
+    v_changes := v_changes || 'Customer details'::TEXT;
+  END IF;
+
+  IF COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0) <> COALESCE(v_invoice.discount_amount, 0) THEN
+    v_changes := v_changes || 'Discount'::TEXT;
+  END IF;
+
+  DELETE FROM invoice_items WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO invoice_items (
+    invoice_id,
+    product_id,
+    product_name,
+    size_id,
+    size_name,
+    color_id,
+    color_name,
+    quantity,
+    unit_price,
+    total_price,
+    cost_per_unit,
+    costing_method,
+    hsn_code,
+    gst_rate,
+    taxable_value,
+    cgst_amount,
+    sgst_amount,
+    igst_amount
+  )
+  SELECT
+    p_invoice_id,
+    (item->>'product_id')::UUID,
+    item->>'product_name',
+    NULLIF(item->>'size_id', '')::UUID,
+    NULLIF(item->>'size_name', ''),
+    NULLIF(item->>'color_id', '')::UUID,
+    NULLIF(item->>'color_name', ''),
+    (item->>'quantity')::INTEGER,
+    (item->>'unit_price')::NUMERIC,
+    (item->>'unit_price')::NUMERIC * (item->>'quantity')::INTEGER,
+    (v_costs->>concat_ws('|', item->>'product_id', NULLIF(item->>'size_id', ''), NULLIF(item->>'color_id', '')))::NUMERIC,
+    v_costing_method,
+    NULLIF(item->>'hsn_code', ''),
+    (item->>'gst_rate')::NUMERIC,
+    (item->>'taxable_value')::NUMERIC,
+    COALESCE((item->>'cgst_amount')::NUMERIC, 0),
+    COALESCE((item->>'sgst_amount')::NUMERIC, 0),
+    COALESCE((item->>'igst_amount')::NUMERIC, 0)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  UPDATE invoices
+  SET customer_id = CASE WHEN p_invoice ? 'customer_id'
+        THEN NULLIF(p_invoice->>'customer_id', '')::UUID ELSE customer_id END,
+      customer_name = NULLIF(p_invoice->>'customer_name', ''),
+      customer_phone = NULLIF(p_invoice->>'customer_phone', ''),
+      subtotal = (p_invoice->>'subtotal')::NUMERIC,
+      tax_amount = COALESCE((p_invoice->>'tax_amount')::NUMERIC, 0),
+      discount_amount = COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0),
+      discount_type = COALESCE(p_invoice->>'discount_type', discount_type),
+      grand_total = (p_invoice->>'grand_total')::NUMERIC,
+      customer_gstin = UPPER(NULLIF(p_invoice->>'customer_gstin', '')),
+      place_of_supply = CASE WHEN place_of_supply IS NOT NULL
+        THEN COALESCE(NULLIF(p_invoice->>'place_of_supply', ''), place_of_supply) ELSE NULL END,
+      cgst_amount = (SELECT COALESCE(SUM(cgst_amount), 0) FROM invoice_items WHERE invoice_id = p_invoice_id),
+      sgst_amount = (SELECT COALESCE(SUM(sgst_amount), 0) FROM invoice_items WHERE invoice_id = p_invoice_id),
+      igst_amount = (SELECT COALESCE(SUM(igst_amount), 0) FROM invoice_items WHERE invoice_id = p_invoice_id),
+      updated_at = now()
+  WHERE id = p_invoice_id
+  RETURNING * INTO v_invoice;
+
+  UPDATE invoice_revisions
+  SET change_summary = COALESCE(NULLIF(array_to_string(v_changes, '; '), ''), 'Prices')
+  WHERE invoice_id = p_invoice_id
+    AND revision_number = (SELECT MAX(revision_number) FROM invoice_revisions WHERE invoice_id = p_invoice_id);
+
+  DELETE FROM sales_records WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO sales_records (
+    invoice_id,
+    invoice_number,
+    product_id,
+    product_name,
+    size_name,
+    color_name,
+    quantity,
+    unit_price,
+    total_price,
+    cost_per_unit,
+    profit_per_unit,
+    total_profit,
+    costing_method,
+    sale_date
+  )
+  SELECT
+    v_invoice.id,
+    v_invoice.invoice_number,
+    ii.product_id,
+    ii.product_name,
+    ii.size_name,
+    ii.color_name,
+    ii.quantity,
+    ii.unit_price,
+    ii.total_price,
+    COALESCE(ii.cost_per_unit, 0),
+    ii.unit_price - COALESCE(ii.cost_per_unit, 0),
+    (ii.unit_price - COALESCE(ii.cost_per_unit, 0)) * ii.quantity,
+    ii.costing_method,
+    v_invoice.created_at
+  FROM invoice_items ii
+  WHERE ii.invoice_id = v_invoice.id;
+
+  -- A new total can settle the invoice or reopen its balance
+  PERFORM refresh_invoice_payment_status(p_invoice_id);
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id;
+
+  RETURN v_invoice;
+END;
+$$;
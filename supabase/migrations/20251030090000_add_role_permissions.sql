@@ -0,0 +1,677 @@
+/*
+  # Role-based permissions
+
+  Owners and admins run the store; staff make sales. Until now every signed-in user could
+  write and delete anything, and could give themselves any role.
+
+  1. Changes
+    - Staff can view the catalogue, create and edit invoices, take payments and returns, and
+      manage customers
+    - Only owners and admins can change products, categories, sizes, colours and store
+      settings, delete or cancel invoices, and see suppliers, purchase orders, cost layers,
+      sales records and cost prices
+    - Only owners can assign roles
+
+  2. Functions
+    - `claim_first_owner()`: Makes the first user to sign in the store owner and returns the
+      role given, or null once the store has users. Replaces the client inserting its own role
+    - `cancel_invoice`, `set_product_stock`, `reconcile_product_stock`, `create_purchase_order`
+      and `receive_purchase_order` refuse staff. They run as SECURITY DEFINER, so the policies
+      alone would not stop staff calling them directly
+    - `record_stock_movement` can no longer be called directly; it is only used by the
+      functions that change stock
+    - `product_costs()`: `cost_inr` and `average_cost` of every product, for owners and admins
+
+  3. Security
+    - Write policies on the catalogue and settings are replaced with ones that check
+      `is_admin_or_owner(auth.uid())`. Invoices and their items can be created and edited by
+      staff, owners and admins, and deleted by owners and admins; a user without a role can't
+    - `sales_records` can only be read and written by owners and admins
+    - `products.cost_inr` and `average_cost` can no longer be read through the table; selecting
+      `*` from products fails, so the columns are listed
+    - `user_roles` can only be written by owners
+*/
+
+-- Roles: anyone signed in can read them, only owners can change them
+DROP POLICY IF EXISTS "Authenticated users can manage user roles" ON public.user_roles;
+DROP POLICY IF EXISTS "Only admins can manage roles" ON public.user_roles;
+
+CREATE POLICY "Owners can manage user roles"
+  ON public.user_roles FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'owner'))
+  WITH CHECK (public.has_role(auth.uid(), 'owner'));
+
+-- Catalogue and settings: readable by everyone, written by owners and admins
+DO $$
+DECLARE
+  v_table TEXT;
+  v_label TEXT;
+BEGIN
+  FOR v_table, v_label IN
+    SELECT * FROM (VALUES
+      ('categories', 'categories'),
+      ('sizes', 'sizes'),
+      ('colors', 'colors'),
+      ('products', 'products'),
+      ('product_inventory', 'product inventory'),
+      ('product_size_prices', 'product size prices'),
+      ('store_settings', 'store settings')
+    ) AS t(table_name, label)
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %L ON public.%I', 'Authenticated users can create ' || v_label, v_table);
+    EXECUTE format('DROP POLICY IF EXISTS %L ON public.%I', 'Authenticated users can update ' || v_label, v_table);
+    EXECUTE format('DROP POLICY IF EXISTS %L ON public.%I', 'Authenticated users can delete ' || v_label, v_table);
+
+    EXECUTE format(
+      'CREATE POLICY %L ON public.%I FOR INSERT TO authenticated WITH CHECK (public.is_admin_or_owner(auth.uid()))',
+      'Managers can create ' || v_label, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %L ON public.%I FOR UPDATE TO authenticated USING (public.is_admin_or_owner(auth.uid())) WITH CHECK (public.is_admin_or_owner(auth.uid()))',
+      'Managers can update ' || v_label, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %L ON public.%I FOR DELETE TO authenticated USING (public.is_admin_or_owner(auth.uid()))',
+      'Managers can delete ' || v_label, v_table
+    );
+  END LOOP;
+END $$;
+
+-- Admin policies from the first schema, superseded by the ones above and below
+DROP POLICY IF EXISTS "Admins can manage categories" ON public.categories;
+DROP POLICY IF EXISTS "Admins can manage sizes" ON public.sizes;
+DROP POLICY IF EXISTS "Admins can manage colors" ON public.colors;
+DROP POLICY IF EXISTS "Admins can manage products" ON public.products;
+DROP POLICY IF EXISTS "Admins can manage inventory" ON public.product_inventory;
+DROP POLICY IF EXISTS "Admins can manage size prices" ON public.product_size_prices;
+DROP POLICY IF EXISTS "Admins can update store settings" ON public.store_settings;
+DROP POLICY IF EXISTS "Admins can manage invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Admins can manage invoice items" ON public.invoice_items;
+
+-- Invoices: staff create and edit them, only owners and admins delete them. A signed-in user
+-- without a role can do neither
+DROP POLICY IF EXISTS "Authenticated users can create invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Authenticated users can update invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Authenticated users can delete invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Authenticated users can create invoice items" ON public.invoice_items;
+DROP POLICY IF EXISTS "Authenticated users can update invoice items" ON public.invoice_items;
+DROP POLICY IF EXISTS "Authenticated users can delete invoice items" ON public.invoice_items;
+
+CREATE POLICY "Staff can create invoices"
+  ON public.invoices FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'staff') OR public.is_admin_or_owner(auth.uid()));
+
+CREATE POLICY "Staff can update invoices"
+  ON public.invoices FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'staff') OR public.is_admin_or_owner(auth.uid()))
+  WITH CHECK (public.has_role(auth.uid(), 'staff') OR public.is_admin_or_owner(auth.uid()));
+
+CREATE POLICY "Staff can create invoice items"
+  ON public.invoice_items FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'staff') OR public.is_admin_or_owner(auth.uid()));
+
+CREATE POLICY "Staff can update invoice items"
+  ON public.invoice_items FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'staff') OR public.is_admin_or_owner(auth.uid()))
+  WITH CHECK (public.has_role(auth.uid(), 'staff') OR public.is_admin_or_owner(auth.uid()));
+
+CREATE POLICY "Managers can delete invoices"
+  ON public.invoices FOR DELETE
+  TO authenticated
+  USING (public.is_admin_or_owner(auth.uid()));
+
+CREATE POLICY "Managers can delete invoice items"
+  ON public.invoice_items FOR DELETE
+  TO authenticated
+  USING (public.is_admin_or_owner(auth.uid()));
+
+-- Purchasing and cost data: owners and admins only
+DROP POLICY IF EXISTS "Authenticated users can view suppliers" ON public.suppliers;
+DROP POLICY IF EXISTS "Authenticated users can create suppliers" ON public.suppliers;
+DROP POLICY IF EXISTS "Authenticated users can update suppliers" ON public.suppliers;
+DROP POLICY IF EXISTS "Authenticated users can delete suppliers" ON public.suppliers;
+DROP POLICY IF EXISTS "Authenticated users can view purchase orders" ON public.purchase_orders;
+DROP POLICY IF EXISTS "Authenticated users can create purchase orders" ON public.purchase_orders;
+DROP POLICY IF EXISTS "Authenticated users can update purchase orders" ON public.purchase_orders;
+DROP POLICY IF EXISTS "Authenticated users can view purchase order items" ON public.purchase_order_items;
+DROP POLICY IF EXISTS "Authenticated users can create purchase order items" ON public.purchase_order_items;
+DROP POLICY IF EXISTS "Authenticated users can view cost layers" ON public.cost_layers;
+DROP POLICY IF EXISTS "Authenticated users can view sales records" ON public.sales_records;
+DROP POLICY IF EXISTS "Authenticated users can create sales records" ON public.sales_records;
+DROP POLICY IF EXISTS "Authenticated users can update sales records" ON public.sales_records;
+DROP POLICY IF EXISTS "Authenticated users can delete sales records" ON public.sales_records;
+
+CREATE POLICY "Managers can manage suppliers"
+  ON public.suppliers FOR ALL
+  TO authenticated
+  USING (public.is_admin_or_owner(auth.uid()))
+  WITH CHECK (public.is_admin_or_owner(auth.uid()));
+
+CREATE POLICY "Managers can view purchase orders"
+  ON public.purchase_orders FOR SELECT
+  TO authenticated
+  USING (public.is_admin_or_owner(auth.uid()));
+
+CREATE POLICY "Managers can create purchase orders"
+  ON public.purchase_orders FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin_or_owner(auth.uid()));
+
+CREATE POLICY "Managers can update purchase orders"
+  ON public.purchase_orders FOR UPDATE
+  TO authenticated
+  USING (public.is_admin_or_owner(auth.uid()))
+  WITH CHECK (public.is_admin_or_owner(auth.uid()));
+
+CREATE POLICY "Managers can view purchase order items"
+  ON public.purchase_order_items FOR SELECT
+  TO authenticated
+  USING (public.is_admin_or_owner(auth.uid()));
+
+CREATE POLICY "Managers can create purchase order items"
+  ON public.purchase_order_items FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin_or_owner(auth.uid()));
+
+CREATE POLICY "Managers can view cost layers"
+  ON public.cost_layers FOR SELECT
+  TO authenticated
+  USING (public.is_admin_or_owner(auth.uid()));
+
+-- Sales records carry the cost and profit of every sale; the sales functions report them to staff
+-- without the cost
+CREATE POLICY "Managers can manage sales records"
+  ON public.sales_records FOR ALL
+  TO authenticated
+  USING (public.is_admin_or_owner(auth.uid()))
+  WITH CHECK (public.is_admin_or_owner(auth.uid()));
+
+-- Cost prices: every column of products but cost_inr and average_cost can be read. Owners and
+-- admins get the costs from product_costs()
+REVOKE SELECT ON public.products FROM anon, authenticated;
+GRANT SELECT (
+  id, name, sku, description, category_id, hsn_code, price_inr, quantity_in_stock,
+  image_url, secondary_image_url, size_ids, color_ids, created_at, updated_at
+) ON public.products TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.product_costs()
+RETURNS TABLE (product_id UUID, cost_inr NUMERIC, average_cost NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_admin_or_owner(auth.uid()) THEN
+    RAISE EXCEPTION 'Only owners and admins can see cost prices';
+  END IF;
+
+  RETURN QUERY SELECT p.id, p.cost_inr, p.average_cost FROM products p;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.product_costs() TO authenticated;
+
+-- The first user to sign in owns the store
+CREATE OR REPLACE FUNCTION public.claim_first_owner()
+RETURNS app_role
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Two first sign-ins at once must not both become owner
+  LOCK TABLE user_roles IN EXCLUSIVE MODE;
+
+  IF EXISTS (SELECT 1 FROM user_roles) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO user_roles (user_id, role)
+  VALUES (auth.uid(), 'owner');
+
+  RETURN 'owner';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_first_owner() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancel_invoice(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.invoice_items;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_admin_or_owner(auth.uid()) THEN
+    RAISE EXCEPTION 'Only owners and admins can cancel invoices';
+  END IF;
+
+  PERFORM 1 FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM invoice_items WHERE invoice_id = p_invoice_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Put the stock back on the variant that was sold, at the cost it was sold at.
+  -- Units already returned on a credit note are back in stock.
+  FOR v_item IN
+    SELECT * FROM invoice_items
+    WHERE invoice_id = p_invoice_id
+      AND quantity > quantity_returned
+      AND product_id IN (SELECT id FROM products)
+  LOOP
+    PERFORM record_stock_movement(
+      v_item.product_id, v_item.size_id, v_item.color_id, v_item.quantity - v_item.quantity_returned,
+      'return', p_invoice_id, 'Sale cancelled', v_item.cost_per_unit
+    );
+  END LOOP;
+
+  DELETE FROM sales_records WHERE invoice_id = p_invoice_id;
+  DELETE FROM invoice_items WHERE invoice_id = p_invoice_id;
+  DELETE FROM invoices WHERE id = p_invoice_id;
+END;
+$$;
+
+-- Stock and purchasing functions bypass the policies above, so they check the role themselves
+CREATE OR REPLACE FUNCTION public.set_product_stock(
+  p_product_id UUID,
+  p_quantity INTEGER DEFAULT 0,
+  p_variants JSONB DEFAULT '[]'::JSONB,
+  p_movement_type TEXT DEFAULT 'adjustment',
+  p_notes TEXT DEFAULT NULL,
+  p_expected_quantity INTEGER DEFAULT NULL
+)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products;
+  v_existing public.product_inventory;
+  v_variant JSONB;
+  v_size_id UUID;
+  v_color_id UUID;
+  v_current INTEGER;
+  v_net_change INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_admin_or_owner(auth.uid()) THEN
+    RAISE EXCEPTION 'Only owners and admins can change stock';
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF p_expected_quantity IS NOT NULL AND v_product.quantity_in_stock <> p_expected_quantity THEN
+    RAISE EXCEPTION 'Stock for "%" changed to % while it was being edited; reload it and try again',
+      v_product.name, v_product.quantity_in_stock;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB)) AS v
+    WHERE COALESCE((v->>'quantity')::INTEGER, 0) < 0
+  ) OR COALESCE(p_quantity, 0) < 0 THEN
+    RAISE EXCEPTION 'Stock cannot be negative';
+  END IF;
+
+  p_variants := COALESCE(p_variants, '[]'::JSONB);
+
+  -- Quantities are moved between variants without touching cost layers;
+  -- only the net change to the product's stock is costed at the end
+  FOR v_existing IN
+    SELECT * FROM product_inventory pi
+    WHERE pi.product_id = p_product_id
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_variants) AS v
+        WHERE pi.size_id IS NOT DISTINCT FROM NULLIF(v->>'size_id', '')::UUID
+          AND pi.color_id IS NOT DISTINCT FROM NULLIF(v->>'color_id', '')::UUID
+      )
+  LOOP
+    IF v_existing.quantity <> 0 THEN
+      PERFORM record_stock_movement(
+        p_product_id, v_existing.size_id, v_existing.color_id, -v_existing.quantity,
+        p_movement_type, NULL, COALESCE(p_notes, 'Variant removed'), NULL, false
+      );
+    END IF;
+    DELETE FROM product_inventory WHERE id = v_existing.id;
+  END LOOP;
+
+  IF jsonb_array_length(p_variants) = 0 THEN
+    SELECT quantity_in_stock INTO v_current FROM products WHERE id = p_product_id;
+
+    IF COALESCE(p_quantity, 0) <> v_current THEN
+      PERFORM record_stock_movement(
+        p_product_id, NULL, NULL, COALESCE(p_quantity, 0) - v_current, p_movement_type, NULL, p_notes, NULL, false
+      );
+    END IF;
+  ELSE
+    -- Stock held on the product itself moves into the variants
+    IF NOT EXISTS (SELECT 1 FROM product_inventory WHERE product_id = p_product_id)
+      AND v_product.quantity_in_stock <> 0 THEN
+      PERFORM record_stock_movement(
+        p_product_id, NULL, NULL, -v_product.quantity_in_stock, p_movement_type, NULL,
+        COALESCE(p_notes, 'Split into variants'), NULL, false
+      );
+    END IF;
+
+    INSERT INTO product_inventory (product_id, size_id, color_id, quantity)
+    SELECT p_product_id, NULLIF(v->>'size_id', '')::UUID, NULLIF(v->>'color_id', '')::UUID, 0
+    FROM jsonb_array_elements(p_variants) AS v
+    ON CONFLICT (product_id, size_id, color_id) DO NOTHING;
+
+    FOR v_variant IN SELECT * FROM jsonb_array_elements(p_variants)
+    LOOP
+      v_size_id := NULLIF(v_variant->>'size_id', '')::UUID;
+      v_color_id := NULLIF(v_variant->>'color_id', '')::UUID;
+
+      SELECT quantity INTO v_current
+      FROM product_inventory
+      WHERE product_id = p_product_id
+        AND size_id IS NOT DISTINCT FROM v_size_id
+        AND color_id IS NOT DISTINCT FROM v_color_id;
+
+      IF COALESCE((v_variant->>'quantity')::INTEGER, 0) <> v_current THEN
+        PERFORM record_stock_movement(
+          p_product_id, v_size_id, v_color_id,
+          COALESCE((v_variant->>'quantity')::INTEGER, 0) - v_current,
+          p_movement_type, NULL, p_notes, NULL, false
+        );
+      END IF;
+    END LOOP;
+  END IF;
+
+  SELECT quantity_in_stock - v_product.quantity_in_stock INTO v_net_change
+  FROM products WHERE id = p_product_id;
+
+  IF v_net_change > 0 THEN
+    PERFORM add_cost_layer(
+      p_product_id, v_product.quantity_in_stock, v_net_change,
+      COALESCE(v_product.average_cost, v_product.cost_inr, 0),
+      CASE WHEN p_movement_type = 'opening' THEN 'opening' ELSE 'adjustment' END
+    );
+  ELSIF v_net_change < 0 THEN
+    PERFORM consume_cost_layers(p_product_id, -v_net_change);
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+  RETURN v_product;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reconcile_product_stock(p_product_id UUID)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_admin_or_owner(auth.uid()) THEN
+    RAISE EXCEPTION 'Only owners and admins can reconcile stock';
+  END IF;
+
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM product_inventory WHERE product_id = p_product_id) THEN
+    UPDATE product_inventory pi
+    SET quantity = COALESCE((
+          SELECT SUM(sm.quantity_change)
+          FROM stock_movements sm
+          WHERE sm.product_id = pi.product_id
+            AND sm.size_id IS NOT DISTINCT FROM pi.size_id
+            AND sm.color_id IS NOT DISTINCT FROM pi.color_id
+        ), 0),
+        updated_at = now()
+    WHERE pi.product_id = p_product_id;
+  ELSE
+    UPDATE products
+    SET quantity_in_stock = COALESCE((
+          SELECT SUM(quantity_change) FROM stock_movements WHERE product_id = p_product_id
+        ), 0),
+        updated_at = now()
+    WHERE id = p_product_id;
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+  RETURN v_product;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_purchase_order(p_order JSONB, p_items JSONB)
+RETURNS public.purchase_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.purchase_orders;
+  v_subtotal NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_admin_or_owner(auth.uid()) THEN
+    RAISE EXCEPTION 'Only owners and admins can create purchase orders';
+  END IF;
+
+  IF p_order->>'supplier_id' IS NULL THEN
+    RAISE EXCEPTION 'A supplier is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'product_id' IS NULL
+      OR COALESCE(item->>'product_name', '') = ''
+      OR COALESCE((item->>'quantity_ordered')::INTEGER, 0) <= 0
+      OR COALESCE((item->>'unit_cost')::NUMERIC, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'All items must have a valid product, quantity greater than 0, and non-negative cost';
+  END IF;
+
+  SELECT SUM((item->>'unit_cost')::NUMERIC * (item->>'quantity_ordered')::INTEGER)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  -- Serialise PO numbering for the rest of this transaction
+  PERFORM pg_advisory_xact_lock(hashtext('purchase_orders.po_number'));
+
+  INSERT INTO purchase_orders (
+    po_number,
+    supplier_id,
+    order_date,
+    expected_date,
+    subtotal,
+    freight_amount,
+    other_charges,
+    total_amount,
+    notes,
+    created_by
+  )
+  VALUES (
+    '',
+    (p_order->>'supplier_id')::UUID,
+    COALESCE((p_order->>'order_date')::DATE, CURRENT_DATE),
+    (p_order->>'expected_date')::DATE,
+    v_subtotal,
+    COALESCE((p_order->>'freight_amount')::NUMERIC, 0),
+    COALESCE((p_order->>'other_charges')::NUMERIC, 0),
+    v_subtotal + COALESCE((p_order->>'freight_amount')::NUMERIC, 0) + COALESCE((p_order->>'other_charges')::NUMERIC, 0),
+    NULLIF(p_order->>'notes', ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO purchase_order_items (
+    purchase_order_id,
+    product_id,
+    product_name,
+    size_id,
+    size_name,
+    color_id,
+    color_name,
+    quantity_ordered,
+    unit_cost
+  )
+  SELECT
+    v_order.id,
+    (item->>'product_id')::UUID,
+    item->>'product_name',
+    NULLIF(item->>'size_id', '')::UUID,
+    NULLIF(item->>'size_name', ''),
+    NULLIF(item->>'color_id', '')::UUID,
+    NULLIF(item->>'color_name', ''),
+    (item->>'quantity_ordered')::INTEGER,
+    (item->>'unit_cost')::NUMERIC
+  FROM jsonb_array_elements(p_items) AS item;
+
+  RETURN v_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_purchase_order_id UUID, p_items JSONB)
+RETURNS public.purchase_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.purchase_orders;
+  v_item public.purchase_order_items;
+  v_receipt JSONB;
+  v_quantity INTEGER;
+  v_landed_cost NUMERIC;
+  v_stock_before INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_admin_or_owner(auth.uid()) THEN
+    RAISE EXCEPTION 'Only owners and admins can receive purchase orders';
+  END IF;
+
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF v_order.status IN ('received', 'cancelled') THEN
+    RAISE EXCEPTION 'Purchase order % is already %', v_order.po_number, v_order.status;
+  END IF;
+
+  FOR v_receipt IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB))
+  LOOP
+    v_quantity := COALESCE((v_receipt->>'quantity')::INTEGER, 0);
+    CONTINUE WHEN v_quantity = 0;
+
+    SELECT * INTO v_item
+    FROM purchase_order_items
+    WHERE id = (v_receipt->>'item_id')::UUID
+      AND purchase_order_id = p_purchase_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order item not found';
+    END IF;
+
+    IF v_quantity < 0 OR v_item.quantity_received + v_quantity > v_item.quantity_ordered THEN
+      RAISE EXCEPTION 'Cannot receive % of "%": % ordered, % already received',
+        v_quantity, v_item.product_name, v_item.quantity_ordered, v_item.quantity_received;
+    END IF;
+
+    -- Freight and other charges are spread over the lines in proportion to their cost
+    v_landed_cost := v_item.unit_cost;
+    IF v_order.subtotal > 0 THEN
+      v_landed_cost := ROUND(
+        v_item.unit_cost * (1 + (v_order.freight_amount + v_order.other_charges) / v_order.subtotal),
+        2
+      );
+    END IF;
+
+    UPDATE purchase_order_items
+    SET quantity_received = quantity_received + v_quantity,
+        landed_unit_cost = v_landed_cost
+    WHERE id = v_item.id;
+
+    IF v_item.product_id IS NOT NULL THEN
+      SELECT quantity_in_stock INTO v_stock_before
+      FROM products
+      WHERE id = v_item.product_id
+      FOR UPDATE;
+
+      PERFORM record_stock_movement(
+        v_item.product_id, v_item.size_id, v_item.color_id, v_quantity, 'restock', NULL,
+        'Received on ' || v_order.po_number, v_landed_cost, false
+      );
+
+      PERFORM add_cost_layer(v_item.product_id, v_stock_before, v_quantity, v_landed_cost, 'purchase', v_item.id);
+    END IF;
+  END LOOP;
+
+  UPDATE purchase_orders
+  SET status = CASE
+        WHEN NOT EXISTS (
+          SELECT 1 FROM purchase_order_items
+          WHERE purchase_order_id = p_purchase_order_id AND quantity_received < quantity_ordered
+        ) THEN 'received'
+        WHEN EXISTS (
+          SELECT 1 FROM purchase_order_items
+          WHERE purchase_order_id = p_purchase_order_id AND quantity_received > 0
+        ) THEN 'partially_received'
+        ELSE 'ordered'
+      END,
+      updated_at = now()
+  WHERE id = p_purchase_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Only reached through the functions that change stock, which check the caller themselves
+REVOKE EXECUTE ON FUNCTION public.record_stock_movement(UUID, UUID, UUID, INTEGER, TEXT, UUID, TEXT, NUMERIC, BOOLEAN) FROM PUBLIC, anon, authenticated;
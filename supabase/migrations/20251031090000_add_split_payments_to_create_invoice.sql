@@ -0,0 +1,283 @@
+/*
+  # Split payments at the point of sale
+
+  1. Changes
+    - `create_invoice` accepts `payments`, a list of `{ amount, method, reference }`, for a sale
+      paid partly in cash and partly by UPI or card. Each part is recorded as its own payment and
+      their total decides whether the invoice is paid, partly paid or unpaid. Without `payments`
+      it works as before from `payment_status`, `amount_paid` and `payment_method`
+    - The invoice is linked to the customer picked in the app, sent as `customer_id`, or else
+      by phone number
+    - The invoice totals are still checked against its items with `check_invoice_totals`
+*/
+
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice public.invoices;
+  v_item JSONB;
+  v_product public.products;
+  v_movement public.stock_movements;
+  v_size_id UUID;
+  v_color_id UUID;
+  v_quantity INTEGER;
+  v_costing_method TEXT := current_costing_method();
+  v_payment_status TEXT := COALESCE(NULLIF(p_invoice->>'payment_status', ''), 'paid');
+  v_paid NUMERIC;
+  v_payments JSONB := CASE WHEN jsonb_typeof(p_invoice->'payments') = 'array' THEN p_invoice->'payments' END;
+  v_place_of_supply TEXT := NULLIF(p_invoice->>'place_of_supply', '');
+  -- Flat-rate invoices are taxed at the store's rate, not whatever the app sent
+  v_tax_percentage NUMERIC := CASE WHEN v_place_of_supply IS NULL
+    THEN COALESCE((SELECT tax_percentage FROM store_settings LIMIT 1), 0) ELSE 0 END;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'product_id' IS NULL
+      OR COALESCE(item->>'product_name', '') = ''
+      OR COALESCE((item->>'quantity')::INTEGER, 0) <= 0
+      OR COALESCE((item->>'unit_price')::NUMERIC, -1) < 0
+  ) THEN
+    RAISE EXCEPTION 'All items must have a valid product, quantity greater than 0, and non-negative price';
+  END IF;
+
+  PERFORM check_invoice_totals(p_invoice, p_items, v_place_of_supply, v_tax_percentage);
+
+  IF v_payment_status NOT IN ('paid', 'partial', 'unpaid') THEN
+    RAISE EXCEPTION 'Unknown payment status "%"', v_payment_status;
+  END IF;
+
+  IF v_payments IS NOT NULL THEN
+    -- A split payment lists every part; what they add up to decides the status
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(v_payments) AS payment
+      WHERE COALESCE((payment->>'amount')::NUMERIC, 0) <= 0
+    ) THEN
+      RAISE EXCEPTION 'Each payment must be more than 0';
+    END IF;
+
+    SELECT COALESCE(SUM(ROUND((payment->>'amount')::NUMERIC, 2)), 0)
+    INTO v_paid
+    FROM jsonb_array_elements(v_payments) AS payment;
+
+    IF v_paid > (p_invoice->>'grand_total')::NUMERIC THEN
+      RAISE EXCEPTION 'Payments add up to more than the invoice total';
+    END IF;
+
+    v_payment_status := CASE
+      WHEN v_paid >= (p_invoice->>'grand_total')::NUMERIC THEN 'paid'
+      WHEN v_paid > 0 THEN 'partial'
+      ELSE 'unpaid'
+    END;
+  ELSE
+    v_paid := CASE v_payment_status
+      WHEN 'paid' THEN (p_invoice->>'grand_total')::NUMERIC
+      WHEN 'partial' THEN ROUND(COALESCE((p_invoice->>'amount_paid')::NUMERIC, 0), 2)
+      ELSE 0
+    END;
+
+    IF v_payment_status = 'partial' AND (v_paid <= 0 OR v_paid >= (p_invoice->>'grand_total')::NUMERIC) THEN
+      RAISE EXCEPTION 'A part payment must be more than 0 and less than the invoice total';
+    END IF;
+  END IF;
+
+  -- Lock every product on the invoice in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT (item->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Serialise invoice numbering for the rest of this transaction
+  PERFORM pg_advisory_xact_lock(hashtext('invoices.invoice_number'));
+
+  INSERT INTO invoices (
+    customer_id,
+    customer_name,
+    customer_phone,
+    subtotal,
+    tax_amount,
+    tax_percentage,
+    discount_amount,
+    discount_type,
+    grand_total,
+    created_by,
+    payment_status,
+    expected_payment_date,
+    store_gstin,
+    customer_gstin,
+    place_of_supply,
+    invoice_number
+  )
+  VALUES (
+    NULLIF(p_invoice->>'customer_id', '')::UUID,
+    NULLIF(p_invoice->>'customer_name', ''),
+    NULLIF(p_invoice->>'customer_phone', ''),
+    (p_invoice->>'subtotal')::NUMERIC,
+    COALESCE((p_invoice->>'tax_amount')::NUMERIC, 0),
+    v_tax_percentage,
+    COALESCE((p_invoice->>'discount_amount')::NUMERIC, 0),
+    COALESCE(p_invoice->>'discount_type', 'percentage'),
+    (p_invoice->>'grand_total')::NUMERIC,
+    auth.uid(),
+    'unpaid',
+    CASE
+      WHEN v_payment_status <> 'paid' THEN NULLIF(p_invoice->>'expected_payment_date', '')::DATE
+      ELSE NULL
+    END,
+    CASE
+      WHEN NULLIF(p_invoice->>'place_of_supply', '') IS NOT NULL THEN (SELECT gstin FROM store_settings LIMIT 1)
+      ELSE NULL
+    END,
+    UPPER(NULLIF(p_invoice->>'customer_gstin', '')),
+    NULLIF(p_invoice->>'place_of_supply', ''),
+    ''
+  )
+  RETURNING * INTO v_invoice;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_size_id := NULLIF(v_item->>'size_id', '')::UUID;
+    v_color_id := NULLIF(v_item->>'color_id', '')::UUID;
+
+    SELECT * INTO v_product FROM products WHERE id = (v_item->>'product_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product "%" no longer exists', v_item->>'product_name';
+    END IF;
+
+    -- Raises when the product or chosen variant does not have enough stock;
+    -- the movement carries the cost of the units sold under the store's costing method
+    v_movement := record_stock_movement(
+      v_product.id, v_size_id, v_color_id, -v_quantity, 'sale', v_invoice.id, NULL
+    );
+
+    INSERT INTO invoice_items (
+      invoice_id,
+      product_id,
+      product_name,
+      size_id,
+      size_name,
+      color_id,
+      color_name,
+      quantity,
+      unit_price,
+      total_price,
+      cost_per_unit,
+      costing_method,
+      hsn_code,
+      gst_rate,
+      taxable_value,
+      cgst_amount,
+      sgst_amount,
+      igst_amount
+    )
+    VALUES (
+      v_invoice.id,
+      v_product.id,
+      v_item->>'product_name',
+      v_size_id,
+      NULLIF(v_item->>'size_name', ''),
+      v_color_id,
+      NULLIF(v_item->>'color_name', ''),
+      v_quantity,
+      (v_item->>'unit_price')::NUMERIC,
+      (v_item->>'unit_price')::NUMERIC * v_quantity,
+      v_movement.unit_cost,
+      v_costing_method,
+      NULLIF(v_item->>'hsn_code', ''),
+      (v_item->>'gst_rate')::NUMERIC,
+      (v_item->>'taxable_value')::NUMERIC,
+      COALESCE((v_item->>'cgst_amount')::NUMERIC, 0),
+      COALESCE((v_item->>'sgst_amount')::NUMERIC, 0),
+      COALESCE((v_item->>'igst_amount')::NUMERIC, 0)
+    );
+  END LOOP;
+
+  UPDATE invoices
+  SET cgst_amount = totals.cgst,
+      sgst_amount = totals.sgst,
+      igst_amount = totals.igst
+  FROM (
+    SELECT SUM(cgst_amount) AS cgst, SUM(sgst_amount) AS sgst, SUM(igst_amount) AS igst
+    FROM invoice_items
+    WHERE invoice_id = v_invoice.id
+  ) AS totals
+  WHERE id = v_invoice.id
+  RETURNING invoices.* INTO v_invoice;
+
+  -- Profit is recognised on the sale date, whether or not the invoice has been paid
+  INSERT INTO sales_records (
+    invoice_id,
+    invoice_number,
+    product_id,
+    product_name,
+    size_name,
+    color_name,
+    quantity,
+    unit_price,
+    total_price,
+    cost_per_unit,
+    profit_per_unit,
+    total_profit,
+    costing_method,
+    sale_date
+  )
+  SELECT
+    v_invoice.id,
+    v_invoice.invoice_number,
+    ii.product_id,
+    ii.product_name,
+    ii.size_name,
+    ii.color_name,
+    ii.quantity,
+    ii.unit_price,
+    ii.total_price,
+    COALESCE(ii.cost_per_unit, 0),
+    ii.unit_price - COALESCE(ii.cost_per_unit, 0),
+    (ii.unit_price - COALESCE(ii.cost_per_unit, 0)) * ii.quantity,
+    ii.costing_method,
+    v_invoice.created_at
+  FROM invoice_items ii
+  WHERE ii.invoice_id = v_invoice.id;
+
+  IF v_payments IS NOT NULL THEN
+    INSERT INTO payments (invoice_id, amount, method, reference, created_by)
+    SELECT
+      v_invoice.id,
+      ROUND((payment->>'amount')::NUMERIC, 2),
+      COALESCE(NULLIF(payment->>'method', ''), 'cash'),
+      NULLIF(payment->>'reference', ''),
+      auth.uid()
+    FROM jsonb_array_elements(v_payments) AS payment;
+  ELSIF v_paid > 0 THEN
+    INSERT INTO payments (invoice_id, amount, method, reference, created_by)
+    VALUES (
+      v_invoice.id,
+      v_paid,
+      COALESCE(NULLIF(p_invoice->>'payment_method', ''), 'cash'),
+      NULLIF(p_invoice->>'payment_reference', ''),
+      auth.uid()
+    );
+  END IF;
+
+  -- Also settles invoices with nothing to pay
+  PERFORM refresh_invoice_payment_status(v_invoice.id);
+  SELECT * INTO v_invoice FROM invoices WHERE id = v_invoice.id;
+
+  RETURN v_invoice;
+END;
+$$;
@@ -0,0 +1,150 @@
+/*
+  # Variant SKUs and Barcodes
+
+  1. Changes
+    - `products.sku` is generated when left blank: the first letters of the name and a running
+      number, e.g. KUR0042
+    - `products.barcode`, `product_inventory.barcode` (text, unique) - EAN-13 numbers for
+      labels. They start with 2, the GS1 prefix kept for in-store numbering, so they never
+      clash with a manufacturer's barcode
+    - `product_inventory.sku` (text, unique) - The product's SKU followed by the size and color,
+      e.g. KUR0042-XL-BLU
+    - Codes are only filled in when missing. A code that has been printed on a label is never
+      changed, even if the product, size or color is renamed later
+    - Existing products and variants are given codes
+    - Everyone signed in can read `products.barcode`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'barcode'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN barcode TEXT UNIQUE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'product_inventory' AND column_name = 'sku'
+  ) THEN
+    ALTER TABLE public.product_inventory ADD COLUMN sku TEXT UNIQUE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'product_inventory' AND column_name = 'barcode'
+  ) THEN
+    ALTER TABLE public.product_inventory ADD COLUMN barcode TEXT UNIQUE;
+  END IF;
+END $$;
+
+-- Products are readable column by column, so that cost prices stay hidden
+GRANT SELECT (barcode) ON public.products TO authenticated;
+
+CREATE SEQUENCE IF NOT EXISTS public.product_sku_seq;
+CREATE SEQUENCE IF NOT EXISTS public.store_barcode_seq;
+
+-- Letters and digits of a name, upper-cased and cut to a length, for building SKUs
+CREATE OR REPLACE FUNCTION public.sku_code(p_text TEXT, p_length INTEGER)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT UPPER(LEFT(REGEXP_REPLACE(COALESCE(p_text, ''), '[^A-Za-z0-9]', '', 'g'), p_length));
+$$;
+
+-- Next in-store EAN-13: 2, eleven digits from the sequence and the check digit
+CREATE OR REPLACE FUNCTION public.next_store_barcode()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_digits TEXT := '2' || LPAD(nextval('store_barcode_seq')::TEXT, 11, '0');
+  v_sum INTEGER := 0;
+BEGIN
+  FOR i IN 1..12 LOOP
+    v_sum := v_sum + SUBSTRING(v_digits FROM i FOR 1)::INTEGER * CASE WHEN i % 2 = 0 THEN 3 ELSE 1 END;
+  END LOOP;
+
+  RETURN v_digits || ((10 - v_sum % 10) % 10)::TEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.fill_product_codes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.sku IS NULL OR TRIM(NEW.sku) = '' THEN
+    NEW.sku := COALESCE(NULLIF(sku_code(NEW.name, 3), ''), 'PRD') || LPAD(nextval('product_sku_seq')::TEXT, 4, '0');
+  END IF;
+
+  IF NEW.barcode IS NULL OR TRIM(NEW.barcode) = '' THEN
+    NEW.barcode := next_store_barcode();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS fill_product_codes ON public.products;
+CREATE TRIGGER fill_product_codes
+  BEFORE INSERT OR UPDATE OF sku, barcode ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.fill_product_codes();
+
+CREATE OR REPLACE FUNCTION public.fill_variant_codes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_base TEXT;
+  v_sku TEXT;
+  v_suffix INTEGER := 1;
+BEGIN
+  IF NEW.sku IS NULL OR TRIM(NEW.sku) = '' THEN
+    SELECT CONCAT_WS(
+      '-',
+      p.sku,
+      NULLIF((SELECT sku_code(s.name, 6) FROM sizes s WHERE s.id = NEW.size_id), ''),
+      NULLIF((SELECT sku_code(c.name, 3) FROM colors c WHERE c.id = NEW.color_id), '')
+    )
+    INTO v_base
+    FROM products p
+    WHERE p.id = NEW.product_id;
+
+    -- Sizes or colors whose names share their first letters would collide
+    v_sku := v_base;
+    WHILE EXISTS (SELECT 1 FROM product_inventory WHERE sku = v_sku AND id IS DISTINCT FROM NEW.id) LOOP
+      v_suffix := v_suffix + 1;
+      v_sku := v_base || '-' || v_suffix;
+    END LOOP;
+
+    NEW.sku := v_sku;
+  END IF;
+
+  IF NEW.barcode IS NULL OR TRIM(NEW.barcode) = '' THEN
+    NEW.barcode := next_store_barcode();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS fill_variant_codes ON public.product_inventory;
+CREATE TRIGGER fill_variant_codes
+  BEFORE INSERT OR UPDATE OF sku, barcode ON public.product_inventory
+  FOR EACH ROW
+  EXECUTE FUNCTION public.fill_variant_codes();
+
+-- Products first, so variant SKUs are built from a product SKU
+UPDATE public.products SET barcode = NULL WHERE barcode IS NULL;
+UPDATE public.products SET sku = NULL WHERE TRIM(sku) = '';
+UPDATE public.product_inventory SET sku = NULL WHERE sku IS NULL OR barcode IS NULL;
@@ -0,0 +1,28 @@
+/*
+  # Receipt Printing Settings
+
+  1. Changes
+    - `store_settings.print_format`: How invoices are printed unless another format is picked
+      for a print: a4 (default), thermal_58 or thermal_80 for 58 mm and 80 mm receipt printers
+    - `store_settings.receipt_footer` (text): Printed at the bottom of thermal receipts, e.g.
+      the exchange policy
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'store_settings' AND column_name = 'print_format'
+  ) THEN
+    ALTER TABLE public.store_settings
+      ADD COLUMN print_format TEXT NOT NULL DEFAULT 'a4'
+      CHECK (print_format IN ('a4', 'thermal_58', 'thermal_80'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'store_settings' AND column_name = 'receipt_footer'
+  ) THEN
+    ALTER TABLE public.store_settings ADD COLUMN receipt_footer TEXT;
+  END IF;
+END $$;
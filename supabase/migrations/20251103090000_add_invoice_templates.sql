@@ -0,0 +1,20 @@
+/*
+  # Invoice Templates
+
+  1. Changes
+    - `store_settings.invoice_template`: Layout used for A4 invoices and credit notes: classic
+      (default), modern or minimal. The existing `invoice_font_family`, `invoice_primary_color`
+      and `invoice_secondary_color` settings apply to every template.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'store_settings' AND column_name = 'invoice_template'
+  ) THEN
+    ALTER TABLE public.store_settings
+      ADD COLUMN invoice_template TEXT NOT NULL DEFAULT 'classic'
+      CHECK (invoice_template IN ('classic', 'modern', 'minimal'));
+  END IF;
+END $$;
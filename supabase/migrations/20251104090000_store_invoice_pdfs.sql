@@ -0,0 +1,79 @@
+/*
+  # Stored Invoice PDFs
+
+  1. Changes
+    - The private `invoices` bucket is created if it is missing
+    - `invoices.pdf_url` holds the path of the invoice's PDF in that bucket. The PDF is rendered
+      when the invoice is saved and again when it is edited, each version as a new file under
+      `<invoice id>/`, so downloads and shared links show what the customer received even after
+      the store's settings change
+    - `invoices.pdf_settings` (jsonb): The store settings as they were when the invoice was saved
+      or last edited. The PDF is always rendered with them, so one that failed to upload is
+      stored as issued the next time it is downloaded or shared. Saving or editing an invoice
+      clears `pdf_url` until its new PDF is stored
+    - Existing invoices are given the current settings
+
+  2. Security
+    - Anyone who can make sales can upload invoice PDFs; only owners and admins could before
+    - Owners and admins can delete them, which happens when an invoice is deleted or cancelled
+    - The bucket stays private; PDFs are shared with expiring signed links
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'pdf_settings'
+  ) THEN
+    ALTER TABLE public.invoices ADD COLUMN pdf_settings JSONB;
+  END IF;
+END $$;
+
+-- Takes the store settings the invoice's PDF is to be rendered with
+CREATE OR REPLACE FUNCTION public.snapshot_invoice_pdf_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.pdf_settings := (SELECT to_jsonb(s) FROM store_settings s LIMIT 1);
+  NEW.pdf_url := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS snapshot_invoice_pdf_settings ON public.invoices;
+CREATE TRIGGER snapshot_invoice_pdf_settings
+  BEFORE INSERT OR UPDATE OF customer_name, customer_phone, subtotal, tax_amount, discount_amount, grand_total ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_invoice_pdf_settings();
+
+UPDATE public.invoices
+SET pdf_settings = (SELECT to_jsonb(s) FROM public.store_settings s LIMIT 1)
+WHERE pdf_settings IS NULL;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('invoices', 'invoices', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Anyone authenticated can view invoices" ON storage.objects;
+DROP POLICY IF EXISTS "Admins can upload invoices" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can view invoice PDFs" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload invoice PDFs" ON storage.objects;
+DROP POLICY IF EXISTS "Managers can delete invoice PDFs" ON storage.objects;
+
+CREATE POLICY "Authenticated users can view invoice PDFs"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'invoices');
+
+CREATE POLICY "Authenticated users can upload invoice PDFs"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'invoices');
+
+CREATE POLICY "Managers can delete invoice PDFs"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'invoices' AND public.is_admin_or_owner(auth.uid()));
@@ -0,0 +1,67 @@
+/*
+  # WhatsApp Messages
+
+  1. Changes
+    - `store_settings.whatsapp_invoice_message` (text): Message sent with an invoice on WhatsApp.
+      Placeholders such as {customer}, {total} and {link} are filled in by the app; null uses
+      the app's default message
+    - `store_settings.whatsapp_reminder_message` (text): Message for payment reminders, the same way
+    - `invoices.reminder_sent_at` (timestamptz): When a payment reminder was last sent
+    - `receivables` gains `reminder_sent_at`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'store_settings' AND column_name = 'whatsapp_invoice_message'
+  ) THEN
+    ALTER TABLE public.store_settings ADD COLUMN whatsapp_invoice_message TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'store_settings' AND column_name = 'whatsapp_reminder_message'
+  ) THEN
+    ALTER TABLE public.store_settings ADD COLUMN whatsapp_reminder_message TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'reminder_sent_at'
+  ) THEN
+    ALTER TABLE public.invoices ADD COLUMN reminder_sent_at TIMESTAMPTZ;
+  END IF;
+END $$;
+
+CREATE OR REPLACE VIEW public.receivables
+WITH (security_invoker = true)
+AS
+SELECT
+  i.id AS invoice_id,
+  i.invoice_number,
+  i.customer_id,
+  COALESCE(c.name, i.customer_name) AS customer_name,
+  i.customer_phone,
+  i.created_at,
+  i.expected_payment_date,
+  i.grand_total,
+  i.amount_paid,
+  COALESCE(cn.credited, 0) AS credited_amount,
+  i.grand_total - i.amount_paid - COALESCE(cn.credited, 0) AS balance_due,
+  (CURRENT_DATE - i.created_at::DATE) AS days_outstanding,
+  CASE
+    WHEN i.expected_payment_date < CURRENT_DATE THEN 'overdue'
+    ELSE i.payment_status
+  END AS payment_status,
+  i.reminder_sent_at
+FROM public.invoices i
+LEFT JOIN public.customers c ON c.id = i.customer_id
+LEFT JOIN (
+  SELECT invoice_id, SUM(total_amount) AS credited
+  FROM public.credit_notes
+  GROUP BY invoice_id
+) cn ON cn.invoice_id = i.id
+WHERE i.payment_status <> 'paid';
+
+GRANT SELECT ON public.receivables TO authenticated;
@@ -0,0 +1,26 @@
+/*
+  # UPI Payments
+
+  1. Changes
+    - `store_settings.upi_vpa` (text): UPI ID payments are collected on, e.g. store@okbank.
+      Invoices and the POS show a QR code for it with the amount filled in
+    - `store_settings.upi_payee_name` (text): Name the customer's UPI app shows for the payee;
+      the store name is used when empty
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'store_settings' AND column_name = 'upi_vpa'
+  ) THEN
+    ALTER TABLE public.store_settings ADD COLUMN upi_vpa TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'store_settings' AND column_name = 'upi_payee_name'
+  ) THEN
+    ALTER TABLE public.store_settings ADD COLUMN upi_payee_name TEXT;
+  END IF;
+END $$;
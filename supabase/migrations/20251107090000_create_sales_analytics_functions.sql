@@ -0,0 +1,145 @@
+/*
+  # Sales Analytics Functions
+
+  Reports used to download every sales record in a period and add them up in the browser,
+  which undercounts once a period has more rows than the API returns in one request. These
+  functions return the totals instead. Returns are negative sales records, so every total is
+  net of them.
+
+  1. Functions
+    - `sales_totals(p_start, p_end)`: Revenue, cost, profit, units and invoice count for sales
+      made between the two times, and the costing methods the sales were costed with
+    - `sales_by_period(p_start, p_end, p_interval, p_timezone)`: The same totals for each day,
+      week or month, counted in the store's time zone
+    - `sales_by_product(p_start, p_end)`: Totals for each product, best selling first. Sales of
+      deleted products are grouped by the name they were sold under
+    - `sales_by_category(p_start, p_end)`: Totals for each product category
+
+  2. Security
+    - Sales records can only be read by owners and admins, so the functions run as their
+      owner. Staff get null cost and profit
+*/
+
+CREATE OR REPLACE FUNCTION public.sales_totals(p_start TIMESTAMPTZ, p_end TIMESTAMPTZ)
+RETURNS TABLE (
+  revenue NUMERIC,
+  cost NUMERIC,
+  profit NUMERIC,
+  units INTEGER,
+  invoice_count INTEGER,
+  costing_methods TEXT[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(SUM(total_price), 0),
+    CASE WHEN is_admin_or_owner(auth.uid()) THEN COALESCE(SUM(cost_per_unit * quantity), 0) END,
+    CASE WHEN is_admin_or_owner(auth.uid()) THEN COALESCE(SUM(total_profit), 0) END,
+    COALESCE(SUM(quantity), 0)::INTEGER,
+    (COUNT(DISTINCT invoice_number) FILTER (WHERE credit_note_id IS NULL))::INTEGER,
+    COALESCE(ARRAY_AGG(DISTINCT costing_method), '{}')
+  FROM sales_records
+  WHERE sale_date >= p_start AND sale_date <= p_end;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sales_by_period(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_interval TEXT DEFAULT 'day',
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+)
+RETURNS TABLE (
+  period DATE,
+  revenue NUMERIC,
+  cost NUMERIC,
+  profit NUMERIC,
+  units INTEGER,
+  invoice_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    date_trunc(p_interval, sale_date AT TIME ZONE p_timezone)::DATE AS period,
+    COALESCE(SUM(total_price), 0),
+    CASE WHEN is_admin_or_owner(auth.uid()) THEN COALESCE(SUM(cost_per_unit * quantity), 0) END,
+    CASE WHEN is_admin_or_owner(auth.uid()) THEN COALESCE(SUM(total_profit), 0) END,
+    COALESCE(SUM(quantity), 0)::INTEGER,
+    (COUNT(DISTINCT invoice_number) FILTER (WHERE credit_note_id IS NULL))::INTEGER
+  FROM sales_records
+  WHERE sale_date >= p_start AND sale_date <= p_end
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sales_by_product(p_start TIMESTAMPTZ, p_end TIMESTAMPTZ)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  units INTEGER,
+  revenue NUMERIC,
+  cost NUMERIC,
+  profit NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    sr.product_id,
+    -- The name it was last sold under
+    (ARRAY_AGG(sr.product_name ORDER BY sr.sale_date DESC))[1],
+    COALESCE(SUM(sr.quantity), 0)::INTEGER,
+    COALESCE(SUM(sr.total_price), 0),
+    CASE WHEN is_admin_or_owner(auth.uid()) THEN COALESCE(SUM(sr.cost_per_unit * sr.quantity), 0) END,
+    CASE WHEN is_admin_or_owner(auth.uid()) THEN COALESCE(SUM(sr.total_profit), 0) END
+  FROM sales_records sr
+  WHERE sr.sale_date >= p_start AND sr.sale_date <= p_end
+  GROUP BY sr.product_id, CASE WHEN sr.product_id IS NULL THEN sr.product_name END
+  ORDER BY 4 DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sales_by_category(p_start TIMESTAMPTZ, p_end TIMESTAMPTZ)
+RETURNS TABLE (
+  category_id UUID,
+  category_name TEXT,
+  units INTEGER,
+  revenue NUMERIC,
+  cost NUMERIC,
+  profit NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.name,
+    COALESCE(SUM(sr.quantity), 0)::INTEGER,
+    COALESCE(SUM(sr.total_price), 0),
+    CASE WHEN is_admin_or_owner(auth.uid()) THEN COALESCE(SUM(sr.cost_per_unit * sr.quantity), 0) END,
+    CASE WHEN is_admin_or_owner(auth.uid()) THEN COALESCE(SUM(sr.total_profit), 0) END
+  FROM sales_records sr
+  LEFT JOIN products p ON p.id = sr.product_id
+  LEFT JOIN categories c ON c.id = p.category_id
+  WHERE sr.sale_date >= p_start AND sr.sale_date <= p_end
+  GROUP BY c.id, c.name
+  ORDER BY 4 DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sales_totals(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.sales_by_period(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.sales_by_product(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.sales_by_category(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.sales_totals(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sales_by_period(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sales_by_product(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sales_by_category(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
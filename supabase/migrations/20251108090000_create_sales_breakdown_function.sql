@@ -0,0 +1,105 @@
+/*
+  # Sales Breakdown Function
+
+  Buyers reorder by size and color, so they need to see which sizes, colors and categories sell
+  and how much of each is still on the shelf.
+
+  1. Functions
+    - `sales_breakdown(p_start, p_end, p_group, p_products)`: Units, revenue, cost and profit for
+      sales made between the two times, grouped by `category`, `size`, `color` or
+      `product_size`, with the stock on hand in each group now. Groups with stock but no sales
+      in the period are included, so slow sizes and colors show up with no units sold.
+      `product_size` covers the `p_products` products with the most units sold in the period.
+      Sizes come with their sort order so they can be listed smallest first. Any other
+      `p_group` raises an exception.
+
+  2. Security
+    - Sales records can only be read by owners and admins, so the function runs as its owner.
+      Staff get null cost and profit
+*/
+
+CREATE OR REPLACE FUNCTION public.sales_breakdown(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_group TEXT,
+  p_products INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  group_name TEXT,
+  size_sort_order INTEGER,
+  units INTEGER,
+  revenue NUMERIC,
+  cost NUMERIC,
+  profit NUMERIC,
+  stock INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF p_group IS NULL OR p_group NOT IN ('category', 'size', 'color', 'product_size') THEN
+    RAISE EXCEPTION 'Unknown sales breakdown group "%"', p_group;
+  END IF;
+
+  RETURN QUERY
+  WITH top_products AS (
+    SELECT sr.product_id
+    FROM sales_records sr
+    WHERE sr.sale_date >= p_start AND sr.sale_date <= p_end AND sr.product_id IS NOT NULL
+    GROUP BY sr.product_id
+    ORDER BY SUM(sr.quantity) DESC
+    LIMIT p_products
+  ),
+  grouped AS (
+    SELECT
+      CASE WHEN p_group = 'product_size' THEN sr.product_id END AS product_id,
+      CASE p_group WHEN 'category' THEN c.name WHEN 'color' THEN sr.color_name ELSE sr.size_name END AS group_name,
+      sr.quantity AS units,
+      sr.total_price AS revenue,
+      sr.cost_per_unit * sr.quantity AS cost,
+      sr.total_profit AS profit,
+      0 AS stock
+    FROM sales_records sr
+    LEFT JOIN products p ON p.id = sr.product_id
+    LEFT JOIN categories c ON c.id = p.category_id
+    WHERE sr.sale_date >= p_start AND sr.sale_date <= p_end
+      AND (p_group <> 'product_size' OR sr.product_id IN (SELECT tp.product_id FROM top_products tp))
+    UNION ALL
+    SELECT
+      CASE WHEN p_group = 'product_size' THEN sl.product_id END,
+      CASE p_group WHEN 'category' THEN c.name WHEN 'color' THEN sl.color_name ELSE sl.size_name END,
+      0,
+      0,
+      0,
+      0,
+      sl.quantity
+    FROM product_stock_levels sl
+    JOIN products p ON p.id = sl.product_id
+    LEFT JOIN categories c ON c.id = p.category_id
+    WHERE p_group <> 'product_size' OR sl.product_id IN (SELECT tp.product_id FROM top_products tp)
+  )
+  SELECT
+    g.product_id,
+    MIN(p.name),
+    g.group_name,
+    MIN(s.sort_order),
+    COALESCE(SUM(g.units), 0)::INTEGER,
+    COALESCE(SUM(g.revenue), 0),
+    CASE WHEN is_admin_or_owner(auth.uid()) THEN COALESCE(SUM(g.cost), 0) END,
+    CASE WHEN is_admin_or_owner(auth.uid()) THEN COALESCE(SUM(g.profit), 0) END,
+    COALESCE(SUM(g.stock), 0)::INTEGER
+  FROM grouped g
+  LEFT JOIN products p ON p.id = g.product_id
+  LEFT JOIN sizes s ON p_group IN ('size', 'product_size') AND s.name = g.group_name
+  GROUP BY g.product_id, g.group_name
+  ORDER BY 6 DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sales_breakdown(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.sales_breakdown(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER) TO authenticated;
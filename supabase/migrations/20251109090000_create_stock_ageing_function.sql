@@ -0,0 +1,98 @@
+/*
+  # Stock Ageing Function
+
+  The low stock alert shows what is about to run out, but nothing shows stock that has stopped
+  selling and is tying up cash.
+
+  1. Functions
+    - `stock_ageing()`: Every product with stock on hand, with
+      - `stock_value`: The stock at cost, by the store's costing method: the remaining cost
+        layers under FIFO, or the stock at `products.average_cost` under weighted average
+      - `created_at`, `last_received_at` (the last purchase received) and `oldest_stock_at` (when
+        the oldest stock still on hand came in)
+      - `last_sold_at`: The last sale, not counting returns
+      - `units_sold_90_days`: Units sold in the last 90 days, net of returns
+      Products that have gone longest without selling come first.
+
+  2. Security
+    - Only owners and admins can call the function. It runs as its owner, as cost prices
+      can't be read from products directly
+*/
+
+CREATE OR REPLACE FUNCTION public.stock_ageing()
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  sku TEXT,
+  category_name TEXT,
+  stock INTEGER,
+  price NUMERIC,
+  unit_cost NUMERIC,
+  stock_value NUMERIC,
+  created_at TIMESTAMPTZ,
+  last_received_at TIMESTAMPTZ,
+  oldest_stock_at TIMESTAMPTZ,
+  last_sold_at TIMESTAMPTZ,
+  units_sold_90_days INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_admin_or_owner(auth.uid()) THEN
+    RAISE EXCEPTION 'Only owners and admins can see stock ageing';
+  END IF;
+
+  RETURN QUERY
+  WITH layers AS (
+    SELECT
+      cl.product_id,
+      MAX(cl.received_at) FILTER (WHERE cl.source = 'purchase') AS last_received_at,
+      MIN(cl.received_at) FILTER (WHERE cl.quantity_remaining > 0) AS oldest_stock_at,
+      SUM(cl.quantity_remaining * cl.unit_cost) FILTER (WHERE cl.quantity_remaining > 0) AS remaining_value
+    FROM cost_layers cl
+    GROUP BY cl.product_id
+  ),
+  sales AS (
+    SELECT
+      sr.product_id,
+      MAX(sr.sale_date) FILTER (WHERE sr.quantity > 0) AS last_sold_at,
+      COALESCE(SUM(sr.quantity) FILTER (WHERE sr.sale_date >= now() - INTERVAL '90 days'), 0) AS units_sold_90_days
+    FROM sales_records sr
+    WHERE sr.product_id IS NOT NULL
+    GROUP BY sr.product_id
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.sku,
+    c.name,
+    p.quantity_in_stock,
+    p.price_inr,
+    COALESCE(p.average_cost, p.cost_inr, 0),
+    CASE
+      WHEN current_costing_method() = 'fifo' AND l.remaining_value IS NOT NULL THEN l.remaining_value
+      ELSE p.quantity_in_stock * COALESCE(p.average_cost, p.cost_inr, 0)
+    END,
+    p.created_at,
+    l.last_received_at,
+    l.oldest_stock_at,
+    s.last_sold_at,
+    COALESCE(s.units_sold_90_days, 0)::INTEGER
+  FROM products p
+  LEFT JOIN categories c ON c.id = p.category_id
+  LEFT JOIN layers l ON l.product_id = p.id
+  LEFT JOIN sales s ON s.product_id = p.id
+  WHERE p.quantity_in_stock > 0
+  ORDER BY COALESCE(s.last_sold_at, l.oldest_stock_at, p.created_at);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.stock_ageing() TO authenticated;
@@ -0,0 +1,100 @@
+/*
+  # Import Product Function
+
+  A product in a catalogue import was saved with several requests: the product itself, its
+  size prices and its stock. One failing part-way left the product half saved, for example
+  with its size prices deleted.
+
+  1. Functions
+    - `import_product(p_product, p_product_id, p_size_prices, p_stock, p_notes)`: Saves one
+      imported product in a single transaction
+      - `p_product`: The product columns to set; columns left out keep their value
+      - `p_product_id`: The product to update, or null to create one
+      - `p_size_prices`: Replaces the product's size prices (`size_id`, `price_inr`) when given
+      - `p_stock`: Sets the stock through `set_product_stock` when given, as `quantity`,
+        `variants` and `expected_quantity`. New products get `opening` movements, existing
+        ones `adjustment` movements with `p_notes`
+      Returns the saved product.
+
+  2. Security
+    - Only owners and admins can import. The function runs as its owner, as cost prices can't
+      be read from products directly
+*/
+
+CREATE OR REPLACE FUNCTION public.import_product(
+  p_product JSONB,
+  p_product_id UUID DEFAULT NULL,
+  p_size_prices JSONB DEFAULT NULL,
+  p_stock JSONB DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_admin_or_owner(auth.uid()) THEN
+    RAISE EXCEPTION 'Only owners and admins can import products';
+  END IF;
+
+  IF p_product_id IS NULL THEN
+    INSERT INTO products (
+      name, sku, description, category_id, hsn_code, price_inr, cost_inr, image_url, size_ids, color_ids
+    )
+    SELECT r.name, r.sku, r.description, r.category_id, r.hsn_code, r.price_inr, r.cost_inr, r.image_url, r.size_ids, r.color_ids
+    FROM jsonb_populate_record(NULL::public.products, p_product) AS r
+    RETURNING * INTO v_product;
+  ELSE
+    SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found';
+    END IF;
+
+    UPDATE products p
+    SET name = r.name,
+        sku = r.sku,
+        description = r.description,
+        category_id = r.category_id,
+        hsn_code = r.hsn_code,
+        price_inr = r.price_inr,
+        cost_inr = r.cost_inr,
+        image_url = r.image_url,
+        size_ids = r.size_ids,
+        color_ids = r.color_ids,
+        updated_at = now()
+    FROM jsonb_populate_record(v_product, p_product) AS r
+    WHERE p.id = p_product_id
+    RETURNING p.* INTO v_product;
+  END IF;
+
+  IF p_size_prices IS NOT NULL THEN
+    DELETE FROM product_size_prices WHERE product_id = v_product.id;
+
+    INSERT INTO product_size_prices (product_id, size_id, price_inr)
+    SELECT v_product.id, sp.size_id, sp.price_inr
+    FROM jsonb_to_recordset(p_size_prices) AS sp(size_id UUID, price_inr NUMERIC);
+  END IF;
+
+  IF p_stock IS NOT NULL THEN
+    v_product := set_product_stock(
+      v_product.id,
+      COALESCE((p_stock->>'quantity')::INTEGER, 0),
+      COALESCE(p_stock->'variants', '[]'::JSONB),
+      CASE WHEN p_product_id IS NULL THEN 'opening' ELSE 'adjustment' END,
+      CASE WHEN p_product_id IS NULL THEN NULL ELSE p_notes END,
+      (p_stock->>'expected_quantity')::INTEGER
+    );
+  END IF;
+
+  RETURN v_product;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_product(JSONB, UUID, JSONB, JSONB, TEXT) TO authenticated;